@@ -0,0 +1,200 @@
+// Local stand-in for the Case.dev API, for developing and testing offline.
+//
+//   npm run mock:case-api
+//   CASEDEV_API_URL=http://localhost:4010 CASEDEV_API_KEY=local npm run dev
+//
+// Implements the Vault and Voice endpoints used by src/lib/case-api.ts. Uploaded objects move from
+// "processing" to "completed" after MOCK_PROCESSING_MS; the "OCR" text is the file's bytes
+// decoded as UTF-8 when they look like text, or a placeholder for binary files.
+// Transcription jobs complete after the same delay. Their transcript is the uploaded audio
+// decoded the same way (so a text file can stand in for speech), labelled as speaker A, and
+// the job's webhook_url is called when it finishes. Word timings assume a one-second lead-in and
+// 400ms per word; "..." in the text becomes a three-second pause.
+
+import http from 'node:http';
+import { randomUUID } from 'node:crypto';
+
+const PORT = Number(process.env.MOCK_CASE_API_PORT || 4010);
+const PROCESSING_MS = Number(process.env.MOCK_PROCESSING_MS || 2000);
+const BASE_URL = `http://localhost:${PORT}`;
+
+const vaults = new Map();
+const objects = new Map();
+const transcriptions = new Map();
+
+function sendJson(res, status, body) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+async function readBody(req) {
+  const chunks = [];
+  for await (const chunk of req) chunks.push(chunk);
+  return Buffer.concat(chunks);
+}
+
+async function readJson(req) {
+  const body = await readBody(req);
+  return body.length ? JSON.parse(body.toString('utf8')) : {};
+}
+
+// Treat the upload as text if it decodes cleanly and has no control characters besides whitespace
+function decodeText(object) {
+  const text = object.data.toString('utf8');
+  const looksLikeText = !text.includes('�') && !/[\x00-\x08\x0E-\x1F]/.test(text);
+  return looksLikeText ? text : null;
+}
+
+function ocrText(object) {
+  return decodeText(object) ?? `[Mock OCR text for ${object.filename}]`;
+}
+
+// "Transcribe" the object behind an audio URL served by this mock
+function transcribe(audioUrl) {
+  const objectId = String(audioUrl).match(/\/_uploads\/([^/?]+)/)?.[1];
+  const object = objectId ? objects.get(objectId) : undefined;
+  const text = (object?.data && decodeText(object)?.trim()) || `[Mock transcription of ${object?.filename || 'recording'}]`;
+  let time = 1000;
+  const words = [];
+  for (const token of text.split(/\s+/).filter(Boolean)) {
+    if (token.replace(/\.{3}|…/g, '').trim() === '') {
+      time += 3000;
+      continue;
+    }
+    words.push({ speaker: 'A', text: token.replace(/\.{3}|…/g, ''), start: time, end: time + 350 });
+    time += token.match(/\.{3}|…$/) ? 3400 : 400;
+  }
+  // Utterances are sentences of the timed words
+  const utterances = [];
+  let current = null;
+  for (const word of words) {
+    if (!current) {
+      current = { speaker: 'A', text: word.text, start: word.start, end: word.end };
+      utterances.push(current);
+    } else {
+      current.text += ` ${word.text}`;
+      current.end = word.end;
+    }
+    if (/[.!?]$/.test(word.text)) current = null;
+  }
+  const transcript = words.map(word => word.text).join(' ') || text;
+  return { text: transcript, utterances, words };
+}
+
+async function notifyWebhook(job) {
+  if (!job.webhook_url) return;
+  try {
+    await fetch(job.webhook_url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ transcript_id: job.id, status: job.status }),
+    });
+  } catch (error) {
+    console.error(`Webhook ${job.webhook_url} failed:`, error.message);
+  }
+}
+
+const routes = [
+  ['POST', /^\/vault$/, async (req, res) => {
+    const { name, description } = await readJson(req);
+    const vault = { id: randomUUID(), name, description, createdAt: new Date().toISOString() };
+    vaults.set(vault.id, vault);
+    sendJson(res, 200, vault);
+  }],
+
+  ['POST', /^\/vault\/([^/]+)\/upload$/, async (req, res, [vaultId]) => {
+    if (!vaults.has(vaultId)) return sendJson(res, 404, { error: 'Vault not found' });
+    const { filename, contentType, metadata } = await readJson(req);
+    const objectId = randomUUID();
+    objects.set(objectId, { id: objectId, vaultId, filename, contentType, metadata, ingestionStatus: 'pending', data: null });
+    sendJson(res, 200, { objectId, uploadUrl: `${BASE_URL}/_uploads/${objectId}` });
+  }],
+
+  ['PUT', /^\/_uploads\/([^/]+)$/, async (req, res, [objectId]) => {
+    const object = objects.get(objectId);
+    if (!object) return sendJson(res, 404, { error: 'Upload not found' });
+    object.data = await readBody(req);
+    object.ingestionStatus = 'processing';
+    setTimeout(() => {
+      object.ingestionStatus = 'completed';
+    }, PROCESSING_MS);
+    res.writeHead(200);
+    res.end();
+  }],
+
+  ['GET', /^\/vault\/([^/]+)\/objects\/([^/]+)$/, async (req, res, [vaultId, objectId]) => {
+    const object = objects.get(objectId);
+    if (!object || object.vaultId !== vaultId) return sendJson(res, 404, { error: 'Object not found' });
+    const { data, ...rest } = object;
+    sendJson(res, 200, { ...rest, size: data?.length ?? 0, downloadUrl: `${BASE_URL}/_uploads/${objectId}` });
+  }],
+
+  ['GET', /^\/_uploads\/([^/]+)$/, async (req, res, [objectId]) => {
+    const object = objects.get(objectId);
+    if (!object?.data) return sendJson(res, 404, { error: 'Upload not found' });
+    res.writeHead(200, { 'Content-Type': object.contentType || 'application/octet-stream' });
+    res.end(object.data);
+  }],
+
+  ['GET', /^\/vault\/([^/]+)\/objects\/([^/]+)\/text$/, async (req, res, [vaultId, objectId]) => {
+    const object = objects.get(objectId);
+    if (!object || object.vaultId !== vaultId) return sendJson(res, 404, { error: 'Object not found' });
+    if (object.ingestionStatus !== 'completed') return sendJson(res, 409, { error: 'Object is still processing' });
+    sendJson(res, 200, { objectId, text: ocrText(object) });
+  }],
+
+  ['POST', /^\/vault\/([^/]+)\/search$/, async (req, res, [vaultId]) => {
+    const { query = '', limit = 10 } = await readJson(req);
+    const terms = String(query).toLowerCase().split(/\s+/).filter(Boolean);
+    const chunks = [];
+    for (const object of objects.values()) {
+      if (object.vaultId !== vaultId || object.ingestionStatus !== 'completed') continue;
+      for (const paragraph of ocrText(object).split(/\n\s*\n/)) {
+        const lower = paragraph.toLowerCase();
+        const score = terms.filter(term => lower.includes(term)).length;
+        if (score > 0) chunks.push({ objectId: object.id, filename: object.filename, text: paragraph.trim(), score });
+      }
+    }
+    chunks.sort((a, b) => b.score - a.score);
+    sendJson(res, 200, { chunks: chunks.slice(0, limit) });
+  }],
+
+  ['POST', /^\/voice\/transcription$/, async (req, res) => {
+    const { audio_url, speaker_labels, webhook_url } = await readJson(req);
+    if (!audio_url) return sendJson(res, 400, { error: 'audio_url is required' });
+    const job = { id: randomUUID(), status: 'queued', audio_url, speaker_labels, webhook_url };
+    transcriptions.set(job.id, job);
+    setTimeout(() => {
+      Object.assign(job, { status: 'completed' }, transcribe(audio_url));
+      notifyWebhook(job);
+    }, PROCESSING_MS);
+    sendJson(res, 200, { id: job.id, status: job.status });
+  }],
+
+  ['GET', /^\/voice\/transcription\/([^/]+)$/, async (req, res, [transcriptionId]) => {
+    const job = transcriptions.get(transcriptionId);
+    if (!job) return sendJson(res, 404, { error: 'Transcription not found' });
+    sendJson(res, 200, job);
+  }],
+];
+
+const server = http.createServer(async (req, res) => {
+  const url = new URL(req.url, BASE_URL);
+  try {
+    for (const [method, pattern, handler] of routes) {
+      const match = url.pathname.match(pattern);
+      if (req.method === method && match) {
+        await handler(req, res, match.slice(1), url);
+        return;
+      }
+    }
+    sendJson(res, 404, { error: `No mock route for ${req.method} ${url.pathname}` });
+  } catch (error) {
+    console.error(error);
+    sendJson(res, 500, { error: 'Mock server error' });
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`Mock Case.dev API listening on ${BASE_URL}`);
+});
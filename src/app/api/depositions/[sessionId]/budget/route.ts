@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDepositionSession } from '@/lib/deposition-store';
+import { buildTimeBudget, getTimeLimitMinutes, parseTimeLimit } from '@/lib/time-budget';
+
+interface RouteParams {
+  params: Promise<{ sessionId: string }>;
+}
+
+// GET /api/depositions/[sessionId]/budget - Time budget for the outline against the time limit
+// ?timeLimitMinutes= checks against another limit without saving it on the session
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { sessionId } = await params;
+    const session = getDepositionSession(sessionId);
+    
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Deposition session not found' },
+        { status: 404 }
+      );
+    }
+    
+    let limitMinutes = getTimeLimitMinutes(session);
+    const override = request.nextUrl.searchParams.get('timeLimitMinutes');
+    if (override !== null) {
+      const parsed = parseTimeLimit(override);
+      if ('error' in parsed) {
+        return NextResponse.json(
+          { error: parsed.error },
+          { status: 400 }
+        );
+      }
+      limitMinutes = parsed.minutes;
+    }
+    
+    return NextResponse.json({
+      timeBudget: buildTimeBudget(session, limitMinutes),
+    });
+  } catch (error) {
+    console.error('Error building time budget:', error);
+    return NextResponse.json(
+      { error: 'Failed to build time budget' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,7 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { v4 as uuidv4 } from 'uuid';
-import { getDepositionSession, addDepositionDocument, updateDepositionDocument, serializeDepositionSession } from '@/lib/deposition-store';
+import { getDepositionSession, addDepositionDocument, updateDepositionDocument, updateDepositionSession, serializeDepositionSession } from '@/lib/deposition-store';
 import { DepositionDocument } from '@/lib/deposition-types';
+import { extractDocumentText } from '@/lib/text-extraction';
+import { parseTranscript } from '@/lib/transcript-parser';
+import { isVaultIngestionEnabled, ensureSessionVault, uploadToVault, checkVaultProcessing, getVaultCheckFailureUpdates } from '@/lib/vault-ingestion';
 
 // File size limit: 10MB
 const MAX_FILE_SIZE = 10 * 1024 * 1024;
@@ -28,7 +31,8 @@ function determineDocumentType(filename: string, content: string): DepositionDoc
   // Check for transcript indicators
   if (lowerName.includes('transcript') || lowerName.includes('deposition') || 
       lowerContent.includes('q:') || lowerContent.includes('a:') ||
-      lowerContent.includes('question:') || lowerContent.includes('answer:')) {
+      lowerContent.includes('question:') || lowerContent.includes('answer:') ||
+      /^\s*\d{0,2}\s+Q\.\s/m.test(content)) {
     return 'transcript';
   }
   
@@ -53,7 +57,7 @@ function determineDocumentType(filename: string, content: string): DepositionDoc
 }
 
 // Extract metadata from document content
-function extractMetadata(filename: string, content: string): DepositionDocument['metadata'] {
+function extractMetadata(filename: string, content: string, pageCount?: number): DepositionDocument['metadata'] {
   const metadata: DepositionDocument['metadata'] = {};
   
   // Try to extract witness name
@@ -68,9 +72,8 @@ function extractMetadata(filename: string, content: string): DepositionDocument[
     metadata.date = dateMatch[1].trim();
   }
   
-  // Estimate page count (rough estimate based on content length)
-  const estimatedPages = Math.max(1, Math.ceil(content.length / 3000));
-  metadata.pageCount = estimatedPages;
+  // Use the real page count when the extractor found pages, otherwise estimate from content length
+  metadata.pageCount = pageCount || Math.max(1, Math.ceil(content.length / 3000));
   
   // Source from filename
   metadata.source = filename;
@@ -78,6 +81,24 @@ function extractMetadata(filename: string, content: string): DepositionDocument[
   return metadata;
 }
 
+// Parse transcripts into Q/A segments with page:line citations; other document types are left as flat text
+function parseTranscriptSegments(
+  type: DepositionDocument['type'],
+  content: string,
+  metadata: DepositionDocument['metadata']
+): Pick<DepositionDocument, 'segments' | 'metadata'> {
+  if (type !== 'transcript' || !content) return { metadata };
+  
+  const transcript = parseTranscript(content, { witnessName: metadata?.witness });
+  return {
+    segments: transcript.segments,
+    metadata: {
+      ...metadata,
+      pageCount: transcript.pageCount || metadata?.pageCount,
+    },
+  };
+}
+
 // POST /api/depositions/[sessionId]/documents - Add a document to deposition session
 export async function POST(request: NextRequest, { params }: RouteParams) {
   try {
@@ -121,23 +142,23 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
       );
     }
     
-    // Read file content for text-based files
+    // Extract text locally first - this covers TXT, DOCX and PDFs with a text layer
     let content = '';
-    if (file.type === 'text/plain' || file.name.endsWith('.txt')) {
-      content = await file.text();
-    } else if (file.type === 'application/pdf' || file.name.endsWith('.pdf')) {
-      // For PDFs, we'd normally use OCR via Vaults API
-      // For now, store a placeholder - in production, upload to Vault for OCR
-      content = `[PDF Document: ${file.name}]`;
-    } else if (file.type.includes('word') || file.name.endsWith('.docx') || file.name.endsWith('.doc')) {
-      content = `[Word Document: ${file.name}]`;
+    let pages: DepositionDocument['pages'];
+    let extractionError: string | undefined;
+    try {
+      const extracted = await extractDocumentText(file);
+      content = extracted.content;
+      pages = extracted.pages;
+    } catch (extractError) {
+      extractionError = extractError instanceof Error ? extractError.message : 'Failed to parse document';
     }
     
     // Determine document type
     const type = (documentType as DepositionDocument['type']) || determineDocumentType(file.name, content);
     
-    // Extract metadata
-    const metadata = extractMetadata(file.name, content);
+    // Extract metadata and, for transcripts, testimony segments
+    const { segments, metadata } = parseTranscriptSegments(type, content, extractMetadata(file.name, content, pages?.length));
     
     // Create document record
     const document: DepositionDocument = {
@@ -154,23 +175,50 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
     // Add document to session
     addDepositionDocument(sessionId, document);
     
-    // Update document with content and mark as ready
-    updateDepositionDocument(sessionId, document.id, {
-      content,
-      status: 'ready',
-    });
+    // Send the original file to the session's vault for OCR and indexing
+    let objectId: string | undefined;
+    let vaultId: string | undefined;
+    if (isVaultIngestionEnabled()) {
+      try {
+        vaultId = await ensureSessionVault(sessionId, {
+          getVaultId: () => getDepositionSession(sessionId)?.vaultId,
+          saveVaultId: id => updateDepositionSession(sessionId, { vaultId: id }),
+          name: `${session.caseName} - ${session.deponentName}`,
+          description: `Deposition prep session ${sessionId}`,
+        });
+        objectId = await uploadToVault(vaultId, file, { sessionId, documentId: document.id, documentType: type });
+      } catch (vaultError) {
+        console.error('Vault upload failed:', vaultError);
+      }
+    }
+    
+    // Local text wins when available; otherwise wait for the vault's OCR'd text
+    let updates: Partial<DepositionDocument>;
+    if (!extractionError) {
+      updates = { content, pages, segments, objectId, vaultId: objectId ? vaultId : undefined, status: 'ready' };
+    } else if (objectId) {
+      updates = { objectId, vaultId, status: 'processing' };
+    } else {
+      updates = { status: 'error', error: extractionError };
+    }
+    
+    updateDepositionDocument(sessionId, document.id, updates);
     
     const updatedSession = getDepositionSession(sessionId);
+    const failed = updates.status === 'error';
     
-    return NextResponse.json({
-      document: {
-        ...document,
-        content,
-        status: 'ready',
-        uploadedAt: document.uploadedAt.toISOString(),
+    return NextResponse.json(
+      {
+        ...(failed ? { error: updates.error } : {}),
+        document: {
+          ...document,
+          ...updates,
+          uploadedAt: document.uploadedAt.toISOString(),
+        },
+        session: updatedSession ? serializeDepositionSession(updatedSession) : null,
       },
-      session: updatedSession ? serializeDepositionSession(updatedSession) : null,
-    });
+      { status: failed ? 422 : 200 }
+    );
   } catch (error) {
     console.error('Error uploading document:', error);
     return NextResponse.json(
@@ -180,10 +228,49 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
   }
 }
 
+// Poll the vault for documents still waiting on OCR and store their text once ready
+async function refreshProcessingDocuments(sessionId: string): Promise<void> {
+  const session = getDepositionSession(sessionId);
+  if (!session) return;
+  
+  const pending = session.documents.filter(doc => doc.status === 'processing' && doc.objectId);
+  for (const doc of pending) {
+    // Each document is polled in the vault it was uploaded to
+    const vaultId = doc.vaultId || session.vaultId;
+    if (!vaultId) continue;
+    try {
+      const result = await checkVaultProcessing(vaultId, doc.objectId!);
+      if (result.status !== 'processing') {
+        updateDepositionDocument(sessionId, doc.id, {
+          content: result.content,
+          pages: result.pages,
+          status: result.status,
+          error: result.error,
+          vaultCheckFailures: undefined,
+          // Metadata and segments were extracted from empty content at upload time
+          ...(result.content
+            ? parseTranscriptSegments(doc.type, result.content, extractMetadata(doc.name, result.content, result.pages?.length))
+            : {}),
+        });
+      } else if (doc.vaultCheckFailures) {
+        updateDepositionDocument(sessionId, doc.id, { vaultCheckFailures: undefined });
+      }
+    } catch (vaultError) {
+      console.error('Failed to check vault processing status:', vaultError);
+      updateDepositionDocument(sessionId, doc.id, getVaultCheckFailureUpdates(doc.vaultCheckFailures));
+    }
+  }
+}
+
 // GET /api/depositions/[sessionId]/documents - List documents in deposition session
 export async function GET(request: NextRequest, { params }: RouteParams) {
   try {
     const { sessionId } = await params;
+    
+    if (isVaultIngestionEnabled()) {
+      await refreshProcessingDocuments(sessionId);
+    }
+    
     const session = getDepositionSession(sessionId);
     
     if (!session) {
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDepositionSession } from '@/lib/deposition-store';
+import { buildExhibitCopy } from '@/lib/exhibit-export';
+import { getReportFilename, REPORT_CONTENT_TYPES } from '@/lib/report-document';
+
+interface RouteParams {
+  params: Promise<{ sessionId: string; exhibitId: string }>;
+}
+
+// GET /api/depositions/[sessionId]/exhibits/[exhibitId]/export - Download the exhibit's original PDF
+// from the vault with its label stamped on every page. Documents without a PDF original in the vault
+// come back as a stamped text rendition; X-Exhibit-Copy says which one was sent.
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { sessionId, exhibitId } = await params;
+    const session = getDepositionSession(sessionId);
+    
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Deposition session not found' },
+        { status: 404 }
+      );
+    }
+    
+    let copy: Awaited<ReturnType<typeof buildExhibitCopy>>;
+    try {
+      copy = await buildExhibitCopy(session, exhibitId);
+    } catch (vaultError) {
+      console.error('Failed to stamp exhibit original:', vaultError);
+      return NextResponse.json(
+        { error: 'Could not fetch and stamp the original from the vault' },
+        { status: 502 }
+      );
+    }
+    if (!copy) {
+      return NextResponse.json(
+        { error: 'Exhibit not found' },
+        { status: 404 }
+      );
+    }
+    
+    const filename = getReportFilename(`${copy.label}${copy.source === 'text-rendition' ? ' text rendition' : ''}`, session.deponentName, 'pdf')
+      .replace(/[^A-Za-z0-9.-]+/g, '-')
+      .toLowerCase();
+    
+    return new NextResponse(Buffer.from(copy.file), {
+      headers: {
+        'Content-Type': REPORT_CONTENT_TYPES.pdf,
+        'Content-Disposition': `attachment; filename="${filename}"`,
+        'Cache-Control': 'no-store',
+        'X-Exhibit-Copy': copy.source,
+        ...(copy.notice ? { 'X-Exhibit-Copy-Notice': copy.notice } : {}),
+      },
+    });
+  } catch (error) {
+    console.error('Error exporting exhibit:', error);
+    return NextResponse.json(
+      { error: 'Failed to export exhibit' },
+      { status: 500 }
+    );
+  }
+}
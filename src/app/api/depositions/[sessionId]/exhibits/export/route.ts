@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDepositionSession } from '@/lib/deposition-store';
+import { buildExhibitList } from '@/lib/exhibit-export';
+import { getReportFilename, parseReportFormat, renderReport, REPORT_CONTENT_TYPES } from '@/lib/report-document';
+
+interface RouteParams {
+  params: Promise<{ sessionId: string }>;
+}
+
+// GET /api/depositions/[sessionId]/exhibits/export - Download the exhibit list
+// Query: format=pdf|docx|txt (default pdf)
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { sessionId } = await params;
+    const session = getDepositionSession(sessionId);
+    
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Deposition session not found' },
+        { status: 404 }
+      );
+    }
+    
+    const parsed = parseReportFormat(request.nextUrl.searchParams.get('format'));
+    if ('error' in parsed) {
+      return NextResponse.json(
+        { error: parsed.error },
+        { status: 400 }
+      );
+    }
+    
+    if (!session.exhibits || session.exhibits.length === 0) {
+      return NextResponse.json(
+        { error: 'Mark exhibits before exporting the exhibit list' },
+        { status: 400 }
+      );
+    }
+    
+    const { format } = parsed;
+    const file = await renderReport(buildExhibitList(session), format);
+    const filename = getReportFilename('exhibit-list', session.deponentName, format);
+    
+    return new NextResponse(Buffer.from(file), {
+      headers: {
+        'Content-Type': REPORT_CONTENT_TYPES[format],
+        'Content-Disposition': `attachment; filename="${filename}"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    console.error('Error exporting exhibit list:', error);
+    return NextResponse.json(
+      { error: 'Failed to export exhibit list' },
+      { status: 500 }
+    );
+  }
+}
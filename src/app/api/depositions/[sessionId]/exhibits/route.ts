@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDepositionSession, updateDepositionSession, serializeDepositionSession } from '@/lib/deposition-store';
+import { applyExhibitAction, describeExhibits, getExhibitSettings } from '@/lib/exhibits';
+
+interface RouteParams {
+  params: Promise<{ sessionId: string }>;
+}
+
+// GET /api/depositions/[sessionId]/exhibits - Pre-marked exhibits and numbering settings
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { sessionId } = await params;
+    const session = getDepositionSession(sessionId);
+    
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Deposition session not found' },
+        { status: 404 }
+      );
+    }
+    
+    return NextResponse.json({
+      exhibits: describeExhibits(session),
+      settings: getExhibitSettings(session),
+    });
+  } catch (error) {
+    console.error('Error fetching exhibits:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch exhibits' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/depositions/[sessionId]/exhibits - Manage the exhibit registry
+// Actions: configure (prefix?, numbering?, startAt?), mark (documentId, description?), mark_all,
+// update (exhibitId, description), remove (exhibitId), renumber, link_question (questionId,
+// exhibitId or null), auto_link
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { sessionId } = await params;
+    const session = getDepositionSession(sessionId);
+    
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Deposition session not found' },
+        { status: 404 }
+      );
+    }
+    
+    const body = await request.json().catch(() => null);
+    if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+      return NextResponse.json(
+        { error: 'Request body must be an object with an action' },
+        { status: 400 }
+      );
+    }
+    
+    const result = applyExhibitAction(session, body);
+    if ('error' in result) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: 400 }
+      );
+    }
+    
+    const updatedSession = updateDepositionSession(sessionId, result.updates) || session;
+    
+    return NextResponse.json({
+      exhibits: describeExhibits(updatedSession),
+      settings: getExhibitSettings(updatedSession),
+      linked: result.linked,
+      session: serializeDepositionSession(updatedSession),
+    });
+  } catch (error) {
+    console.error('Error updating exhibits:', error);
+    return NextResponse.json(
+      { error: 'Failed to update exhibits' },
+      { status: 500 }
+    );
+  }
+}
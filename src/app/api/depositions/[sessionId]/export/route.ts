@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDepositionSession } from '@/lib/deposition-store';
+import { buildOutlineExport, parseExportOptions } from '@/lib/outline-export';
+import { getReportFilename, renderReport, REPORT_CONTENT_TYPES } from '@/lib/report-document';
+
+interface RouteParams {
+  params: Promise<{ sessionId: string }>;
+}
+
+// GET /api/depositions/[sessionId]/export - Download the deposition outline
+// Query: format=docx|pdf|txt (default docx), includeCitations, includeRationale, includeFollowUps
+// and groupByTopic (true|false, default true). Exports the question list by topic when no outline exists.
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { sessionId } = await params;
+    const session = getDepositionSession(sessionId);
+    
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Deposition session not found' },
+        { status: 404 }
+      );
+    }
+    
+    const parsed = parseExportOptions(request.nextUrl.searchParams);
+    if ('error' in parsed) {
+      return NextResponse.json(
+        { error: parsed.error },
+        { status: 400 }
+      );
+    }
+    
+    if (session.questions.length === 0 && !session.outline?.sections.some(section => section.questions.length > 0)) {
+      return NextResponse.json(
+        { error: 'Generate questions before exporting the outline' },
+        { status: 400 }
+      );
+    }
+    
+    const { options } = parsed;
+    const file = await renderReport(buildOutlineExport(session, options), options.format);
+    const filename = getReportFilename('deposition-outline', session.deponentName, options.format);
+    
+    return new NextResponse(Buffer.from(file), {
+      headers: {
+        'Content-Type': REPORT_CONTENT_TYPES[options.format],
+        'Content-Disposition': `attachment; filename="${filename}"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    console.error('Error exporting deposition outline:', error);
+    return NextResponse.json(
+      { error: 'Failed to export outline' },
+      { status: 500 }
+    );
+  }
+}
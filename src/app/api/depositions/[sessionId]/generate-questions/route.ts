@@ -1,7 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { v4 as uuidv4 } from 'uuid';
-import { getDepositionSession, setDepositionQuestions, setAnalysisResults, updateDepositionSession, serializeDepositionSession } from '@/lib/deposition-store';
-import { DepositionQuestion, TestimonyGap, Contradiction } from '@/lib/deposition-types';
+import { getDepositionSession, setDepositionQuestions, appendDepositionQuestions, setAnalysisResults, updateDepositionSession, serializeDepositionSession } from '@/lib/deposition-store';
+import { DepositionQuestion, DepositionSession, TestimonyGap, Contradiction, QuestionGenerationRequest } from '@/lib/deposition-types';
+import { filterChunkIds } from '@/lib/retrieval';
+import { buildDepositionContext, applyTranscriptCitations } from '@/lib/deposition-context';
+import { completeStructured, describeLLMFailure, isLLMConfigured } from '@/lib/llm';
+import { analysisResultSchema } from '@/lib/llm-schemas';
+import { mergeQuestions, mergeByDescription, parseGenerationMode, describeExistingQuestions } from '@/lib/question-dedupe';
 
 interface RouteParams {
   params: Promise<{ sessionId: string }>;
@@ -57,10 +62,11 @@ FOR EACH QUESTION, provide:
 3. Category: one of "gap", "contradiction", "timeline", "foundation", "impeachment", "follow_up", or "general"
 4. Priority: "high", "medium", or "low" based on strategic importance
 5. Document reference: Which specific document this relates to
-6. Page reference: Specific page or section if identifiable
+6. Page reference: For TRANSCRIPT documents, the page:line citation from the bracketed line numbers (e.g. "42:7-15" or "42:24-43:3"). For other documents, the page or section if identifiable
 7. Rationale: Why this question is important based on what the documents reveal
 8. Follow-up questions: 2-3 potential follow-up questions based on likely answers - ALL must be directed to ${deponentName}
 9. Exhibit to show: If applicable, which exhibit should be shown when asking this question
+10. Source chunks: The IDs of the document chunks the question is based on - each excerpt is tagged like [Chunk 1a2b3c4d-3]
 
 QUESTION EXAMPLES (good vs bad):
 BAD: "Please state your name for the record."
@@ -88,8 +94,8 @@ Return your response as a JSON object with this structure:
   "contradictions": [
     {
       "description": "Description of the contradiction with specific quotes",
-      "source1": { "document": "Doc name", "excerpt": "Exact quote from document", "page": "Page ref" },
-      "source2": { "document": "Doc name", "excerpt": "Exact quote from document", "page": "Page ref" },
+      "source1": { "document": "Doc name", "excerpt": "Exact quote from document", "page": "page:line citation for transcripts (e.g. 42:7-15), otherwise page ref" },
+      "source2": { "document": "Doc name", "excerpt": "Exact quote from document", "page": "page:line citation for transcripts (e.g. 42:7-15), otherwise page ref" },
       "severity": "minor|moderate|significant",
       "suggestedQuestions": ["Specific question about the contradiction"]
     }
@@ -107,10 +113,11 @@ Return your response as a JSON object with this structure:
       "category": "gap|contradiction|timeline|foundation|impeachment|follow_up|general",
       "priority": "high|medium|low",
       "documentReference": "Document name",
-      "pageReference": "Page or section",
+      "pageReference": "page:line citation for transcripts (e.g. 42:7-15), otherwise page or section",
       "rationale": "Why this question matters based on document content",
       "followUpQuestions": ["Follow-up 1 directed to ${deponentName}", "Follow-up 2 directed to ${deponentName}"],
-      "exhibitToShow": "Exhibit name if applicable"
+      "exhibitToShow": "Exhibit name if applicable",
+      "sourceChunkIds": ["1a2b3c4d-3"]
     }
   ]
 }
@@ -122,57 +129,6 @@ IMPORTANT:
 - Remember: ${deponentName} is the ONLY person being questioned. All questions and follow-ups must be directed to ${deponentName}.`;
 }
 
-// Robust JSON parsing with multiple fallback strategies
-function parseJSONResponse(content: string): Record<string, unknown> | null {
-  // Strategy 1: Direct parse
-  try {
-    const parsed = JSON.parse(content);
-    if (typeof parsed === 'object' && parsed !== null) return parsed;
-  } catch {
-    // Continue to next strategy
-  }
-
-  // Strategy 2: Clean and parse
-  try {
-    let cleaned = content.trim();
-    cleaned = cleaned.replace(/^\uFEFF/, '');
-    cleaned = cleaned.replace(/^```(?:json)?\s*\n?/i, '');
-    cleaned = cleaned.replace(/\n?```\s*$/i, '');
-    cleaned = cleaned.trim();
-    
-    const parsed = JSON.parse(cleaned);
-    if (typeof parsed === 'object' && parsed !== null) return parsed;
-  } catch {
-    // Continue to next strategy
-  }
-
-  // Strategy 3: Extract JSON object using regex
-  try {
-    const objectMatch = content.match(/\{[\s\S]*\}/);
-    if (objectMatch) {
-      const parsed = JSON.parse(objectMatch[0]);
-      if (typeof parsed === 'object' && parsed !== null) return parsed;
-    }
-  } catch {
-    // Continue to next strategy
-  }
-
-  // Strategy 4: Find first { and last } and try to parse
-  try {
-    const firstBrace = content.indexOf('{');
-    const lastBrace = content.lastIndexOf('}');
-    if (firstBrace !== -1 && lastBrace !== -1 && lastBrace > firstBrace) {
-      const jsonStr = content.substring(firstBrace, lastBrace + 1);
-      const parsed = JSON.parse(jsonStr);
-      if (typeof parsed === 'object' && parsed !== null) return parsed;
-    }
-  } catch {
-    // All strategies failed
-  }
-
-  return null;
-}
-
 // Extract key details from document content for fallback questions
 function extractDocumentDetails(documents: Array<{ name: string; content?: string; type: string }>): {
   names: string[];
@@ -472,7 +428,37 @@ function generateFallbackQuestions(caseName: string, deponentName: string, docum
   return { gaps, contradictions, questions, analysis };
 }
 
+function uniqueStrings(values: string[]): string[] {
+  const seen = new Set<string>();
+  return values.filter(value => {
+    const key = value.trim().toLowerCase();
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+// Combine a new analysis with the existing one when appending questions
+function mergeAnalysis(
+  existing: DepositionSession['analysis'],
+  incoming: NonNullable<DepositionSession['analysis']>
+): NonNullable<DepositionSession['analysis']> {
+  if (!existing) return incoming;
+  const eventKeys = new Set(existing.timelineEvents.map(e => `${e.date}|${e.event}`.toLowerCase()));
+  return {
+    keyThemes: uniqueStrings([...existing.keyThemes, ...incoming.keyThemes]),
+    timelineEvents: [
+      ...existing.timelineEvents,
+      ...incoming.timelineEvents.filter(e => !eventKeys.has(`${e.date}|${e.event}`.toLowerCase())),
+    ],
+    witnesses: uniqueStrings([...existing.witnesses, ...incoming.witnesses]),
+    keyExhibits: uniqueStrings([...existing.keyExhibits, ...incoming.keyExhibits]),
+  };
+}
+
 // POST /api/depositions/[sessionId]/generate-questions - Generate deposition questions
+// Body (optional): { mode: 'replace' | 'append' }. Append keeps the existing questions and adds new ones;
+// replace keeps only locked questions.
 export async function POST(request: NextRequest, { params }: RouteParams) {
   try {
     const { sessionId } = await params;
@@ -492,9 +478,35 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
       );
     }
     
+    // The body is optional; an empty body regenerates from scratch
+    let body: unknown = {};
+    const rawBody = await request.text();
+    if (rawBody.trim()) {
+      try {
+        body = JSON.parse(rawBody);
+      } catch {
+        return NextResponse.json(
+          { error: 'Invalid JSON body' },
+          { status: 400 }
+        );
+      }
+    }
+    
+    const parsedMode = parseGenerationMode(body);
+    if ('error' in parsedMode) {
+      return NextResponse.json(
+        { error: parsedMode.error },
+        { status: 400 }
+      );
+    }
+    const append = parsedMode.mode === 'append';
+    const keptQuestions = append ? session.questions : session.questions.filter(q => q.locked);
+    const existingQuestions: QuestionGenerationRequest['existingQuestions'] = keptQuestions.length > 0
+      ? keptQuestions.map(q => q.question)
+      : undefined;
+    
     // Check if API key is configured
-    const apiKey = process.env.CASEDEV_API_KEY;
-    if (!apiKey) {
+    if (!isLLMConfigured()) {
       return NextResponse.json(
         { error: 'Case.dev API key not configured. Please add CASEDEV_API_KEY to your .env.local file.' },
         { status: 500 }
@@ -504,14 +516,7 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
     // Update status to analyzing
     updateDepositionSession(sessionId, { status: 'analyzing' });
     
-    // Prepare document context with full content
-    const documentContext = session.documents
-      .map((doc) => {
-        const content = doc.content || '[Content not available - please upload a text file]';
-        const typeLabel = doc.type.replace('_', ' ').toUpperCase();
-        return `=== ${typeLabel}: ${doc.name} ===\n${content}\n=== END DOCUMENT ===`;
-      })
-      .join('\n\n');
+    const { contextSelection, documentContext } = buildDepositionContext(session.documents, `${session.deponentName} ${session.caseName}`);
     
     const userPrompt = `Case: ${session.caseName}
 Deponent (Witness Name): ${session.deponentName}
@@ -535,7 +540,7 @@ Focus on:
 2. Finding contradictions between documents or statements
 3. Building a clear timeline of events from the documents
 4. Preparing questions that reference specific document content to establish key facts and expose weaknesses
-
+${describeExistingQuestions(existingQuestions)}
 CRITICAL: Return ONLY a valid JSON object. No markdown formatting, no code blocks, no text before or after the JSON.`;
 
     let result: {
@@ -550,122 +555,67 @@ CRITICAL: Return ONLY a valid JSON object. No markdown formatting, no code block
       };
     };
     let usedFallback = false;
+    let fallbackReason: string | undefined;
 
     try {
-      const response = await fetch('https://api.case.dev/llm/v1/chat/completions', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${apiKey}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          model: 'casemark/casemark-core-1',
-          messages: [
-            { role: 'system', content: getDepositionAnalysisPrompt(session.deponentName) },
-            { role: 'user', content: userPrompt },
-          ],
-          temperature: 0.7,
-          max_tokens: 8000,
-        }),
-      });
+      const { data } = await completeStructured('depositionAnalysis', [
+        { role: 'system', content: getDepositionAnalysisPrompt(session.deponentName) },
+        { role: 'user', content: userPrompt },
+      ], analysisResultSchema);
       
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error('LLM API error:', errorText);
-        result = generateFallbackQuestions(session.caseName, session.deponentName, session.documents);
-        usedFallback = true;
-      } else {
-        const data = await response.json();
-        const content = data.choices?.[0]?.message?.content || '';
-        
-        if (!content) {
-          result = generateFallbackQuestions(session.caseName, session.deponentName, session.documents);
-          usedFallback = true;
-        } else {
-          const parsedData = parseJSONResponse(content);
-          
-          if (parsedData && parsedData.questions) {
-            // Transform to our format with IDs
-            const gaps: TestimonyGap[] = (parsedData.gaps as Array<Record<string, unknown>> || []).map((g) => ({
-              id: uuidv4(),
-              description: String(g.description || ''),
-              documentReferences: Array.isArray(g.documentReferences) ? g.documentReferences.map(String) : [],
-              severity: validateSeverity(String(g.severity || 'moderate')),
-              suggestedQuestions: Array.isArray(g.suggestedQuestions) ? g.suggestedQuestions.map(String) : [],
-            }));
-
-            const contradictions: Contradiction[] = (parsedData.contradictions as Array<Record<string, unknown>> || []).map((c) => ({
-              id: uuidv4(),
-              description: String(c.description || ''),
-              source1: {
-                document: String((c.source1 as Record<string, unknown>)?.document || ''),
-                excerpt: String((c.source1 as Record<string, unknown>)?.excerpt || ''),
-                page: (c.source1 as Record<string, unknown>)?.page ? String((c.source1 as Record<string, unknown>).page) : undefined,
-              },
-              source2: {
-                document: String((c.source2 as Record<string, unknown>)?.document || ''),
-                excerpt: String((c.source2 as Record<string, unknown>)?.excerpt || ''),
-                page: (c.source2 as Record<string, unknown>)?.page ? String((c.source2 as Record<string, unknown>).page) : undefined,
-              },
-              severity: validateSeverity(String(c.severity || 'moderate')),
-              suggestedQuestions: Array.isArray(c.suggestedQuestions) ? c.suggestedQuestions.map(String) : [],
-            }));
-
-            const questions: DepositionQuestion[] = (parsedData.questions as Array<Record<string, unknown>>).slice(0, 20).map((q) => ({
-              id: uuidv4(),
-              question: String(q.question || 'Question not available'),
-              topic: String(q.topic || 'General'),
-              category: validateCategory(String(q.category || 'general')),
-              priority: validatePriority(String(q.priority || 'medium')),
-              documentReference: q.documentReference ? String(q.documentReference) : undefined,
-              pageReference: q.pageReference ? String(q.pageReference) : undefined,
-              rationale: q.rationale ? String(q.rationale) : undefined,
-              followUpQuestions: Array.isArray(q.followUpQuestions) ? q.followUpQuestions.map(String) : undefined,
-              exhibitToShow: q.exhibitToShow ? String(q.exhibitToShow) : undefined,
-            }));
-
-            const analysisData = parsedData.analysis as Record<string, unknown> || {};
-            const analysis = {
-              keyThemes: Array.isArray(analysisData.keyThemes) ? analysisData.keyThemes.map(String) : [],
-              timelineEvents: Array.isArray(analysisData.timelineEvents) 
-                ? analysisData.timelineEvents.map((e: unknown) => {
-                    const event = e as Record<string, unknown>;
-                    return {
-                      date: String(event.date || ''),
-                      event: String(event.event || ''),
-                      source: String(event.source || ''),
-                    };
-                  })
-                : [],
-              witnesses: Array.isArray(analysisData.witnesses) ? analysisData.witnesses.map(String) : [],
-              keyExhibits: Array.isArray(analysisData.keyExhibits) ? analysisData.keyExhibits.map(String) : [],
-            };
-
-            result = { gaps, contradictions, questions, analysis };
-          } else {
-            console.warn('Failed to parse LLM response, using fallback questions');
-            result = generateFallbackQuestions(session.caseName, session.deponentName, session.documents);
-            usedFallback = true;
-          }
-        }
-      }
+      // Assign IDs and keep only chunk IDs that were actually sent
+      result = {
+        gaps: data.gaps.map(g => ({ id: uuidv4(), ...g })),
+        contradictions: data.contradictions.map(c => ({ id: uuidv4(), ...c })),
+        questions: data.questions.slice(0, 20).map(q => ({
+          id: uuidv4(),
+          ...q,
+          sourceChunkIds: filterChunkIds(q.sourceChunkIds, contextSelection),
+        })),
+        analysis: data.analysis,
+      };
     } catch (apiError) {
-      console.error('LLM API error:', apiError);
+      console.error('Deposition analysis failed, using fallback questions:', apiError);
       result = generateFallbackQuestions(session.caseName, session.deponentName, session.documents);
       usedFallback = true;
+      fallbackReason = describeLLMFailure(apiError);
     }
 
+    applyTranscriptCitations(result.contradictions, result.questions, session.documents);
+    
+    // Kept questions keep their IDs (and outline placements); drop new ones that repeat them
+    let duplicatesRemoved = 0;
+    if (keptQuestions.length > 0) {
+      const merged = mergeQuestions(keptQuestions, result.questions);
+      duplicatesRemoved = merged.duplicates.length;
+      result.questions = merged.added;
+    }
+    
+    if (append) {
+      result = {
+        ...result,
+        gaps: mergeByDescription(session.gaps, result.gaps),
+        contradictions: mergeByDescription(session.contradictions, result.contradictions),
+        analysis: mergeAnalysis(session.analysis, result.analysis),
+      };
+    }
+    
     // Save results to session
     setAnalysisResults(sessionId, result.gaps, result.contradictions, result.analysis);
-    const updatedSession = setDepositionQuestions(sessionId, result.questions);
+    const updatedSession = append
+      ? appendDepositionQuestions(sessionId, result.questions)
+      : setDepositionQuestions(sessionId, [...keptQuestions, ...result.questions]);
     
     return NextResponse.json({
       gaps: result.gaps,
       contradictions: result.contradictions,
-      questions: result.questions,
+      questions: result.questions, // Only the questions added by this run
       analysis: result.analysis,
       session: updatedSession ? serializeDepositionSession(updatedSession) : null,
+      mode: parsedMode.mode,
+      duplicatesRemoved,
       usedFallback,
+      fallbackReason,
     });
   } catch (error) {
     console.error('Error generating questions:', error);
@@ -675,18 +625,3 @@ CRITICAL: Return ONLY a valid JSON object. No markdown formatting, no code block
     );
   }
 }
-
-function validateCategory(category: string): DepositionQuestion['category'] {
-  const valid = ['gap', 'contradiction', 'timeline', 'foundation', 'impeachment', 'follow_up', 'general'];
-  return valid.includes(category) ? category as DepositionQuestion['category'] : 'general';
-}
-
-function validatePriority(priority: string): DepositionQuestion['priority'] {
-  const valid = ['high', 'medium', 'low'];
-  return valid.includes(priority) ? priority as DepositionQuestion['priority'] : 'medium';
-}
-
-function validateSeverity(severity: string): TestimonyGap['severity'] {
-  const valid = ['minor', 'moderate', 'significant'];
-  return valid.includes(severity) ? severity as TestimonyGap['severity'] : 'moderate';
-}
@@ -0,0 +1,118 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDepositionSession, updateDepositionSession, serializeDepositionSession } from '@/lib/deposition-store';
+import { applyLiveAction, summarizeLiveDeposition } from '@/lib/live-deposition';
+
+interface RouteParams {
+  params: Promise<{ sessionId: string }>;
+}
+
+// GET /api/depositions/[sessionId]/live - Live deposition progress
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { sessionId } = await params;
+    const session = getDepositionSession(sessionId);
+    
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Deposition session not found' },
+        { status: 404 }
+      );
+    }
+    
+    return NextResponse.json({
+      live: serializeDepositionSession(session).live ?? null,
+      liveProgress: summarizeLiveDeposition(session),
+    });
+  } catch (error) {
+    console.error('Error fetching live deposition:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch live deposition' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/depositions/[sessionId]/live - Run the live deposition
+// Actions: start, go_on_record (sectionId?), go_off_record, set_section (sectionId),
+// update_question (questionId, status?, answerSummary?), end
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { sessionId } = await params;
+    const session = getDepositionSession(sessionId);
+    
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Deposition session not found' },
+        { status: 404 }
+      );
+    }
+    
+    const body = await request.json().catch(() => null);
+    if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+      return NextResponse.json(
+        { error: 'Request body must be an object with an action' },
+        { status: 400 }
+      );
+    }
+    
+    const result = applyLiveAction(session, body);
+    if ('error' in result) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: 400 }
+      );
+    }
+    
+    // Ending the deposition completes the session; resuming reopens it
+    const status = result.live.endedAt ? 'completed' : session.status === 'completed' ? 'ready' : session.status;
+    const updatedSession = updateDepositionSession(sessionId, { live: result.live, status });
+    if (!updatedSession) {
+      return NextResponse.json(
+        { error: 'Failed to update live deposition' },
+        { status: 500 }
+      );
+    }
+    
+    return NextResponse.json({
+      liveProgress: summarizeLiveDeposition(updatedSession),
+      session: serializeDepositionSession(updatedSession),
+    });
+  } catch (error) {
+    console.error('Error updating live deposition:', error);
+    return NextResponse.json(
+      { error: 'Failed to update live deposition' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/depositions/[sessionId]/live - Discard the live state and start over
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { sessionId } = await params;
+    const session = getDepositionSession(sessionId);
+    
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Deposition session not found' },
+        { status: 404 }
+      );
+    }
+    
+    const updatedSession = updateDepositionSession(sessionId, {
+      live: undefined,
+      status: session.status === 'completed' ? 'ready' : session.status,
+    });
+    
+    return NextResponse.json({
+      success: true,
+      session: updatedSession ? serializeDepositionSession(updatedSession) : null,
+    });
+  } catch (error) {
+    console.error('Error discarding live deposition:', error);
+    return NextResponse.json(
+      { error: 'Failed to discard live deposition' },
+      { status: 500 }
+    );
+  }
+}
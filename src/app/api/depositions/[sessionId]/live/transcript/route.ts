@@ -0,0 +1,234 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDepositionSession, updateDepositionSession, serializeDepositionSession } from '@/lib/deposition-store';
+import { Contradiction, DepositionSession, RoughTranscript } from '@/lib/deposition-types';
+import { completeStructured, describeLLMFailure, isLLMConfigured } from '@/lib/llm';
+import { roughTranscriptReviewSchema } from '@/lib/llm-schemas';
+import { getLiveQuestionStatus, summarizeLiveDeposition } from '@/lib/live-deposition';
+import {
+  appendTranscriptText,
+  buildTranscriptReview,
+  matchOutlineQuestions,
+  takeNewExchanges,
+  TranscriptExchange,
+  MAX_TRANSCRIPT_CHUNK_LENGTH,
+} from '@/lib/rough-transcript';
+
+interface RouteParams {
+  params: Promise<{ sessionId: string }>;
+}
+
+function getTranscriptReviewPrompt(deponentName: string): string {
+  return `You are second chair at the deposition of ${deponentName}, reading the court reporter's rough realtime transcript as testimony comes in. For each new exchange, do two things:
+
+1. CONFLICTS: check the answer against the known contradictions from case preparation. Flag an exchange when the answer takes a side of a known contradiction, repeats a statement one of its sources contradicts, or says something new that conflicts with either source. Cite the exchange and the contradiction by their numbers. Do not flag answers that merely touch the same subject.
+
+2. FOLLOW-UPS: suggest follow-up questions the examiner should ask while the deponent is still on the subject - to pin down a vague answer, exhaust a list ("anything else?"), lock in an admission, or confront the deponent with a conflicting source. Only suggest questions that add something; skip exchanges that need none. Do not repeat the questions still planned in the outline.
+
+Rough transcripts contain mis-transcriptions; read past obvious errors rather than treating them as testimony.
+
+Return ONLY one JSON object in this format. No markdown, no code blocks, no explanatory text:
+{
+  "conflicts": [
+    { "exchange": 1, "contradiction": 1, "explanation": "How the answer bears on the contradiction, in one or two sentences", "severity": "minor|moderate|significant" }
+  ],
+  "followUps": [
+    { "exchange": 1, "question": "The follow-up question", "rationale": "What it gains, in one sentence" }
+  ]
+}
+Return empty arrays when nothing applies.`;
+}
+
+function describeContradictions(contradictions: Contradiction[]): string {
+  const describeSource = (source: Contradiction['source1']) =>
+    `${source.document}${source.page ? `, p. ${source.page}` : ''}): "${source.excerpt}"`;
+  return contradictions
+    .map((contradiction, index) => `${index + 1}. ${contradiction.description}
+   Source A (${describeSource(contradiction.source1)}
+   Source B (${describeSource(contradiction.source2)}`)
+    .join('\n');
+}
+
+function describeExchanges(exchanges: TranscriptExchange[]): string {
+  return exchanges
+    .map(exchange => `${exchange.number}. [${exchange.citation}]
+   Q. ${exchange.question}
+   A. ${exchange.answer || '(no answer)'}`)
+    .join('\n');
+}
+
+// Outline questions not yet asked, so suggestions don't repeat the plan
+function getPlannedQuestions(session: DepositionSession): string[] {
+  const live = session.live;
+  return (session.outline?.sections || [])
+    .flatMap(section => section.questions)
+    .filter(question => !live || getLiveQuestionStatus(live, question.id) !== 'asked')
+    .map(question => question.question);
+}
+
+function describeRoughTranscript(transcript: RoughTranscript | undefined, segmentCount: number) {
+  return {
+    characters: transcript?.text.length || 0,
+    segments: segmentCount,
+    segmentsProcessed: transcript?.segmentsProcessed || 0,
+    flags: transcript?.flags || [],
+    suggestedFollowUps: transcript?.suggestedFollowUps || [],
+    updatedAt: transcript?.updatedAt.toISOString(),
+  };
+}
+
+// GET /api/depositions/[sessionId]/live/transcript - Flags and follow-ups from the rough transcript so far
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { sessionId } = await params;
+    const session = getDepositionSession(sessionId);
+    
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Deposition session not found' },
+        { status: 404 }
+      );
+    }
+    
+    const transcript = session.roughTranscript;
+    const segmentCount = transcript ? takeNewExchanges(transcript, session.deponentName, false).segmentCount : 0;
+    
+    return NextResponse.json({
+      roughTranscript: describeRoughTranscript(transcript, segmentCount),
+    });
+  } catch (error) {
+    console.error('Error fetching rough transcript:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch rough transcript' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/depositions/[sessionId]/live/transcript - Add the next piece of the rough transcript feed
+// Body: plain text, or JSON { text, final? }. final processes the last exchange without waiting for
+// the next question. Completed exchanges are matched to outline questions, then reviewed for
+// conflicts with known contradictions and for follow-up questions.
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { sessionId } = await params;
+    const session = getDepositionSession(sessionId);
+    
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Deposition session not found' },
+        { status: 404 }
+      );
+    }
+    
+    if (!session.live || session.live.endedAt) {
+      return NextResponse.json(
+        { error: 'Go live before sending the rough transcript' },
+        { status: 400 }
+      );
+    }
+    
+    let text: unknown;
+    let final = false;
+    if (request.headers.get('content-type')?.includes('application/json')) {
+      const body = await request.json().catch(() => null);
+      text = body?.text ?? '';
+      final = body?.final === true;
+    } else {
+      text = await request.text();
+    }
+    if (typeof text !== 'string' || (!text && !final)) {
+      return NextResponse.json(
+        { error: 'Transcript text is required' },
+        { status: 400 }
+      );
+    }
+    if (text.length > MAX_TRANSCRIPT_CHUNK_LENGTH) {
+      return NextResponse.json(
+        { error: `Send the transcript in pieces of at most ${MAX_TRANSCRIPT_CHUNK_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+    
+    const appended = appendTranscriptText(session.roughTranscript, text);
+    if ('error' in appended) {
+      return NextResponse.json(
+        { error: appended.error },
+        { status: 400 }
+      );
+    }
+    
+    // Save the text and matches before the review, so a piece arriving meanwhile doesn't re-process these exchanges
+    const { exchanges, segmentsProcessed, segmentCount } = takeNewExchanges(appended.transcript, session.deponentName, final);
+    const { live, matches } = matchOutlineQuestions(session, session.live, exchanges);
+    const matchedSession = updateDepositionSession(sessionId, {
+      live,
+      roughTranscript: { ...appended.transcript, segmentsProcessed },
+    }) || session;
+    
+    let reviewNotice: string | undefined;
+    let review: ReturnType<typeof buildTranscriptReview> = { flags: [], followUps: [] };
+    if (exchanges.length > 0) {
+      if (!isLLMConfigured()) {
+        reviewNotice = 'LLM not configured - answers were matched to the outline but not reviewed for conflicts or follow-ups.';
+      } else {
+        const userPrompt = `Case: ${session.caseName}
+Deponent: ${session.deponentName}
+
+KNOWN CONTRADICTIONS:
+${describeContradictions(session.contradictions) || 'None found in preparation.'}
+
+QUESTIONS STILL PLANNED IN THE OUTLINE:
+${getPlannedQuestions(matchedSession).map(question => `- ${question}`).join('\n') || 'None.'}
+
+NEW TESTIMONY (rough transcript, page:line):
+${describeExchanges(exchanges)}
+
+CRITICAL: Return ONLY a valid JSON object. No markdown formatting, no code blocks, no text before or after the JSON.`;
+        
+        try {
+          const { data } = await completeStructured('roughTranscriptReview', [
+            { role: 'system', content: getTranscriptReviewPrompt(session.deponentName) },
+            { role: 'user', content: userPrompt },
+          ], roughTranscriptReviewSchema);
+          
+          const current = getDepositionSession(sessionId) || matchedSession;
+          review = buildTranscriptReview(data, exchanges, session.contradictions, [
+            ...getPlannedQuestions(current),
+            ...(current.roughTranscript?.suggestedFollowUps || []).map(followUp => followUp.question),
+          ]);
+        } catch (apiError) {
+          console.error('Rough transcript review failed:', apiError);
+          reviewNotice = `${describeLLMFailure(apiError)} Answers were matched to the outline but not reviewed.`;
+        }
+      }
+    }
+    
+    // Add the review to the latest state, which may include pieces that arrived during the review
+    const latest = getDepositionSession(sessionId) || matchedSession;
+    const roughTranscript = latest.roughTranscript || { ...appended.transcript, segmentsProcessed };
+    const updatedSession = updateDepositionSession(sessionId, {
+      roughTranscript: {
+        ...roughTranscript,
+        flags: [...roughTranscript.flags, ...review.flags],
+        suggestedFollowUps: [...roughTranscript.suggestedFollowUps, ...review.followUps],
+      },
+    }) || latest;
+    
+    return NextResponse.json({
+      exchanges: exchanges.length,
+      matches,
+      flags: review.flags,
+      suggestedFollowUps: review.followUps,
+      reviewNotice,
+      roughTranscript: describeRoughTranscript(updatedSession.roughTranscript, segmentCount),
+      liveProgress: summarizeLiveDeposition(updatedSession),
+      session: serializeDepositionSession(updatedSession),
+    });
+  } catch (error) {
+    console.error('Error ingesting rough transcript:', error);
+    return NextResponse.json(
+      { error: 'Failed to ingest rough transcript' },
+      { status: 500 }
+    );
+  }
+}
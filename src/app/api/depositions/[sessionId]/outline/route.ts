@@ -12,11 +12,19 @@ import {
   serializeDepositionSession 
 } from '@/lib/deposition-store';
 import { DepositionQuestion, OutlineSection } from '@/lib/deposition-types';
+import { buildTimeBudget, estimateSectionMinutes } from '@/lib/time-budget';
 
 interface RouteParams {
   params: Promise<{ sessionId: string }>;
 }
 
+// Keep a section's time estimate in step with its questions
+function refreshSectionEstimate(sessionId: string, sectionId: string) {
+  const section = getDepositionSession(sessionId)?.outline?.sections.find(s => s.id === sectionId);
+  if (!section) return undefined;
+  return updateOutlineSection(sessionId, sectionId, { estimatedTime: estimateSectionMinutes(section.questions) });
+}
+
 // GET /api/depositions/[sessionId]/outline - Get the deposition outline
 export async function GET(request: NextRequest, { params }: RouteParams) {
   try {
@@ -139,6 +147,7 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
           exhibitToShow: question.exhibitToShow,
         };
         updatedSession = addQuestionToSection(sessionId, sectionId, questionToAdd);
+        if (updatedSession) updatedSession = refreshSectionEstimate(sessionId, sectionId);
         break;
         
       case 'remove_question':
@@ -150,6 +159,7 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
           );
         }
         updatedSession = removeQuestionFromSection(sessionId, sectionId, questionId);
+        if (updatedSession) updatedSession = refreshSectionEstimate(sessionId, sectionId);
         break;
         
       case 'auto_organize':
@@ -213,7 +223,7 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
             title: topic,
             order: order++,
             questions,
-            estimatedTime: Math.ceil(questions.length * 3), // Estimate 3 minutes per question
+            estimatedTime: estimateSectionMinutes(questions),
           };
           addOutlineSection(sessionId, sectionData);
         }
@@ -237,6 +247,7 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
     
     return NextResponse.json({
       outline: updatedSession.outline,
+      timeBudget: buildTimeBudget(updatedSession),
       session: serializeDepositionSession(updatedSession),
     });
   } catch (error) {
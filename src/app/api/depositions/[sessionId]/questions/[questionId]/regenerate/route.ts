@@ -0,0 +1,153 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDepositionSession, updateDepositionQuestion, serializeDepositionSession } from '@/lib/deposition-store';
+import { DepositionQuestion } from '@/lib/deposition-types';
+import { filterChunkIds } from '@/lib/retrieval';
+import { buildDepositionContext, applyTranscriptCitations } from '@/lib/deposition-context';
+import { completeStructured, describeLLMFailure, isLLMConfigured } from '@/lib/llm';
+import { depositionQuestionSchema } from '@/lib/llm-schemas';
+import { parseRegenerateInstruction } from '@/lib/question-edits';
+import { describeExistingQuestions } from '@/lib/question-dedupe';
+
+interface RouteParams {
+  params: Promise<{ sessionId: string; questionId: string }>;
+}
+
+// A single question needs far less document context than a full analysis run
+const REVISION_CONTEXT_BUDGET = 20000;
+
+function getDepositionQuestionRevisionPrompt(deponentName: string): string {
+  return `You are an experienced litigation attorney refining one question for the deposition of ${deponentName}.
+
+THE DEPONENT BEING QUESTIONED IS: ${deponentName}
+Documents may quote other people. They are evidence, not the deponent - ask ${deponentName} about what they said.
+
+Rewrite the question you are given so it is sharper and better grounded in the documents, following the attorney's instruction if there is one. Keep it directed to ${deponentName} using "you" and "your", and keep it on the same topic unless the instruction says otherwise. Transcript excerpts are prefixed with [page:line]; cite those in pageReference.
+
+Return ONLY one JSON object in this format. No markdown, no code blocks, no explanatory text:
+{
+  "question": "Question directed to ${deponentName}...",
+  "topic": "Topic or subject area",
+  "category": "gap|contradiction|timeline|foundation|impeachment|follow_up|general",
+  "priority": "high|medium|low",
+  "documentReference": "Source document name",
+  "pageReference": "Page or page:line reference",
+  "rationale": "Why this question matters",
+  "followUpQuestions": ["Follow-up question addressed to ${deponentName}"],
+  "exhibitToShow": "Exhibit to show the deponent, if any",
+  "sourceChunkIds": ["1a2b3c4d-3"]
+}`;
+}
+
+// The question as the model should see it, without server-side fields
+function formatQuestionForPrompt(question: DepositionQuestion): string {
+  return JSON.stringify(question, (key, value) => (key === 'id' || key === 'locked' ? undefined : value), 2);
+}
+
+// POST /api/depositions/[sessionId]/questions/[questionId]/regenerate - Rewrite one question with the model
+// Body (optional): { instruction: "make it more leading" }. The question keeps its ID and outline placement.
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { sessionId, questionId } = await params;
+    const session = getDepositionSession(sessionId);
+    
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Deposition session not found' },
+        { status: 404 }
+      );
+    }
+    
+    const current = session.questions.find(q => q.id === questionId);
+    if (!current) {
+      return NextResponse.json(
+        { error: 'Question not found' },
+        { status: 404 }
+      );
+    }
+    
+    if (current.locked) {
+      return NextResponse.json(
+        { error: 'Question is locked. Unlock it before regenerating.' },
+        { status: 409 }
+      );
+    }
+    
+    let body: unknown = {};
+    const rawBody = await request.text();
+    if (rawBody.trim()) {
+      try {
+        body = JSON.parse(rawBody);
+      } catch {
+        return NextResponse.json(
+          { error: 'Invalid JSON body' },
+          { status: 400 }
+        );
+      }
+    }
+    
+    const parsed = parseRegenerateInstruction(body);
+    if ('error' in parsed) {
+      return NextResponse.json(
+        { error: parsed.error },
+        { status: 400 }
+      );
+    }
+    
+    if (!isLLMConfigured()) {
+      return NextResponse.json(
+        { error: 'Case.dev API key not configured. Please add CASEDEV_API_KEY to your .env.local file.' },
+        { status: 500 }
+      );
+    }
+    
+    const { contextSelection, documentContext } = buildDepositionContext(
+      session.documents,
+      [current.question, current.topic, current.documentReference, parsed.instruction].filter(Boolean).join(' '),
+      REVISION_CONTEXT_BUDGET
+    );
+    
+    const userPrompt = `Case: ${session.caseName}
+Deponent (Witness Name): ${session.deponentName}
+
+DOCUMENTS:
+${documentContext}
+
+CURRENT QUESTION:
+${formatQuestionForPrompt(current)}
+
+ATTORNEY'S INSTRUCTION: ${parsed.instruction || 'Make this question sharper and more specific to the documents.'}
+${describeExistingQuestions(session.questions.filter(q => q.id !== questionId).map(q => q.question))}
+CRITICAL: Return ONLY a valid JSON object. No markdown formatting, no code blocks, no text before or after the JSON.`;
+
+    let revised: DepositionQuestion;
+    try {
+      const { data } = await completeStructured('depositionQuestionRevision', [
+        { role: 'system', content: getDepositionQuestionRevisionPrompt(session.deponentName) },
+        { role: 'user', content: userPrompt },
+      ], depositionQuestionSchema);
+      
+      revised = { id: questionId, ...data, sourceChunkIds: filterChunkIds(data.sourceChunkIds, contextSelection) };
+    } catch (apiError) {
+      console.error('Deposition question regeneration failed:', apiError);
+      return NextResponse.json(
+        { error: describeLLMFailure(apiError) },
+        { status: 502 }
+      );
+    }
+    
+    applyTranscriptCitations([], [revised], session.documents);
+    const updatedSession = updateDepositionQuestion(sessionId, questionId, revised);
+    
+    return NextResponse.json({
+      question: updatedSession?.questions.find(q => q.id === questionId),
+      previousQuestion: current,
+      session: updatedSession ? serializeDepositionSession(updatedSession) : null,
+    });
+  } catch (error) {
+    console.error('Error regenerating question:', error);
+    return NextResponse.json(
+      { error: 'Failed to regenerate question' },
+      { status: 500 }
+    );
+  }
+}
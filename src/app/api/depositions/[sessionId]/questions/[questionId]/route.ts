@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDepositionSession, updateDepositionQuestion, serializeDepositionSession } from '@/lib/deposition-store';
+import { parseDepositionQuestionEdit } from '@/lib/question-edits';
+
+interface RouteParams {
+  params: Promise<{ sessionId: string; questionId: string }>;
+}
+
+// PATCH /api/depositions/[sessionId]/questions/[questionId] - Edit a question's fields or lock it
+// Body: any of question, topic, category, priority, documentReference, pageReference, rationale,
+// followUpQuestions, exhibitToShow, locked. Copies of the question in the outline are updated too.
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { sessionId, questionId } = await params;
+    const session = getDepositionSession(sessionId);
+    
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Deposition session not found' },
+        { status: 404 }
+      );
+    }
+    
+    if (!session.questions.some(q => q.id === questionId)) {
+      return NextResponse.json(
+        { error: 'Question not found' },
+        { status: 404 }
+      );
+    }
+    
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { error: 'Invalid JSON body' },
+        { status: 400 }
+      );
+    }
+    
+    const parsed = parseDepositionQuestionEdit(body);
+    if ('error' in parsed) {
+      return NextResponse.json(
+        { error: parsed.error },
+        { status: 400 }
+      );
+    }
+    
+    const updatedSession = updateDepositionQuestion(sessionId, questionId, parsed.updates);
+    
+    return NextResponse.json({
+      question: updatedSession?.questions.find(q => q.id === questionId),
+      session: updatedSession ? serializeDepositionSession(updatedSession) : null,
+    });
+  } catch (error) {
+    console.error('Error updating question:', error);
+    return NextResponse.json(
+      { error: 'Failed to update question' },
+      { status: 500 }
+    );
+  }
+}
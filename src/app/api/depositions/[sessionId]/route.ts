@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getDepositionSession, updateDepositionSession, deleteDepositionSession, serializeDepositionSession } from '@/lib/deposition-store';
+import { parseTimeLimit } from '@/lib/time-budget';
 
 interface RouteParams {
   params: Promise<{ sessionId: string }>;
@@ -44,6 +45,20 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
       );
     }
     
+    // The time limit drives the outline budget; null goes back to the default
+    if (body.timeLimitMinutes === null) {
+      body.timeLimitMinutes = undefined;
+    } else if (body.timeLimitMinutes !== undefined) {
+      const parsed = parseTimeLimit(body.timeLimitMinutes);
+      if ('error' in parsed) {
+        return NextResponse.json(
+          { error: parsed.error },
+          { status: 400 }
+        );
+      }
+      body.timeLimitMinutes = parsed.minutes;
+    }
+    
     const updatedSession = updateDepositionSession(sessionId, body);
     
     return NextResponse.json({
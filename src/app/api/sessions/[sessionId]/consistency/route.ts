@@ -0,0 +1,150 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession, setConsistencyReport, serializeConsistencyReport } from '@/lib/session-store';
+import { ConsistencyReport, PracticeSession } from '@/lib/types';
+import { selectContext, formatContext } from '@/lib/retrieval';
+import { completeStructured, describeLLMFailure, isLLMConfigured } from '@/lib/llm';
+import { consistencyCheckSchema } from '@/lib/llm-schemas';
+import { buildConsistencyReport, formatAnswersForPrompt, selectAnswers } from '@/lib/consistency';
+
+interface RouteParams {
+  params: Promise<{ sessionId: string }>;
+}
+
+// Leaves room in the prompt for a long practice history
+const CONSISTENCY_CONTEXT_BUDGET = 40000;
+
+function getConsistencyPrompt(witnessName: string): string {
+  return `You are an experienced trial attorney checking ${witnessName}'s practice answers for inconsistencies before trial, so counsel can address them before opposing counsel finds them.
+
+THE WITNESS IS: ${witnessName}
+The answers are numbered. Documents are split into chunks, each tagged with a chunk ID.
+
+1. Extract every factual assertion ${witnessName} makes in each answer (who, what, when, where, how much, what they saw, did, knew or said). Skip opinions, hedges and refusals to answer.
+2. Find assertions that contradict another answer (answer_vs_answer) or the documents (answer_vs_document). Prior statements by ${witnessName} in the documents matter most, but any document fact the answer conflicts with counts.
+
+Only report real conflicts - two statements that cannot both be true, or that a jury would see as a change of story. Added detail that is consistent with an earlier answer is not a contradiction.
+
+Quotes must be copied word for word from the answer or document they come from.
+
+Return ONLY one JSON object in this format. No markdown, no code blocks, no explanatory text:
+{
+  "assertions": [
+    { "answer": 1, "claim": "The light was red when the sedan entered the intersection" }
+  ],
+  "contradictions": [
+    {
+      "type": "answer_vs_answer|answer_vs_document",
+      "description": "What conflicts and why it matters",
+      "severity": "minor|moderate|significant",
+      "statement": { "answer": 3, "quote": "Exact words from answer 3" },
+      "conflictsWith": { "answer": 14, "document": "Document name (answer_vs_document only)", "chunkId": "1a2b3c4d-3", "quote": "Exact words from the other answer or the document" },
+      "suggestion": "How ${witnessName} can reconcile or correct the record"
+    }
+  ]
+}
+Use "answer" in conflictsWith for answer_vs_answer, and "document" with "chunkId" for answer_vs_document.`;
+}
+
+function isStale(session: PracticeSession): boolean {
+  return Boolean(session.consistencyReport) && session.practiceHistory.length !== session.consistencyReport?.historyLength;
+}
+
+// POST /api/sessions/[sessionId]/consistency - Check the witness's practice answers against each other and the documents
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { sessionId } = await params;
+    const session = getSession(sessionId);
+    
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Session not found' },
+        { status: 404 }
+      );
+    }
+    
+    const answers = selectAnswers(session.practiceHistory);
+    if (answers.length === 0) {
+      return NextResponse.json(
+        { error: 'No practice answers to check yet' },
+        { status: 400 }
+      );
+    }
+    
+    if (!isLLMConfigured()) {
+      return NextResponse.json(
+        { error: 'Case.dev API key not configured. Please add CASEDEV_API_KEY to your .env.local file.' },
+        { status: 500 }
+      );
+    }
+    
+    // Retrieve the document passages closest to what the witness actually said
+    const contextSelection = selectContext(session.documents, answers.map(({ exchange }) => exchange.witnessResponse).join(' '), CONSISTENCY_CONTEXT_BUDGET);
+    const documentContext = formatContext(contextSelection);
+    
+    const userPrompt = `Case: ${session.caseName}
+Witness Name: ${session.witnessName}
+
+DOCUMENTS:
+${documentContext || 'No documents uploaded. Check the answers against each other only.'}
+
+${session.witnessName.toUpperCase()}'S PRACTICE ANSWERS:
+${formatAnswersForPrompt(answers)}
+
+CRITICAL: Return ONLY a valid JSON object. No markdown formatting, no code blocks, no text before or after the JSON.`;
+    
+    let report: ConsistencyReport;
+    try {
+      const { data } = await completeStructured('consistencyCheck', [
+        { role: 'system', content: getConsistencyPrompt(session.witnessName) },
+        { role: 'user', content: userPrompt },
+      ], consistencyCheckSchema);
+      
+      report = buildConsistencyReport(data, session.practiceHistory, answers, contextSelection);
+    } catch (apiError) {
+      console.error('Consistency check failed:', apiError);
+      return NextResponse.json(
+        { error: describeLLMFailure(apiError) },
+        { status: 502 }
+      );
+    }
+    
+    setConsistencyReport(sessionId, report);
+    
+    return NextResponse.json({
+      report: serializeConsistencyReport(report),
+      stale: false,
+    });
+  } catch (error) {
+    console.error('Error checking answer consistency:', error);
+    return NextResponse.json(
+      { error: 'Failed to check answer consistency' },
+      { status: 500 }
+    );
+  }
+}
+
+// GET /api/sessions/[sessionId]/consistency - Last consistency report; stale when answers were added since
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { sessionId } = await params;
+    const session = getSession(sessionId);
+    
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Session not found' },
+        { status: 404 }
+      );
+    }
+    
+    return NextResponse.json({
+      report: session.consistencyReport ? serializeConsistencyReport(session.consistencyReport) : null,
+      stale: isStale(session),
+    });
+  } catch (error) {
+    console.error('Error fetching consistency report:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch consistency report' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,7 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { v4 as uuidv4 } from 'uuid';
-import { getSession, addDocument, updateDocument, serializeSession } from '@/lib/session-store';
+import { getSession, addDocument, updateDocument, updateSession, serializeSession } from '@/lib/session-store';
 import { Document } from '@/lib/types';
+import { extractDocumentText, ExtractedText } from '@/lib/text-extraction';
+import { isVaultIngestionEnabled, ensureSessionVault, uploadToVault, checkVaultProcessing, getVaultCheckFailureUpdates } from '@/lib/vault-ingestion';
 
 // File size limit: 10MB
 const MAX_FILE_SIZE = 10 * 1024 * 1024;
@@ -75,35 +77,59 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
     // Add document to session
     addDocument(sessionId, document);
     
-    // Read file content for text-based files
-    let content = '';
-    if (file.type === 'text/plain' || file.name.endsWith('.txt')) {
-      content = await file.text();
-    } else if (file.type === 'application/pdf' || file.name.endsWith('.pdf')) {
-      // For PDFs, we'd normally use OCR via Vaults API
-      // For now, store a placeholder - in production, upload to Vault for OCR
-      content = `[PDF Document: ${file.name}]`;
-    } else if (file.type.includes('word') || file.name.endsWith('.docx') || file.name.endsWith('.doc')) {
-      content = `[Word Document: ${file.name}]`;
+    // Extract text locally first - this covers TXT, DOCX and PDFs with a text layer
+    let extracted: ExtractedText | undefined;
+    let extractionError: string | undefined;
+    try {
+      extracted = await extractDocumentText(file);
+    } catch (extractError) {
+      extractionError = extractError instanceof Error ? extractError.message : 'Failed to parse document';
     }
     
-    // Update document with content and mark as ready
-    updateDocument(sessionId, document.id, {
-      content,
-      status: 'ready',
-    });
+    // Send the original file to the session's vault for OCR and indexing
+    let objectId: string | undefined;
+    let vaultId: string | undefined;
+    if (isVaultIngestionEnabled()) {
+      try {
+        vaultId = await ensureSessionVault(sessionId, {
+          getVaultId: () => getSession(sessionId)?.vaultId,
+          saveVaultId: id => updateSession(sessionId, { vaultId: id }),
+          name: `${session.caseName} - ${session.witnessName}`,
+          description: `Testimony prep session ${sessionId}`,
+        });
+        objectId = await uploadToVault(vaultId, file, { sessionId, documentId: document.id });
+      } catch (vaultError) {
+        console.error('Vault upload failed:', vaultError);
+      }
+    }
+    
+    // Local text wins when available; otherwise wait for the vault's OCR'd text
+    let updates: Partial<Document>;
+    if (extracted) {
+      updates = { content: extracted.content, pages: extracted.pages, objectId, vaultId: objectId ? vaultId : undefined, status: 'ready' };
+    } else if (objectId) {
+      updates = { objectId, vaultId, status: 'processing' };
+    } else {
+      updates = { status: 'error', error: extractionError };
+    }
+    
+    updateDocument(sessionId, document.id, updates);
     
     const updatedSession = getSession(sessionId);
+    const failed = updates.status === 'error';
     
-    return NextResponse.json({
-      document: {
-        ...document,
-        content,
-        status: 'ready',
-        uploadedAt: document.uploadedAt.toISOString(),
+    return NextResponse.json(
+      {
+        ...(failed ? { error: updates.error } : {}),
+        document: {
+          ...document,
+          ...updates,
+          uploadedAt: document.uploadedAt.toISOString(),
+        },
+        session: updatedSession ? serializeSession(updatedSession) : null,
       },
-      session: updatedSession ? serializeSession(updatedSession) : null,
-    });
+      { status: failed ? 422 : 200 }
+    );
   } catch (error) {
     console.error('Error uploading document:', error);
     return NextResponse.json(
@@ -113,10 +139,45 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
   }
 }
 
+// Poll the vault for documents still waiting on OCR and store their text once ready
+async function refreshProcessingDocuments(sessionId: string): Promise<void> {
+  const session = getSession(sessionId);
+  if (!session) return;
+  
+  const pending = session.documents.filter(doc => doc.status === 'processing' && doc.objectId);
+  for (const doc of pending) {
+    // Each document is polled in the vault it was uploaded to
+    const vaultId = doc.vaultId || session.vaultId;
+    if (!vaultId) continue;
+    try {
+      const result = await checkVaultProcessing(vaultId, doc.objectId!);
+      if (result.status !== 'processing') {
+        updateDocument(sessionId, doc.id, {
+          content: result.content,
+          pages: result.pages,
+          status: result.status,
+          error: result.error,
+          vaultCheckFailures: undefined,
+        });
+      } else if (doc.vaultCheckFailures) {
+        updateDocument(sessionId, doc.id, { vaultCheckFailures: undefined });
+      }
+    } catch (vaultError) {
+      console.error('Failed to check vault processing status:', vaultError);
+      updateDocument(sessionId, doc.id, getVaultCheckFailureUpdates(doc.vaultCheckFailures));
+    }
+  }
+}
+
 // GET /api/sessions/[sessionId]/documents - List documents in session
 export async function GET(request: NextRequest, { params }: RouteParams) {
   try {
     const { sessionId } = await params;
+    
+    if (isVaultIngestionEnabled()) {
+      await refreshProcessingDocuments(sessionId);
+    }
+    
     const session = getSession(sessionId);
     
     if (!session) {
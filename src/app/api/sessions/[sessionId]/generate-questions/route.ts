@@ -1,192 +1,267 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { v4 as uuidv4 } from 'uuid';
-import { getSession, setQuestions, updateSession, serializeSession } from '@/lib/session-store';
-import { CrossExamQuestion } from '@/lib/types';
+import { getSession, setQuestions, appendQuestions, updateSession, serializeSession } from '@/lib/session-store';
+import { CrossExamQuestion, ExaminationMode, QuestionGenerationOptions } from '@/lib/types';
+import { selectContext, formatContext, filterChunkIds } from '@/lib/retrieval';
+import { completeStructured, describeLLMFailure, isLLMConfigured } from '@/lib/llm';
+import { crossExamQuestionsSchema, directExamQuestionsSchema, DIRECT_EXAM_CATEGORIES } from '@/lib/llm-schemas';
+import { parseQuestionOptions, getCategoryTargets, getDifficultyTargets, WITNESS_ROLE_GUIDANCE } from '@/lib/question-options';
+import { describeFocusAreas, getCrossExamUserPrompt, getQuestionGenerationPrompt } from '@/lib/question-prompts';
+import { mergeQuestions, parseGenerationMode, describeExistingQuestions } from '@/lib/question-dedupe';
+import {
+  CrossWeakness,
+  DIRECT_CATEGORY_GUIDANCE,
+  EXAMINATION_MODE_PROFILES,
+  collectCrossWeaknesses,
+  formatWeaknessesForPrompt,
+  getExaminationMode,
+  getQuestionMode,
+} from '@/lib/examination-modes';
 
 interface RouteParams {
   params: Promise<{ sessionId: string }>;
 }
 
-// Dynamic system prompt that includes the actual witness name
-function getQuestionGenerationPrompt(witnessName: string): string {
-  return `You are an experienced trial attorney preparing cross-examination questions for ${witnessName}. Based on the provided case documents, generate exactly 20 likely cross-examination questions that opposing counsel might ask ${witnessName}.
-
-═══════════════════════════════════════════════════════════════════════════════
-WITNESS IDENTITY - READ THIS CAREFULLY:
-═══════════════════════════════════════════════════════════════════════════════
-THE WITNESS YOU ARE PREPARING QUESTIONS FOR IS: ${witnessName}
-THE WITNESS YOU ARE PREPARING QUESTIONS FOR IS: ${witnessName}
-THE WITNESS YOU ARE PREPARING QUESTIONS FOR IS: ${witnessName}
-
-⚠️ CRITICAL WARNING ABOUT DOCUMENTS:
-The documents you will analyze may contain depositions, testimony, or statements from OTHER people who are NOT ${witnessName}. These are EVIDENCE documents about the case.
-DO NOT get confused by names that appear in depositions or testimony within the documents.
-The ONLY witness you are preparing questions for is ${witnessName}.
-
-When you see testimony or depositions from other people in the documents:
-- These are EVIDENCE that ${witnessName} may be asked about
-- Prepare questions asking ${witnessName} what THEY know about what those other people said
-- Prepare questions asking ${witnessName} if THEY agree or disagree with what others testified
-- NEVER prepare questions directed at those other people - they are not the witness
-═══════════════════════════════════════════════════════════════════════════════
-
-CRITICAL REQUIREMENTS:
-1. ALL questions (main questions AND follow-up questions) MUST be directed TO ${witnessName} - ${witnessName} is the ONLY person being questioned
-2. Do NOT start every question with "${witnessName}" - this is repetitive. Use natural questioning style with "you" and "your"
-3. When documents mention other people (anyone who is NOT ${witnessName}), ask ${witnessName} about THEIR knowledge of those people - do NOT ask questions as if those other people are the witness
-4. If documents contain depositions or testimony from other witnesses, prepare questions asking ${witnessName} about what THEY know regarding that testimony - do NOT prepare questions for those other witnesses
-5. ALL follow-up questions must also be directed to ${witnessName} about ${witnessName}'s knowledge, actions, or observations - NEVER direct follow-up questions to other people mentioned in documents
-
-STRUCTURE YOUR 20 QUESTIONS AS FOLLOWS:
-- 15 questions: DOCUMENT-SPECIFIC - These MUST be specifically based on the content of the documents provided. Reference specific facts, names, dates, times, locations, and details from the documents.
-- 5 questions: GENERAL CROSS-EXAMINATION - These are standard cross-examination questions that opposing counsel commonly asks ANY witness, regardless of the case specifics. These test general credibility, memory, bias, and preparation. Mark these with category "general".
-
-For each question, provide:
-1. The question itself - directed to ${witnessName} using "you" and "your"
-2. Category: one of "timeline", "credibility", "inconsistency", "foundation", "impeachment", or "general"
-3. Difficulty: "easy", "medium", or "hard"
-4. A suggested approach for how ${witnessName} should handle this question
-5. Any weak points this question might expose
-6. 2-3 potential follow-up questions - these MUST also be directed to ${witnessName} (using "you/your")
-7. A reference to which document this relates to (use "General Cross-Examination" for the 5 general questions)
-
-FOR DOCUMENT-SPECIFIC QUESTIONS (15), focus on:
-- Specific timeline details mentioned in the documents
-- Credibility challenges based on what ${witnessName} claims to have seen/heard/done
-- Potential inconsistencies in the narrative
-- Foundation questions about how ${witnessName} knows specific facts
-- Impeachment opportunities based on statements in the documents
-- Specific names, dates, times, and locations mentioned
-
-FOR GENERAL QUESTIONS (5 REQUIRED), you MUST include these standard cross-examination questions:
-1. A question about how ${witnessName} prepared for testimony and who they spoke with
-2. A question about compensation or financial interest in the case outcome
-3. A question testing ${witnessName}'s memory and certainty
-4. A question about ${witnessName}'s relationship to the parties
-5. A question about whether ${witnessName} has ever given inaccurate testimony
-
-QUESTION EXAMPLES (good vs bad):
-BAD FOLLOW-UP (asking wrong person): "What did Mr. Smith know about this?"
-GOOD FOLLOW-UP (asking ${witnessName}): "What did Mr. Smith tell you about this?"
-
-Return your response as a JSON array with exactly 20 questions in this format:
-[
-  {
-    "question": "Question directed to ${witnessName}...",
-    "category": "timeline|credibility|inconsistency|foundation|impeachment|general",
-    "difficulty": "easy|medium|hard",
-    "suggestedApproach": "How ${witnessName} should approach answering",
-    "weakPoint": "What vulnerability this exposes based on the documents",
-    "followUpQuestions": ["Follow-up question addressed to ${witnessName}", "Another follow-up question addressed to ${witnessName}"],
-    "documentReference": "Which document/section this relates to OR 'General Cross-Examination'"
+// Role-specific general questions used when the LLM is unavailable. Fact witnesses get the
+// standard five; the other roles swap in the questions counsel asks that kind of witness.
+function getGeneralFallbackQuestions(options: QuestionGenerationOptions): CrossExamQuestion[] {
+  const general = (
+    question: string,
+    difficulty: CrossExamQuestion['difficulty'],
+    suggestedApproach: string,
+    weakPoint: string,
+    followUpQuestions: string[]
+  ): CrossExamQuestion => ({
+    id: uuidv4(),
+    question,
+    category: 'general',
+    difficulty,
+    suggestedApproach,
+    weakPoint,
+    followUpQuestions,
+    documentReference: 'General Cross-Examination',
+  });
+
+  switch (options.witnessRole) {
+    case 'expert':
+      return [
+        general(
+          'What in your education and experience qualifies you to give the specific opinions you are offering in this case?',
+          'medium',
+          'Tie your qualifications to each opinion. Do not claim expertise outside your field.',
+          'Opinions that reach beyond the expert\'s qualifications',
+          ['Have you ever published on this specific subject?', 'How many times have you done this exact analysis before?']
+        ),
+        general(
+          'What is your hourly rate in this case, and how much have you billed so far?',
+          'easy',
+          'Give the numbers plainly. Being paid for time is normal; evasiveness is what hurts.',
+          'Financial bias',
+          ['Who is paying your invoices?', 'How much more do you expect to bill through trial?']
+        ),
+        general(
+          'Over the last four years, how often have you testified, and what share of that work was for the side that retained you here?',
+          'medium',
+          'Answer with accurate figures. If the split is lopsided, explain how you choose engagements.',
+          'Appearance of being a professional witness for one side',
+          ['Have you ever been retained by the opposing party\'s counsel?', 'What share of your income comes from litigation work?']
+        ),
+        general(
+          'Has any court ever excluded, limited or criticized your opinions?',
+          'hard',
+          'Answer honestly. If yes, explain the circumstances and why this case is different.',
+          'Prior judicial findings on reliability',
+          ['What was the court\'s reasoning?', 'Did you change your methodology afterward?']
+        ),
+        general(
+          'What materials did counsel give you, and were you asked to assume any facts?',
+          'hard',
+          'List what you received and any assumptions clearly. Distinguish assumptions from your own findings.',
+          'Opinions built on counsel-selected facts',
+          ['Did you ask for anything you did not receive?', 'If that assumption is wrong, does your opinion change?']
+        ),
+      ];
+
+    case 'party':
+      return [
+        general(
+          'You have a direct stake in how this case turns out, don\'t you?',
+          'easy',
+          'Acknowledge your interest calmly. Jurors expect it; denying it costs credibility.',
+          'Interest in the outcome',
+          ['What are you asking the court to award?', 'How would losing this case affect you?']
+        ),
+        general(
+          'How did you prepare for your testimony today, and who did you speak with?',
+          'easy',
+          'Be honest about preparation. Meeting with your lawyers is normal.',
+          'May suggest coaching',
+          ['What documents did you review?', 'Did anyone tell you how to answer particular questions?']
+        ),
+        general(
+          'You verified the statements in your pleadings and discovery responses under oath. Is everything in them still accurate?',
+          'hard',
+          'If anything needs correcting, say so now and explain why.',
+          'Prior sworn statements',
+          ['When did you first realize that was inaccurate?', 'Why wasn\'t it corrected earlier?']
+        ),
+        general(
+          'Describe your history with the opposing party before this dispute.',
+          'medium',
+          'Describe the relationship factually without editorializing.',
+          'Animosity or motive',
+          ['Had you had disagreements with them before?', 'Have you spoken with them since the lawsuit was filed?']
+        ),
+        general(
+          'How certain are you about the details you have described today?',
+          'medium',
+          'Be honest about what you remember clearly and what you do not.',
+          'Self-assessment of reliability',
+          ['What specifically are you uncertain about?', 'Did reviewing documents change what you remember?']
+        ),
+      ];
+
+    case 'corporate_representative':
+      return [
+        general(
+          'Which topics were you designated to testify about on behalf of the organization?',
+          'easy',
+          'Know your designated topics exactly and stay within them.',
+          'Scope of the designation',
+          ['Who chose you as the designee?', 'Are there topics you are not prepared to address?']
+        ),
+        general(
+          'What did you do to prepare on each of those topics, and who did you speak with?',
+          'medium',
+          'Describe your preparation topic by topic, including the people you interviewed.',
+          'Inadequate preparation binds the organization to "I don\'t know"',
+          ['How long did you spend preparing?', 'Is there anyone with knowledge you did not speak with?']
+        ),
+        general(
+          'Which documents did you review to prepare for today?',
+          'medium',
+          'Be specific. If you reviewed documents with counsel, say so.',
+          'Documents relied on but not produced',
+          ['Were any of those documents not produced in this case?', 'Who selected the documents you reviewed?']
+        ),
+        general(
+          'Which of your answers today are based on your own personal knowledge, and which on what you learned preparing?',
+          'hard',
+          'Be clear about the source of each answer without undermining the organization\'s position.',
+          'Hearsay and the basis of corporate knowledge',
+          ['Before this case, did you have any involvement in these events?', 'Who told you that?']
+        ),
+        general(
+          'You understand that your testimony today is the testimony of the organization?',
+          'easy',
+          'Confirm you understand. Answer carefully, because the organization is bound by what you say.',
+          'Binding admissions',
+          ['Is there anything you have said that the organization would disagree with?']
+        ),
+      ];
+
+    default:
+      return [
+        general(
+          'How did you prepare for your testimony today?',
+          'easy',
+          'Be honest about preparation. It\'s normal to review documents with counsel.',
+          'May suggest coaching',
+          ['Who did you meet with to prepare?', 'How many times did you meet with them?']
+        ),
+        general(
+          'Are you being compensated in any way for your testimony, or do you have any financial interest in the outcome of this case?',
+          'easy',
+          'Answer directly. Expert witnesses are typically compensated; fact witnesses usually are not.',
+          'Potential bias',
+          ['How much are you being paid?', 'Does your compensation depend on the outcome of this case?']
+        ),
+        general(
+          'What is your relationship to the parties in this case?',
+          'easy',
+          'Describe relationships factually without editorializing.',
+          'Potential bias based on relationships',
+          ['How long have you known them?', 'Have you ever had any conflicts with them?']
+        ),
+        general(
+          'How would you describe your memory in general? Is there anything about your testimony today that you\'re not completely certain about?',
+          'medium',
+          'Be honest about your memory capabilities. It\'s okay to acknowledge uncertainty.',
+          'Self-assessment of reliability',
+          ['What specifically are you uncertain about?', 'Have you ever forgotten important details in the past?']
+        ),
+        general(
+          'Have you ever given testimony in any proceeding that was later found to be inaccurate or that you needed to correct?',
+          'hard',
+          'Answer honestly. If yes, explain the circumstances.',
+          'Prior credibility issues',
+          ['What were the circumstances of that inaccuracy?', 'How did you discover that your testimony was inaccurate?']
+        ),
+      ];
   }
-]
-
-IMPORTANT: 
-- Return ONLY the JSON array. No markdown, no code blocks, no explanatory text.
-- All questions and follow-ups must be directed TO ${witnessName} (the person testifying).
-- You MUST include exactly 5 questions with category "general".
-- Remember: ${witnessName} is the ONLY person being questioned. All questions and follow-ups must be directed to ${witnessName}.`;
 }
 
-// Robust JSON parsing with multiple fallback strategies
-function parseJSONResponse(content: string): unknown[] | null {
-  // Strategy 1: Direct parse
-  try {
-    const parsed = JSON.parse(content);
-    if (Array.isArray(parsed)) return parsed;
-  } catch {
-    // Continue to next strategy
-  }
-
-  // Strategy 2: Clean and parse
-  try {
-    let cleaned = content.trim();
-    // Remove BOM and other invisible characters
-    cleaned = cleaned.replace(/^\uFEFF/, '');
-    // Remove markdown code blocks (various formats)
-    cleaned = cleaned.replace(/^```(?:json)?\s*\n?/i, '');
-    cleaned = cleaned.replace(/\n?```\s*$/i, '');
-    cleaned = cleaned.trim();
-    
-    const parsed = JSON.parse(cleaned);
-    if (Array.isArray(parsed)) return parsed;
-  } catch {
-    // Continue to next strategy
-  }
-
-  // Strategy 3: Extract JSON array using regex (greedy)
-  try {
-    const arrayMatch = content.match(/\[\s*\{[\s\S]*\}\s*\]/);
-    if (arrayMatch) {
-      const parsed = JSON.parse(arrayMatch[0]);
-      if (Array.isArray(parsed)) return parsed;
+// Pick fallback questions to match the requested count, category mix and difficulty mix
+// as closely as the available questions allow. Keeps the pool order in the result.
+function selectFallbackQuestions(
+  documentQuestions: CrossExamQuestion[],
+  generalQuestions: CrossExamQuestion[],
+  options: QuestionGenerationOptions
+): CrossExamQuestion[] {
+  const pool = [...documentQuestions, ...generalQuestions];
+  const { generalCount, byCategory } = getCategoryTargets(options);
+  const difficultyTargets = getDifficultyTargets(options);
+  const selected = new Set<CrossExamQuestion>();
+  const difficultyCounts: Partial<Record<CrossExamQuestion['difficulty'], number>> = {};
+
+  // Prefer questions whose difficulty is still below its target
+  const needsDifficulty = (question: CrossExamQuestion) =>
+    !difficultyTargets || (difficultyCounts[question.difficulty] || 0) < (difficultyTargets[question.difficulty] || 0);
+
+  const pick = (candidates: CrossExamQuestion[], count: number) => {
+    for (let i = 0; i < count; i++) {
+      const remaining = candidates.filter(question => !selected.has(question));
+      const next = remaining.find(needsDifficulty) || remaining[0];
+      if (!next) return;
+      selected.add(next);
+      difficultyCounts[next.difficulty] = (difficultyCounts[next.difficulty] || 0) + 1;
     }
-  } catch {
-    // Continue to next strategy
-  }
+  };
 
-  // Strategy 4: Find first [ and last ] and try to parse
-  try {
-    const firstBracket = content.indexOf('[');
-    const lastBracket = content.lastIndexOf(']');
-    if (firstBracket !== -1 && lastBracket !== -1 && lastBracket > firstBracket) {
-      const jsonStr = content.substring(firstBracket, lastBracket + 1);
-      const parsed = JSON.parse(jsonStr);
-      if (Array.isArray(parsed)) return parsed;
-    }
-  } catch {
-    // Continue to next strategy
+  const targets = byCategory || { general: generalCount };
+  for (const [category, count] of Object.entries(targets)) {
+    pick(pool.filter(question => question.category === category), count);
   }
+  // Without a category mix the rest are document-specific; with one, fill any shortfall from what's left
+  pick(byCategory ? pool : documentQuestions, options.questionCount - selected.size);
 
-  // Strategy 5: Try to fix common JSON issues
-  try {
-    let fixed = content;
-    // Extract potential JSON
-    const firstBracket = fixed.indexOf('[');
-    const lastBracket = fixed.lastIndexOf(']');
-    if (firstBracket !== -1 && lastBracket !== -1) {
-      fixed = fixed.substring(firstBracket, lastBracket + 1);
-    }
-    // Fix trailing commas
-    fixed = fixed.replace(/,\s*([}\]])/g, '$1');
-    // Fix unescaped newlines in strings
-    fixed = fixed.replace(/(?<!\\)\\n/g, '\\n');
-    
-    const parsed = JSON.parse(fixed);
-    if (Array.isArray(parsed)) return parsed;
-  } catch {
-    // Continue to next strategy
-  }
-
-  // Strategy 6: Try to extract individual question objects
-  try {
-    const questionMatches = content.matchAll(/\{[^{}]*"question"[^{}]*\}/g);
-    const questions: unknown[] = [];
-    for (const match of questionMatches) {
-      try {
-        const q = JSON.parse(match[0]);
-        if (q && typeof q.question === 'string') {
-          questions.push(q);
-        }
-      } catch {
-        // Skip malformed objects
-      }
-    }
-    if (questions.length > 0) return questions;
-  } catch {
-    // All strategies failed
-  }
-
-  return null;
+  return pool.filter(question => selected.has(question));
 }
 
 // Generate fallback questions - questions directed to witness without repetitive name prefix
-function generateFallbackQuestions(caseName: string, witnessName: string, documents: Array<{ name: string; content?: string }>): CrossExamQuestion[] {
+function generateFallbackQuestions(
+  caseName: string,
+  witnessName: string,
+  documents: Array<{ name: string; content?: string }>,
+  options: QuestionGenerationOptions
+): CrossExamQuestion[] {
   const docNames = documents.map(d => d.name).join(', ');
   
-  const fallbackQuestions: CrossExamQuestion[] = [
-    // Document-specific questions (15) - varied question styles, all directed to witness
+  // One question per focus area, ahead of the generic document questions
+  const focusQuestions: CrossExamQuestion[] = options.focusAreas.map(area => ({
+    id: uuidv4(),
+    question: `Let's talk about ${area}. What do you personally know about it, and how did you come to know it?`,
+    category: 'foundation',
+    difficulty: 'medium',
+    suggestedApproach: 'Separate what you saw or did yourself from what you learned from others or from documents.',
+    weakPoint: `Basis of knowledge about ${area}`,
+    followUpQuestions: [`Is anything you know about ${area} written down anywhere?`, `Who else has knowledge of ${area}?`],
+    documentReference: docNames,
+  }));
+  
+  const documentQuestions: CrossExamQuestion[] = [
+    ...focusQuestions,
+    // Document-specific questions (18) - varied question styles, all directed to witness
     {
       id: uuidv4(),
       question: `You've reviewed documents related to this case. Can you tell us exactly when you first became aware of the events described in ${documents[0]?.name || 'the documents'}?`,
@@ -329,71 +404,183 @@ function generateFallbackQuestions(caseName: string, witnessName: string, docume
     },
     {
       id: uuidv4(),
-      question: `Is there any information relevant to this case that is NOT contained in these documents?`,
-      category: 'foundation',
+      question: `You gave an account of these events before today. Is anything you have said here different from what you said then?`,
+      category: 'impeachment',
       difficulty: 'hard',
-      suggestedApproach: 'Disclose any relevant information not in the documents.',
-      weakPoint: 'Incomplete documentary record',
-      followUpQuestions: ['Why wasn\'t that information documented?', 'Who else might know about this undocumented information?'],
+      suggestedApproach: 'Know your prior statements. If something differs, explain why plainly rather than denying it.',
+      weakPoint: 'Prior inconsistent statements',
+      followUpQuestions: ['Which version is true?', 'Were you under oath when you gave the earlier account?'],
       documentReference: docNames,
     },
-    // General cross-examination questions (5) - REQUIRED
     {
       id: uuidv4(),
-      question: `How did you prepare for your testimony today?`,
-      category: 'general',
-      difficulty: 'easy',
-      suggestedApproach: 'Be honest about preparation. It\'s normal to review documents with counsel.',
-      weakPoint: 'May suggest coaching',
-      followUpQuestions: ['Who did you meet with to prepare?', 'How many times did you meet with them?'],
-      documentReference: 'General Cross-Examination',
-    },
-    {
-      id: uuidv4(),
-      question: `Are you being compensated in any way for your testimony, or do you have any financial interest in the outcome of this case?`,
-      category: 'general',
-      difficulty: 'easy',
-      suggestedApproach: 'Answer directly. Expert witnesses are typically compensated; fact witnesses usually are not.',
-      weakPoint: 'Potential bias',
-      followUpQuestions: ['How much are you being paid?', 'Does your compensation depend on the outcome of this case?'],
-      documentReference: 'General Cross-Examination',
-    },
-    {
-      id: uuidv4(),
-      question: `What is your relationship to the parties in this case?`,
-      category: 'general',
-      difficulty: 'easy',
-      suggestedApproach: 'Describe relationships factually without editorializing.',
-      weakPoint: 'Potential bias based on relationships',
-      followUpQuestions: ['How long have you known them?', 'Have you ever had any conflicts with them?'],
-      documentReference: 'General Cross-Examination',
+      question: `${documents[0]?.name || 'This document'} records what happened. You didn't tell anyone it was wrong at the time, did you?`,
+      category: 'impeachment',
+      difficulty: 'hard',
+      suggestedApproach: 'If you raised concerns, say when and with whom. If you did not, explain why without guessing.',
+      weakPoint: 'Silence in the face of a contrary record',
+      followUpQuestions: ['When did you first say it was wrong?', 'Who did you tell?'],
+      documentReference: documents[0]?.name || 'Case Documents',
     },
     {
       id: uuidv4(),
-      question: `How would you describe your memory in general? Is there anything about your testimony today that you're not completely certain about?`,
-      category: 'general',
-      difficulty: 'medium',
-      suggestedApproach: 'Be honest about your memory capabilities. It\'s okay to acknowledge uncertainty.',
-      weakPoint: 'Self-assessment of reliability',
-      followUpQuestions: ['What specifically are you uncertain about?', 'Have you ever forgotten important details in the past?'],
-      documentReference: 'General Cross-Examination',
+      question: `Have you ever been disciplined, or had your honesty questioned, in connection with the matters in these documents?`,
+      category: 'impeachment',
+      difficulty: 'hard',
+      suggestedApproach: 'Answer truthfully and briefly. Do not volunteer more than the question asks.',
+      weakPoint: 'Prior conduct bearing on truthfulness',
+      followUpQuestions: ['What was the outcome?', 'Was that disclosed to anyone in this case?'],
+      documentReference: docNames,
     },
     {
       id: uuidv4(),
-      question: `Have you ever given testimony in any proceeding that was later found to be inaccurate or that you needed to correct?`,
-      category: 'general',
+      question: `Is there any information relevant to this case that is NOT contained in these documents?`,
+      category: 'foundation',
       difficulty: 'hard',
-      suggestedApproach: 'Answer honestly. If yes, explain the circumstances.',
-      weakPoint: 'Prior credibility issues',
-      followUpQuestions: ['What were the circumstances of that inaccuracy?', 'How did you discover that your testimony was inaccurate?'],
-      documentReference: 'General Cross-Examination',
+      suggestedApproach: 'Disclose any relevant information not in the documents.',
+      weakPoint: 'Incomplete documentary record',
+      followUpQuestions: ['Why wasn\'t that information documented?', 'Who else might know about this undocumented information?'],
+      documentReference: docNames,
     },
   ];
 
-  return fallbackQuestions;
+  return selectFallbackQuestions(documentQuestions, getGeneralFallbackQuestions(options), options);
 }
 
-// POST /api/sessions/[sessionId]/generate-questions - Generate cross-exam questions
+// Category and difficulty split for direct and redirect questions, phrased for the prompt
+function describeDirectQuestionMix(options: QuestionGenerationOptions): string {
+  const { byCategory } = getCategoryTargets(options);
+  const counts = Object.entries(byCategory || {}).map(([category, count]) => `${count} "${category}"`).join(', ');
+  const lines = [`- Use exactly this category split: ${counts}`];
+
+  const difficulties = getDifficultyTargets(options);
+  if (difficulties) {
+    const difficultyCounts = Object.entries(difficulties).map(([difficulty, count]) => `${count} "${difficulty}"`).join(', ');
+    lines.push(`- Use exactly this difficulty split: ${difficultyCounts}`);
+  }
+
+  return lines.join('\n');
+}
+
+// System prompt for the witness's own counsel preparing direct examination or redirect
+function getDirectExamPrompt(witnessName: string, mode: ExaminationMode, options: QuestionGenerationOptions): string {
+  const role = WITNESS_ROLE_GUIDANCE[options.witnessRole];
+  const task = mode === 'redirect'
+    ? `preparing REDIRECT examination of your own witness, ${witnessName}. Opposing counsel has just cross-examined ${witnessName}, and you will be given the points where the cross did damage. Generate exactly ${options.questionCount} redirect questions that let ${witnessName} explain, give context and correct the record on those points.`
+    : `preparing the DIRECT examination outline for your own witness, ${witnessName}. Generate exactly ${options.questionCount} direct examination questions that let ${witnessName} tell their story clearly and credibly to the jury.`;
+
+  return `You are an experienced trial attorney ${task}
+
+WITNESS ROLE: ${role.label}
+
+The witness is ${witnessName}. The documents may contain statements from other people; ask ${witnessName} about what THEY saw, did and know.
+
+RULES FOR QUESTIONING YOUR OWN WITNESS:
+1. Use open, non-leading questions - who, what, when, where, why, how, "describe", "explain", "what happened next". Never suggest the answer.
+2. Short, simple questions, one fact at a time, in an order the jury can follow
+3. ${mode === 'redirect' ? 'Stay within the scope of the cross-examination - every question must address a point raised on cross' : 'Build the story in chronological order, and bring in the documents where the witness can lay their foundation'}
+4. Use "you" and "your" - do not start every question with "${witnessName}"
+
+CATEGORIES:
+${DIRECT_EXAM_CATEGORIES.map(category => `- ${category}: ${DIRECT_CATEGORY_GUIDANCE[category]}`).join('\n')}
+
+STRUCTURE YOUR ${options.questionCount} QUESTIONS AS FOLLOWS:
+${describeDirectQuestionMix(options)}
+${describeFocusAreas(options)}
+For each question, provide:
+1. The question itself - directed to ${witnessName} using "you" and "your"
+2. Category: one of "background", "narrative", "exhibits" or "rehabilitation"
+3. Difficulty: "easy", "medium", or "hard" - how hard the question is for ${witnessName} to answer well
+4. A suggested approach for how ${witnessName} should answer
+5. What the answer needs to establish or repair (weakPoint)
+6. 1-3 natural follow-up questions, also open and non-leading
+7. A reference to which document this relates to
+8. The IDs of the document chunks the question is based on - each excerpt is tagged like [Chunk 1a2b3c4d-3]
+
+Return your response as a JSON array with exactly ${options.questionCount} questions in this format:
+[
+  {
+    "question": "Open question directed to ${witnessName}...",
+    "category": "background|narrative|exhibits|rehabilitation",
+    "difficulty": "easy|medium|hard",
+    "suggestedApproach": "How ${witnessName} should answer",
+    "weakPoint": "What this answer needs to establish or repair",
+    "followUpQuestions": ["Open follow-up question"],
+    "documentReference": "Which document/section this relates to",
+    "sourceChunkIds": ["1a2b3c4d-3"]
+  }
+]
+
+IMPORTANT: Return ONLY the JSON array. No markdown, no code blocks, no explanatory text.`;
+}
+
+// Template direct or redirect questions used when the LLM is unavailable. Redirect turns each
+// weakness from cross into a rehabilitation question.
+function generateDirectFallbackQuestions(
+  mode: ExaminationMode,
+  documents: Array<{ name: string }>,
+  options: QuestionGenerationOptions,
+  weaknesses: CrossWeakness[]
+): CrossExamQuestion[] {
+  const docNames = documents.map(d => d.name).join(', ');
+  const firstDocument = documents[0]?.name || 'Case Documents';
+  const question = (
+    category: CrossExamQuestion['category'],
+    text: string,
+    difficulty: CrossExamQuestion['difficulty'],
+    suggestedApproach: string,
+    weakPoint: string,
+    followUpQuestions: string[],
+    documentReference = docNames
+  ): CrossExamQuestion => ({
+    id: uuidv4(),
+    question: text,
+    category,
+    difficulty,
+    suggestedApproach,
+    weakPoint,
+    followUpQuestions,
+    documentReference,
+    mode,
+  });
+
+  const rehabilitation = weaknesses.map(weakness => question(
+    'rehabilitation',
+    `On cross-examination you were asked, "${weakness.question}" Is there anything you weren't given the chance to explain about your answer?`,
+    'medium',
+    'Give the context you could not give on cross. Stay calm and factual; do not argue with opposing counsel\'s questions.',
+    weakness.weaknesses.join(' | '),
+    ['Why is that important?', 'How do you know that?']
+  ));
+
+  const pool: CrossExamQuestion[] = [
+    ...options.focusAreas.map(area => question(
+      'narrative',
+      `Please tell the jury what you know about ${area}.`,
+      'medium',
+      'Describe what you saw or did yourself, in order, in your own words.',
+      `The witness's account of ${area}`,
+      ['How do you know that?', 'What happened next?']
+    )),
+    ...rehabilitation,
+    question('background', 'Please introduce yourself to the jury.', 'easy', 'Speak to the jury, not the lawyer. Keep it brief and natural.', 'First impression of the witness', ['Where do you live?', 'Who is in your family?'], 'General Background'),
+    question('background', 'Tell us about your education and your work.', 'easy', 'Cover what matters to this case without overselling yourself.', 'Why the jury should trust the witness', ['How long have you done that work?', 'What does that job involve day to day?'], 'General Background'),
+    question('background', 'How did you come to be involved in the events in this case?', 'easy', 'Explain your connection simply and honestly.', 'The witness\'s reason for being there', ['Had you been there before?'], firstDocument),
+    question('narrative', `Directing your attention to the events described in ${firstDocument}, where were you at the time?`, 'easy', 'Set the scene: place, time and who was there.', 'Foundation for what the witness observed', ['What were you doing there?', 'Who else was with you?'], firstDocument),
+    question('narrative', 'What is the first thing you remember noticing?', 'medium', 'Describe it as you experienced it, in order.', 'The start of the witness\'s account', ['What did you do then?'], firstDocument),
+    question('narrative', 'What happened next?', 'medium', 'Keep the story moving in order. Give the details you are sure of.', 'A clear, chronological account', ['How long did that take?', 'What did you hear?'], firstDocument),
+    question('narrative', 'How were you able to see and hear what was happening?', 'medium', 'Describe your vantage point, the lighting and anything that helped or limited your view.', 'The witness\'s opportunity to observe', ['Was anything blocking your view?'], firstDocument),
+    question('narrative', 'What did you do after that?', 'easy', 'Describe your actions plainly, in order.', 'The witness\'s conduct afterward', ['Who did you speak with?'], firstDocument),
+    question('narrative', 'When did you first tell anyone what you had seen, and who was it?', 'medium', 'Give the time and person as best you remember.', 'Consistency of the witness\'s account over time', ['What did you tell them?'], docNames),
+    question('exhibits', `I'm showing you ${firstDocument}. Do you recognize it?`, 'medium', 'Look at it carefully before answering. Say what it is and how you know.', 'Foundation for the exhibit', ['How do you recognize it?', 'Is it in the same condition as when you last saw it?'], firstDocument),
+    question('exhibits', `Please explain to the jury what ${firstDocument} shows.`, 'medium', 'Walk through the parts that matter, in plain language.', 'What the exhibit proves', ['Is there anything missing from it?'], firstDocument),
+    question('rehabilitation', 'Is there anything about your account that you are less certain of, and why?', 'hard', 'Acknowledging limits on direct takes the sting out of cross.', 'Drawing the sting of expected cross', ['What are you certain of?'], docNames),
+  ];
+
+  return selectFallbackQuestions(pool, [], options);
+}
+
+// POST /api/sessions/[sessionId]/generate-questions - Generate questions for the session's examination mode
 export async function POST(request: NextRequest, { params }: RouteParams) {
   try {
     const { sessionId } = await params;
@@ -413,133 +600,157 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
       );
     }
     
+    // Generation options are optional; an empty body uses the defaults
+    let body: unknown = {};
+    const rawBody = await request.text();
+    if (rawBody.trim()) {
+      try {
+        body = JSON.parse(rawBody);
+      } catch {
+        return NextResponse.json(
+          { error: 'Invalid JSON body' },
+          { status: 400 }
+        );
+      }
+    }
+    
+    // Questions are generated for the session's examination mode; the other modes' questions are untouched
+    const examinationMode = getExaminationMode(session);
+    const parsedOptions = parseQuestionOptions(body, examinationMode);
+    if ('error' in parsedOptions) {
+      return NextResponse.json(
+        { error: parsedOptions.error },
+        { status: 400 }
+      );
+    }
+    const { options } = parsedOptions;
+    if (examinationMode !== 'cross' && !options.categoryMix) {
+      options.categoryMix = EXAMINATION_MODE_PROFILES[examinationMode].defaultCategoryMix;
+    }
+    
+    // Redirect repairs what cross exposed, so there has to be cross practice to draw on
+    const weaknesses = examinationMode === 'redirect' ? collectCrossWeaknesses(session) : [];
+    if (examinationMode === 'redirect' && weaknesses.length === 0) {
+      return NextResponse.json(
+        { error: 'Practice cross-examination first - redirect questions are built from the weaknesses cross exposed.' },
+        { status: 400 }
+      );
+    }
+    
+    const parsedMode = parseGenerationMode(body);
+    if ('error' in parsedMode) {
+      return NextResponse.json(
+        { error: parsedMode.error },
+        { status: 400 }
+      );
+    }
+    // Append keeps every current question; a full regeneration keeps only locked ones
+    const modeQuestions = session.questions.filter(q => getQuestionMode(q) === examinationMode);
+    const otherModeQuestions = session.questions.filter(q => getQuestionMode(q) !== examinationMode);
+    const existingQuestions = parsedMode.mode === 'append'
+      ? modeQuestions
+      : modeQuestions.filter(q => q.locked);
+    
     // Check if API key is configured
-    const apiKey = process.env.CASEDEV_API_KEY;
-    if (!apiKey) {
+    if (!isLLMConfigured()) {
       return NextResponse.json(
         { error: 'Case.dev API key not configured. Please add CASEDEV_API_KEY to your .env.local file.' },
         { status: 500 }
       );
     }
     
-    // Update status to generating
-    updateSession(sessionId, { status: 'generating' });
+    // Update status to generating and remember the options for this generation
+    updateSession(sessionId, { status: 'generating', generationOptions: options });
     
-    // Prepare document context with full content
-    const documentContext = session.documents
-      .map((doc: { name: string; content?: string }) => {
-        const content = doc.content || '[Content not available - please upload a text file]';
-        return `=== DOCUMENT: ${doc.name} ===\n${content}\n=== END DOCUMENT ===`;
-      })
-      .join('\n\n');
+    // Select the document chunks that fit the context budget, tagged with chunk IDs
+    const contextSelection = selectContext(session.documents, [session.witnessName, session.caseName, ...options.focusAreas].join(' '));
+    const documentContext = formatContext(contextSelection);
     
-    const userPrompt = `Case: ${session.caseName}
+    const userPrompt = examinationMode !== 'cross'
+      ? `Case: ${session.caseName}
 Witness Name: ${session.witnessName}
 
 DOCUMENTS TO ANALYZE:
 ${documentContext}
-
-Generate exactly 20 cross-examination questions for the witness ${session.witnessName}.
-
-CRITICAL REQUIREMENTS:
-1. ALL questions must be directed TO the witness (${session.witnessName}) - use "you" and "your" to address them
-2. Do NOT start every question with the witness's name - this is repetitive. Use natural questioning style.
-3. ALL follow-up questions must also be directed to the witness - ask about THEIR knowledge, actions, or observations
-4. When documents mention other people, ask the witness about their knowledge of those people
-5. Generate 15 DOCUMENT-SPECIFIC questions that reference specific facts, names, dates, times, or details from the documents
-6. Generate exactly 5 GENERAL cross-examination questions (category: "general") about:
-   - How the witness prepared for testimony
-   - Compensation or financial interest
-   - Memory and certainty
-   - Relationship to parties
-   - Prior inaccurate testimony
-
-CRITICAL: Return ONLY a valid JSON array. No markdown formatting, no code blocks, no text before or after the JSON.`;
+${examinationMode === 'redirect' ? `
+WHAT CROSS-EXAMINATION EXPOSED (weakest answers first):
+${formatWeaknessesForPrompt(weaknesses)}
+` : ''}
+Generate exactly ${options.questionCount} ${examinationMode === 'redirect' ? 'redirect' : 'direct examination'} questions for your witness ${session.witnessName} (witness role: ${WITNESS_ROLE_GUIDANCE[options.witnessRole].label}).
+${describeDirectQuestionMix(options)}
+${describeFocusAreas(options)}${describeExistingQuestions(existingQuestions.map(q => q.question))}
+CRITICAL: Return ONLY a valid JSON array. No markdown formatting, no code blocks, no text before or after the JSON.`
+      : getCrossExamUserPrompt(session.caseName, session.witnessName, documentContext, options, existingQuestions.map(q => q.question));
 
     let questions: CrossExamQuestion[] = [];
     let usedFallback = false;
+    let fallbackReason: string | undefined;
 
     try {
-      const response = await fetch('https://api.case.dev/llm/v1/chat/completions', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${apiKey}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          model: 'casemark/casemark-core-1',
-          messages: [
-            { role: 'system', content: getQuestionGenerationPrompt(session.witnessName) },
-            { role: 'user', content: userPrompt },
-          ],
-          temperature: 0.7,
-          max_tokens: 8000,
-        }),
-      });
-      
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error('LLM API error:', errorText);
-        // Use fallback questions instead of failing
-        questions = generateFallbackQuestions(session.caseName, session.witnessName, session.documents);
-        usedFallback = true;
+      if (examinationMode === 'cross') {
+        const { data } = await completeStructured('questionGeneration', [
+          { role: 'system', content: getQuestionGenerationPrompt(session.witnessName, options) },
+          { role: 'user', content: userPrompt },
+        ], crossExamQuestionsSchema);
+        
+        questions = data.slice(0, options.questionCount).map(q => ({
+          id: uuidv4(),
+          ...q,
+          sourceChunkIds: filterChunkIds(q.sourceChunkIds, contextSelection),
+        }));
       } else {
-        const data = await response.json();
-        const content = data.choices?.[0]?.message?.content || '';
+        const { data } = await completeStructured('directExamGeneration', [
+          { role: 'system', content: getDirectExamPrompt(session.witnessName, examinationMode, options) },
+          { role: 'user', content: userPrompt },
+        ], directExamQuestionsSchema);
         
-        if (!content) {
-          // Use fallback questions
-          questions = generateFallbackQuestions(session.caseName, session.witnessName, session.documents);
-          usedFallback = true;
-        } else {
-          // Try to parse with robust parser
-          const questionsData = parseJSONResponse(content);
-          
-          if (questionsData && questionsData.length > 0) {
-            // Transform to our question format
-            questions = questionsData.slice(0, 20).map((q: unknown) => {
-              const qObj = q as Record<string, unknown>;
-              return {
-                id: uuidv4(),
-                question: String(qObj.question || 'Question not available'),
-                category: validateCategory(String(qObj.category || 'general')),
-                difficulty: validateDifficulty(String(qObj.difficulty || 'medium')),
-                suggestedApproach: qObj.suggestedApproach ? String(qObj.suggestedApproach) : undefined,
-                weakPoint: qObj.weakPoint ? String(qObj.weakPoint) : undefined,
-                followUpQuestions: Array.isArray(qObj.followUpQuestions) 
-                  ? qObj.followUpQuestions.map((f: unknown) => String(f))
-                  : undefined,
-                documentReference: qObj.documentReference ? String(qObj.documentReference) : undefined,
-              };
-            });
-          } else {
-            // Parsing failed, use fallback
-            console.warn('Failed to parse LLM response, using fallback questions. Raw content length:', content.length);
-            questions = generateFallbackQuestions(session.caseName, session.witnessName, session.documents);
-            usedFallback = true;
-          }
-        }
+        questions = data.slice(0, options.questionCount).map(q => ({
+          id: uuidv4(),
+          ...q,
+          sourceChunkIds: filterChunkIds(q.sourceChunkIds, contextSelection),
+          mode: examinationMode,
+        }));
       }
     } catch (apiError) {
-      console.error('LLM API error:', apiError);
-      // Use fallback questions instead of failing
-      questions = generateFallbackQuestions(session.caseName, session.witnessName, session.documents);
+      console.error('Question generation failed, using fallback questions:', apiError);
+      // Use fallback questions instead of failing, and tell the client why
+      questions = examinationMode === 'cross'
+        ? generateFallbackQuestions(session.caseName, session.witnessName, session.documents, options)
+        : generateDirectFallbackQuestions(examinationMode, session.documents, options, weaknesses);
       usedFallback = true;
+      fallbackReason = describeLLMFailure(apiError);
     }
-
-    // Ensure we have at least some questions
-    if (questions.length === 0) {
-      questions = generateFallbackQuestions(session.caseName, session.witnessName, session.documents);
-      usedFallback = true;
+    
+    // The template pool and the model can both come up short of the requested count
+    const generated = questions.length;
+    const warning = generated < options.questionCount
+      ? `Only ${generated} of the ${options.questionCount} requested questions could be generated${usedFallback ? '; the template set has no more for these settings' : ''}.`
+      : undefined;
+    
+    // Kept questions (and their IDs) stay as they are; drop new ones that repeat them
+    let duplicatesRemoved = 0;
+    if (existingQuestions.length > 0) {
+      const merged = mergeQuestions(existingQuestions, questions);
+      questions = merged.added;
+      duplicatesRemoved = merged.duplicates.length;
     }
     
     // Save questions to session
-    const updatedSession = setQuestions(sessionId, questions);
+    const updatedSession = parsedMode.mode === 'append'
+      ? appendQuestions(sessionId, questions)
+      : setQuestions(sessionId, [...otherModeQuestions, ...existingQuestions, ...questions]);
     
     return NextResponse.json({
-      questions,
+      questions, // Only the questions added by this run
       session: updatedSession ? serializeSession(updatedSession) : null,
+      mode: parsedMode.mode,
+      examinationMode,
+      duplicatesRemoved,
+      requested: options.questionCount,
+      generated,
+      warning,
       usedFallback, // Let the client know if fallback was used
+      fallbackReason,
     });
   } catch (error) {
     console.error('Error generating questions:', error);
@@ -549,13 +760,3 @@ CRITICAL: Return ONLY a valid JSON array. No markdown formatting, no code blocks
     );
   }
 }
-
-function validateCategory(category: string): CrossExamQuestion['category'] {
-  const valid = ['timeline', 'credibility', 'inconsistency', 'foundation', 'impeachment', 'general'];
-  return valid.includes(category) ? category as CrossExamQuestion['category'] : 'general';
-}
-
-function validateDifficulty(difficulty: string): CrossExamQuestion['difficulty'] {
-  const valid = ['easy', 'medium', 'hard'];
-  return valid.includes(difficulty) ? difficulty as CrossExamQuestion['difficulty'] : 'medium';
-}
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '@/lib/session-store';
+import { getNextQuestion } from '@/lib/practice-scheduler';
+import { EXAMINATION_MODE_PROFILES, getExaminationMode, getModeQuestions } from '@/lib/examination-modes';
+
+interface RouteParams {
+  params: Promise<{ sessionId: string }>;
+}
+
+// GET /api/sessions/[sessionId]/practice/next - Next question to practice in the current round
+// Only questions in the session's examination mode are scheduled. Returns roundComplete: true (and no
+// question) once every question due this round has been answered.
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { sessionId } = await params;
+    const session = getSession(sessionId);
+    
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Session not found' },
+        { status: 404 }
+      );
+    }
+    
+    if (getModeQuestions(session).length === 0) {
+      return NextResponse.json(
+        { error: `Generate ${EXAMINATION_MODE_PROFILES[getExaminationMode(session)].label.toLowerCase()} questions before practicing` },
+        { status: 400 }
+      );
+    }
+    
+    return NextResponse.json(getNextQuestion(session));
+  } catch (error) {
+    console.error('Error scheduling next question:', error);
+    return NextResponse.json(
+      { error: 'Failed to get next question' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,149 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '@/lib/session-store';
+import { ExaminationMode, ObjectionRuling } from '@/lib/types';
+import { selectContext, formatContext } from '@/lib/retrieval';
+import { completeStructured, describeLLMFailure, isLLMConfigured } from '@/lib/llm';
+import { objectionReviewSchema } from '@/lib/llm-schemas';
+import { buildObjectionRuling, describeObjectionsForPrompt, formatPriorQuestions } from '@/lib/objections';
+import { getCurrentRound, getExchangeRound } from '@/lib/practice-scheduler';
+import { getExaminationMode, getQuestionMode } from '@/lib/examination-modes';
+
+interface RouteParams {
+  params: Promise<{ sessionId: string }>;
+}
+
+// Only enough documents to tell whether the question assumes facts
+const OBJECTION_CONTEXT_BUDGET = 8000;
+
+// What happens after an objection, and what the witness is coached to do about it. Cross is
+// practiced as a deposition; direct and redirect only happen at trial, where the court rules first.
+const OBJECTION_PROCEDURES: Record<'deposition' | 'trial', { rule: string; pauseGuidance: string }> = {
+  deposition: {
+    rule: 'At a deposition an objection preserves the issue; the witness still answers unless the question is withdrawn or rephrased.',
+    pauseGuidance: 'pause before answering, wait for the objection to be stated, listen to it for what it reveals about the question, and then answer (or ask for the question to be rephrased or broken up if it can\'t be answered as asked)',
+  },
+  trial: {
+    rule: 'At trial the court rules on every objection before the witness answers. If it is sustained the witness does not answer and counsel must move on or rephrase; if it is overruled the witness answers.',
+    pauseGuidance: 'pause before answering, stop at once if counsel objects, say nothing until the court rules, answer only if the objection is overruled, and if it is sustained wait for the next question instead of answering',
+  },
+};
+
+// On direct and redirect the witness's own counsel is asking, so the objections come from opposing counsel
+function getDefendingCounselPrompt(witnessName: string, mode: ExaminationMode): string {
+  const procedure = OBJECTION_PROCEDURES[mode === 'cross' ? 'deposition' : 'trial'];
+  const intro = mode === 'cross'
+    ? `You are defending counsel for ${witnessName} during a deposition. Opposing counsel has just asked ${witnessName} a question. Decide whether you would object, as a careful defending attorney would, before your witness answers.`
+    : `You are opposing counsel at trial during the ${mode === 'redirect' ? 'redirect' : 'direct'} examination of ${witnessName}. ${witnessName}'s own attorney has just asked them a question. Decide whether you would object, as a careful attorney would, before the witness answers.`;
+  const modeRules = mode === 'cross'
+    ? ''
+    : `
+Because this is the witness's own counsel, also object on "form" to leading questions - questions that suggest the answer - other than on preliminary or background matters.${mode === 'redirect' ? ' Object on "form" as well to questions that go beyond the scope of the cross-examination.' : ''}
+`;
+
+  return `${intro}
+
+Consider these objections:
+${describeObjectionsForPrompt()}
+${modeRules}
+Only object when the objection is well founded - do not object to proper questions just because they are hard or damaging. Most questions deserve no objection. ${procedure.rule}
+
+Then write pauseGuidance: one or two sentences teaching ${witnessName} what to do with this question - ${procedure.pauseGuidance}.
+
+Return ONLY one JSON object in this format. No markdown, no code blocks, no explanatory text:
+{
+  "objections": [
+    { "type": "compound|assumes_facts|argumentative|asked_and_answered|speculation|form", "grounds": "What makes the question objectionable, in one sentence" }
+  ],
+  "pauseGuidance": "What the witness should do before and after the objection"
+}
+Return an empty objections array when the question is proper.`;
+}
+
+// POST /api/sessions/[sessionId]/practice/objections - Defending counsel's objections to the question about to be answered
+// Body: { questionId, question? } for a scripted question, or { parentExchangeId } for that exchange's follow-up.
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { sessionId } = await params;
+    const session = getSession(sessionId);
+    
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Session not found' },
+        { status: 404 }
+      );
+    }
+    
+    const body = await request.json();
+    const parent = body.parentExchangeId
+      ? session.practiceHistory.find(exchange => exchange.id === body.parentExchangeId)
+      : undefined;
+    if (body.parentExchangeId && !parent) {
+      return NextResponse.json(
+        { error: 'Parent exchange not found' },
+        { status: 404 }
+      );
+    }
+    
+    const scripted = session.questions.find(q => q.id === (parent ? parent.questionId : body.questionId));
+    const question: string | undefined = parent
+      ? parent.aiFollowUp
+      : body.question || scripted?.question;
+    if (!question) {
+      return NextResponse.json(
+        { error: 'questionId or parentExchangeId is required' },
+        { status: 400 }
+      );
+    }
+    
+    if (!isLLMConfigured()) {
+      return NextResponse.json(
+        { error: 'Case.dev API key not configured. Please add CASEDEV_API_KEY to your .env.local file.' },
+        { status: 500 }
+      );
+    }
+    
+    const mode = scripted ? getQuestionMode(scripted) : parent?.mode || getExaminationMode(session);
+    
+    // What the witness has already been asked in this examination (the round the question belongs to)
+    const round = parent ? getExchangeRound(parent) : getCurrentRound(session);
+    const priorExchanges = session.practiceHistory.filter(exchange => getExchangeRound(exchange) === round);
+    const documentContext = formatContext(selectContext(session.documents, question, OBJECTION_CONTEXT_BUDGET));
+    
+    const userPrompt = `Case: ${session.caseName}
+Witness: ${session.witnessName}
+
+CASE DOCUMENTS:
+${documentContext || 'No documents uploaded.'}
+
+QUESTIONS ALREADY ASKED AND ANSWERED (oldest first):
+${formatPriorQuestions(priorExchanges) || 'None - this is the first question.'}
+
+QUESTION JUST ASKED: "${question}"
+
+CRITICAL: Return ONLY a valid JSON object. No markdown formatting, no code blocks, no text before or after the JSON.`;
+    
+    let ruling: ObjectionRuling;
+    try {
+      const { data } = await completeStructured('objectionReview', [
+        { role: 'system', content: getDefendingCounselPrompt(session.witnessName, mode) },
+        { role: 'user', content: userPrompt },
+      ], objectionReviewSchema);
+      
+      ruling = buildObjectionRuling(question, data);
+    } catch (apiError) {
+      console.error('Objection review failed:', apiError);
+      return NextResponse.json(
+        { error: describeLLMFailure(apiError) },
+        { status: 502 }
+      );
+    }
+    
+    return NextResponse.json({ ruling });
+  } catch (error) {
+    console.error('Error reviewing question for objections:', error);
+    return NextResponse.json(
+      { error: 'Failed to review question for objections' },
+      { status: 500 }
+    );
+  }
+}
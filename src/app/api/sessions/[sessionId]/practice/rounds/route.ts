@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession, updateSession } from '@/lib/session-store';
+import { getCurrentRound, getExchangeRound, getNextQuestion } from '@/lib/practice-scheduler';
+
+interface RouteParams {
+  params: Promise<{ sessionId: string }>;
+}
+
+// POST /api/sessions/[sessionId]/practice/rounds - Start the next practice round
+// Questions answered poorly, and those whose review interval is up, come back in the new round.
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { sessionId } = await params;
+    const session = getSession(sessionId);
+    
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Session not found' },
+        { status: 404 }
+      );
+    }
+    
+    const round = getCurrentRound(session);
+    const answeredThisRound = session.practiceHistory.some(exchange => getExchangeRound(exchange) === round);
+    if (!answeredThisRound) {
+      return NextResponse.json(
+        { error: `Answer at least one question in round ${round} before starting another` },
+        { status: 409 }
+      );
+    }
+    
+    const updatedSession = updateSession(sessionId, { practiceRound: round + 1 });
+    if (!updatedSession) {
+      return NextResponse.json(
+        { error: 'Session not found' },
+        { status: 404 }
+      );
+    }
+    
+    return NextResponse.json(getNextQuestion(updatedSession));
+  } catch (error) {
+    console.error('Error starting practice round:', error);
+    return NextResponse.json(
+      { error: 'Failed to start practice round' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,20 +1,62 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { v4 as uuidv4 } from 'uuid';
-import { getSession, addPracticeExchange, updateSession, serializeSession } from '@/lib/session-store';
-import { PracticeExchange } from '@/lib/types';
+import { getSession, addPracticeExchange, updateSession, updateRecording, serializeSession } from '@/lib/session-store';
+import { PracticeExchange, AIExaminerResponse, ExaminationMode, ExaminerSettings, ObjectionRuling } from '@/lib/types';
+import { selectContext, formatContext, filterChunkIds } from '@/lib/retrieval';
+import { completeStructured, isLLMConfigured, StructuredOutputError } from '@/lib/llm';
+import { aiExaminerResponseSchema } from '@/lib/llm-schemas';
+import { getExchangeThread, formatThreadForPrompt, getMaxFollowUpDepth } from '@/lib/practice-threads';
+import { describeRubricForPrompt, summarizeRubrics, RUBRIC_MIN_SCORE, RUBRIC_MAX_SCORE } from '@/lib/rubric';
+import { describeExaminerPersona, resolveExaminerSettings, EXAMINER_PERSONA_PROFILES } from '@/lib/examiner-personas';
+import { getCurrentRound } from '@/lib/practice-scheduler';
+import { refreshRecording } from '@/lib/transcription';
+import { analyzeDelivery, summarizeDelivery } from '@/lib/delivery';
+import { OBJECTION_GUIDANCE, parseObjectionRuling } from '@/lib/objections';
+import { EXAMINATION_MODE_PROFILES, getQuestionMode } from '@/lib/examination-modes';
 
 interface RouteParams {
   params: Promise<{ sessionId: string }>;
 }
 
-const AI_EXAMINER_PROMPT = `You are an experienced opposing counsel conducting a cross-examination. Your role is to:
+// Follow-up when the model's direct or redirect feedback can't be used
+const FRIENDLY_FALLBACK_FOLLOW_UP = 'What happened next?';
+// Shown instead of feedback the model returned in an unreadable format
+const FALLBACK_FEEDBACK = 'No feedback for this answer - the examiner\'s reply could not be read. Answer the follow-up to keep practicing.';
+
+// Rubric and response format shared by every examiner prompt
+function describeScoringAndFormat(followUpDescription: string): string {
+  return `Score the response on each rubric dimension from ${RUBRIC_MIN_SCORE} (poor) to ${RUBRIC_MAX_SCORE} (strong), with a one-sentence explanation. Higher is always better:
+${describeRubricForPrompt()}
+
+Respond in JSON format:
+{
+  "followUp": "${followUpDescription}",
+  "feedback": "Constructive feedback for the witness on their response",
+  "weaknessIdentified": "Any weakness in the response that was exposed",
+  "suggestedImprovement": "How the witness could have answered better",
+  "rubric": {
+    "responsiveness": { "score": 4, "explanation": "Why this score" },
+    "volunteering": { "score": 3, "explanation": "..." },
+    "documentConsistency": { "score": 5, "explanation": "..." },
+    "certainty": { "score": 2, "explanation": "..." },
+    "composure": { "score": 4, "explanation": "..." },
+    "length": { "score": 3, "explanation": "..." }
+  },
+  "sourceChunkIds": ["IDs of the document chunks (e.g. 1a2b3c4d-3) your follow-up and feedback rely on"]
+}`;
+}
+
+function getExaminerPrompt(examiner: ExaminerSettings): string {
+  return `You are an experienced opposing counsel conducting a cross-examination. Your role is to:
 
 1. Evaluate the witness's response to the question
 2. Identify any weaknesses, inconsistencies, or areas to probe further based on the case documents
 3. Provide a realistic follow-up question that opposing counsel might ask - this MUST relate to the specific facts in the documents
 4. Give constructive feedback on how the witness could improve their response
 
-Be professional but thorough. Look for:
+${describeExaminerPersona(examiner)}
+
+Be thorough. Look for:
 - Vague or evasive answers that don't address specific facts from the documents
 - Inconsistencies with the documents or prior statements
 - Opportunities to impeach credibility based on document details
@@ -22,17 +64,41 @@ Be professional but thorough. Look for:
 - Emotional reactions that could be exploited
 
 Your follow-up questions should reference specific details from the case documents when possible.
+When earlier questions and answers from the same line of questioning are provided, hold the witness to them: press on gaps, shifts and inconsistencies across the whole thread rather than repeating what was already asked.
 
-Respond in JSON format:
-{
-  "followUp": "The follow-up question opposing counsel would likely ask - reference specific document details",
-  "feedback": "Constructive feedback for the witness on their response",
-  "weaknessIdentified": "Any weakness in the response that was exposed",
-  "suggestedImprovement": "How the witness could have answered better"
-}`;
+${describeScoringAndFormat('The follow-up question opposing counsel would likely ask - reference specific document details')}`;
+}
+
+// Direct and redirect are conducted by the witness's own counsel: open questions, no persona or hostility
+function getFriendlyExaminerPrompt(mode: ExaminationMode): string {
+  const redirect = mode === 'redirect';
+  return `You are the witness's own attorney conducting ${redirect ? 'redirect examination after opposing counsel\'s cross' : 'direct examination'}. Your role is to:
+
+1. Evaluate how well the witness's answer tells their story to the jury
+2. ${redirect ? 'Judge whether the answer repaired the damage done on cross - explained, gave context or corrected the record - without sounding defensive' : 'Judge whether the answer was clear, complete, in the witness\'s own words and consistent with the case documents'}
+3. Ask a natural follow-up question that the witness's own counsel would ask next - open and non-leading (who, what, when, where, why, how, "describe", "what happened next")${redirect ? ', staying within the scope of the cross-examination' : ''}
+4. Give constructive feedback on how the witness could improve their response
+
+Be supportive but honest. Look for:
+- Answers too short to carry the story, or that wait for counsel to lead them
+- Jargon, rambling or details out of order that would lose the jury
+- Statements that do not square with the documents and would invite impeachment on cross
+- ${redirect ? 'Arguing with opposing counsel\'s questions instead of explaining the facts' : 'Overstated certainty that cross-examination will attack'}
+
+On ${redirect ? 'redirect' : 'direct'}, fuller narrative answers are expected: score volunteering and length against what the question invited rather than against cross-examination brevity.
+
+${describeScoringAndFormat('The follow-up question the witness\'s own counsel would ask next - open and non-leading')}`;
+}
 
 // POST /api/sessions/[sessionId]/practice - Submit a practice response
+// Body: { questionId, question, response, duration, questionShownAt?, parentExchangeId?, recordingId?, objections? }. With parentExchangeId
+// the response answers that exchange's follow-up, and questionId/question default to the parent's.
+// recordingId links a spoken answer's recording to the exchange; objections is the ruling from
+// practice/objections for this question, logged on the exchange. questionShownAt is the browser's
+// ISO time the question appeared, used with the recording's start time for time to the first word.
 export async function POST(request: NextRequest, { params }: RouteParams) {
+  // Taken before any await so the model's latency doesn't shift the answer's time
+  const receivedAt = new Date();
   try {
     const { sessionId } = await params;
     const session = getSession(sessionId);
@@ -45,7 +111,31 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
     }
     
     const body = await request.json();
-    const { questionId, question, response: witnessResponse, duration } = body;
+    const { response: witnessResponse, duration, parentExchangeId, recordingId } = body;
+    const questionShownAt = typeof body.questionShownAt === 'string' ? new Date(body.questionShownAt) : undefined;
+    
+    // A follow-up answer continues the parent's thread
+    const parent = parentExchangeId
+      ? session.practiceHistory.find(exchange => exchange.id === parentExchangeId)
+      : undefined;
+    if (parentExchangeId && !parent) {
+      return NextResponse.json(
+        { error: 'Parent exchange not found' },
+        { status: 404 }
+      );
+    }
+    
+    const questionId: string | undefined = parent ? parent.questionId : body.questionId;
+    const question: string | undefined = parent ? parent.aiFollowUp || body.question : body.question;
+    const depth = parent ? (parent.depth || 0) + 1 : 0;
+    const maxFollowUpDepth = getMaxFollowUpDepth();
+    
+    if (depth > maxFollowUpDepth) {
+      return NextResponse.json(
+        { error: `Follow-ups are limited to ${maxFollowUpDepth} per question` },
+        { status: 400 }
+      );
+    }
     
     if (!questionId || !question || !witnessResponse) {
       return NextResponse.json(
@@ -54,9 +144,35 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
       );
     }
     
-    // Check if API key is configured
-    const apiKey = process.env.CASEDEV_API_KEY;
-    if (!apiKey) {
+    let objections: ObjectionRuling | undefined;
+    if (body.objections !== undefined && body.objections !== null) {
+      const parsed = parseObjectionRuling(body.objections);
+      if ('error' in parsed) {
+        return NextResponse.json(
+          { error: parsed.error },
+          { status: 400 }
+        );
+      }
+      if (parsed.ruling.question.trim() !== question.trim()) {
+        return NextResponse.json(
+          { error: 'objections were reviewed for a different question' },
+          { status: 400 }
+        );
+      }
+      objections = parsed.ruling;
+    }
+    
+    // Pick up a transcript that finished since the client last polled
+    const recording = recordingId ? await refreshRecording(sessionId, recordingId) : undefined;
+    if (recordingId && !recording) {
+      return NextResponse.json(
+        { error: 'Recording not found' },
+        { status: 404 }
+      );
+    }
+    
+    // Check if the LLM provider is configured
+    if (!isLLMConfigured()) {
       return NextResponse.json(
         { error: 'Case.dev API key not configured. Please add CASEDEV_API_KEY to your .env.local file.' },
         { status: 500 }
@@ -68,13 +184,22 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
       updateSession(sessionId, { status: 'practicing' });
     }
     
-    // Get the question details
+    // Get the question details; the question's examination mode decides who is asking
     const questionDetails = session.questions.find(q => q.id === questionId);
+    const mode = questionDetails ? getQuestionMode(questionDetails) : parent?.mode || 'cross';
+    
+    const thread = parent ? getExchangeThread(session.practiceHistory, parent.id) : [];
     
-    // Build context for the AI examiner with full document content
-    const documentContext = session.documents
-      .map(doc => `=== DOCUMENT: ${doc.name} ===\n${doc.content || '[Content not available]'}\n=== END DOCUMENT ===`)
-      .join('\n\n');
+    // Build context for the AI examiner from the chunks most relevant to this exchange
+    const retrievalQuery = [
+      ...thread.map(exchange => exchange.question),
+      question,
+      witnessResponse,
+      questionDetails?.weakPoint,
+      questionDetails?.documentReference,
+    ].filter(Boolean).join(' ');
+    const contextSelection = selectContext(session.documents, retrievalQuery, 20000);
+    const documentContext = formatContext(contextSelection);
     
     const userPrompt = `Case: ${session.caseName}
 Witness: ${session.witnessName}
@@ -82,83 +207,52 @@ Witness: ${session.witnessName}
 CASE DOCUMENTS:
 ${documentContext}
 
-CROSS-EXAMINATION CONTEXT:
-Question Asked: "${question}"
+${EXAMINATION_MODE_PROFILES[mode].label.toUpperCase()} CONTEXT:
 ${questionDetails?.suggestedApproach ? `Suggested Approach: ${questionDetails.suggestedApproach}` : ''}
 ${questionDetails?.weakPoint ? `Known Weak Point: ${questionDetails.weakPoint}` : ''}
 ${questionDetails?.documentReference ? `Document Reference: ${questionDetails.documentReference}` : ''}
+${thread.length > 0 ? `
+EARLIER IN THIS LINE OF QUESTIONING (oldest first):
+${formatThreadForPrompt(thread)}
 
+Follow-up Asked (${depth} of ${maxFollowUpDepth}): "${question}"` : `Question Asked: "${question}"`}
+${objections?.objections.length ? `
+DEFENDING COUNSEL OBJECTED: ${objections.objections.map(objection => `${OBJECTION_GUIDANCE[objection.type].label} - ${objection.grounds}`).join('; ')}
+Note in your feedback whether the answer fell into the problem the objection flagged. Rephrase your follow-up so it is not objectionable on the same grounds.
+` : ''}
 WITNESS RESPONSE: "${witnessResponse}"
 
 Analyze this response in the context of the case documents. Provide a follow-up question that references specific details from the documents, and give feedback on the response.`;
 
-    let aiResponse = {
-      followUp: '',
-      feedback: '',
-      weaknessIdentified: '',
-      suggestedImprovement: '',
-    };
+    const examiner = resolveExaminerSettings(session.examinerSettings);
+    
+    let aiResponse: AIExaminerResponse;
+    let usedFallback = false;
 
     try {
-      const llmResponse = await fetch('https://api.case.dev/llm/v1/chat/completions', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${apiKey}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          model: 'anthropic/claude-3-haiku-20240307',
-          messages: [
-            { role: 'system', content: AI_EXAMINER_PROMPT },
-            { role: 'user', content: userPrompt },
-          ],
-          temperature: 0.7,
-          max_tokens: 1000,
-        }),
-      });
-      
-      if (!llmResponse.ok) {
-        const errorText = await llmResponse.text();
-        console.error('LLM API error:', errorText);
-        return NextResponse.json(
-          { error: `Failed to analyze response: ${llmResponse.statusText}` },
-          { status: 500 }
-        );
-      }
-      
-      const data = await llmResponse.json();
-      const content = data.choices?.[0]?.message?.content || '';
-      
-      if (!content) {
+      const { data } = await completeStructured('practiceFeedback', [
+        { role: 'system', content: mode === 'cross' ? getExaminerPrompt(examiner) : getFriendlyExaminerPrompt(mode) },
+        { role: 'user', content: userPrompt },
+      ], aiExaminerResponseSchema);
+      aiResponse = data;
+    } catch (apiError) {
+      if (!(apiError instanceof StructuredOutputError)) {
+        console.error('LLM API error:', apiError);
         return NextResponse.json(
-          { error: 'No response from LLM' },
+          { error: 'Failed to connect to LLM API. Please check your API key and try again.' },
           { status: 500 }
         );
       }
       
-      try {
-        // Try to extract JSON from the response
-        const jsonMatch = content.match(/\{[\s\S]*\}/);
-        if (jsonMatch) {
-          aiResponse = JSON.parse(jsonMatch[0]);
-        } else {
-          aiResponse = JSON.parse(content);
-        }
-      } catch {
-        // If parsing fails, use the content as feedback
-        aiResponse = {
-          followUp: 'Can you elaborate on that answer?',
-          feedback: content,
-          weaknessIdentified: '',
-          suggestedImprovement: '',
-        };
-      }
-    } catch (apiError) {
-      console.error('LLM API error:', apiError);
-      return NextResponse.json(
-        { error: 'Failed to connect to LLM API. Please check your API key and try again.' },
-        { status: 500 }
-      );
+      // The model answered but not in the expected format; its raw output is logged, never shown
+      console.warn('Practice feedback failed validation, using fallback follow-up:', apiError.issues, apiError.content);
+      aiResponse = {
+        followUp: mode === 'cross' ? EXAMINER_PERSONA_PROFILES[examiner.persona].fallbackFollowUp : FRIENDLY_FALLBACK_FOLLOW_UP,
+        feedback: FALLBACK_FEEDBACK,
+        weaknessIdentified: '',
+        suggestedImprovement: '',
+      };
+      usedFallback = true;
     }
     
     // Create practice exchange record
@@ -169,11 +263,26 @@ Analyze this response in the context of the case documents. Provide a follow-up
       witnessResponse,
       aiFollowUp: aiResponse.followUp,
       feedback: aiResponse.feedback,
-      timestamp: new Date(),
+      weaknessIdentified: aiResponse.weaknessIdentified || undefined,
+      suggestedImprovement: aiResponse.suggestedImprovement || undefined,
+      rubric: aiResponse.rubric,
+      sourceChunkIds: filterChunkIds(aiResponse.sourceChunkIds, contextSelection),
+      parentExchangeId: parent?.id,
+      depth,
+      round: parent ? parent.round : getCurrentRound(session), // Follow-ups stay in their thread's round
+      recordingId: recording?.id,
+      objections,
+      mode: mode === 'cross' ? undefined : mode,
+      usedFallback: usedFallback || undefined,
+      timestamp: receivedAt,
       duration: duration || 0,
     };
+    exchange.delivery = analyzeDelivery(exchange, recording, questionShownAt && !Number.isNaN(questionShownAt.getTime()) ? questionShownAt : undefined);
     
     // Add to session history
+    if (recording) {
+      updateRecording(sessionId, recording.id, { exchangeId: exchange.id });
+    }
     const updatedSession = addPracticeExchange(sessionId, exchange);
     
     return NextResponse.json({
@@ -182,6 +291,12 @@ Analyze this response in the context of the case documents. Provide a follow-up
         timestamp: exchange.timestamp.toISOString(),
       },
       aiResponse,
+      usedFallback,
+      canFollowUp: Boolean(aiResponse.followUp) && depth < maxFollowUpDepth,
+      maxFollowUpDepth,
+      examinerSettings: examiner,
+      rubricSummary: updatedSession ? summarizeRubrics(updatedSession.practiceHistory) : undefined,
+      deliverySummary: updatedSession ? summarizeDelivery(updatedSession.practiceHistory) : undefined,
       session: updatedSession ? serializeSession(updatedSession) : null,
     });
   } catch (error) {
@@ -214,6 +329,8 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
       totalDuration: session.totalDuration,
       questionsAnswered: session.practiceHistory.length,
       totalQuestions: session.questions.length,
+      rubricSummary: summarizeRubrics(session.practiceHistory),
+      deliverySummary: summarizeDelivery(session.practiceHistory),
     });
   } catch (error) {
     console.error('Error fetching practice history:', error);
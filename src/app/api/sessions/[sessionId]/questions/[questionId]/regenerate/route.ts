@@ -0,0 +1,177 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession, updateQuestion, serializeSession } from '@/lib/session-store';
+import { CrossExamQuestion, ExaminationMode } from '@/lib/types';
+import { selectContext, formatContext, filterChunkIds } from '@/lib/retrieval';
+import { completeStructured, describeLLMFailure, isLLMConfigured } from '@/lib/llm';
+import { crossExamQuestionSchema, directExamQuestionSchema } from '@/lib/llm-schemas';
+import { parseRegenerateInstruction } from '@/lib/question-edits';
+import { describeExistingQuestions } from '@/lib/question-dedupe';
+import { DEFAULT_QUESTION_OPTIONS, WITNESS_ROLE_GUIDANCE } from '@/lib/question-options';
+import { EXAMINATION_MODE_PROFILES, getQuestionMode } from '@/lib/examination-modes';
+
+interface RouteParams {
+  params: Promise<{ sessionId: string; questionId: string }>;
+}
+
+// A single question needs far less document context than a full generation run
+const REVISION_CONTEXT_BUDGET = 20000;
+
+function getQuestionRevisionPrompt(witnessName: string, roleLabel: string): string {
+  return `You are an experienced trial attorney refining one cross-examination question that opposing counsel might ask ${witnessName} (${roleLabel}).
+
+THE WITNESS BEING QUESTIONED IS: ${witnessName}
+Documents may quote other people. They are evidence, not the witness - ask ${witnessName} about what they said.
+
+Rewrite the question you are given so it is sharper and better grounded in the documents, following the attorney's instruction if there is one. Keep it directed to ${witnessName} using "you" and "your", and keep it on the same subject unless the instruction says otherwise.
+
+Return ONLY one JSON object in this format. No markdown, no code blocks, no explanatory text:
+{
+  "question": "Question directed to ${witnessName}...",
+  "category": "timeline|credibility|inconsistency|foundation|impeachment|general",
+  "difficulty": "easy|medium|hard",
+  "suggestedApproach": "How ${witnessName} should approach answering",
+  "weakPoint": "What vulnerability this exposes based on the documents",
+  "followUpQuestions": ["Follow-up question addressed to ${witnessName}"],
+  "documentReference": "Which document/section this relates to OR 'General Cross-Examination'",
+  "sourceChunkIds": ["1a2b3c4d-3"]
+}`;
+}
+
+// Direct and redirect questions are asked by the witness's own counsel, so they stay open and non-leading
+function getDirectQuestionRevisionPrompt(witnessName: string, roleLabel: string, mode: ExaminationMode): string {
+  return `You are an experienced trial attorney refining one ${EXAMINATION_MODE_PROFILES[mode].label.toLowerCase()} question you will ask your own witness, ${witnessName} (${roleLabel}).
+
+Documents may quote other people. They are evidence, not the witness - ask ${witnessName} about what they know.
+
+Rewrite the question you are given so it is clearer and better grounded in the documents, following the attorney's instruction if there is one. Keep it open and non-leading (who, what, when, where, why, how, "describe", "explain") and directed to ${witnessName} using "you" and "your". Keep it on the same subject unless the instruction says otherwise.
+
+Return ONLY one JSON object in this format. No markdown, no code blocks, no explanatory text:
+{
+  "question": "Open question directed to ${witnessName}...",
+  "category": "background|narrative|exhibits|rehabilitation",
+  "difficulty": "easy|medium|hard",
+  "suggestedApproach": "How ${witnessName} should answer",
+  "weakPoint": "What this answer needs to establish or repair",
+  "followUpQuestions": ["Open follow-up question"],
+  "documentReference": "Which document/section this relates to",
+  "sourceChunkIds": ["1a2b3c4d-3"]
+}`;
+}
+
+// The question as the model should see it, without server-side fields
+function formatQuestionForPrompt(question: CrossExamQuestion): string {
+  return JSON.stringify(question, (key, value) => (key === 'id' || key === 'locked' || key === 'mode' ? undefined : value), 2);
+}
+
+// POST /api/sessions/[sessionId]/questions/[questionId]/regenerate - Rewrite one question with the model
+// Body (optional): { instruction: "make it more leading" }. The question keeps its ID.
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { sessionId, questionId } = await params;
+    const session = getSession(sessionId);
+    
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Session not found' },
+        { status: 404 }
+      );
+    }
+    
+    const current = session.questions.find(q => q.id === questionId);
+    if (!current) {
+      return NextResponse.json(
+        { error: 'Question not found' },
+        { status: 404 }
+      );
+    }
+    
+    if (current.locked) {
+      return NextResponse.json(
+        { error: 'Question is locked. Unlock it before regenerating.' },
+        { status: 409 }
+      );
+    }
+    
+    let body: unknown = {};
+    const rawBody = await request.text();
+    if (rawBody.trim()) {
+      try {
+        body = JSON.parse(rawBody);
+      } catch {
+        return NextResponse.json(
+          { error: 'Invalid JSON body' },
+          { status: 400 }
+        );
+      }
+    }
+    
+    const parsed = parseRegenerateInstruction(body);
+    if ('error' in parsed) {
+      return NextResponse.json(
+        { error: parsed.error },
+        { status: 400 }
+      );
+    }
+    
+    if (!isLLMConfigured()) {
+      return NextResponse.json(
+        { error: 'Case.dev API key not configured. Please add CASEDEV_API_KEY to your .env.local file.' },
+        { status: 500 }
+      );
+    }
+    
+    const contextSelection = selectContext(session.documents, [current.question, current.documentReference, parsed.instruction].filter(Boolean).join(' '), REVISION_CONTEXT_BUDGET);
+    const documentContext = formatContext(contextSelection);
+    const witnessRole = (session.generationOptions || DEFAULT_QUESTION_OPTIONS).witnessRole;
+    const mode = getQuestionMode(current);
+    
+    const userPrompt = `Case: ${session.caseName}
+Witness Name: ${session.witnessName}
+
+DOCUMENTS:
+${documentContext}
+
+CURRENT QUESTION:
+${formatQuestionForPrompt(current)}
+
+ATTORNEY'S INSTRUCTION: ${parsed.instruction || 'Make this question sharper and more specific to the documents.'}
+${describeExistingQuestions(session.questions.filter(q => q.id !== questionId && getQuestionMode(q) === mode).map(q => q.question))}
+CRITICAL: Return ONLY a valid JSON object. No markdown formatting, no code blocks, no text before or after the JSON.`;
+
+    let revised: Partial<CrossExamQuestion>;
+    try {
+      const roleLabel = WITNESS_ROLE_GUIDANCE[witnessRole].label;
+      const { data } = mode === 'cross'
+        ? await completeStructured('questionRevision', [
+          { role: 'system', content: getQuestionRevisionPrompt(session.witnessName, roleLabel) },
+          { role: 'user', content: userPrompt },
+        ], crossExamQuestionSchema)
+        : await completeStructured('directExamRevision', [
+          { role: 'system', content: getDirectQuestionRevisionPrompt(session.witnessName, roleLabel, mode) },
+          { role: 'user', content: userPrompt },
+        ], directExamQuestionSchema);
+      
+      revised = { ...data, sourceChunkIds: filterChunkIds(data.sourceChunkIds, contextSelection) };
+    } catch (apiError) {
+      console.error('Question regeneration failed:', apiError);
+      return NextResponse.json(
+        { error: describeLLMFailure(apiError) },
+        { status: 502 }
+      );
+    }
+    
+    const updatedSession = updateQuestion(sessionId, questionId, revised);
+    
+    return NextResponse.json({
+      question: updatedSession?.questions.find(q => q.id === questionId),
+      previousQuestion: current,
+      session: updatedSession ? serializeSession(updatedSession) : null,
+    });
+  } catch (error) {
+    console.error('Error regenerating question:', error);
+    return NextResponse.json(
+      { error: 'Failed to regenerate question' },
+      { status: 500 }
+    );
+  }
+}
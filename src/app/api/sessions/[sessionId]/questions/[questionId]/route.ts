@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession, updateQuestion, serializeSession } from '@/lib/session-store';
+import { parseCrossExamQuestionEdit } from '@/lib/question-edits';
+import { getQuestionMode } from '@/lib/examination-modes';
+
+interface RouteParams {
+  params: Promise<{ sessionId: string; questionId: string }>;
+}
+
+// PATCH /api/sessions/[sessionId]/questions/[questionId] - Edit a question's fields or lock it
+// Body: any of question, category, difficulty, suggestedApproach, weakPoint, followUpQuestions,
+// documentReference, locked
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { sessionId, questionId } = await params;
+    const session = getSession(sessionId);
+    
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Session not found' },
+        { status: 404 }
+      );
+    }
+    
+    const question = session.questions.find(q => q.id === questionId);
+    if (!question) {
+      return NextResponse.json(
+        { error: 'Question not found' },
+        { status: 404 }
+      );
+    }
+    
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { error: 'Invalid JSON body' },
+        { status: 400 }
+      );
+    }
+    
+    const parsed = parseCrossExamQuestionEdit(body, getQuestionMode(question));
+    if ('error' in parsed) {
+      return NextResponse.json(
+        { error: parsed.error },
+        { status: 400 }
+      );
+    }
+    
+    const updatedSession = updateQuestion(sessionId, questionId, parsed.updates);
+    
+    return NextResponse.json({
+      question: updatedSession?.questions.find(q => q.id === questionId),
+      session: updatedSession ? serializeSession(updatedSession) : null,
+    });
+  } catch (error) {
+    console.error('Error updating question:', error);
+    return NextResponse.json(
+      { error: 'Failed to update question' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession, serializeRecording } from '@/lib/session-store';
+import { isTranscriptionEnabled, refreshRecording } from '@/lib/transcription';
+
+interface RouteParams {
+  params: Promise<{ sessionId: string; recordingId: string }>;
+}
+
+// GET /api/sessions/[sessionId]/recordings/[recordingId] - Poll a recording's transcription
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { sessionId, recordingId } = await params;
+    const session = getSession(sessionId);
+    
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Session not found' },
+        { status: 404 }
+      );
+    }
+    
+    const recording = isTranscriptionEnabled()
+      ? await refreshRecording(sessionId, recordingId)
+      : session.recordings?.find(r => r.id === recordingId);
+    
+    if (!recording) {
+      return NextResponse.json(
+        { error: 'Recording not found' },
+        { status: 404 }
+      );
+    }
+    
+    return NextResponse.json({
+      recording: serializeRecording(recording),
+    });
+  } catch (error) {
+    console.error('Error fetching recording:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch recording' },
+      { status: 500 }
+    );
+  }
+}
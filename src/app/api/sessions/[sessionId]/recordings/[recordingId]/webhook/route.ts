@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '@/lib/session-store';
+import { refreshRecording } from '@/lib/transcription';
+
+interface RouteParams {
+  params: Promise<{ sessionId: string; recordingId: string }>;
+}
+
+// POST /api/sessions/[sessionId]/recordings/[recordingId]/webhook - Voice API completion callback
+// The payload is only a signal: the transcript is fetched from the Voice API rather than trusted
+// from the request body, so a forged call can at most trigger an early status check.
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { sessionId, recordingId } = await params;
+    const recording = getSession(sessionId)?.recordings?.find(r => r.id === recordingId);
+    
+    if (!recording) {
+      return NextResponse.json(
+        { error: 'Recording not found' },
+        { status: 404 }
+      );
+    }
+    
+    const payload = await request.json().catch(() => ({}));
+    const transcriptionId = payload?.transcript_id ?? payload?.id;
+    if (transcriptionId && String(transcriptionId) !== recording.transcriptionId) {
+      return NextResponse.json(
+        { error: 'Transcription does not belong to this recording' },
+        { status: 400 }
+      );
+    }
+    
+    const updated = await refreshRecording(sessionId, recordingId);
+    
+    return NextResponse.json({ status: updated?.status });
+  } catch (error) {
+    console.error('Error handling transcription webhook:', error);
+    return NextResponse.json(
+      { error: 'Failed to handle transcription webhook' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,144 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { v4 as uuidv4 } from 'uuid';
+import { getSession, addRecording, updateRecording, updateSession, serializeRecording } from '@/lib/session-store';
+import { SessionRecording } from '@/lib/types';
+import { ensureSessionVault, uploadToVault } from '@/lib/vault-ingestion';
+import { isTranscriptionEnabled, getRecordingDownloadUrl, getTranscriptionWebhookUrl, startTranscription, refreshRecording } from '@/lib/transcription';
+
+// Audio size limit: 25MB, several minutes of compressed speech
+const MAX_AUDIO_SIZE = 25 * 1024 * 1024;
+
+const ALLOWED_EXTENSIONS = ['.webm', '.ogg', '.mp3', '.wav', '.m4a', '.mp4'];
+
+interface RouteParams {
+  params: Promise<{ sessionId: string }>;
+}
+
+// POST /api/sessions/[sessionId]/recordings - Upload a spoken answer and start transcribing it
+// Form fields: audio (file), questionId (optional), startedAt (optional ISO time recording began)
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { sessionId } = await params;
+    const session = getSession(sessionId);
+    
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Session not found' },
+        { status: 404 }
+      );
+    }
+    
+    if (!isTranscriptionEnabled()) {
+      return NextResponse.json(
+        { error: 'Case.dev API key not configured. Recording needs CASEDEV_API_KEY for storage and transcription.' },
+        { status: 500 }
+      );
+    }
+    
+    const formData = await request.formData();
+    const audio = formData.get('audio') as File | null;
+    
+    if (!audio || audio.size === 0) {
+      return NextResponse.json(
+        { error: 'No audio provided' },
+        { status: 400 }
+      );
+    }
+    
+    if (audio.size > MAX_AUDIO_SIZE) {
+      return NextResponse.json(
+        { error: 'Recording too large. Maximum size is 25MB.' },
+        { status: 400 }
+      );
+    }
+    
+    // MediaRecorder reports types like "audio/webm;codecs=opus"
+    const fileExtension = '.' + audio.name.split('.').pop()?.toLowerCase();
+    if (!audio.type.startsWith('audio/') && !ALLOWED_EXTENSIONS.includes(fileExtension)) {
+      return NextResponse.json(
+        { error: 'Invalid audio type. Allowed types: WEBM, OGG, MP3, WAV, M4A' },
+        { status: 400 }
+      );
+    }
+    
+    const questionId = formData.get('questionId');
+    const startedAt = new Date(String(formData.get('startedAt') || ''));
+    
+    const recording: SessionRecording = {
+      id: uuidv4(),
+      sessionId,
+      questionId: typeof questionId === 'string' && questionId ? questionId : undefined,
+      status: 'processing',
+      startedAt: Number.isNaN(startedAt.getTime()) ? new Date() : startedAt,
+      endedAt: new Date(),
+    };
+    addRecording(sessionId, recording);
+    
+    // Store the audio in the session's vault, then hand its URL to the Voice API
+    let updates: Partial<SessionRecording>;
+    try {
+      const vaultId = await ensureSessionVault(sessionId, {
+        getVaultId: () => getSession(sessionId)?.vaultId,
+        saveVaultId: id => updateSession(sessionId, { vaultId: id }),
+        name: `${session.caseName} - ${session.witnessName}`,
+        description: `Testimony prep session ${sessionId}`,
+      });
+      const objectId = await uploadToVault(vaultId, audio, { sessionId, recordingId: recording.id, kind: 'practice_audio' });
+      const audioUrl = await getRecordingDownloadUrl(vaultId, objectId);
+      const transcriptionId = await startTranscription(audioUrl, getTranscriptionWebhookUrl(sessionId, recording.id));
+      updates = { objectId, vaultId, audioUrl, transcriptionId };
+    } catch (voiceError) {
+      console.error('Recording upload or transcription failed:', voiceError);
+      updates = { status: 'error', error: 'Failed to upload the recording for transcription.' };
+    }
+    
+    const updatedSession = updateRecording(sessionId, recording.id, updates);
+    const saved = updatedSession?.recordings?.find(r => r.id === recording.id) || { ...recording, ...updates };
+    const failed = saved.status === 'error';
+    
+    return NextResponse.json(
+      {
+        ...(failed ? { error: saved.error } : {}),
+        recording: serializeRecording(saved),
+      },
+      { status: failed ? 502 : 200 }
+    );
+  } catch (error) {
+    console.error('Error uploading recording:', error);
+    return NextResponse.json(
+      { error: 'Failed to upload recording' },
+      { status: 500 }
+    );
+  }
+}
+
+// GET /api/sessions/[sessionId]/recordings - List recordings, checking any still being transcribed
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { sessionId } = await params;
+    const session = getSession(sessionId);
+    
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Session not found' },
+        { status: 404 }
+      );
+    }
+    
+    if (isTranscriptionEnabled()) {
+      for (const recording of session.recordings || []) {
+        await refreshRecording(sessionId, recording.id);
+      }
+    }
+    
+    return NextResponse.json({
+      recordings: (getSession(sessionId)?.recordings || []).map(serializeRecording),
+    });
+  } catch (error) {
+    console.error('Error fetching recordings:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch recordings' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '@/lib/session-store';
+import { buildPracticeReport } from '@/lib/practice-report';
+import { getReportFilename, parseReportFormat, renderReport, REPORT_CONTENT_TYPES, ReportFormat } from '@/lib/report-document';
+
+const PRACTICE_REPORT_FORMATS: ReportFormat[] = ['pdf', 'docx'];
+
+interface RouteParams {
+  params: Promise<{ sessionId: string }>;
+}
+
+// GET /api/sessions/[sessionId]/report?format=pdf|docx - Download the practice review report
+// Defaults to PDF. DOCX is editable in Word.
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { sessionId } = await params;
+    const session = getSession(sessionId);
+    
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Session not found' },
+        { status: 404 }
+      );
+    }
+    
+    const parsed = parseReportFormat(request.nextUrl.searchParams.get('format'), PRACTICE_REPORT_FORMATS);
+    if ('error' in parsed) {
+      return NextResponse.json(
+        { error: parsed.error },
+        { status: 400 }
+      );
+    }
+    
+    const file = await renderReport(buildPracticeReport(session), parsed.format);
+    const filename = getReportFilename('practice-report', session.witnessName, parsed.format);
+    
+    return new NextResponse(Buffer.from(file), {
+      headers: {
+        'Content-Type': REPORT_CONTENT_TYPES[parsed.format],
+        'Content-Disposition': `attachment; filename="${filename}"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    console.error('Error generating practice report:', error);
+    return NextResponse.json(
+      { error: 'Failed to generate practice report' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getSession, updateSession, deleteSession, serializeSession } from '@/lib/session-store';
+import { parseExaminerSettings } from '@/lib/examiner-personas';
+import { parseExaminationMode } from '@/lib/examination-modes';
 
 interface RouteParams {
   params: Promise<{ sessionId: string }>;
@@ -36,6 +38,30 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
     const { sessionId } = await params;
     const body = await request.json();
     
+    // Examiner settings drive the practice prompt, so only accept known personas and levels
+    if (body.examinerSettings !== undefined) {
+      const parsed = parseExaminerSettings(body.examinerSettings);
+      if ('error' in parsed) {
+        return NextResponse.json(
+          { error: parsed.error },
+          { status: 400 }
+        );
+      }
+      body.examinerSettings = parsed.settings;
+    }
+    
+    // The examination mode picks which questions are generated and practiced
+    if (body.examinationMode !== undefined) {
+      const parsed = parseExaminationMode(body.examinationMode);
+      if ('error' in parsed) {
+        return NextResponse.json(
+          { error: parsed.error },
+          { status: 400 }
+        );
+      }
+      body.examinationMode = parsed.mode;
+    }
+    
     const session = updateSession(sessionId, body);
     
     if (!session) {
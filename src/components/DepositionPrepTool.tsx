@@ -1,7 +1,6 @@
 'use client';
 
-import { useState, useCallback } from 'react';
-import { jsPDF } from 'jspdf';
+import { useState, useCallback, useEffect } from 'react';
 import { 
   Users, 
   Upload, 
@@ -21,7 +20,14 @@ import {
   ChevronUp,
   Clock,
   Target,
-  Zap
+  Zap,
+  PlusCircle,
+  Lock,
+  Unlock,
+  Pencil,
+  RefreshCw,
+  Radio,
+  SkipForward
 } from 'lucide-react';
 
 interface DepositionDocument {
@@ -33,6 +39,7 @@ interface DepositionDocument {
   uploadedAt: string;
   status: string;
   content?: string;
+  error?: string;
   metadata?: {
     witness?: string;
     date?: string;
@@ -77,6 +84,15 @@ interface DepositionQuestion {
   rationale?: string;
   followUpQuestions?: string[];
   exhibitToShow?: string;
+  exhibitId?: string;
+  locked?: boolean;
+}
+
+interface QuestionDraft {
+  question: string;
+  topic: string;
+  priority: DepositionQuestion['priority'];
+  rationale: string;
 }
 
 interface OutlineSection {
@@ -107,6 +123,12 @@ interface DepositionSession {
   contradictions: Contradiction[];
   questions: DepositionQuestion[];
   outline: DepositionOutline | null;
+  timeLimitMinutes?: number;
+  live?: LiveDeposition;
+  roughTranscript?: RoughTranscript;
+  exhibits?: Exhibit[];
+  exhibitSettings?: ExhibitSettings;
+  nextExhibitSequence?: number;
   status: string;
   analysis?: {
     keyThemes: string[];
@@ -116,7 +138,152 @@ interface DepositionSession {
   };
 }
 
-type AppStep = 'setup' | 'documents' | 'analysis' | 'questions' | 'outline';
+type LiveQuestionStatus = 'pending' | 'asked' | 'skipped' | 'deferred';
+
+interface LiveDeposition {
+  startedAt: string;
+  endedAt?: string;
+  questions: Record<string, { status: LiveQuestionStatus; answerSummary?: string; transcriptCitation?: string; updatedAt: string }>;
+  activeSectionId?: string;
+  onRecordSince?: string;
+  sectionSeconds: Record<string, number>;
+}
+
+interface ExhibitSettings {
+  prefix: string;
+  numbering: 'numeric' | 'alpha';
+  startAt: number;
+}
+
+interface Exhibit {
+  id: string;
+  sequence: number;
+  documentId: string;
+  description?: string;
+  markedAt: string;
+}
+
+interface RoughTranscript {
+  characters: number;
+  segmentsProcessed: number;
+  flags: Array<{
+    id: string;
+    contradictionId: string;
+    citation: string;
+    question: string;
+    answer: string;
+    explanation: string;
+    severity: 'minor' | 'moderate' | 'significant';
+  }>;
+  suggestedFollowUps: Array<{ id: string; question: string; rationale: string; citation: string }>;
+  updatedAt: string;
+}
+
+interface LiveProgress {
+  onRecord: boolean;
+  ended: boolean;
+  activeSectionId?: string;
+  recordSeconds: number;
+  limitMinutes: number;
+  remainingSeconds: number;
+  counts: Record<LiveQuestionStatus, number>;
+  sections: Array<{
+    sectionId: string;
+    title: string;
+    questionCount: number;
+    counts: Record<LiveQuestionStatus, number>;
+    recordSeconds: number;
+    estimatedMinutes: number;
+  }>;
+  unaskedHighPriority: Array<{ questionId: string; question: string; sectionId: string; sectionTitle: string; status: 'pending' | 'deferred' }>;
+}
+
+interface QuestionTimeEstimate {
+  questionId: string;
+  question: string;
+  priority: DepositionQuestion['priority'];
+  sectionId?: string;
+  sectionTitle: string;
+  minutes: number;
+}
+
+interface TimeBudget {
+  limitMinutes: number;
+  totalMinutes: number;
+  remainingMinutes: number;
+  overLimit: boolean;
+  sections: Array<{ sectionId?: string; title: string; questionCount: number; minutes: number }>;
+  warning?: string;
+  suggestedCuts: QuestionTimeEstimate[];
+  minutesAfterCuts: number;
+  fitsAfterCuts: boolean;
+}
+
+interface ExportOptions {
+  format: 'docx' | 'pdf' | 'txt';
+  includeCitations: boolean;
+  includeRationale: boolean;
+  includeFollowUps: boolean;
+  groupByTopic: boolean;
+}
+
+type AppStep = 'setup' | 'documents' | 'analysis' | 'questions' | 'outline' | 'live';
+
+// The rough transcript feed arrives from the court reporter's machine, so the live view polls for it
+const LIVE_POLL_INTERVAL_MS = 15000;
+
+// Remembers the deposition that is live so a reload during a break returns to it
+const LIVE_SESSION_STORAGE_KEY = 'deposition-live-session-id';
+
+const LIVE_STATUS_OPTIONS: Array<{ value: Exclude<LiveQuestionStatus, 'pending'>; label: string; activeClass: string }> = [
+  { value: 'asked', label: 'Asked', activeClass: 'bg-green-600 text-white border-green-600' },
+  { value: 'deferred', label: 'Defer', activeClass: 'bg-amber-500 text-white border-amber-500' },
+  { value: 'skipped', label: 'Skip', activeClass: 'bg-gray-500 text-white border-gray-500' },
+];
+
+// h:mm:ss
+const formatClock = (seconds: number) => {
+  const total = Math.max(0, Math.floor(seconds));
+  const minutes = String(Math.floor((total % 3600) / 60)).padStart(2, '0');
+  return `${Math.floor(total / 3600)}:${minutes}:${String(total % 60).padStart(2, '0')}`;
+};
+
+// e.g. "7h", "6h 45m", "40m"
+const formatMinutes = (minutes: number) => {
+  const total = Math.round(Math.abs(minutes));
+  const hours = Math.floor(total / 60);
+  const rest = total % 60;
+  if (hours === 0) return `${rest}m`;
+  return rest === 0 ? `${hours}h` : `${hours}h ${rest}m`;
+};
+
+const DEFAULT_EXHIBIT_SETTINGS: ExhibitSettings = { prefix: 'Exhibit', numbering: 'numeric', startAt: 1 };
+
+// "Exhibit 3", "Doe Ex. C", "PX-12"; alpha numbering continues Z, AA, AB
+const formatExhibitLabel = (settings: ExhibitSettings, sequence: number) => {
+  let number = String(sequence);
+  if (settings.numbering === 'alpha') {
+    number = '';
+    for (let n = sequence; n > 0; n = Math.floor((n - 1) / 26)) {
+      number = String.fromCharCode(65 + ((n - 1) % 26)) + number;
+    }
+  }
+  if (!settings.prefix) return number;
+  return /[-_#/]$/.test(settings.prefix) ? `${settings.prefix}${number}` : `${settings.prefix} ${number}`;
+};
+
+const EXPORT_FORMAT_OPTIONS: Array<{ value: ExportOptions['format']; label: string }> = [
+  { value: 'docx', label: 'Word' },
+  { value: 'pdf', label: 'PDF' },
+  { value: 'txt', label: 'Text' },
+];
+
+const EXPORT_CONTENT_OPTIONS: Array<{ key: Exclude<keyof ExportOptions, 'format'>; label: string }> = [
+  { key: 'includeCitations', label: 'Document citations' },
+  { key: 'includeRationale', label: 'Rationale' },
+  { key: 'includeFollowUps', label: 'Follow-up questions' },
+  { key: 'groupByTopic', label: 'Group by section' },
+];
 
 export default function DepositionPrepTool() {
   // Session state
@@ -136,11 +303,45 @@ export default function DepositionPrepTool() {
   
   // Error state
   const [error, setError] = useState<string | null>(null);
+  const [fallbackNotice, setFallbackNotice] = useState<string | null>(null);
+  const [generationSummary, setGenerationSummary] = useState<string | null>(null);
   
   // UI state
   const [expandedQuestions, setExpandedQuestions] = useState<Set<string>>(new Set());
   const [selectedTopic, setSelectedTopic] = useState<string | null>(null);
   const [selectedPriority, setSelectedPriority] = useState<string | null>(null);
+  
+  // Per-question editing state
+  const [editingQuestionId, setEditingQuestionId] = useState<string | null>(null);
+  const [questionDraft, setQuestionDraft] = useState<QuestionDraft | null>(null);
+  const [regenerateQuestionId, setRegenerateQuestionId] = useState<string | null>(null);
+  const [regenerateInstruction, setRegenerateInstruction] = useState('');
+  const [busyQuestionId, setBusyQuestionId] = useState<string | null>(null);
+  
+  // Outline time budget
+  const [timeBudget, setTimeBudget] = useState<TimeBudget | null>(null);
+  const [isCuttingQuestions, setIsCuttingQuestions] = useState(false);
+  
+  // Live deposition state; the clock ticks locally between server updates
+  const [liveProgress, setLiveProgress] = useState<LiveProgress | null>(null);
+  const [liveProgressAt, setLiveProgressAt] = useState(0);
+  const [clockNow, setClockNow] = useState(0);
+  const [isUpdatingLive, setIsUpdatingLive] = useState(false);
+  const [answerDrafts, setAnswerDrafts] = useState<Record<string, string>>({});
+  const [addingFollowUpId, setAddingFollowUpId] = useState<string | null>(null);
+  
+  // Exhibit registry
+  const [isUpdatingExhibits, setIsUpdatingExhibits] = useState(false);
+  const [exhibitPrefixDraft, setExhibitPrefixDraft] = useState<string | null>(null);
+  
+  // Outline export settings
+  const [exportOptions, setExportOptions] = useState<ExportOptions>({
+    format: 'docx',
+    includeCitations: true,
+    includeRationale: true,
+    includeFollowUps: true,
+    groupByTopic: true,
+  });
 
   // Clear error after timeout
   const showError = (message: string) => {
@@ -180,7 +381,9 @@ export default function DepositionPrepTool() {
 
   // Reset session and go back to setup
   const resetToSetup = useCallback(() => {
+    localStorage.removeItem(LIVE_SESSION_STORAGE_KEY);
     setSession(null);
+    setLiveProgress(null);
     setCurrentStep('setup');
     setDeponentName('');
     setCaseName('');
@@ -218,6 +421,10 @@ export default function DepositionPrepTool() {
             resetToSetup();
             return;
           }
+          // Unparseable files are still recorded on the session with an error reason
+          if (data.session) {
+            setSession(data.session);
+          }
           showError(data.error || 'Failed to upload document');
           continue;
         }
@@ -233,8 +440,32 @@ export default function DepositionPrepTool() {
     setIsUploadingDocument(false);
   }, [session, resetToSetup]);
 
+  // Poll while documents are waiting on vault OCR
+  const hasProcessingDocuments = session?.documents.some(doc => doc.status === 'processing') ?? false;
+  const sessionId = session?.id;
+  
+  useEffect(() => {
+    if (!sessionId || !hasProcessingDocuments) return;
+    
+    const interval = setInterval(async () => {
+      try {
+        const response = await fetch(`/api/depositions/${sessionId}/documents`);
+        if (!response.ok) return;
+        const data = await response.json();
+        if (data.documents) {
+          setSession(prev => prev ? { ...prev, documents: data.documents } : prev);
+        }
+      } catch (err) {
+        console.error('Error polling document status:', err);
+      }
+    }, 3000);
+    
+    return () => clearInterval(interval);
+  }, [sessionId, hasProcessingDocuments]);
+
   // Generate questions
-  const generateQuestions = async () => {
+  // Append mode keeps the current questions (and outline) and adds new, non-duplicate ones
+  const generateQuestions = async (mode: 'replace' | 'append' = 'replace') => {
     if (!session) return;
     
     setIsGeneratingQuestions(true);
@@ -243,6 +474,8 @@ export default function DepositionPrepTool() {
     try {
       const response = await fetch(`/api/depositions/${session.id}/generate-questions`, {
         method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ mode }),
       });
       
       const data = await response.json();
@@ -251,9 +484,16 @@ export default function DepositionPrepTool() {
         return;
       }
       
+      setFallbackNotice(data.usedFallback
+        ? `${data.fallbackReason || 'The AI service was unavailable.'} This analysis was built from simple pattern matching on your documents, not AI review.`
+        : null);
+      setGenerationSummary(mode === 'append'
+        ? `Added ${data.questions.length} new question${data.questions.length === 1 ? '' : 's'}${data.duplicatesRemoved ? `; skipped ${data.duplicatesRemoved} that repeated existing questions` : ''}.`
+        : null);
+      
       if (data.session) {
         setSession(data.session);
-        setCurrentStep('analysis');
+        setCurrentStep(mode === 'append' ? 'questions' : 'analysis');
       }
     } catch (err) {
       console.error('Error generating questions:', err);
@@ -263,6 +503,304 @@ export default function DepositionPrepTool() {
     }
   };
 
+  // Refresh the time budget whenever the outline, its questions or the limit change
+  const outlineQuestions = session?.questions;
+  const outlineData = session?.outline;
+  const timeLimitMinutes = session?.timeLimitMinutes;
+  useEffect(() => {
+    if (!sessionId || currentStep !== 'outline') return;
+    
+    let cancelled = false;
+    (async () => {
+      try {
+        const response = await fetch(`/api/depositions/${sessionId}/budget`);
+        if (!response.ok) return;
+        const data = await response.json();
+        if (!cancelled) setTimeBudget(data.timeBudget);
+      } catch (err) {
+        console.error('Error loading time budget:', err);
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [sessionId, currentStep, outlineQuestions, outlineData, timeLimitMinutes]);
+
+  // null goes back to the default limit
+  const updateTimeLimit = async (minutes: number | null) => {
+    if (!session) return;
+    
+    try {
+      const response = await fetch(`/api/depositions/${session.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ timeLimitMinutes: minutes }),
+      });
+      
+      const data = await response.json();
+      if (!response.ok) {
+        showError(data.error || 'Failed to update time limit');
+        return;
+      }
+      if (data.session) {
+        setSession(data.session);
+      }
+    } catch (err) {
+      console.error('Error updating time limit:', err);
+      showError('Failed to update time limit');
+    }
+  };
+
+  // Remove suggested cuts from the outline one question at a time; they stay in the question list
+  const cutQuestions = async (cuts: QuestionTimeEstimate[]) => {
+    if (!session) return;
+    
+    setIsCuttingQuestions(true);
+    setError(null);
+    
+    try {
+      for (const cut of cuts) {
+        if (!cut.sectionId) continue;
+        const response = await fetch(`/api/depositions/${session.id}/outline`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ action: 'remove_question', sectionId: cut.sectionId, questionId: cut.questionId }),
+        });
+        
+        const data = await response.json();
+        if (!response.ok) {
+          showError(data.error || 'Failed to cut question');
+          return;
+        }
+        if (data.session) {
+          setSession(data.session);
+        }
+      }
+    } catch (err) {
+      console.error('Error cutting questions:', err);
+      showError('Failed to cut questions');
+    } finally {
+      setIsCuttingQuestions(false);
+    }
+  };
+
+  // Return to a live deposition after a reload
+  useEffect(() => {
+    const liveSessionId = localStorage.getItem(LIVE_SESSION_STORAGE_KEY);
+    if (!liveSessionId) return;
+    
+    (async () => {
+      try {
+        const response = await fetch(`/api/depositions/${liveSessionId}`);
+        const data = response.ok ? await response.json() : null;
+        if (data?.session?.live) {
+          setSession(data.session);
+          setCurrentStep('live');
+        } else {
+          localStorage.removeItem(LIVE_SESSION_STORAGE_KEY);
+        }
+      } catch (err) {
+        console.error('Error restoring live deposition:', err);
+      }
+    })();
+  }, []);
+
+  const applyLiveProgress = (progress: LiveProgress | null) => {
+    setLiveProgress(progress);
+    setLiveProgressAt(Date.now());
+    setClockNow(Date.now());
+  };
+
+  // Load live progress, then keep the session current with answers matched from the rough transcript
+  useEffect(() => {
+    if (!sessionId || currentStep !== 'live') return;
+    
+    const loadLive = async (includeSession: boolean) => {
+      try {
+        const [liveResponse, sessionResponse] = await Promise.all([
+          fetch(`/api/depositions/${sessionId}/live`),
+          includeSession ? fetch(`/api/depositions/${sessionId}`) : null,
+        ]);
+        if (sessionResponse?.ok) {
+          const data = await sessionResponse.json();
+          setSession(data.session);
+        }
+        if (!liveResponse.ok) return;
+        const data = await liveResponse.json();
+        setLiveProgress(data.liveProgress);
+        setLiveProgressAt(Date.now());
+        setClockNow(Date.now());
+      } catch (err) {
+        console.error('Error loading live deposition:', err);
+      }
+    };
+    
+    loadLive(false);
+    const interval = setInterval(() => loadLive(true), LIVE_POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [sessionId, currentStep]);
+
+  const isOnRecord = liveProgress?.onRecord ?? false;
+  useEffect(() => {
+    if (!isOnRecord) return;
+    const interval = setInterval(() => setClockNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [isOnRecord]);
+
+  // Seconds on the record since the last server update
+  const runningSeconds = isOnRecord ? Math.max(0, (clockNow - liveProgressAt) / 1000) : 0;
+
+  const sendLiveAction = async (body: Record<string, unknown>) => {
+    if (!session) return false;
+    
+    setIsUpdatingLive(true);
+    setError(null);
+    
+    try {
+      const response = await fetch(`/api/depositions/${session.id}/live`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      
+      const data = await response.json();
+      if (!response.ok) {
+        showError(data.error || 'Failed to update live deposition');
+        return false;
+      }
+      if (data.session) {
+        setSession(data.session);
+      }
+      applyLiveProgress(data.liveProgress);
+      return true;
+    } catch (err) {
+      console.error('Error updating live deposition:', err);
+      showError('Failed to update live deposition');
+      return false;
+    } finally {
+      setIsUpdatingLive(false);
+    }
+  };
+
+  const goLive = async () => {
+    if (!session) return;
+    if (await sendLiveAction({ action: 'start' })) {
+      localStorage.setItem(LIVE_SESSION_STORAGE_KEY, session.id);
+      setCurrentStep('live');
+    }
+  };
+
+  const endLive = async () => {
+    if (await sendLiveAction({ action: 'end' })) {
+      localStorage.removeItem(LIVE_SESSION_STORAGE_KEY);
+    }
+  };
+
+  // Clicking the current status puts the question back to pending
+  const markLiveQuestion = (questionId: string, status: LiveQuestionStatus) => {
+    const current = session?.live?.questions[questionId]?.status || 'pending';
+    sendLiveAction({ action: 'update_question', questionId, status: current === status ? 'pending' : status });
+  };
+
+  const saveAnswerSummary = async (questionId: string) => {
+    const draft = answerDrafts[questionId];
+    if (draft === undefined || draft === (session?.live?.questions[questionId]?.answerSummary || '')) return;
+    if (await sendLiveAction({ action: 'update_question', questionId, answerSummary: draft })) {
+      setAnswerDrafts(prev => {
+        const next = { ...prev };
+        delete next[questionId];
+        return next;
+      });
+    }
+  };
+
+  // Add a suggested follow-up to the section the examination is in
+  const addFollowUpToOutline = async (followUp: RoughTranscript['suggestedFollowUps'][number]) => {
+    const sectionId = liveProgress?.activeSectionId;
+    const section = session?.outline?.sections.find(item => item.id === sectionId);
+    if (!session || !section) return;
+    
+    setAddingFollowUpId(followUp.id);
+    setError(null);
+    
+    try {
+      const response = await fetch(`/api/depositions/${session.id}/outline`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          action: 'add_question',
+          sectionId: section.id,
+          question: {
+            question: followUp.question,
+            topic: section.title,
+            category: 'follow_up',
+            priority: 'high',
+            rationale: followUp.rationale,
+            pageReference: followUp.citation,
+          },
+        }),
+      });
+      
+      const data = await response.json();
+      if (!response.ok) {
+        showError(data.error || 'Failed to add follow-up');
+        return;
+      }
+      setSession(data.session);
+    } catch (err) {
+      console.error('Error adding follow-up:', err);
+      showError('Failed to add follow-up');
+    } finally {
+      setAddingFollowUpId(null);
+    }
+  };
+
+  const sendExhibitAction = async (body: Record<string, unknown>) => {
+    if (!session) return null;
+    
+    setIsUpdatingExhibits(true);
+    setError(null);
+    
+    try {
+      const response = await fetch(`/api/depositions/${session.id}/exhibits`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      
+      const data = await response.json();
+      if (!response.ok) {
+        showError(data.error || 'Failed to update exhibits');
+        return null;
+      }
+      setSession(data.session);
+      return data;
+    } catch (err) {
+      console.error('Error updating exhibits:', err);
+      showError('Failed to update exhibits');
+      return null;
+    } finally {
+      setIsUpdatingExhibits(false);
+    }
+  };
+
+  const linkQuestionsToExhibits = async () => {
+    const data = await sendExhibitAction({ action: 'auto_link' });
+    if (data && data.linked === 0) {
+      showError('No unlinked questions name an exhibit document');
+    }
+  };
+
+  const saveExhibitPrefix = async () => {
+    if (exhibitPrefixDraft === null || exhibitPrefixDraft.trim() === exhibitSettings.prefix) {
+      setExhibitPrefixDraft(null);
+      return;
+    }
+    if (await sendExhibitAction({ action: 'configure', prefix: exhibitPrefixDraft })) {
+      setExhibitPrefixDraft(null);
+    }
+  };
+
   // Auto-organize outline
   const autoOrganizeOutline = async () => {
     if (!session) return;
@@ -295,6 +833,93 @@ export default function DepositionPrepTool() {
     }
   };
 
+  // Edit a question's fields, or lock/unlock it so full regeneration keeps it
+  const updateQuestion = async (questionId: string, updates: Partial<DepositionQuestion>) => {
+    if (!session) return false;
+    
+    setBusyQuestionId(questionId);
+    setError(null);
+    
+    try {
+      const response = await fetch(`/api/depositions/${session.id}/questions/${questionId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(updates),
+      });
+      
+      const data = await response.json();
+      if (!response.ok) {
+        showError(data.error || 'Failed to update question');
+        return false;
+      }
+      
+      if (data.session) {
+        setSession(data.session);
+      }
+      return true;
+    } catch (err) {
+      console.error('Error updating question:', err);
+      showError('Failed to update question');
+      return false;
+    } finally {
+      setBusyQuestionId(null);
+    }
+  };
+
+  const startEditingQuestion = (question: DepositionQuestion) => {
+    setRegenerateQuestionId(null);
+    setEditingQuestionId(question.id);
+    setQuestionDraft({
+      question: question.question,
+      topic: question.topic,
+      priority: question.priority,
+      rationale: question.rationale || '',
+    });
+  };
+
+  const saveQuestionDraft = async () => {
+    if (!editingQuestionId || !questionDraft || !questionDraft.question.trim() || !questionDraft.topic.trim()) return;
+    
+    const saved = await updateQuestion(editingQuestionId, questionDraft);
+    if (saved) {
+      setEditingQuestionId(null);
+      setQuestionDraft(null);
+    }
+  };
+
+  // Ask the model to rewrite one question, optionally following an instruction
+  const regenerateQuestion = async (questionId: string) => {
+    if (!session) return;
+    
+    setBusyQuestionId(questionId);
+    setError(null);
+    
+    try {
+      const response = await fetch(`/api/depositions/${session.id}/questions/${questionId}/regenerate`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ instruction: regenerateInstruction.trim() || undefined }),
+      });
+      
+      const data = await response.json();
+      if (!response.ok) {
+        showError(data.error || 'Failed to regenerate question');
+        return;
+      }
+      
+      if (data.session) {
+        setSession(data.session);
+      }
+      setRegenerateQuestionId(null);
+      setRegenerateInstruction('');
+    } catch (err) {
+      console.error('Error regenerating question:', err);
+      showError('Failed to regenerate question');
+    } finally {
+      setBusyQuestionId(null);
+    }
+  };
+
   // Toggle question expansion
   const toggleQuestionExpansion = (questionId: string) => {
     const newExpanded = new Set(expandedQuestions);
@@ -362,151 +987,27 @@ export default function DepositionPrepTool() {
   // Get unique topics
   const uniqueTopics = [...new Set(session?.questions.map(q => q.topic) || [])];
 
-  // Export to PDF function
-  const exportToPDF = useCallback(() => {
-    if (!session) return;
-
-    const doc = new jsPDF();
-    const pageWidth = doc.internal.pageSize.getWidth();
-    const pageHeight = doc.internal.pageSize.getHeight();
-    const margin = 20;
-    const contentWidth = pageWidth - (margin * 2);
-    let yPosition = margin;
-
-    // Helper function to add text with word wrap
-    const addWrappedText = (text: string, x: number, y: number, maxWidth: number, fontSize: number = 10): number => {
-      doc.setFontSize(fontSize);
-      const lines = doc.splitTextToSize(text, maxWidth);
-      doc.text(lines, x, y);
-      return y + (lines.length * fontSize * 0.4);
-    };
-
-    // Helper function to check if we need a new page
-    const checkNewPage = (requiredSpace: number): void => {
-      if (yPosition + requiredSpace > pageHeight - margin) {
-        doc.addPage();
-        yPosition = margin;
-      }
-    };
-
-    // Title
-    doc.setFontSize(20);
-    doc.setFont('helvetica', 'bold');
-    doc.text('DEPOSITION OUTLINE', pageWidth / 2, yPosition, { align: 'center' });
-    yPosition += 12;
-
-    // Case info
-    doc.setFontSize(12);
-    doc.setFont('helvetica', 'normal');
-    doc.text(`Case: ${session.caseName}`, pageWidth / 2, yPosition, { align: 'center' });
-    yPosition += 6;
-    doc.text(`Deponent: ${session.deponentName}`, pageWidth / 2, yPosition, { align: 'center' });
-    yPosition += 6;
-    if (session.caseNumber) {
-      doc.text(`Case No: ${session.caseNumber}`, pageWidth / 2, yPosition, { align: 'center' });
-      yPosition += 6;
-    }
-    doc.text(`Generated: ${new Date().toLocaleDateString()}`, pageWidth / 2, yPosition, { align: 'center' });
-    yPosition += 15;
-
-    // Horizontal line
-    doc.setLineWidth(0.5);
-    doc.line(margin, yPosition, pageWidth - margin, yPosition);
-    yPosition += 10;
-
-    // Questions - either from outline or all questions
-    const questionsToExport = session.outline?.sections 
-      ? session.outline.sections.flatMap((section, sectionIndex) => 
-          section.questions.map((q, qIndex) => ({ ...q, sectionTitle: section.title, sectionIndex, questionIndex: qIndex }))
-        )
-      : session.questions.map((q, index) => ({ ...q, sectionTitle: q.topic, sectionIndex: 0, questionIndex: index }));
-
-    let currentSection = '';
-    let questionNumber = 1;
-
-    questionsToExport.forEach((question) => {
-      // Check if we need a new section header
-      if (question.sectionTitle !== currentSection) {
-        checkNewPage(25);
-        currentSection = question.sectionTitle;
-        
-        // Section header
-        doc.setFontSize(14);
-        doc.setFont('helvetica', 'bold');
-        doc.setFillColor(245, 245, 245);
-        doc.rect(margin, yPosition - 5, contentWidth, 10, 'F');
-        doc.text(currentSection.toUpperCase(), margin + 5, yPosition + 2);
-        yPosition += 15;
-        questionNumber = 1;
-      }
-
-      // Question
-      checkNewPage(40);
-      
-      // Question number and priority indicator (using ASCII-safe characters)
-      doc.setFontSize(10);
-      doc.setFont('helvetica', 'bold');
-      const priorityIndicator = question.priority === 'high' ? '[HIGH]' : question.priority === 'medium' ? '[MED]' : '[LOW]';
-      doc.text(`Q${questionNumber}. ${priorityIndicator}`, margin, yPosition);
-      
-      // Question text
-      doc.setFont('helvetica', 'normal');
-      yPosition = addWrappedText(question.question, margin + 5, yPosition + 5, contentWidth - 5, 11);
-      yPosition += 3;
-
-      // Metadata line
-      doc.setFontSize(8);
-      doc.setTextColor(100, 100, 100);
-      let metaText = `[${question.category.replace('_', ' ').toUpperCase()}]`;
-      if (question.documentReference) {
-        metaText += ` | Doc: ${question.documentReference}`;
-      }
-      if (question.pageReference) {
-        metaText += ` | Page: ${question.pageReference}`;
-      }
-      if (question.exhibitToShow) {
-        metaText += ` | Show Exhibit: ${question.exhibitToShow}`;
-      }
-      doc.text(metaText, margin + 5, yPosition);
-      doc.setTextColor(0, 0, 0);
-      yPosition += 5;
-
-      // Follow-up questions
-      if (question.followUpQuestions && question.followUpQuestions.length > 0) {
-        doc.setFontSize(9);
-        doc.setTextColor(80, 80, 80);
-        doc.text('Follow-ups:', margin + 5, yPosition);
-        yPosition += 5;
-        question.followUpQuestions.forEach((fq) => {
-          checkNewPage(10);
-          yPosition = addWrappedText(`- ${fq}`, margin + 10, yPosition, contentWidth - 15, 9);
-          yPosition += 3;
-        });
-        doc.setTextColor(0, 0, 0);
-      }
-
-      yPosition += 8;
-      questionNumber++;
-    });
-
-    // Add footer with page numbers
-    const totalPages = doc.getNumberOfPages();
-    for (let i = 1; i <= totalPages; i++) {
-      doc.setPage(i);
-      doc.setFontSize(8);
-      doc.setTextColor(150, 150, 150);
-      doc.text(
-        `Page ${i} of ${totalPages} | ${session.caseName} - Deposition of ${session.deponentName}`,
-        pageWidth / 2,
-        pageHeight - 10,
-        { align: 'center' }
-      );
-    }
+  const exhibitSettings = session?.exhibitSettings || DEFAULT_EXHIBIT_SETTINGS;
+  const sortedExhibits = [...(session?.exhibits || [])].sort((a, b) => a.sequence - b.sequence);
+  // Numbers freed by removed exhibits aren't reused until the exhibits are renumbered
+  const nextExhibitSequence = session?.nextExhibitSequence
+    ?? (sortedExhibits.length > 0 ? sortedExhibits[sortedExhibits.length - 1].sequence + 1 : exhibitSettings.startAt);
+  
+  const getExhibitLabel = (exhibitId: string) => {
+    const exhibit = session?.exhibits?.find(item => item.id === exhibitId);
+    return exhibit ? formatExhibitLabel(exhibitSettings, exhibit.sequence) : undefined;
+  };
+  
+  // The linked exhibit, falling back to the generated free-text suggestion
+  const describeQuestionExhibit = (question: DepositionQuestion) =>
+    (question.exhibitId && getExhibitLabel(question.exhibitId)) || question.exhibitToShow;
 
-    // Save the PDF
-    const fileName = `Deposition_Outline_${session.deponentName.replace(/\s+/g, '_')}_${new Date().toISOString().split('T')[0]}.pdf`;
-    doc.save(fileName);
-  }, [session]);
+  // Server-rendered outline download honoring the export settings
+  const exportUrl = session
+    ? `/api/depositions/${session.id}/export?${new URLSearchParams(
+        Object.entries(exportOptions).map(([key, value]) => [key, String(value)])
+      )}`
+    : '';
 
   // Error banner component
   const ErrorBanner = () => {
@@ -697,8 +1198,8 @@ export default function DepositionPrepTool() {
             </p>
           </div>
           <button
-            onClick={generateQuestions}
-            disabled={!session?.documents.length || isGeneratingQuestions}
+            onClick={() => generateQuestions()}
+            disabled={!session?.documents.length || hasProcessingDocuments || isGeneratingQuestions}
             className="py-2 px-4 bg-orange-600 text-white rounded-lg font-medium hover:bg-orange-700 disabled:bg-gray-300 disabled:cursor-not-allowed transition flex items-center gap-2"
           >
             <Zap className="w-5 h-5" />
@@ -748,41 +1249,217 @@ export default function DepositionPrepTool() {
           <div className="mt-6">
             <h3 className="text-lg font-semibold mb-3">Uploaded Documents ({session.documents.length})</h3>
             <div className="space-y-2">
-              {session.documents.map((doc) => (
-                <div
-                  key={doc.id}
-                  className="flex items-center justify-between p-4 bg-white rounded-lg border border-gray-200"
-                >
-                  <div className="flex items-center gap-3">
-                    <FileText className="w-5 h-5 text-orange-600" />
-                    <div>
-                      <p className="font-medium text-gray-900">{doc.name}</p>
-                      <div className="flex items-center gap-2 mt-1">
-                        <span className={`px-2 py-0.5 rounded text-xs font-medium ${getDocTypeBadgeClass(doc.type)}`}>
-                          {doc.type.replace('_', ' ')}
-                        </span>
-                        <span className="text-xs text-gray-500">
-                          {(doc.size / 1024).toFixed(1)} KB
-                        </span>
-                        {doc.metadata?.witness && (
+              {session.documents.map((doc) => {
+                const exhibit = session.exhibits?.find(item => item.documentId === doc.id);
+                
+                return (
+                  <div
+                    key={doc.id}
+                    className="flex items-center justify-between p-4 bg-white rounded-lg border border-gray-200"
+                  >
+                    <div className="flex items-center gap-3">
+                      <FileText className="w-5 h-5 text-orange-600" />
+                      <div>
+                        <p className="font-medium text-gray-900">{doc.name}</p>
+                        <div className="flex items-center gap-2 mt-1">
+                          <span className={`px-2 py-0.5 rounded text-xs font-medium ${getDocTypeBadgeClass(doc.type)}`}>
+                            {doc.type.replace('_', ' ')}
+                          </span>
                           <span className="text-xs text-gray-500">
-                            • Witness: {doc.metadata.witness}
+                            {(doc.size / 1024).toFixed(1)} KB
                           </span>
+                          {doc.metadata?.witness && (
+                            <span className="text-xs text-gray-500">
+                              • Witness: {doc.metadata.witness}
+                            </span>
+                          )}
+                        </div>
+                        {doc.error && (
+                          <p className="text-xs text-red-600 mt-1">{doc.error}</p>
                         )}
                       </div>
                     </div>
+                    <div className="flex items-center gap-2">
+                      {exhibit ? (
+                        <span className="px-2 py-1 rounded border border-yellow-400 bg-yellow-50 text-xs font-bold text-gray-900 uppercase">
+                          {formatExhibitLabel(exhibitSettings, exhibit.sequence)}
+                        </span>
+                      ) : (
+                        <button
+                          onClick={() => sendExhibitAction({ action: 'mark', documentId: doc.id })}
+                          disabled={isUpdatingExhibits}
+                          className="text-xs text-purple-700 hover:underline disabled:text-gray-400"
+                        >
+                          Mark as exhibit
+                        </button>
+                      )}
+                      <span className={`px-2 py-1 rounded text-xs font-medium ${
+                        doc.status === 'ready'
+                          ? 'bg-green-100 text-green-700'
+                          : doc.status === 'error'
+                            ? 'bg-red-100 text-red-700'
+                            : 'bg-yellow-100 text-yellow-700'
+                      }`}>
+                        {doc.status === 'ready' ? 'Ready' : doc.status === 'error' ? 'Error' : 'Processing'}
+                      </span>
+                    </div>
                   </div>
-                  <span className={`px-2 py-1 rounded text-xs font-medium ${
-                    doc.status === 'ready' ? 'bg-green-100 text-green-700' : 'bg-yellow-100 text-yellow-700'
-                  }`}>
-                    {doc.status === 'ready' ? 'Ready' : 'Processing'}
-                  </span>
-                </div>
-              ))}
+                );
+              })}
             </div>
           </div>
         )}
         
+        {/* Exhibit registry */}
+        {session?.documents && session.documents.length > 0 && (
+          <div className="mt-6 bg-white rounded-xl border border-gray-200 p-5">
+            <div className="flex items-center justify-between flex-wrap gap-3">
+              <h3 className="text-lg font-semibold flex items-center gap-2">
+                <Target className="w-5 h-5 text-purple-600" />
+                Exhibits ({sortedExhibits.length})
+              </h3>
+              <div className="flex items-center gap-2 flex-wrap">
+                {session.documents.some(doc => doc.type === 'exhibit' && !session.exhibits?.some(item => item.documentId === doc.id)) && (
+                  <button
+                    onClick={() => sendExhibitAction({ action: 'mark_all' })}
+                    disabled={isUpdatingExhibits}
+                    className="py-1.5 px-3 bg-purple-600 text-white rounded-lg text-sm font-medium hover:bg-purple-700 disabled:bg-gray-300 transition"
+                  >
+                    Pre-mark exhibits
+                  </button>
+                )}
+                {sortedExhibits.length > 0 && session.questions.length > 0 && (
+                  <button
+                    onClick={linkQuestionsToExhibits}
+                    disabled={isUpdatingExhibits}
+                    className="py-1.5 px-3 bg-gray-100 text-gray-700 rounded-lg text-sm font-medium hover:bg-gray-200 disabled:opacity-50 transition"
+                  >
+                    Link questions
+                  </button>
+                )}
+                {!session.live && nextExhibitSequence !== exhibitSettings.startAt + sortedExhibits.length && (
+                  <button
+                    onClick={() => sendExhibitAction({ action: 'renumber' })}
+                    disabled={isUpdatingExhibits}
+                    className="py-1.5 px-3 bg-gray-100 text-gray-700 rounded-lg text-sm font-medium hover:bg-gray-200 disabled:opacity-50 transition"
+                  >
+                    Renumber
+                  </button>
+                )}
+                {sortedExhibits.length > 0 && (
+                  <a
+                    href={`/api/depositions/${session.id}/exhibits/export?format=pdf`}
+                    className="py-1.5 px-3 bg-gray-100 text-gray-700 rounded-lg text-sm font-medium hover:bg-gray-200 transition flex items-center gap-1"
+                  >
+                    <Download className="w-4 h-4" />
+                    Exhibit list
+                  </a>
+                )}
+              </div>
+            </div>
+            
+            <div className="mt-3 flex items-center gap-3 flex-wrap text-sm">
+              <label className="flex items-center gap-2 text-gray-600">
+                Prefix
+                <input
+                  type="text"
+                  value={exhibitPrefixDraft ?? exhibitSettings.prefix}
+                  onChange={(e) => setExhibitPrefixDraft(e.target.value)}
+                  onBlur={saveExhibitPrefix}
+                  maxLength={20}
+                  disabled={Boolean(session.live)}
+                  className="w-28 px-2 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-orange-500"
+                />
+              </label>
+              <label className="flex items-center gap-2 text-gray-600">
+                Numbering
+                <select
+                  value={exhibitSettings.numbering}
+                  onChange={(e) => sendExhibitAction({ action: 'configure', numbering: e.target.value })}
+                  disabled={isUpdatingExhibits || Boolean(session.live)}
+                  className="px-2 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-orange-500"
+                >
+                  <option value="numeric">1, 2, 3</option>
+                  <option value="alpha">A, B, C</option>
+                </select>
+              </label>
+              <label className="flex items-center gap-2 text-gray-600">
+                Start at
+                <input
+                  type="number"
+                  min={1}
+                  key={exhibitSettings.startAt}
+                  defaultValue={exhibitSettings.startAt}
+                  disabled={Boolean(session.live)}
+                  onBlur={(e) => {
+                    const startAt = Number(e.target.value);
+                    if (startAt === exhibitSettings.startAt) return;
+                    // Numbers below the marked exhibits can only be reached by renumbering them
+                    const action = sortedExhibits.length > 0 && startAt < nextExhibitSequence ? 'renumber' : 'configure';
+                    sendExhibitAction({ action, startAt });
+                  }}
+                  className="w-20 px-2 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-orange-500"
+                />
+              </label>
+              <span className="text-gray-500">
+                Next: {formatExhibitLabel(exhibitSettings, nextExhibitSequence)}
+              </span>
+            </div>
+            
+            {sortedExhibits.length > 0 ? (
+              <div className="mt-4 divide-y divide-gray-100">
+                {sortedExhibits.map(exhibit => {
+                  const doc = session.documents.find(item => item.id === exhibit.documentId);
+                  const linkedCount = session.questions.filter(question => question.exhibitId === exhibit.id).length;
+                  
+                  return (
+                    <div key={exhibit.id} className="py-2 flex items-center gap-3">
+                      <span className="w-24 flex-shrink-0 font-bold text-sm text-gray-900 uppercase">
+                        {formatExhibitLabel(exhibitSettings, exhibit.sequence)}
+                      </span>
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm text-gray-900 truncate">{doc?.name || 'Removed document'}</p>
+                        <input
+                          type="text"
+                          defaultValue={exhibit.description || ''}
+                          onBlur={(e) => {
+                            if (e.target.value.trim() !== (exhibit.description || '')) {
+                              sendExhibitAction({ action: 'update', exhibitId: exhibit.id, description: e.target.value });
+                            }
+                          }}
+                          placeholder="Description for the exhibit list"
+                          className="mt-1 w-full px-2 py-1 text-xs border border-gray-200 rounded focus:ring-2 focus:ring-orange-500 focus:border-orange-500 outline-none"
+                        />
+                      </div>
+                      <span className="text-xs text-gray-500 flex-shrink-0">
+                        {linkedCount} question{linkedCount === 1 ? '' : 's'}
+                      </span>
+                      <a
+                        href={`/api/depositions/${session.id}/exhibits/${exhibit.id}/export`}
+                        className="text-xs text-orange-700 hover:underline flex-shrink-0"
+                      >
+                        Stamped PDF
+                      </a>
+                      <button
+                        onClick={() => sendExhibitAction({ action: 'remove', exhibitId: exhibit.id })}
+                        disabled={isUpdatingExhibits}
+                        title="Remove exhibit"
+                        className="text-gray-400 hover:text-red-600 disabled:opacity-50 flex-shrink-0"
+                      >
+                        <X className="w-4 h-4" />
+                      </button>
+                    </div>
+                  );
+                })}
+              </div>
+            ) : (
+              <p className="mt-3 text-sm text-gray-500">
+                Mark the documents you plan to show the deponent. Questions can then be linked to an exhibit number.
+              </p>
+            )}
+          </div>
+        )}
+        
         {/* Tips */}
         <div className="mt-6 bg-orange-50 rounded-lg p-4 border border-orange-200">
           <div className="flex gap-3">
@@ -793,7 +1470,7 @@ export default function DepositionPrepTool() {
                 <li>• Upload <strong>prior testimony</strong> to identify contradictions</li>
                 <li>• Include <strong>exhibits</strong> you plan to use during the deposition</li>
                 <li>• Add <strong>transcripts</strong> from other depositions in the case</li>
-                <li>• Use <strong>text files (.txt)</strong> for best content extraction</li>
+                <li>• Text is extracted from <strong>PDF, DOCX and text files</strong> - scanned PDFs need OCR first</li>
               </ul>
             </div>
           </div>
@@ -835,6 +1512,13 @@ export default function DepositionPrepTool() {
         </div>
       </div>
       
+      {fallbackNotice && (
+        <div className="mb-6 p-4 bg-amber-50 border border-amber-200 rounded-lg flex items-start gap-3">
+          <AlertCircle className="w-5 h-5 text-amber-600 flex-shrink-0 mt-0.5" />
+          <p className="text-sm text-amber-800">{fallbackNotice}</p>
+        </div>
+      )}
+      
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         {/* Key Themes */}
         {session?.analysis?.keyThemes && session.analysis.keyThemes.length > 0 && (
@@ -919,8 +1603,8 @@ export default function DepositionPrepTool() {
                     </span>
                   </div>
                   <div className="mt-2 text-xs text-gray-600 space-y-1">
-                    <p><strong>Source 1:</strong> {contradiction.source1.document} - &quot;{contradiction.source1.excerpt}&quot;</p>
-                    <p><strong>Source 2:</strong> {contradiction.source2.document} - &quot;{contradiction.source2.excerpt}&quot;</p>
+                    <p><strong>Source 1:</strong> {contradiction.source1.document}{contradiction.source1.page && ` at ${contradiction.source1.page}`} - &quot;{contradiction.source1.excerpt}&quot;</p>
+                    <p><strong>Source 2:</strong> {contradiction.source2.document}{contradiction.source2.page && ` at ${contradiction.source2.page}`} - &quot;{contradiction.source2.excerpt}&quot;</p>
                   </div>
                 </div>
               ))}
@@ -974,6 +1658,18 @@ export default function DepositionPrepTool() {
             <Search className="w-5 h-5" />
             View Analysis
           </button>
+          <button
+            onClick={() => generateQuestions('append')}
+            disabled={isGeneratingQuestions}
+            className="py-2 px-4 bg-gray-100 text-gray-700 rounded-lg font-medium hover:bg-gray-200 disabled:opacity-50 transition flex items-center gap-2"
+          >
+            {isGeneratingQuestions ? (
+              <Loader2 className="w-5 h-5 animate-spin" />
+            ) : (
+              <PlusCircle className="w-5 h-5" />
+            )}
+            Generate More
+          </button>
           <button
             onClick={autoOrganizeOutline}
             disabled={isOrganizingOutline}
@@ -989,6 +1685,13 @@ export default function DepositionPrepTool() {
         </div>
       </div>
       
+      {generationSummary && (
+        <div className="mb-6 p-4 bg-orange-50 border border-orange-200 rounded-lg flex items-start gap-3">
+          <CheckCircle className="w-5 h-5 text-orange-600 flex-shrink-0 mt-0.5" />
+          <p className="text-sm text-orange-800">{generationSummary}</p>
+        </div>
+      )}
+      
       {/* Filters */}
       <div className="flex flex-wrap gap-4 mb-6">
         <div>
@@ -1024,7 +1727,7 @@ export default function DepositionPrepTool() {
         {filteredQuestions.map((question, index) => (
           <div
             key={question.id}
-            className="bg-white rounded-lg border border-gray-200 overflow-hidden hover:shadow-md transition"
+            className={`bg-white rounded-lg border overflow-hidden hover:shadow-md transition ${question.locked ? 'border-orange-300' : 'border-gray-200'}`}
           >
             <div 
               className="p-4 cursor-pointer"
@@ -1052,14 +1755,25 @@ export default function DepositionPrepTool() {
                         {question.documentReference}
                       </span>
                     )}
-                    {question.exhibitToShow && (
+                    {describeQuestionExhibit(question) && (
                       <span className="flex items-center gap-1 text-xs text-purple-600">
                         <Target className="w-3 h-3" />
-                        Show: {question.exhibitToShow}
+                        Show: {describeQuestionExhibit(question)}
                       </span>
                     )}
                   </div>
                 </div>
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    updateQuestion(question.id, { locked: !question.locked });
+                  }}
+                  disabled={busyQuestionId === question.id}
+                  title={question.locked ? 'Unlock - allow regeneration to replace this question' : 'Lock - keep this question when regenerating'}
+                  className={`p-1 hover:text-gray-600 ${question.locked ? 'text-orange-600' : 'text-gray-400'}`}
+                >
+                  {question.locked ? <Lock className="w-4 h-4" /> : <Unlock className="w-4 h-4" />}
+                </button>
                 <button className="p-1 text-gray-400 hover:text-gray-600">
                   {expandedQuestions.has(question.id) ? (
                     <ChevronUp className="w-5 h-5" />
@@ -1098,6 +1812,125 @@ export default function DepositionPrepTool() {
                     </p>
                   </div>
                 )}
+                
+                {/* Edit form */}
+                {editingQuestionId === question.id && questionDraft && (
+                  <div className="mt-3 space-y-2">
+                    <textarea
+                      value={questionDraft.question}
+                      onChange={(e) => setQuestionDraft({ ...questionDraft, question: e.target.value })}
+                      rows={3}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-orange-500 focus:border-orange-500"
+                    />
+                    <div className="flex gap-2">
+                      <input
+                        type="text"
+                        value={questionDraft.topic}
+                        onChange={(e) => setQuestionDraft({ ...questionDraft, topic: e.target.value })}
+                        placeholder="Topic"
+                        className="flex-1 px-3 py-1.5 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-orange-500 focus:border-orange-500"
+                      />
+                      <select
+                        value={questionDraft.priority}
+                        onChange={(e) => setQuestionDraft({ ...questionDraft, priority: e.target.value as DepositionQuestion['priority'] })}
+                        className="px-3 py-1.5 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-orange-500 focus:border-orange-500"
+                      >
+                        <option value="high">High</option>
+                        <option value="medium">Medium</option>
+                        <option value="low">Low</option>
+                      </select>
+                      {sortedExhibits.length > 0 && (
+                        <select
+                          value={question.exhibitId || ''}
+                          onChange={(e) => sendExhibitAction({ action: 'link_question', questionId: question.id, exhibitId: e.target.value || null })}
+                          disabled={isUpdatingExhibits}
+                          title="Exhibit to show"
+                          className="px-3 py-1.5 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-orange-500 focus:border-orange-500"
+                        >
+                          <option value="">No exhibit</option>
+                          {sortedExhibits.map(exhibit => (
+                            <option key={exhibit.id} value={exhibit.id}>{formatExhibitLabel(exhibitSettings, exhibit.sequence)}</option>
+                          ))}
+                        </select>
+                      )}
+                    </div>
+                    <textarea
+                      value={questionDraft.rationale}
+                      onChange={(e) => setQuestionDraft({ ...questionDraft, rationale: e.target.value })}
+                      rows={2}
+                      placeholder="Rationale"
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-orange-500 focus:border-orange-500"
+                    />
+                    <div className="flex gap-2">
+                      <button
+                        onClick={saveQuestionDraft}
+                        disabled={busyQuestionId === question.id || !questionDraft.question.trim() || !questionDraft.topic.trim()}
+                        className="py-1.5 px-3 bg-orange-600 text-white rounded-lg text-sm font-medium hover:bg-orange-700 disabled:bg-gray-300 transition"
+                      >
+                        Save
+                      </button>
+                      <button
+                        onClick={() => { setEditingQuestionId(null); setQuestionDraft(null); }}
+                        className="py-1.5 px-3 bg-gray-100 text-gray-700 rounded-lg text-sm font-medium hover:bg-gray-200 transition"
+                      >
+                        Cancel
+                      </button>
+                    </div>
+                  </div>
+                )}
+                
+                {/* Regenerate with an optional instruction */}
+                {regenerateQuestionId === question.id && (
+                  <div className="mt-3 flex gap-2">
+                    <input
+                      type="text"
+                      value={regenerateInstruction}
+                      onChange={(e) => setRegenerateInstruction(e.target.value)}
+                      onKeyDown={(e) => e.key === 'Enter' && regenerateQuestion(question.id)}
+                      placeholder='Optional instruction, e.g. "make it more leading"'
+                      className="flex-1 px-3 py-1.5 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-orange-500 focus:border-orange-500"
+                    />
+                    <button
+                      onClick={() => regenerateQuestion(question.id)}
+                      disabled={busyQuestionId === question.id}
+                      className="py-1.5 px-3 bg-orange-600 text-white rounded-lg text-sm font-medium hover:bg-orange-700 disabled:bg-gray-300 transition flex items-center gap-1"
+                    >
+                      {busyQuestionId === question.id && <Loader2 className="w-4 h-4 animate-spin" />}
+                      Regenerate
+                    </button>
+                    <button
+                      onClick={() => setRegenerateQuestionId(null)}
+                      className="py-1.5 px-3 bg-gray-100 text-gray-700 rounded-lg text-sm font-medium hover:bg-gray-200 transition"
+                    >
+                      Cancel
+                    </button>
+                  </div>
+                )}
+                
+                {editingQuestionId !== question.id && regenerateQuestionId !== question.id && (
+                  <div className="mt-3 flex gap-2">
+                    <button
+                      onClick={() => startEditingQuestion(question)}
+                      className="py-1.5 px-3 bg-white border border-gray-200 text-gray-700 rounded-lg text-sm font-medium hover:bg-gray-100 transition flex items-center gap-1"
+                    >
+                      <Pencil className="w-4 h-4" />
+                      Edit
+                    </button>
+                    <button
+                      onClick={() => {
+                        setEditingQuestionId(null);
+                        setRegenerateInstruction('');
+                        setRegenerateQuestionId(question.id);
+                      }}
+                      disabled={question.locked}
+                      title={question.locked ? 'Unlock to regenerate' : undefined}
+                      className="py-1.5 px-3 bg-white border border-gray-200 text-gray-700 rounded-lg text-sm font-medium hover:bg-gray-100 disabled:opacity-40 transition flex items-center gap-1"
+                    >
+                      <RefreshCw className="w-4 h-4" />
+                      Regenerate
+                    </button>
+                  </div>
+                )}
               </div>
             )}
           </div>
@@ -1125,15 +1958,112 @@ export default function DepositionPrepTool() {
             View All Questions
           </button>
           <button
+            onClick={goLive}
+            disabled={isUpdatingLive || !session?.outline?.sections.length}
+            className="py-2 px-4 bg-green-600 text-white rounded-lg font-medium hover:bg-green-700 disabled:bg-gray-300 transition flex items-center gap-2"
+          >
+            <Radio className="w-5 h-5" />
+            {session?.live ? 'Resume Live' : 'Go Live'}
+          </button>
+          <a
+            href={exportUrl}
+            download
             className="py-2 px-4 bg-orange-600 text-white rounded-lg font-medium hover:bg-orange-700 transition flex items-center gap-2"
-            onClick={exportToPDF}
           >
             <Download className="w-5 h-5" />
-            Export to PDF
-          </button>
+            Export {EXPORT_FORMAT_OPTIONS.find(option => option.value === exportOptions.format)?.label}
+          </a>
         </div>
       </div>
       
+      {/* Time budget */}
+      {timeBudget && timeBudget.sections.length > 0 && (
+        <div className={`mb-6 rounded-xl border p-5 ${timeBudget.overLimit ? 'bg-red-50 border-red-200' : 'bg-white border-gray-200'}`}>
+          <div className="flex items-center justify-between gap-4 flex-wrap">
+            <div className="flex items-center gap-3">
+              <Clock className={`w-5 h-5 ${timeBudget.overLimit ? 'text-red-600' : 'text-orange-600'}`} />
+              <div>
+                <p className="font-semibold text-gray-900">
+                  About {formatMinutes(timeBudget.totalMinutes)} of {formatMinutes(timeBudget.limitMinutes)} on the record
+                </p>
+                <p className={`text-sm ${timeBudget.overLimit ? 'text-red-700' : 'text-gray-500'}`}>
+                  {timeBudget.overLimit
+                    ? `${formatMinutes(-timeBudget.remainingMinutes)} over the limit`
+                    : `${formatMinutes(timeBudget.remainingMinutes)} to spare`}
+                </p>
+              </div>
+            </div>
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              Limit (hours)
+              <input
+                key={timeBudget.limitMinutes}
+                type="number"
+                min={0.5}
+                max={40}
+                step={0.5}
+                defaultValue={timeBudget.limitMinutes / 60}
+                onBlur={(e) => {
+                  const minutes = Math.round(Number(e.target.value) * 60);
+                  if (minutes !== timeBudget.limitMinutes) updateTimeLimit(minutes);
+                }}
+                className="w-20 px-2 py-1 border border-gray-300 rounded focus:ring-2 focus:ring-orange-500 focus:border-orange-500 outline-none"
+              />
+              {session?.timeLimitMinutes !== undefined && (
+                <button
+                  onClick={() => updateTimeLimit(null)}
+                  className="text-xs text-orange-700 hover:underline"
+                >
+                  Reset
+                </button>
+              )}
+            </label>
+          </div>
+          <div className="mt-3 h-2 rounded-full bg-gray-100 overflow-hidden">
+            <div
+              className={`h-full ${timeBudget.overLimit ? 'bg-red-500' : 'bg-orange-500'}`}
+              style={{ width: `${Math.min(100, (timeBudget.totalMinutes / timeBudget.limitMinutes) * 100)}%` }}
+            />
+          </div>
+          {timeBudget.warning && (
+            <p className="mt-3 text-sm text-red-800 flex items-start gap-2">
+              <AlertTriangle className="w-4 h-4 flex-shrink-0 mt-0.5" />
+              {timeBudget.warning}
+            </p>
+          )}
+          {timeBudget.suggestedCuts.length > 0 && (
+            <div className="mt-3">
+              <div className="flex items-center justify-between mb-2">
+                <p className="text-sm font-medium text-gray-900">Suggested cuts</p>
+                <button
+                  onClick={() => cutQuestions(timeBudget.suggestedCuts)}
+                  disabled={isCuttingQuestions}
+                  className="text-sm py-1 px-3 bg-red-600 text-white rounded-lg hover:bg-red-700 disabled:bg-gray-300 transition"
+                >
+                  {isCuttingQuestions ? 'Cutting...' : `Cut all ${timeBudget.suggestedCuts.length}`}
+                </button>
+              </div>
+              <ul className="space-y-1">
+                {timeBudget.suggestedCuts.map(cut => (
+                  <li key={cut.questionId} className="flex items-start justify-between gap-3 bg-white rounded-lg border border-red-100 px-3 py-2 text-sm">
+                    <div>
+                      <p className="text-gray-900">{cut.question}</p>
+                      <p className="text-xs text-gray-500">{cut.sectionTitle} • ~{cut.minutes} min</p>
+                    </div>
+                    <button
+                      onClick={() => cutQuestions([cut])}
+                      disabled={isCuttingQuestions}
+                      className="text-xs text-red-700 hover:underline disabled:text-gray-400 flex-shrink-0"
+                    >
+                      Cut
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      )}
+      
       {/* Outline sections */}
       {session?.outline?.sections && session.outline.sections.length > 0 ? (
         <div className="space-y-4">
@@ -1149,7 +2079,10 @@ export default function DepositionPrepTool() {
                       <h3 className="font-semibold text-gray-900">{section.title}</h3>
                       <p className="text-sm text-gray-500">
                         {section.questions.length} questions
-                        {section.estimatedTime && ` • ~${section.estimatedTime} min`}
+                        {(() => {
+                          const minutes = timeBudget?.sections.find(budget => budget.sectionId === section.id)?.minutes ?? section.estimatedTime;
+                          return minutes ? ` • ~${minutes} min` : null;
+                        })()}
                       </p>
                     </div>
                   </div>
@@ -1176,9 +2109,9 @@ export default function DepositionPrepTool() {
                               📄 {question.documentReference}
                             </span>
                           )}
-                          {question.exhibitToShow && (
+                          {describeQuestionExhibit(question) && (
                             <span className="text-xs text-purple-600">
-                              🎯 Show: {question.exhibitToShow}
+                              🎯 Show: {describeQuestionExhibit(question)}
                             </span>
                           )}
                         </div>
@@ -1204,22 +2137,293 @@ export default function DepositionPrepTool() {
         </div>
       )}
       
-      {/* Export tip */}
+      {/* Export settings */}
       <div className="mt-6 bg-orange-50 rounded-lg p-4 border border-orange-200">
         <div className="flex gap-3">
           <Lightbulb className="w-5 h-5 text-orange-600 flex-shrink-0 mt-0.5" />
-          <div>
+          <div className="flex-1">
             <p className="font-medium text-orange-900">Ready for the deposition?</p>
             <p className="text-sm text-orange-800 mt-1">
-              Export your outline to PDF with document citations. Each question will include
-              references to the source documents, priority indicators, and follow-up questions for easy reference during the deposition.
+              Export your outline with priority indicators for easy reference during the deposition.
+              The Word version can be edited and handed to second chair.
             </p>
+            <div className="mt-3 flex flex-wrap items-center gap-x-6 gap-y-2">
+              <div className="flex rounded-lg border border-orange-200 bg-white overflow-hidden">
+                {EXPORT_FORMAT_OPTIONS.map(option => (
+                  <button
+                    key={option.value}
+                    onClick={() => setExportOptions(prev => ({ ...prev, format: option.value }))}
+                    className={`px-3 py-1.5 text-sm font-medium transition ${
+                      exportOptions.format === option.value ? 'bg-orange-600 text-white' : 'text-orange-800 hover:bg-orange-100'
+                    }`}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+              </div>
+              {EXPORT_CONTENT_OPTIONS.map(option => (
+                <label key={option.key} className="flex items-center gap-2 text-sm text-orange-900">
+                  <input
+                    type="checkbox"
+                    checked={exportOptions[option.key]}
+                    onChange={(e) => setExportOptions(prev => ({ ...prev, [option.key]: e.target.checked }))}
+                    className="rounded border-orange-300 text-orange-600 focus:ring-orange-500"
+                  />
+                  {option.label}
+                </label>
+              ))}
+            </div>
           </div>
         </div>
       </div>
     </div>
   );
 
+  // Render live deposition step
+  const renderLive = () => {
+    const live = session?.live;
+    if (!session || !live) return null;
+    const sections = [...(session.outline?.sections || [])].sort((a, b) => a.order - b.order);
+    const progress = liveProgress;
+    const recordSeconds = (progress?.recordSeconds || 0) + runningSeconds;
+    const transcript = session.roughTranscript;
+    const outlineQuestions = new Set(sections.flatMap(section => section.questions.map(question => question.question)));
+    const followUps = (transcript?.suggestedFollowUps || []).filter(followUp => !outlineQuestions.has(followUp.question));
+    const remainingSeconds = (progress?.remainingSeconds ?? 0) - runningSeconds;
+    
+    return (
+      <div className="max-w-6xl mx-auto animate-fade-in">
+        <div className="flex items-center justify-between mb-6 flex-wrap gap-4">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Live Deposition</h1>
+            <p className="text-gray-600">
+              {progress
+                ? `${progress.counts.asked} asked • ${progress.counts.deferred} deferred • ${progress.counts.skipped} skipped • ${progress.counts.pending} to go`
+                : 'Loading...'}
+            </p>
+          </div>
+          <div className="flex items-center gap-3">
+            <div className={`px-4 py-2 rounded-lg border text-center ${progress?.onRecord ? 'bg-red-50 border-red-200' : 'bg-gray-50 border-gray-200'}`}>
+              <p className={`text-xs font-semibold uppercase ${progress?.onRecord ? 'text-red-600' : 'text-gray-500'}`}>
+                {progress?.ended ? 'Ended' : progress?.onRecord ? 'On the record' : 'Off the record'}
+              </p>
+              <p className="font-mono text-xl font-bold text-gray-900">{formatClock(recordSeconds)}</p>
+              {progress && (
+                <p className={`text-xs ${remainingSeconds < 0 ? 'text-red-600 font-medium' : 'text-gray-500'}`}>
+                  {remainingSeconds < 0
+                    ? `${formatMinutes(-remainingSeconds / 60)} over ${formatMinutes(progress.limitMinutes)}`
+                    : `${formatMinutes(remainingSeconds / 60)} of ${formatMinutes(progress.limitMinutes)} left`}
+                </p>
+              )}
+            </div>
+            {progress?.ended ? (
+              <button
+                onClick={goLive}
+                disabled={isUpdatingLive}
+                className="py-2 px-4 bg-green-600 text-white rounded-lg font-medium hover:bg-green-700 disabled:bg-gray-300 transition"
+              >
+                Resume
+              </button>
+            ) : (
+              <>
+                <button
+                  onClick={() => sendLiveAction({ action: progress?.onRecord ? 'go_off_record' : 'go_on_record' })}
+                  disabled={isUpdatingLive || !progress}
+                  className={`py-2 px-4 rounded-lg font-medium transition disabled:bg-gray-300 text-white ${
+                    progress?.onRecord ? 'bg-gray-700 hover:bg-gray-800' : 'bg-red-600 hover:bg-red-700'
+                  }`}
+                >
+                  {progress?.onRecord ? 'Go off the record' : 'Go on the record'}
+                </button>
+                <button
+                  onClick={endLive}
+                  disabled={isUpdatingLive}
+                  className="py-2 px-4 bg-gray-100 text-gray-700 rounded-lg font-medium hover:bg-gray-200 disabled:opacity-50 transition"
+                >
+                  End
+                </button>
+              </>
+            )}
+          </div>
+        </div>
+        
+        <div className="grid lg:grid-cols-3 gap-6">
+          {/* Outline checklist */}
+          <div className="lg:col-span-2 space-y-4">
+            {sections.map((section) => {
+              const sectionProgress = progress?.sections.find(item => item.sectionId === section.id);
+              const isActive = progress?.activeSectionId === section.id;
+              const sectionSeconds = (sectionProgress?.recordSeconds || 0) + (isActive ? runningSeconds : 0);
+              
+              return (
+                <div key={section.id} className={`bg-white rounded-xl border overflow-hidden ${isActive ? 'border-orange-400' : 'border-gray-200'}`}>
+                  <div className="bg-gray-50 px-6 py-3 border-b border-gray-200 flex items-center justify-between gap-3">
+                    <div>
+                      <h3 className="font-semibold text-gray-900">{section.title}</h3>
+                      <p className="text-sm text-gray-500">
+                        {sectionProgress?.counts.asked || 0}/{section.questions.length} asked
+                        {' • '}
+                        <span className="font-mono">{formatClock(sectionSeconds)}</span>
+                        {sectionProgress && ` of ~${sectionProgress.estimatedMinutes} min`}
+                      </p>
+                    </div>
+                    {isActive ? (
+                      <span className="px-2 py-0.5 rounded text-xs font-medium bg-orange-100 text-orange-700">Clock running here</span>
+                    ) : !progress?.ended && (
+                      <button
+                        onClick={() => sendLiveAction({ action: 'set_section', sectionId: section.id })}
+                        disabled={isUpdatingLive}
+                        className="text-xs text-orange-700 hover:underline disabled:text-gray-400"
+                      >
+                        Move clock here
+                      </button>
+                    )}
+                  </div>
+                  <div className="divide-y divide-gray-100">
+                    {section.questions.map((question) => {
+                      const state = live.questions[question.id];
+                      const status = state?.status || 'pending';
+                      
+                      return (
+                        <div key={question.id} className={`px-6 py-3 ${status === 'asked' || status === 'skipped' ? 'bg-gray-50' : ''}`}>
+                          <div className="flex items-start justify-between gap-3">
+                            <div className="flex-1">
+                              <p className={status === 'skipped' ? 'text-gray-400 line-through' : 'text-gray-900'}>{question.question}</p>
+                              <div className="flex items-center gap-2 mt-1">
+                                <span className={`px-2 py-0.5 rounded text-xs font-medium ${getPriorityBadgeClass(question.priority)}`}>
+                                  {question.priority}
+                                </span>
+                                {describeQuestionExhibit(question) && (
+                                  <span className="text-xs text-purple-600">🎯 Show: {describeQuestionExhibit(question)}</span>
+                                )}
+                                {state?.transcriptCitation && (
+                                  <span className="text-xs text-gray-500 font-mono">Rough {state.transcriptCitation}</span>
+                                )}
+                              </div>
+                            </div>
+                            <div className="flex gap-1 flex-shrink-0">
+                              {LIVE_STATUS_OPTIONS.map(option => (
+                                <button
+                                  key={option.value}
+                                  onClick={() => markLiveQuestion(question.id, option.value)}
+                                  disabled={isUpdatingLive || progress?.ended}
+                                  className={`px-2 py-1 rounded border text-xs font-medium transition disabled:opacity-50 ${
+                                    status === option.value ? option.activeClass : 'border-gray-300 text-gray-600 hover:bg-gray-100'
+                                  }`}
+                                >
+                                  {option.value === 'asked' && <CheckCircle className="w-3 h-3 inline mr-1" />}
+                                  {option.value === 'skipped' && <SkipForward className="w-3 h-3 inline mr-1" />}
+                                  {option.value === 'deferred' && <Clock className="w-3 h-3 inline mr-1" />}
+                                  {option.label}
+                                </button>
+                              ))}
+                            </div>
+                          </div>
+                          <textarea
+                            value={answerDrafts[question.id] ?? state?.answerSummary ?? ''}
+                            onChange={(e) => setAnswerDrafts(prev => ({ ...prev, [question.id]: e.target.value }))}
+                            onBlur={() => saveAnswerSummary(question.id)}
+                            disabled={progress?.ended}
+                            placeholder="Answer summary"
+                            rows={1}
+                            className="mt-2 w-full px-3 py-1.5 text-sm border border-gray-200 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-orange-500 outline-none resize-y disabled:bg-gray-50"
+                          />
+                        </div>
+                      );
+                    })}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+          
+          {/* Unasked must-ask questions and the rough transcript review */}
+          <div className="space-y-4">
+            <div className="bg-white rounded-xl border border-gray-200 p-5">
+              <h3 className="font-semibold text-gray-900 flex items-center gap-2">
+                <Target className="w-5 h-5 text-red-600" />
+                High priority still unasked
+              </h3>
+              {progress && progress.unaskedHighPriority.length > 0 ? (
+                <ul className="mt-3 space-y-2">
+                  {progress.unaskedHighPriority.map(item => (
+                    <li key={item.questionId} className="text-sm">
+                      <p className="text-gray-900">{item.question}</p>
+                      <p className="text-xs text-gray-500">
+                        {item.sectionTitle}
+                        {item.status === 'deferred' && <span className="text-amber-600"> • deferred</span>}
+                      </p>
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <p className="mt-3 text-sm text-gray-500">Every high-priority question has been asked or skipped.</p>
+              )}
+            </div>
+            
+            <div className="bg-white rounded-xl border border-gray-200 p-5">
+              <h3 className="font-semibold text-gray-900 flex items-center gap-2">
+                <FileText className="w-5 h-5 text-blue-600" />
+                Rough transcript
+              </h3>
+              {!transcript ? (
+                <p className="mt-3 text-sm text-gray-500">
+                  No rough transcript yet. Send the realtime feed to <span className="font-mono">/live/transcript</span> to match answers and flag conflicts.
+                </p>
+              ) : (
+                <>
+                  <p className="mt-1 text-xs text-gray-500">
+                    {transcript.segmentsProcessed} segments reviewed • updated {new Date(transcript.updatedAt).toLocaleTimeString()}
+                  </p>
+                  {transcript.flags.length > 0 && (
+                    <ul className="mt-3 space-y-3">
+                      {[...transcript.flags].reverse().map(flag => (
+                        <li key={flag.id} className="text-sm rounded-lg border border-red-200 bg-red-50 p-3">
+                          <div className="flex items-center gap-2">
+                            <AlertTriangle className="w-4 h-4 text-red-600" />
+                            <span className={`px-2 py-0.5 rounded text-xs font-medium ${getSeverityBadgeClass(flag.severity)}`}>
+                              {flag.severity}
+                            </span>
+                            <span className="text-xs text-gray-500 font-mono">{flag.citation}</span>
+                          </div>
+                          <p className="mt-1 text-gray-900">{flag.explanation}</p>
+                          <p className="mt-1 text-xs text-gray-600">Q. {flag.question}</p>
+                          <p className="text-xs text-gray-600">A. {flag.answer}</p>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                  {followUps.length > 0 ? (
+                    <ul className="mt-3 space-y-3">
+                      {[...followUps].reverse().map(followUp => (
+                        <li key={followUp.id} className="text-sm">
+                          <p className="text-gray-900">{followUp.question}</p>
+                          <p className="text-xs text-gray-500">{followUp.citation} • {followUp.rationale}</p>
+                          {!progress?.ended && progress?.activeSectionId && (
+                            <button
+                              onClick={() => addFollowUpToOutline(followUp)}
+                              disabled={addingFollowUpId !== null}
+                              className="mt-1 text-xs text-orange-700 hover:underline disabled:text-gray-400 flex items-center gap-1"
+                            >
+                              <PlusCircle className="w-3 h-3" />
+                              {addingFollowUpId === followUp.id ? 'Adding...' : 'Add to outline'}
+                            </button>
+                          )}
+                        </li>
+                      ))}
+                    </ul>
+                  ) : transcript.flags.length === 0 && (
+                    <p className="mt-3 text-sm text-gray-500">No conflicts or follow-ups flagged so far.</p>
+                  )}
+                </>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+    );
+  };
+
   return (
     <div className="py-8 px-4">
       {/* Error Banner */}
@@ -1236,13 +2440,13 @@ export default function DepositionPrepTool() {
               <span className="text-gray-600">{session.deponentName}</span>
             </div>
             <div className="flex items-center gap-6">
-              {['documents', 'analysis', 'questions', 'outline'].map((step, index) => {
-                const steps: AppStep[] = ['documents', 'analysis', 'questions', 'outline'];
+              {['documents', 'analysis', 'questions', 'outline', 'live'].map((step, index) => {
+                const steps: AppStep[] = ['documents', 'analysis', 'questions', 'outline', 'live'];
                 const currentIndex = steps.indexOf(currentStep);
                 const stepIndex = index;
                 const isActive = currentStep === step;
                 const isCompleted = stepIndex < currentIndex;
-                const isAccessible = stepIndex <= currentIndex || (step === 'questions' && session.questions.length > 0) || (step === 'outline' && session.outline);
+                const isAccessible = stepIndex <= currentIndex || (step === 'questions' && session.questions.length > 0) || (step === 'outline' && session.outline) || (step === 'live' && session.live);
                 
                 return (
                   <button
@@ -1295,6 +2499,7 @@ export default function DepositionPrepTool() {
       {currentStep === 'analysis' && renderAnalysis()}
       {currentStep === 'questions' && renderQuestions()}
       {currentStep === 'outline' && renderOutline()}
+      {currentStep === 'live' && renderLive()}
     </div>
   );
 }
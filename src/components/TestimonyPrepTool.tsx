@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useCallback, useEffect } from 'react';
+import { useState, useCallback, useEffect, useRef } from 'react';
 import { 
   Scale, 
   Upload, 
@@ -18,7 +18,16 @@ import {
   Lightbulb,
   Target,
   Shield,
-  AlertCircle
+  AlertCircle,
+  SlidersHorizontal,
+  PlusCircle,
+  Lock,
+  Unlock,
+  Pencil,
+  RefreshCw,
+  FileSearch,
+  Gavel,
+  Download
 } from 'lucide-react';
 
 interface Document {
@@ -29,17 +38,75 @@ interface Document {
   uploadedAt: string;
   status: string;
   content?: string;
+  error?: string;
 }
 
 interface CrossExamQuestion {
   id: string;
   question: string;
-  category: 'timeline' | 'credibility' | 'inconsistency' | 'foundation' | 'impeachment' | 'general';
+  category: 'timeline' | 'credibility' | 'inconsistency' | 'foundation' | 'impeachment' | 'general'
+    | 'background' | 'narrative' | 'exhibits' | 'rehabilitation';
   difficulty: 'easy' | 'medium' | 'hard';
   suggestedApproach?: string;
   weakPoint?: string;
   followUpQuestions?: string[];
   documentReference?: string;
+  locked?: boolean;
+  mode?: ExaminationMode;
+}
+
+interface QuestionDraft {
+  question: string;
+  category: CrossExamQuestion['category'];
+  difficulty: CrossExamQuestion['difficulty'];
+  suggestedApproach: string;
+}
+
+type RubricDimension = 'responsiveness' | 'volunteering' | 'documentConsistency' | 'certainty' | 'composure' | 'length';
+
+type AnswerRubric = Record<RubricDimension, { score: number; explanation: string }>;
+
+interface RubricSummary {
+  scoredAnswers: number;
+  overallAverage: number | null;
+  dimensions: Partial<Record<RubricDimension, { label: string; average: number; lowest: number; highest: number }>>;
+  weakestDimension?: RubricDimension;
+}
+
+type ObjectionType = 'compound' | 'assumes_facts' | 'argumentative' | 'asked_and_answered' | 'speculation' | 'form';
+
+interface ObjectionRuling {
+  question: string;
+  objections: Array<{ type: ObjectionType; grounds: string }>;
+  pauseGuidance: string;
+}
+
+interface DeliveryMetrics {
+  source: 'spoken' | 'typed';
+  wordCount: number;
+  wordsPerMinute?: number;
+  fillerCount: number;
+  fillers: Record<string, number>;
+  hedgeCount: number;
+  hedges: Record<string, number>;
+  timeToFirstWord?: number;
+  longPauses?: number;
+  longestPause?: number;
+  questionComplexity: 'simple' | 'moderate' | 'complex';
+  expectedWords: number;
+  lengthRatio: number;
+}
+
+interface DeliveryRoundSummary {
+  round: number;
+  answers: number;
+  spokenAnswers: number;
+  averageWordsPerMinute: number | null;
+  fillersPer100Words: number;
+  hedgesPer100Words: number;
+  averageTimeToFirstWord: number | null;
+  longPauses: number;
+  averageLengthRatio: number;
 }
 
 interface PracticeExchange {
@@ -49,6 +116,13 @@ interface PracticeExchange {
   witnessResponse: string;
   aiFollowUp?: string;
   feedback?: string;
+  rubric?: AnswerRubric;
+  delivery?: DeliveryMetrics;
+  objections?: ObjectionRuling;
+  mode?: ExaminationMode;
+  parentExchangeId?: string;
+  depth?: number;
+  usedFallback?: boolean;
   timestamp: string;
 }
 
@@ -57,6 +131,69 @@ interface AIResponse {
   feedback?: string;
   weaknessIdentified?: string;
   suggestedImprovement?: string;
+  rubric?: AnswerRubric;
+  delivery?: DeliveryMetrics;
+  usedFallback?: boolean;
+  canFollowUp?: boolean;
+  exchangeId?: string;
+  depth?: number;
+}
+
+interface ConsistencySource {
+  exchangeId?: string;
+  answerNumber?: number;
+  question?: string;
+  documentName?: string;
+  page?: number;
+  quote: string;
+  quoteVerified: boolean;
+}
+
+interface ConsistencyIssue {
+  id: string;
+  type: 'answer_vs_answer' | 'answer_vs_document';
+  description: string;
+  severity: 'minor' | 'moderate' | 'significant';
+  statement: ConsistencySource;
+  conflictsWith: ConsistencySource;
+  suggestion?: string;
+}
+
+interface ConsistencyReport {
+  generatedAt: string;
+  answersChecked: number;
+  answersOmitted: number;
+  historyLength: number;
+  assertions: Array<{ exchangeId: string; answerNumber: number; claim: string }>;
+  issues: ConsistencyIssue[];
+}
+
+type ExaminationMode = 'cross' | 'direct' | 'redirect';
+
+type ExaminerPersona = 'professional' | 'courteous' | 'aggressive' | 'methodical';
+
+interface ExaminerSettings {
+  persona: ExaminerPersona;
+  hostility: number;
+}
+
+// Where the current practice round stands, from /practice/next
+interface PracticeSchedule {
+  round: number;
+  roundComplete: boolean;
+  question: CrossExamQuestion | null;
+  reason?: string;
+  answeredInRound: number;
+  remainingInRound: number;
+  dueNextRound: number;
+  masteredCount: number;
+}
+
+// The examiner follow-up the witness is currently answering
+interface ActiveFollowUp {
+  parentExchangeId: string;
+  question: string;
+  depth: number;
 }
 
 interface Session {
@@ -69,10 +206,72 @@ interface Session {
   status: string;
   practiceHistory: PracticeExchange[];
   totalDuration: number;
+  examinerSettings?: ExaminerSettings;
+  examinationMode?: ExaminationMode;
+  consistencyReport?: ConsistencyReport;
 }
 
 type AppStep = 'setup' | 'documents' | 'questions' | 'practice' | 'review';
 
+type WitnessRole = 'fact' | 'expert' | 'party' | 'corporate_representative';
+type QuestionCategory = CrossExamQuestion['category'];
+type QuestionDifficulty = CrossExamQuestion['difficulty'];
+
+const WITNESS_ROLE_OPTIONS: Array<{ value: WitnessRole; label: string }> = [
+  { value: 'fact', label: 'Fact witness' },
+  { value: 'expert', label: 'Expert witness' },
+  { value: 'party', label: 'Party' },
+  { value: 'corporate_representative', label: 'Corporate representative' },
+];
+
+const CROSS_QUESTION_CATEGORIES: QuestionCategory[] = ['timeline', 'credibility', 'inconsistency', 'foundation', 'impeachment', 'general'];
+const DIRECT_QUESTION_CATEGORIES: QuestionCategory[] = ['background', 'narrative', 'exhibits', 'rehabilitation'];
+
+const EXAMINATION_MODE_OPTIONS: Array<{ value: ExaminationMode; label: string; description: string; categories: QuestionCategory[] }> = [
+  { value: 'cross', label: 'Cross', description: 'Opposing counsel tests the witness with leading, adversarial questions', categories: CROSS_QUESTION_CATEGORIES },
+  { value: 'direct', label: 'Direct', description: 'Your own counsel draws out the witness\'s story with open questions', categories: DIRECT_QUESTION_CATEGORIES },
+  { value: 'redirect', label: 'Redirect', description: 'Your own counsel repairs the weaknesses exposed in cross practice', categories: DIRECT_QUESTION_CATEGORIES },
+];
+const EXAMINATION_MODE_TITLES: Record<ExaminationMode, string> = {
+  cross: 'Cross-Examination',
+  direct: 'Direct Examination',
+  redirect: 'Redirect',
+};
+const QUESTION_DIFFICULTIES: QuestionDifficulty[] = ['easy', 'medium', 'hard'];
+
+const EXAMINER_PERSONA_OPTIONS: Array<{ value: ExaminerPersona; label: string; description: string; defaultHostility: number }> = [
+  { value: 'professional', label: 'Professional', description: 'Firm, even-handed cross-examination', defaultHostility: 2 },
+  { value: 'courteous', label: 'Courteous', description: 'Friendly and polite, inviting the witness to say too much', defaultHostility: 1 },
+  { value: 'aggressive', label: 'Aggressive', description: 'Rapid-fire and confrontational, cuts off rambling answers', defaultHostility: 5 },
+  { value: 'methodical', label: 'Methodical', description: 'Slow chain of small leading questions - "death by a thousand yeses"', defaultHostility: 3 },
+];
+const HOSTILITY_LABELS = ['Cordial', 'Firm', 'Pointed', 'Hostile', 'Very hostile'];
+const DEFAULT_EXAMINER_SETTINGS: ExaminerSettings = { persona: 'professional', hostility: 2 };
+
+const OBJECTION_LABELS: Record<ObjectionType, string> = {
+  compound: 'Compound',
+  assumes_facts: 'Assumes facts not in evidence',
+  argumentative: 'Argumentative',
+  asked_and_answered: 'Asked and answered',
+  speculation: 'Calls for speculation',
+  form: 'Form',
+};
+
+// Transcripts are polled every 2 seconds for up to 3 minutes
+const TRANSCRIPTION_POLL_MS = 2000;
+const TRANSCRIPTION_MAX_POLLS = 90;
+
+const RUBRIC_MAX_SCORE = 5;
+const RUBRIC_LABELS: Record<RubricDimension, string> = {
+  responsiveness: 'Responsiveness',
+  volunteering: 'No volunteering',
+  documentConsistency: 'Consistency with documents',
+  certainty: 'Certainty language',
+  composure: 'Composure',
+  length: 'Length',
+};
+const RUBRIC_DIMENSIONS = Object.keys(RUBRIC_LABELS) as RubricDimension[];
+
 export default function TestimonyPrepTool() {
   // Session state
   const [session, setSession] = useState<Session | null>(null);
@@ -88,15 +287,56 @@ export default function TestimonyPrepTool() {
   const [isGeneratingQuestions, setIsGeneratingQuestions] = useState(false);
   const [isSubmittingResponse, setIsSubmittingResponse] = useState(false);
   
+  // Question generation settings
+  const [questionCount, setQuestionCount] = useState(20);
+  const [witnessRole, setWitnessRole] = useState<WitnessRole>('fact');
+  const [focusAreasInput, setFocusAreasInput] = useState('');
+  const [customCategoryMix, setCustomCategoryMix] = useState(false);
+  const [categoryMix, setCategoryMix] = useState<Record<QuestionCategory, number>>({
+    timeline: 3, credibility: 3, inconsistency: 3, foundation: 3, impeachment: 3, general: 5,
+    background: 2, narrative: 5, exhibits: 2, rehabilitation: 3,
+  });
+  const [customDifficultyMix, setCustomDifficultyMix] = useState(false);
+  const [difficultyMix, setDifficultyMix] = useState<Record<QuestionDifficulty, number>>({
+    easy: 1, medium: 2, hard: 1,
+  });
+  
   // Error state
   const [error, setError] = useState<string | null>(null);
+  const [fallbackNotice, setFallbackNotice] = useState<string | null>(null);
+  const [generationSummary, setGenerationSummary] = useState<string | null>(null);
+  
+  // Per-question editing state
+  const [editingQuestionId, setEditingQuestionId] = useState<string | null>(null);
+  const [questionDraft, setQuestionDraft] = useState<QuestionDraft | null>(null);
+  const [regenerateQuestionId, setRegenerateQuestionId] = useState<string | null>(null);
+  const [regenerateInstruction, setRegenerateInstruction] = useState('');
+  const [busyQuestionId, setBusyQuestionId] = useState<string | null>(null);
   
   // Practice state
-  const [currentQuestionIndex, setCurrentQuestionIndex] = useState(0);
+  const [schedule, setSchedule] = useState<PracticeSchedule | null>(null);
   const [witnessResponse, setWitnessResponse] = useState('');
   const [lastAIResponse, setLastAIResponse] = useState<AIResponse | null>(null);
   const [showFeedback, setShowFeedback] = useState(false);
+  const [activeFollowUp, setActiveFollowUp] = useState<ActiveFollowUp | null>(null);
+  const [maxFollowUpDepth, setMaxFollowUpDepth] = useState(0);
+  const [rubricSummary, setRubricSummary] = useState<RubricSummary | null>(null);
+  const [deliverySummary, setDeliverySummary] = useState<DeliveryRoundSummary[]>([]);
+  
+  // Defending counsel state
+  const [objectionsEnabled, setObjectionsEnabled] = useState(true);
+  const [objectionRuling, setObjectionRuling] = useState<ObjectionRuling | null>(null);
+  const [isReviewingObjections, setIsReviewingObjections] = useState(false);
+  // Question the pending review is for, so a late ruling for an earlier question is dropped
+  const objectionTargetRef = useRef<string | null>(null);
+  const [isCheckingConsistency, setIsCheckingConsistency] = useState(false);
   const [isRecording, setIsRecording] = useState(false);
+  const [transcriptionStatus, setTranscriptionStatus] = useState<'idle' | 'uploading' | 'transcribing'>('idle');
+  const mediaRecorderRef = useRef<MediaRecorder | null>(null);
+  const recordingChunksRef = useRef<Blob[]>([]);
+  const recordingStartedAtRef = useRef<Date | null>(null);
+  // Recording whose transcript belongs in the current answer; cleared when the question changes
+  const recordingIdRef = useRef<string | null>(null);
   
   // Timer state
   const [sessionStartTime, setSessionStartTime] = useState<Date | null>(null);
@@ -164,10 +404,14 @@ export default function TestimonyPrepTool() {
     setCurrentStep('setup');
     setWitnessName('');
     setCaseName('');
-    setCurrentQuestionIndex(0);
+    setSchedule(null);
     setWitnessResponse('');
     setLastAIResponse(null);
     setShowFeedback(false);
+    setActiveFollowUp(null);
+    setRubricSummary(null);
+    setDeliverySummary([]);
+    setObjectionRuling(null);
     setError(null);
   }, []);
 
@@ -196,6 +440,10 @@ export default function TestimonyPrepTool() {
             resetToSetup();
             return;
           }
+          // Unparseable files are still recorded on the session with an error reason
+          if (data.session) {
+            setSession(data.session);
+          }
           showError(data.error || 'Failed to upload document');
           continue;
         }
@@ -211,8 +459,37 @@ export default function TestimonyPrepTool() {
     setIsUploadingDocument(false);
   }, [session, resetToSetup]);
 
+  // Questions are generated and practiced one examination mode at a time
+  const examinationMode: ExaminationMode = session?.examinationMode || 'cross';
+  const modeOption = EXAMINATION_MODE_OPTIONS.find(option => option.value === examinationMode) || EXAMINATION_MODE_OPTIONS[0];
+  const modeQuestions = session?.questions.filter(q => (q.mode || 'cross') === examinationMode) || [];
+  
+  // Poll while documents are waiting on vault OCR
+  const hasProcessingDocuments = session?.documents.some(doc => doc.status === 'processing') ?? false;
+  const sessionId = session?.id;
+  
+  useEffect(() => {
+    if (!sessionId || !hasProcessingDocuments) return;
+    
+    const interval = setInterval(async () => {
+      try {
+        const response = await fetch(`/api/sessions/${sessionId}/documents`);
+        if (!response.ok) return;
+        const data = await response.json();
+        if (data.documents) {
+          setSession(prev => prev ? { ...prev, documents: data.documents } : prev);
+        }
+      } catch (err) {
+        console.error('Error polling document status:', err);
+      }
+    }, 3000);
+    
+    return () => clearInterval(interval);
+  }, [sessionId, hasProcessingDocuments]);
+
   // Generate questions
-  const generateQuestions = async () => {
+  // Append mode keeps the current questions (and practice history) and adds new, non-duplicate ones
+  const generateQuestions = async (mode: 'replace' | 'append' = 'replace') => {
     if (!session) return;
     
     setIsGeneratingQuestions(true);
@@ -221,6 +498,18 @@ export default function TestimonyPrepTool() {
     try {
       const response = await fetch(`/api/sessions/${session.id}/generate-questions`, {
         method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          mode,
+          questionCount,
+          witnessRole,
+          focusAreas: focusAreasInput.split(',').map(area => area.trim()).filter(Boolean),
+          // Only the current mode's categories
+          categoryMix: customCategoryMix
+            ? Object.fromEntries(modeOption.categories.map(category => [category, categoryMix[category]]))
+            : undefined,
+          difficultyMix: customDifficultyMix ? difficultyMix : undefined,
+        }),
       });
       
       const data = await response.json();
@@ -229,6 +518,14 @@ export default function TestimonyPrepTool() {
         return;
       }
       
+      setFallbackNotice(data.usedFallback
+        ? `${data.fallbackReason || 'The AI service was unavailable.'} These are standard template questions, not questions drawn from your documents.`
+        : null);
+      const appendSummary = mode === 'append'
+        ? `Added ${data.questions.length} new question${data.questions.length === 1 ? '' : 's'}${data.duplicatesRemoved ? `; skipped ${data.duplicatesRemoved} that repeated existing questions` : ''}.`
+        : null;
+      setGenerationSummary([appendSummary, data.warning].filter(Boolean).join(' ') || null);
+      
       if (data.session) {
         setSession(data.session);
         setCurrentStep('questions');
@@ -241,20 +538,269 @@ export default function TestimonyPrepTool() {
     }
   };
 
-  // Start practice mode
-  const startPractice = () => {
-    setCurrentStep('practice');
-    setCurrentQuestionIndex(0);
-    setSessionStartTime(new Date());
-    setQuestionStartTime(new Date());
+  // Edit a question's fields, or lock/unlock it so full regeneration keeps it
+  const updateQuestion = async (questionId: string, updates: Partial<CrossExamQuestion>) => {
+    if (!session) return false;
+    
+    setBusyQuestionId(questionId);
+    setError(null);
+    
+    try {
+      const response = await fetch(`/api/sessions/${session.id}/questions/${questionId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(updates),
+      });
+      
+      const data = await response.json();
+      if (!response.ok) {
+        showError(data.error || 'Failed to update question');
+        return false;
+      }
+      
+      if (data.session) {
+        setSession(data.session);
+      }
+      return true;
+    } catch (err) {
+      console.error('Error updating question:', err);
+      showError('Failed to update question');
+      return false;
+    } finally {
+      setBusyQuestionId(null);
+    }
+  };
+
+  const startEditingQuestion = (question: CrossExamQuestion) => {
+    setRegenerateQuestionId(null);
+    setEditingQuestionId(question.id);
+    setQuestionDraft({
+      question: question.question,
+      category: question.category,
+      difficulty: question.difficulty,
+      suggestedApproach: question.suggestedApproach || '',
+    });
+  };
+
+  const saveQuestionDraft = async () => {
+    if (!editingQuestionId || !questionDraft || !questionDraft.question.trim()) return;
+    
+    const saved = await updateQuestion(editingQuestionId, questionDraft);
+    if (saved) {
+      setEditingQuestionId(null);
+      setQuestionDraft(null);
+    }
+  };
+
+  // Ask the model to rewrite one question, optionally following an instruction
+  const regenerateQuestion = async (questionId: string) => {
+    if (!session) return;
+    
+    setBusyQuestionId(questionId);
+    setError(null);
+    
+    try {
+      const response = await fetch(`/api/sessions/${session.id}/questions/${questionId}/regenerate`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ instruction: regenerateInstruction.trim() || undefined }),
+      });
+      
+      const data = await response.json();
+      if (!response.ok) {
+        showError(data.error || 'Failed to regenerate question');
+        return;
+      }
+      
+      if (data.session) {
+        setSession(data.session);
+      }
+      setRegenerateQuestionId(null);
+      setRegenerateInstruction('');
+    } catch (err) {
+      console.error('Error regenerating question:', err);
+      showError('Failed to regenerate question');
+    } finally {
+      setBusyQuestionId(null);
+    }
+  };
+
+  // Have defending counsel review the question about to be answered
+  const reviewObjections = async (target: { questionId: string } | { parentExchangeId: string }) => {
+    if (!session) return;
+    
+    const key = 'questionId' in target ? target.questionId : target.parentExchangeId;
+    objectionTargetRef.current = key;
+    setObjectionRuling(null);
+    setIsReviewingObjections(true);
+    
+    try {
+      const response = await fetch(`/api/sessions/${session.id}/practice/objections`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(target),
+      });
+      
+      const data = await response.json();
+      if (objectionTargetRef.current !== key) return;
+      // Practice carries on without defending counsel if the review fails
+      if (!response.ok) {
+        console.error('Objection review failed:', data.error);
+        return;
+      }
+      setObjectionRuling(data.ruling);
+    } catch (err) {
+      console.error('Error reviewing question for objections:', err);
+    } finally {
+      if (objectionTargetRef.current === key) setIsReviewingObjections(false);
+    }
+  };
+
+  const toggleObjections = (enabled: boolean) => {
+    setObjectionsEnabled(enabled);
+    objectionTargetRef.current = null;
+    setObjectionRuling(null);
+    setIsReviewingObjections(false);
+    if (!enabled || showFeedback) return;
+    if (activeFollowUp) reviewObjections({ parentExchangeId: activeFollowUp.parentExchangeId });
+    else if (schedule?.question) reviewObjections({ questionId: schedule.question.id });
+  };
+
+  // Show a scheduled question, or the review once the round is done
+  const applySchedule = (next: PracticeSchedule) => {
+    setSchedule(next);
+    setActiveFollowUp(null);
+    recordingIdRef.current = null;
+    objectionTargetRef.current = null;
+    setObjectionRuling(null);
+    setWitnessResponse('');
+    setLastAIResponse(null);
+    setShowFeedback(false);
+    if (next.roundComplete) {
+      setCurrentStep('review');
+    } else {
+      setCurrentStep('practice');
+      setQuestionStartTime(new Date());
+      if (objectionsEnabled && next.question) reviewObjections({ questionId: next.question.id });
+    }
+  };
+
+  // Ask the server for the next question in the current round
+  const loadNextQuestion = async (): Promise<PracticeSchedule | null> => {
+    if (!session) return null;
+    
+    try {
+      const response = await fetch(`/api/sessions/${session.id}/practice/next`);
+      const data = await response.json();
+      if (!response.ok) {
+        showError(data.error || 'Failed to load the next question');
+        return null;
+      }
+      return data;
+    } catch (err) {
+      console.error('Error loading next question:', err);
+      showError('Failed to load the next question. Please try again.');
+      return null;
+    }
+  };
+
+  // Start another round; poorly answered and due questions come back
+  const startNextRound = async () => {
+    if (!session) return;
+    
+    try {
+      const response = await fetch(`/api/sessions/${session.id}/practice/rounds`, { method: 'POST' });
+      const data = await response.json();
+      if (!response.ok) {
+        showError(data.error || 'Failed to start a new round');
+        return;
+      }
+      if (data.roundComplete) {
+        setSchedule(data);
+        showError(`No questions are due in round ${data.round}. Start another round to bring more back.`);
+        return;
+      }
+      setSessionStartTime(new Date());
+      applySchedule(data);
+    } catch (err) {
+      console.error('Error starting round:', err);
+      showError('Failed to start a new round. Please try again.');
+    }
+  };
+
+  // Start practice mode, continuing the current round (or starting the next when it is done)
+  const startPractice = async () => {
     setError(null);
+    const next = await loadNextQuestion();
+    if (!next) return;
+    
+    if (next.roundComplete && next.answeredInRound > 0) {
+      await startNextRound();
+      return;
+    }
+    setSessionStartTime(new Date());
+    applySchedule(next);
+  };
+
+  // Change the practice examiner; applies from the next answer
+  const updateExaminerSettings = async (settings: ExaminerSettings) => {
+    if (!session) return;
+    
+    try {
+      const response = await fetch(`/api/sessions/${session.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ examinerSettings: settings }),
+      });
+      
+      const data = await response.json();
+      if (!response.ok) {
+        showError(data.error || 'Failed to update examiner');
+        return;
+      }
+      if (data.session) {
+        setSession(data.session);
+      }
+    } catch (err) {
+      console.error('Error updating examiner:', err);
+      showError('Failed to update examiner. Please try again.');
+    }
+  };
+
+  // Switch between cross, direct and redirect; the next generation and practice round use the new mode
+  const updateExaminationMode = async (mode: ExaminationMode) => {
+    if (!session || mode === examinationMode) return;
+    
+    try {
+      const response = await fetch(`/api/sessions/${session.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ examinationMode: mode }),
+      });
+      
+      const data = await response.json();
+      if (!response.ok) {
+        showError(data.error || 'Failed to change examination mode');
+        return;
+      }
+      if (data.session) {
+        setSession(data.session);
+      }
+      setGenerationSummary(null);
+      setFallbackNotice(null);
+      setEditingQuestionId(null);
+      setRegenerateQuestionId(null);
+    } catch (err) {
+      console.error('Error changing examination mode:', err);
+      showError('Failed to change examination mode. Please try again.');
+    }
   };
 
   // Submit practice response
   const submitResponse = async () => {
     if (!session || !witnessResponse.trim()) return;
     
-    const currentQuestion = session.questions[currentQuestionIndex];
+    const currentQuestion = session.questions.find(q => q.id === schedule?.question?.id);
     if (!currentQuestion) return;
     
     setIsSubmittingResponse(true);
@@ -271,9 +817,13 @@ export default function TestimonyPrepTool() {
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           questionId: currentQuestion.id,
-          question: currentQuestion.question,
+          question: activeFollowUp ? activeFollowUp.question : currentQuestion.question,
           response: witnessResponse,
           duration,
+          questionShownAt: questionStartTime?.toISOString(),
+          parentExchangeId: activeFollowUp?.parentExchangeId,
+          recordingId: recordingIdRef.current || undefined,
+          objections: objectionRuling || undefined,
         }),
       });
       
@@ -287,7 +837,17 @@ export default function TestimonyPrepTool() {
         setSession(data.session);
       }
       if (data.aiResponse) {
-        setLastAIResponse(data.aiResponse);
+        setLastAIResponse({
+          ...data.aiResponse,
+          usedFallback: data.usedFallback,
+          canFollowUp: data.canFollowUp,
+          exchangeId: data.exchange?.id,
+          depth: data.exchange?.depth,
+          delivery: data.exchange?.delivery,
+        });
+        setMaxFollowUpDepth(data.maxFollowUpDepth || 0);
+        setRubricSummary(data.rubricSummary || null);
+        setDeliverySummary(data.deliverySummary || []);
         setShowFeedback(true);
       }
     } catch (err) {
@@ -298,25 +858,143 @@ export default function TestimonyPrepTool() {
     }
   };
 
-  // Move to next question
-  const nextQuestion = () => {
+  // Answer the examiner's follow-up instead of moving on
+  const answerFollowUp = () => {
+    if (!lastAIResponse?.followUp || !lastAIResponse.exchangeId) return;
+    
+    setActiveFollowUp({
+      parentExchangeId: lastAIResponse.exchangeId,
+      question: lastAIResponse.followUp,
+      depth: (lastAIResponse.depth || 0) + 1,
+    });
+    recordingIdRef.current = null;
+    setWitnessResponse('');
+    setLastAIResponse(null);
+    setShowFeedback(false);
+    setQuestionStartTime(new Date());
+    if (objectionsEnabled) reviewObjections({ parentExchangeId: lastAIResponse.exchangeId });
+  };
+
+  // Check the witness's answers against each other and the documents
+  const checkConsistency = async () => {
     if (!session) return;
     
-    if (currentQuestionIndex < session.questions.length - 1) {
-      setCurrentQuestionIndex(prev => prev + 1);
-      setWitnessResponse('');
-      setLastAIResponse(null);
-      setShowFeedback(false);
-      setQuestionStartTime(new Date());
-    } else {
-      setCurrentStep('review');
+    setIsCheckingConsistency(true);
+    setError(null);
+    
+    try {
+      const response = await fetch(`/api/sessions/${session.id}/consistency`, { method: 'POST' });
+      const data = await response.json();
+      if (!response.ok) {
+        showError(data.error || 'Failed to check consistency');
+        return;
+      }
+      setSession(prev => prev ? { ...prev, consistencyReport: data.report } : prev);
+    } catch (err) {
+      console.error('Error checking consistency:', err);
+      showError('Failed to check consistency. Please try again.');
+    } finally {
+      setIsCheckingConsistency(false);
+    }
+  };
+
+  // Move to the next scheduled question
+  const nextQuestion = async () => {
+    const next = await loadNextQuestion();
+    if (next) applySchedule(next);
+  };
+
+  // Upload a spoken answer, then poll its transcription and add the text to the answer
+  const transcribeRecording = async (audio: Blob) => {
+    if (!session) return;
+    
+    setTranscriptionStatus('uploading');
+    const extension = audio.type.includes('ogg') ? 'ogg' : audio.type.includes('mp4') ? 'm4a' : 'webm';
+    const formData = new FormData();
+    formData.append('audio', audio, `answer.${extension}`);
+    if (schedule?.question) formData.append('questionId', schedule.question.id);
+    if (recordingStartedAtRef.current) formData.append('startedAt', recordingStartedAtRef.current.toISOString());
+    
+    try {
+      const response = await fetch(`/api/sessions/${session.id}/recordings`, {
+        method: 'POST',
+        body: formData,
+      });
+      
+      const data = await response.json();
+      if (!response.ok) {
+        showError(data.error || 'Failed to upload recording');
+        return;
+      }
+      
+      const recordingId: string = data.recording.id;
+      recordingIdRef.current = recordingId;
+      setTranscriptionStatus('transcribing');
+      
+      for (let attempt = 0; attempt < TRANSCRIPTION_MAX_POLLS; attempt++) {
+        await new Promise(resolve => setTimeout(resolve, TRANSCRIPTION_POLL_MS));
+        // Stop if the witness moved on to another question
+        if (recordingIdRef.current !== recordingId) return;
+        
+        const pollResponse = await fetch(`/api/sessions/${session.id}/recordings/${recordingId}`);
+        const pollData = await pollResponse.json();
+        if (!pollResponse.ok) {
+          showError(pollData.error || 'Failed to check transcription');
+          return;
+        }
+        if (recordingIdRef.current !== recordingId) return;
+        
+        if (pollData.recording.status === 'completed') {
+          const transcript: string = pollData.recording.transcription || '';
+          setWitnessResponse(prev => (prev.trim() ? `${prev.trim()} ${transcript}` : transcript));
+          return;
+        }
+        if (pollData.recording.status === 'error') {
+          showError(pollData.recording.error || 'Transcription failed');
+          return;
+        }
+      }
+      showError('Transcription is taking too long. Please type your answer instead.');
+    } catch (err) {
+      console.error('Error transcribing recording:', err);
+      showError('Failed to transcribe recording. Please type your answer instead.');
+    } finally {
+      setTranscriptionStatus('idle');
     }
   };
 
-  // Toggle recording (placeholder for voice recording)
-  const toggleRecording = () => {
-    setIsRecording(!isRecording);
-    // In production, this would integrate with the Voice API
+  // Record a spoken answer with the browser's microphone
+  const toggleRecording = async () => {
+    if (isRecording) {
+      mediaRecorderRef.current?.stop();
+      setIsRecording(false);
+      return;
+    }
+    
+    if (!navigator.mediaDevices?.getUserMedia || typeof MediaRecorder === 'undefined') {
+      showError('Audio recording is not supported in this browser.');
+      return;
+    }
+    
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      const recorder = new MediaRecorder(stream);
+      recordingChunksRef.current = [];
+      recorder.ondataavailable = (event) => {
+        if (event.data.size > 0) recordingChunksRef.current.push(event.data);
+      };
+      recorder.onstop = () => {
+        stream.getTracks().forEach(track => track.stop());
+        transcribeRecording(new Blob(recordingChunksRef.current, { type: recorder.mimeType || 'audio/webm' }));
+      };
+      recordingStartedAtRef.current = new Date();
+      recorder.start();
+      mediaRecorderRef.current = recorder;
+      setIsRecording(true);
+    } catch (err) {
+      console.error('Error starting recording:', err);
+      showError('Could not access the microphone. Check your browser permissions.');
+    }
   };
 
   // Format time
@@ -336,6 +1014,49 @@ export default function TestimonyPrepTool() {
     return `difficulty-${difficulty}`;
   };
 
+  // Get severity badge class
+  const getSeverityBadgeClass = (severity: string) => {
+    const classes: Record<string, string> = {
+      significant: 'bg-red-100 text-red-700',
+      moderate: 'bg-yellow-100 text-yellow-700',
+      minor: 'bg-green-100 text-green-700',
+    };
+    return classes[severity] || 'bg-gray-100 text-gray-700';
+  };
+
+  // Where one side of a consistency issue comes from
+  const describeConsistencySource = (source: ConsistencySource) => {
+    if (source.answerNumber) return `Answer ${source.answerNumber}`;
+    return `${source.documentName || 'Document'}${source.page ? `, page ${source.page}` : ''}`;
+  };
+
+  // Rubric scores run from 1 (poor) to 5 (strong)
+  const getScoreClass = (score: number) => {
+    if (score >= 4) return 'text-green-600';
+    if (score >= 3) return 'text-amber-600';
+    return 'text-red-600';
+  };
+
+  // Short labels for an answer's delivery metrics
+  const describeDelivery = (delivery: DeliveryMetrics) => {
+    const labels = [`${delivery.wordCount} words`];
+    if (delivery.wordsPerMinute !== undefined) labels.push(`${delivery.wordsPerMinute} wpm`);
+    if (delivery.timeToFirstWord !== undefined) labels.push(`first word after ${delivery.timeToFirstWord}s`);
+    const fillers = Object.entries(delivery.fillers).map(([word, count]) => `"${word}" x${count}`).join(', ');
+    labels.push(delivery.fillerCount > 0 ? `${delivery.fillerCount} filler${delivery.fillerCount === 1 ? '' : 's'} (${fillers})` : 'no fillers');
+    const hedges = Object.entries(delivery.hedges).map(([phrase, count]) => `"${phrase}" x${count}`).join(', ');
+    labels.push(delivery.hedgeCount > 0 ? `${delivery.hedgeCount} hedge${delivery.hedgeCount === 1 ? '' : 's'} (${hedges})` : 'no hedges');
+    if (delivery.longPauses) labels.push(`${delivery.longPauses} long pause${delivery.longPauses === 1 ? '' : 's'} (longest ${delivery.longestPause}s)`);
+    return labels;
+  };
+
+  // Answer length against what a question of this complexity calls for
+  const describeAnswerLength = (delivery: DeliveryMetrics) => {
+    if (delivery.lengthRatio > 2) return { label: `Long for a ${delivery.questionComplexity} question (~${delivery.expectedWords} words expected)`, className: 'bg-amber-100 text-amber-800' };
+    if (delivery.lengthRatio < 0.3 && delivery.expectedWords > 10) return { label: `Short for a ${delivery.questionComplexity} question (~${delivery.expectedWords} words expected)`, className: 'bg-amber-100 text-amber-800' };
+    return { label: `Length suits a ${delivery.questionComplexity} question`, className: 'bg-green-100 text-green-700' };
+  };
+
   // Error banner component
   const ErrorBanner = () => {
     if (!error) return null;
@@ -435,6 +1156,27 @@ export default function TestimonyPrepTool() {
     </div>
   );
 
+  // Segmented cross / direct / redirect switch
+  const renderModeSwitch = () => (
+    <div>
+      <div className="inline-flex rounded-lg border border-gray-300 overflow-hidden">
+        {EXAMINATION_MODE_OPTIONS.map(option => (
+          <button
+            key={option.value}
+            onClick={() => updateExaminationMode(option.value)}
+            disabled={isGeneratingQuestions}
+            className={`px-4 py-1.5 text-sm font-medium transition disabled:opacity-50 ${
+              option.value === examinationMode ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'
+            }`}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+      <p className="text-xs text-gray-500 mt-1">{modeOption.description}</p>
+    </div>
+  );
+
   // Render loading screen for question generation
   const renderGeneratingQuestions = () => (
     <div className="max-w-2xl mx-auto animate-fade-in">
@@ -446,7 +1188,7 @@ export default function TestimonyPrepTool() {
             <Scale className="w-12 h-12 text-blue-600 relative z-10 animate-bounce" />
           </div>
           
-          <h2 className="text-2xl font-bold text-gray-900 mb-2">Generating Cross-Examination Questions</h2>
+          <h2 className="text-2xl font-bold text-gray-900 mb-2">Generating {EXAMINATION_MODE_TITLES[examinationMode]} Questions</h2>
           <p className="text-gray-600 mb-6">
             Our AI is analyzing your documents and crafting challenging questions...
           </p>
@@ -518,8 +1260,8 @@ export default function TestimonyPrepTool() {
           </p>
         </div>
         <button
-          onClick={generateQuestions}
-          disabled={!session?.documents.length || isGeneratingQuestions}
+          onClick={() => generateQuestions()}
+          disabled={!session?.documents.length || hasProcessingDocuments || isGeneratingQuestions}
           className="py-2 px-4 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed transition flex items-center gap-2"
         >
           Generate Questions
@@ -581,12 +1323,19 @@ export default function TestimonyPrepTool() {
                     <p className="text-sm text-gray-500">
                       {(doc.size / 1024).toFixed(1)} KB
                     </p>
+                    {doc.error && (
+                      <p className="text-sm text-red-600">{doc.error}</p>
+                    )}
                   </div>
                 </div>
                 <span className={`px-2 py-1 rounded text-xs font-medium ${
-                  doc.status === 'ready' ? 'bg-green-100 text-green-700' : 'bg-yellow-100 text-yellow-700'
+                  doc.status === 'ready'
+                    ? 'bg-green-100 text-green-700'
+                    : doc.status === 'error'
+                      ? 'bg-red-100 text-red-700'
+                      : 'bg-yellow-100 text-yellow-700'
                 }`}>
-                  {doc.status === 'ready' ? 'Ready' : 'Processing'}
+                  {doc.status === 'ready' ? 'Ready' : doc.status === 'error' ? 'Error' : 'Processing'}
                 </span>
               </div>
             ))}
@@ -594,6 +1343,115 @@ export default function TestimonyPrepTool() {
         </div>
       )}
       
+      {/* Question settings */}
+      <div className="mt-6 bg-white rounded-lg border border-gray-200 p-4">
+        <h3 className="text-lg font-semibold mb-3 flex items-center gap-2">
+          <SlidersHorizontal className="w-5 h-5 text-blue-600" />
+          Question Settings
+        </h3>
+        
+        <div className="mb-4">
+          <label className="block text-sm font-medium text-gray-700 mb-1">Examination</label>
+          {renderModeSwitch()}
+        </div>
+        
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Number of questions</label>
+            <input
+              type="number"
+              min={5}
+              max={50}
+              value={questionCount}
+              onChange={(e) => setQuestionCount(Math.min(50, Math.max(5, Number(e.target.value) || 5)))}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Witness role</label>
+            <select
+              value={witnessRole}
+              onChange={(e) => setWitnessRole(e.target.value as WitnessRole)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none bg-white"
+            >
+              {WITNESS_ROLE_OPTIONS.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          </div>
+          <div className="md:col-span-2">
+            <label className="block text-sm font-medium text-gray-700 mb-1">Focus areas (comma-separated, optional)</label>
+            <input
+              type="text"
+              value={focusAreasInput}
+              onChange={(e) => setFocusAreasInput(e.target.value)}
+              placeholder="e.g., the March 3 inspection, billing records, prior complaints"
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
+            />
+          </div>
+        </div>
+        
+        <div className="mt-4">
+          <label className="flex items-center gap-2 text-sm font-medium text-gray-700">
+            <input
+              type="checkbox"
+              checked={customCategoryMix}
+              onChange={(e) => setCustomCategoryMix(e.target.checked)}
+            />
+            Customize category mix
+          </label>
+          {customCategoryMix && (
+            <div className={`grid grid-cols-3 gap-2 mt-2 ${modeOption.categories.length > 4 ? 'md:grid-cols-6' : 'md:grid-cols-4'}`}>
+              {modeOption.categories.map(category => (
+                <div key={category}>
+                  <p className="text-xs font-medium text-gray-600 capitalize mb-1">{category}</p>
+                  <input
+                    type="number"
+                    min={0}
+                    value={categoryMix[category]}
+                    onChange={(e) => setCategoryMix({ ...categoryMix, [category]: Math.max(0, Number(e.target.value) || 0) })}
+                    className="w-full px-2 py-1 border border-gray-300 rounded focus:ring-2 focus:ring-blue-500 outline-none"
+                  />
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+        
+        <div className="mt-4">
+          <label className="flex items-center gap-2 text-sm font-medium text-gray-700">
+            <input
+              type="checkbox"
+              checked={customDifficultyMix}
+              onChange={(e) => setCustomDifficultyMix(e.target.checked)}
+            />
+            Customize difficulty mix
+          </label>
+          {customDifficultyMix && (
+            <div className="grid grid-cols-3 gap-2 mt-2 md:w-1/2">
+              {QUESTION_DIFFICULTIES.map(difficulty => (
+                <div key={difficulty}>
+                  <p className="text-xs font-medium text-gray-600 capitalize mb-1">{difficulty}</p>
+                  <input
+                    type="number"
+                    min={0}
+                    value={difficultyMix[difficulty]}
+                    onChange={(e) => setDifficultyMix({ ...difficultyMix, [difficulty]: Math.max(0, Number(e.target.value) || 0) })}
+                    className="w-full px-2 py-1 border border-gray-300 rounded focus:ring-2 focus:ring-blue-500 outline-none"
+                  />
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+        
+        {(customCategoryMix || customDifficultyMix) && (
+          <p className="text-xs text-gray-500 mt-3">
+            Mix values are relative weights - they are scaled to the number of questions.
+          </p>
+        )}
+      </div>
+      
       {/* Tips */}
       <div className="mt-6 bg-blue-50 rounded-lg p-4 border border-blue-200">
         <div className="flex gap-3">
@@ -601,7 +1459,7 @@ export default function TestimonyPrepTool() {
           <div>
             <p className="font-medium text-blue-900">Tips for better questions</p>
             <ul className="text-sm text-blue-800 mt-1 space-y-1">
-              <li>• Upload <strong>text files (.txt)</strong> for best results - content is extracted and analyzed</li>
+              <li>• Text is extracted from <strong>PDF, DOCX and text files</strong> - scanned PDFs need OCR first</li>
               <li>• Include depositions, witness statements, and relevant exhibits</li>
               <li>• The AI will generate questions based on specific details in your documents</li>
             </ul>
@@ -617,24 +1475,74 @@ export default function TestimonyPrepTool() {
     <div className="max-w-4xl mx-auto animate-fade-in">
       <div className="flex items-center justify-between mb-6">
         <div>
-          <h1 className="text-2xl font-bold text-gray-900">Cross-Examination Questions</h1>
+          <h1 className="text-2xl font-bold text-gray-900">{EXAMINATION_MODE_TITLES[examinationMode]} Questions</h1>
           <p className="text-gray-600">
-            {session?.questions.length} questions generated for {session?.witnessName}
+            {modeQuestions.length} questions generated for {session?.witnessName}
           </p>
         </div>
-        <button
-          onClick={startPractice}
-          className="py-2 px-4 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition flex items-center gap-2"
-        >
-          <Play className="w-5 h-5" />
-          Start Practice
-        </button>
+        <div className="flex gap-2">
+          <button
+            onClick={() => generateQuestions('append')}
+            disabled={isGeneratingQuestions}
+            className="py-2 px-4 bg-gray-100 text-gray-700 rounded-lg font-medium hover:bg-gray-200 disabled:opacity-50 transition flex items-center gap-2"
+          >
+            {isGeneratingQuestions ? (
+              <Loader2 className="w-5 h-5 animate-spin" />
+            ) : (
+              <PlusCircle className="w-5 h-5" />
+            )}
+            Generate More
+          </button>
+          <button
+            onClick={startPractice}
+            disabled={modeQuestions.length === 0}
+            className="py-2 px-4 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed transition flex items-center gap-2"
+          >
+            <Play className="w-5 h-5" />
+            Start Practice
+          </button>
+        </div>
       </div>
       
+      <div className="mb-6">
+        {renderModeSwitch()}
+      </div>
+      
+      {generationSummary && (
+        <div className="mb-6 p-4 bg-blue-50 border border-blue-200 rounded-lg flex items-start gap-3">
+          <CheckCircle className="w-5 h-5 text-blue-600 flex-shrink-0 mt-0.5" />
+          <p className="text-sm text-blue-800">{generationSummary}</p>
+        </div>
+      )}
+      
+      {fallbackNotice && (
+        <div className="mb-6 p-4 bg-amber-50 border border-amber-200 rounded-lg flex items-start gap-3">
+          <AlertCircle className="w-5 h-5 text-amber-600 flex-shrink-0 mt-0.5" />
+          <p className="text-sm text-amber-800">{fallbackNotice}</p>
+        </div>
+      )}
+      
+      {modeQuestions.length === 0 && (
+        <div className="mb-6 p-6 bg-white border border-gray-200 rounded-lg text-center">
+          <p className="text-gray-600 mb-3">
+            No {EXAMINATION_MODE_TITLES[examinationMode].toLowerCase()} questions yet.
+            {examinationMode === 'redirect' && ' Redirect questions are built from the weaknesses exposed in cross practice.'}
+          </p>
+          <button
+            onClick={() => generateQuestions()}
+            disabled={isGeneratingQuestions}
+            className="py-2 px-4 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 disabled:opacity-50 transition inline-flex items-center gap-2"
+          >
+            {isGeneratingQuestions ? <Loader2 className="w-5 h-5 animate-spin" /> : <PlusCircle className="w-5 h-5" />}
+            Generate {EXAMINATION_MODE_TITLES[examinationMode]} Questions
+          </button>
+        </div>
+      )}
+      
       {/* Question categories summary */}
-      <div className="grid grid-cols-6 gap-2 mb-6">
-        {['timeline', 'credibility', 'inconsistency', 'foundation', 'impeachment', 'general'].map((cat) => {
-          const count = session?.questions.filter(q => q.category === cat).length || 0;
+      <div className={`grid gap-2 mb-6 ${modeOption.categories.length > 4 ? 'grid-cols-6' : 'grid-cols-4'}`}>
+        {modeOption.categories.map((cat) => {
+          const count = modeQuestions.filter(q => q.category === cat).length;
           return (
             <div key={cat} className={`px-3 py-2 rounded-lg text-center ${getCategoryBadgeClass(cat)}`}>
               <p className="text-xs font-medium capitalize">{cat}</p>
@@ -646,42 +1554,156 @@ export default function TestimonyPrepTool() {
       
       {/* Questions list */}
       <div className="space-y-3">
-        {session?.questions.map((question, index) => (
+        {modeQuestions.map((question, index) => (
           <div
             key={question.id}
-            className="bg-white rounded-lg border border-gray-200 p-4 hover:shadow-md transition"
+            className={`bg-white rounded-lg border p-4 hover:shadow-md transition ${question.locked ? 'border-blue-300' : 'border-gray-200'}`}
           >
             <div className="flex items-start gap-4">
               <span className="flex-shrink-0 w-8 h-8 rounded-full bg-gray-100 flex items-center justify-center text-sm font-medium text-gray-600">
                 {index + 1}
               </span>
               <div className="flex-1">
-                <p className="text-gray-900 font-medium mb-2">{question.question}</p>
-                <div className="flex items-center gap-2 flex-wrap">
-                  <span className={`px-2 py-0.5 rounded text-xs font-medium ${getCategoryBadgeClass(question.category)}`}>
-                    {question.category}
-                  </span>
-                  <span className={`px-2 py-0.5 rounded text-xs font-medium ${getDifficultyBadgeClass(question.difficulty)}`}>
-                    {question.difficulty}
-                  </span>
-                  {question.documentReference && (
-                    <span className="flex items-center gap-1 text-xs text-blue-600">
-                      <FileText className="w-3 h-3" />
-                      {question.documentReference}
-                    </span>
-                  )}
-                  {question.weakPoint && (
-                    <span className="flex items-center gap-1 text-xs text-amber-600">
-                      <AlertTriangle className="w-3 h-3" />
-                      {question.weakPoint}
-                    </span>
-                  )}
-                </div>
-                {question.suggestedApproach && (
-                  <p className="mt-2 text-sm text-gray-600 bg-gray-50 rounded p-2">
-                    <strong>Suggested approach:</strong> {question.suggestedApproach}
-                  </p>
+                {editingQuestionId === question.id && questionDraft ? (
+                  <div className="space-y-2">
+                    <textarea
+                      value={questionDraft.question}
+                      onChange={(e) => setQuestionDraft({ ...questionDraft, question: e.target.value })}
+                      rows={3}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    />
+                    <div className="flex gap-2">
+                      <select
+                        value={questionDraft.category}
+                        onChange={(e) => setQuestionDraft({ ...questionDraft, category: e.target.value as QuestionCategory })}
+                        className="px-3 py-1.5 border border-gray-300 rounded-lg text-sm capitalize focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                      >
+                        {(EXAMINATION_MODE_OPTIONS.find(option => option.value === (question.mode || 'cross')) || modeOption).categories.map(cat => (
+                          <option key={cat} value={cat}>{cat}</option>
+                        ))}
+                      </select>
+                      <select
+                        value={questionDraft.difficulty}
+                        onChange={(e) => setQuestionDraft({ ...questionDraft, difficulty: e.target.value as QuestionDifficulty })}
+                        className="px-3 py-1.5 border border-gray-300 rounded-lg text-sm capitalize focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                      >
+                        {QUESTION_DIFFICULTIES.map(difficulty => (
+                          <option key={difficulty} value={difficulty}>{difficulty}</option>
+                        ))}
+                      </select>
+                    </div>
+                    <textarea
+                      value={questionDraft.suggestedApproach}
+                      onChange={(e) => setQuestionDraft({ ...questionDraft, suggestedApproach: e.target.value })}
+                      rows={2}
+                      placeholder="Suggested approach"
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    />
+                    <div className="flex gap-2">
+                      <button
+                        onClick={saveQuestionDraft}
+                        disabled={busyQuestionId === question.id || !questionDraft.question.trim()}
+                        className="py-1.5 px-3 bg-blue-600 text-white rounded-lg text-sm font-medium hover:bg-blue-700 disabled:bg-gray-300 transition"
+                      >
+                        Save
+                      </button>
+                      <button
+                        onClick={() => { setEditingQuestionId(null); setQuestionDraft(null); }}
+                        className="py-1.5 px-3 bg-gray-100 text-gray-700 rounded-lg text-sm font-medium hover:bg-gray-200 transition"
+                      >
+                        Cancel
+                      </button>
+                    </div>
+                  </div>
+                ) : (
+                  <>
+                    <p className="text-gray-900 font-medium mb-2">{question.question}</p>
+                    <div className="flex items-center gap-2 flex-wrap">
+                      <span className={`px-2 py-0.5 rounded text-xs font-medium ${getCategoryBadgeClass(question.category)}`}>
+                        {question.category}
+                      </span>
+                      <span className={`px-2 py-0.5 rounded text-xs font-medium ${getDifficultyBadgeClass(question.difficulty)}`}>
+                        {question.difficulty}
+                      </span>
+                      {question.documentReference && (
+                        <span className="flex items-center gap-1 text-xs text-blue-600">
+                          <FileText className="w-3 h-3" />
+                          {question.documentReference}
+                        </span>
+                      )}
+                      {question.weakPoint && (
+                        <span className="flex items-center gap-1 text-xs text-amber-600">
+                          <AlertTriangle className="w-3 h-3" />
+                          {question.weakPoint}
+                        </span>
+                      )}
+                    </div>
+                    {question.suggestedApproach && (
+                      <p className="mt-2 text-sm text-gray-600 bg-gray-50 rounded p-2">
+                        <strong>Suggested approach:</strong> {question.suggestedApproach}
+                      </p>
+                    )}
+                  </>
                 )}
+                
+                {regenerateQuestionId === question.id && (
+                  <div className="mt-3 flex gap-2">
+                    <input
+                      type="text"
+                      value={regenerateInstruction}
+                      onChange={(e) => setRegenerateInstruction(e.target.value)}
+                      onKeyDown={(e) => e.key === 'Enter' && regenerateQuestion(question.id)}
+                      placeholder='Optional instruction, e.g. "make it more leading"'
+                      className="flex-1 px-3 py-1.5 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    />
+                    <button
+                      onClick={() => regenerateQuestion(question.id)}
+                      disabled={busyQuestionId === question.id}
+                      className="py-1.5 px-3 bg-blue-600 text-white rounded-lg text-sm font-medium hover:bg-blue-700 disabled:bg-gray-300 transition flex items-center gap-1"
+                    >
+                      {busyQuestionId === question.id && <Loader2 className="w-4 h-4 animate-spin" />}
+                      Regenerate
+                    </button>
+                    <button
+                      onClick={() => setRegenerateQuestionId(null)}
+                      className="py-1.5 px-3 bg-gray-100 text-gray-700 rounded-lg text-sm font-medium hover:bg-gray-200 transition"
+                    >
+                      Cancel
+                    </button>
+                  </div>
+                )}
+              </div>
+              
+              {/* Question actions */}
+              <div className="flex items-center gap-1 flex-shrink-0">
+                <button
+                  onClick={() => updateQuestion(question.id, { locked: !question.locked })}
+                  disabled={busyQuestionId === question.id}
+                  title={question.locked ? 'Unlock - allow regeneration to replace this question' : 'Lock - keep this question when regenerating'}
+                  className={`p-1.5 rounded hover:bg-gray-100 transition ${question.locked ? 'text-blue-600' : 'text-gray-400'}`}
+                >
+                  {question.locked ? <Lock className="w-4 h-4" /> : <Unlock className="w-4 h-4" />}
+                </button>
+                <button
+                  onClick={() => startEditingQuestion(question)}
+                  disabled={busyQuestionId === question.id}
+                  title="Edit question"
+                  className="p-1.5 rounded text-gray-400 hover:bg-gray-100 hover:text-gray-600 transition"
+                >
+                  <Pencil className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => {
+                    setEditingQuestionId(null);
+                    setRegenerateInstruction('');
+                    setRegenerateQuestionId(question.id);
+                  }}
+                  disabled={question.locked || busyQuestionId === question.id}
+                  title={question.locked ? 'Unlock to regenerate' : 'Regenerate with AI'}
+                  className="p-1.5 rounded text-gray-400 hover:bg-gray-100 hover:text-gray-600 disabled:opacity-40 disabled:hover:bg-transparent transition"
+                >
+                  <RefreshCw className={`w-4 h-4 ${busyQuestionId === question.id && regenerateQuestionId === question.id ? 'animate-spin' : ''}`} />
+                </button>
               </div>
             </div>
           </div>
@@ -692,8 +1714,21 @@ export default function TestimonyPrepTool() {
 
   // Render practice step
   const renderPractice = () => {
-    const currentQuestion = session?.questions[currentQuestionIndex];
-    const progress = session ? ((currentQuestionIndex + 1) / session.questions.length) * 100 : 0;
+    const currentQuestion = session?.questions.find(q => q.id === schedule?.question?.id);
+    const examiner = session?.examinerSettings || DEFAULT_EXAMINER_SETTINGS;
+    const roundSize = schedule ? schedule.answeredInRound + schedule.remainingInRound : 0;
+    const progress = schedule && roundSize > 0 ? ((schedule.answeredInRound + 1) / roundSize) * 100 : 0;
+    
+    // Earlier answers in the thread being followed up, oldest first
+    const followUpThread: PracticeExchange[] = [];
+    if (session && activeFollowUp) {
+      let exchange = session.practiceHistory.find(e => e.id === activeFollowUp.parentExchangeId);
+      while (exchange && followUpThread.length <= maxFollowUpDepth) {
+        followUpThread.unshift(exchange);
+        const parentId = exchange.parentExchangeId;
+        exchange = parentId ? session.practiceHistory.find(e => e.id === parentId) : undefined;
+      }
+    }
     
     return (
       <div className="max-w-4xl mx-auto animate-fade-in">
@@ -702,7 +1737,7 @@ export default function TestimonyPrepTool() {
           <div>
             <h1 className="text-2xl font-bold text-gray-900">Practice Mode</h1>
             <p className="text-gray-600">
-              Question {currentQuestionIndex + 1} of {session?.questions.length}
+              {EXAMINATION_MODE_TITLES[examinationMode]} · Round {schedule?.round} · Question {(schedule?.answeredInRound || 0) + 1} of {roundSize}
             </p>
           </div>
           <div className="flex items-center gap-4">
@@ -712,7 +1747,8 @@ export default function TestimonyPrepTool() {
             </div>
             <button
               onClick={toggleRecording}
-              className={`p-2 rounded-full transition ${
+              disabled={transcriptionStatus !== 'idle' || showFeedback}
+              className={`p-2 rounded-full transition disabled:opacity-50 disabled:cursor-not-allowed ${
                 isRecording 
                   ? 'bg-red-100 text-red-600 hover:bg-red-200' 
                   : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
@@ -724,6 +1760,53 @@ export default function TestimonyPrepTool() {
           </div>
         </div>
         
+        {/* Examiner persona */}
+        <div className="mb-4 bg-white rounded-lg border border-gray-200 px-4 py-3 flex flex-wrap items-center gap-3">
+          {examinationMode === 'cross' ? (
+            <>
+              <span className="text-sm font-medium text-gray-700">Examiner</span>
+              <select
+                value={examiner.persona}
+                onChange={(e) => {
+                  const persona = EXAMINER_PERSONA_OPTIONS.find(option => option.value === e.target.value);
+                  if (persona) updateExaminerSettings({ persona: persona.value, hostility: persona.defaultHostility });
+                }}
+                className="px-3 py-1.5 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none bg-white"
+              >
+                {EXAMINER_PERSONA_OPTIONS.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+              <select
+                value={examiner.hostility}
+                onChange={(e) => updateExaminerSettings({ ...examiner, hostility: Number(e.target.value) })}
+                className="px-3 py-1.5 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none bg-white"
+                title="Hostility"
+              >
+                {HOSTILITY_LABELS.map((label, index) => (
+                  <option key={label} value={index + 1}>{index + 1} - {label}</option>
+                ))}
+              </select>
+              <span className="text-xs text-gray-500">
+                {EXAMINER_PERSONA_OPTIONS.find(option => option.value === examiner.persona)?.description}
+              </span>
+            </>
+          ) : (
+            <span className="text-sm text-gray-700">
+              <span className="font-medium">Examiner:</span> your own counsel, asking open questions
+            </span>
+          )}
+          <label className="ml-auto flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={objectionsEnabled}
+              onChange={(e) => toggleObjections(e.target.checked)}
+              className="rounded border-gray-300"
+            />
+            {examinationMode === 'cross' ? 'Defending counsel objects' : 'Opposing counsel objects'}
+          </label>
+        </div>
+        
         {/* Progress bar */}
         <div className="w-full h-2 bg-gray-200 rounded-full mb-6">
           <div 
@@ -732,6 +1815,18 @@ export default function TestimonyPrepTool() {
           />
         </div>
         
+        {!currentQuestion && (
+          <div className="bg-white rounded-xl border border-gray-200 p-8 text-center">
+            <button
+              onClick={startPractice}
+              className="py-2 px-4 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition inline-flex items-center gap-2"
+            >
+              <Play className="w-5 h-5" />
+              Continue Practice
+            </button>
+          </div>
+        )}
+        
         {/* Question card */}
         {currentQuestion && (
           <div className="bg-white rounded-xl shadow-lg border border-gray-200 overflow-hidden">
@@ -750,14 +1845,61 @@ export default function TestimonyPrepTool() {
                     {currentQuestion.documentReference}
                   </span>
                 )}
+                {schedule?.reason && (
+                  <span className="ml-auto text-xs text-gray-500">{schedule.reason}</span>
+                )}
               </div>
+              {followUpThread.length > 0 && (
+                <div className="mb-3 space-y-2 border-l-2 border-gray-300 pl-3">
+                  {followUpThread.map((exchange) => (
+                    <div key={exchange.id} className="text-sm">
+                      <p className="text-gray-700">{exchange.question}</p>
+                      <p className="text-gray-500 italic">&ldquo;{exchange.witnessResponse}&rdquo;</p>
+                    </div>
+                  ))}
+                </div>
+              )}
+              {activeFollowUp && (
+                <p className="text-xs font-medium text-blue-700 mb-1">
+                  Follow-up {activeFollowUp.depth} of {maxFollowUpDepth}
+                </p>
+              )}
               <p className="text-lg font-medium text-gray-900">
-                {currentQuestion.question}
+                {activeFollowUp ? activeFollowUp.question : currentQuestion.question}
               </p>
             </div>
             
             {/* Response area */}
             <div className="p-6">
+              {objectionsEnabled && (isReviewingObjections || objectionRuling) && (
+                <div className={`mb-4 rounded-lg border px-4 py-3 text-sm ${objectionRuling?.objections.length ? 'bg-amber-50 border-amber-200' : 'bg-gray-50 border-gray-200'}`}>
+                  {isReviewingObjections ? (
+                    <p className="text-gray-600 flex items-center gap-2">
+                      <Loader2 className="w-4 h-4 animate-spin" />
+                      {examinationMode === 'cross' ? 'Defending' : 'Opposing'} counsel is considering an objection...
+                    </p>
+                  ) : objectionRuling && (
+                    <>
+                      {objectionRuling.objections.length > 0 && (
+                        <>
+                          <p className="font-semibold text-amber-900 flex items-center gap-2">
+                            <Gavel className="w-4 h-4" />
+                            Objection: {objectionRuling.objections.map(objection => OBJECTION_LABELS[objection.type]).join('; ')}
+                          </p>
+                          <ul className="mt-1 mb-2 text-amber-800 list-disc list-inside">
+                            {objectionRuling.objections.map((objection) => (
+                              <li key={objection.type}>{objection.grounds}</li>
+                            ))}
+                          </ul>
+                        </>
+                      )}
+                      <p className={objectionRuling.objections.length > 0 ? 'text-amber-900' : 'text-gray-600'}>
+                        <strong>{objectionRuling.objections.length > 0 ? 'Pause:' : 'No objection.'}</strong> {objectionRuling.pauseGuidance}
+                      </p>
+                    </>
+                  )}
+                </div>
+              )}
               <label className="block text-sm font-medium text-gray-700 mb-2">
                 Your Response
               </label>
@@ -769,6 +1911,21 @@ export default function TestimonyPrepTool() {
                 className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition resize-none"
                 disabled={showFeedback}
               />
+              {(isRecording || transcriptionStatus !== 'idle') && (
+                <p className="mt-2 text-sm text-gray-600 flex items-center gap-2">
+                  {isRecording ? (
+                    <>
+                      <Mic className="w-4 h-4 text-red-600" />
+                      Recording... press the microphone again to stop.
+                    </>
+                  ) : (
+                    <>
+                      <Loader2 className="w-4 h-4 animate-spin" />
+                      {transcriptionStatus === 'uploading' ? 'Uploading recording...' : 'Transcribing your answer...'}
+                    </>
+                  )}
+                </p>
+              )}
               
               {!showFeedback && (
                 <div className="mt-4 flex gap-3">
@@ -808,6 +1965,12 @@ export default function TestimonyPrepTool() {
                   AI Examiner Feedback
                 </h3>
                 
+                {lastAIResponse.usedFallback && (
+                  <p className="mb-4 text-sm text-amber-800">
+                    The examiner&apos;s reply could not be read in the expected format, so a generic follow-up is shown and this answer has no feedback.
+                  </p>
+                )}
+                
                 {lastAIResponse.followUp && (
                   <div className="mb-4 p-4 bg-white rounded-lg border border-blue-200">
                     <p className="text-sm font-medium text-blue-800 mb-1">Follow-up Question:</p>
@@ -842,18 +2005,67 @@ export default function TestimonyPrepTool() {
                   </div>
                 )}
                 
+                {lastAIResponse.rubric && (
+                  <div className="mb-4">
+                    <p className="text-sm font-medium text-gray-700 mb-2">Answer Scores:</p>
+                    <div className="grid grid-cols-2 gap-2">
+                      {RUBRIC_DIMENSIONS.map((dimension) => {
+                        const entry = lastAIResponse.rubric?.[dimension];
+                        if (!entry) return null;
+                        return (
+                          <div key={dimension} className="bg-white rounded-lg border border-blue-100 p-3">
+                            <div className="flex items-center justify-between mb-1">
+                              <span className="text-sm font-medium text-gray-800">{RUBRIC_LABELS[dimension]}</span>
+                              <span className={`text-sm font-bold ${getScoreClass(entry.score)}`}>
+                                {entry.score}/{RUBRIC_MAX_SCORE}
+                              </span>
+                            </div>
+                            <p className="text-xs text-gray-600">{entry.explanation}</p>
+                          </div>
+                        );
+                      })}
+                    </div>
+                  </div>
+                )}
+                
+                {lastAIResponse.delivery && (
+                  <div className="mb-4">
+                    <p className="text-sm font-medium text-gray-700 mb-2">
+                      Delivery ({lastAIResponse.delivery.source === 'spoken' ? 'spoken answer' : 'typed answer - record it to measure pace and pauses'}):
+                    </p>
+                    <div className="flex flex-wrap gap-2">
+                      {describeDelivery(lastAIResponse.delivery).map((label) => (
+                        <span key={label} className="px-2 py-1 rounded text-xs bg-white border border-blue-100 text-gray-700">{label}</span>
+                      ))}
+                      <span className={`px-2 py-1 rounded text-xs font-medium ${describeAnswerLength(lastAIResponse.delivery).className}`}>
+                        {describeAnswerLength(lastAIResponse.delivery).label}
+                      </span>
+                    </div>
+                  </div>
+                )}
+                
+                {lastAIResponse.canFollowUp && (
+                  <button
+                    onClick={answerFollowUp}
+                    className="w-full mb-3 py-3 px-4 bg-white text-blue-700 border border-blue-300 rounded-lg font-medium hover:bg-blue-100 transition flex items-center justify-center gap-2"
+                  >
+                    <MessageSquare className="w-5 h-5" />
+                    Answer Follow-up
+                  </button>
+                )}
+                
                 <button
                   onClick={nextQuestion}
                   className="w-full py-3 px-4 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition flex items-center justify-center gap-2"
                 >
-                  {currentQuestionIndex < (session?.questions.length || 0) - 1 ? (
+                  {(schedule?.remainingInRound || 0) > 1 ? (
                     <>
                       Next Question
                       <ChevronRight className="w-5 h-5" />
                     </>
                   ) : (
                     <>
-                      Complete Session
+                      Complete Round
                       <CheckCircle className="w-5 h-5" />
                     </>
                   )}
@@ -895,7 +2107,7 @@ export default function TestimonyPrepTool() {
       {/* Stats */}
       <div className="grid grid-cols-3 gap-4 mb-8">
         <div className="bg-white rounded-xl p-6 border border-gray-200 text-center">
-          <p className="text-3xl font-bold text-blue-600">{session?.practiceHistory.length}</p>
+          <p className="text-3xl font-bold text-blue-600">{session?.practiceHistory.filter(e => !e.parentExchangeId).length}</p>
           <p className="text-gray-600">Questions Practiced</p>
         </div>
         <div className="bg-white rounded-xl p-6 border border-gray-200 text-center">
@@ -908,6 +2120,166 @@ export default function TestimonyPrepTool() {
         </div>
       </div>
       
+      {schedule && (
+        <div className="mb-8 p-4 bg-blue-50 border border-blue-200 rounded-lg text-sm text-blue-800">
+          Round {schedule.round}{schedule.roundComplete ? ' complete' : ''}: {schedule.masteredCount} of {modeQuestions.length} questions mastered, {schedule.dueNextRound} due in round {schedule.round + 1}.
+        </div>
+      )}
+      
+      {/* Rubric summary */}
+      {rubricSummary && rubricSummary.overallAverage !== null && (
+        <div className="bg-white rounded-xl border border-gray-200 overflow-hidden mb-8">
+          <div className="px-6 py-4 border-b border-gray-200 bg-gray-50 flex items-center justify-between">
+            <h2 className="text-lg font-semibold">Answer Scores</h2>
+            <p className="text-sm text-gray-600">
+              Average <span className={`font-bold ${getScoreClass(rubricSummary.overallAverage)}`}>{rubricSummary.overallAverage}/{RUBRIC_MAX_SCORE}</span> across {rubricSummary.scoredAnswers} scored answer{rubricSummary.scoredAnswers === 1 ? '' : 's'}
+            </p>
+          </div>
+          <div className="p-6 space-y-3">
+            {RUBRIC_DIMENSIONS.map((dimension) => {
+              const summary = rubricSummary.dimensions[dimension];
+              if (!summary) return null;
+              return (
+                <div key={dimension}>
+                  <div className="flex items-center justify-between text-sm mb-1">
+                    <span className="font-medium text-gray-800">
+                      {summary.label}
+                      {rubricSummary.weakestDimension === dimension && (
+                        <span className="ml-2 px-2 py-0.5 rounded text-xs font-medium bg-amber-100 text-amber-800">Focus area</span>
+                      )}
+                    </span>
+                    <span className={`font-bold ${getScoreClass(summary.average)}`}>
+                      {summary.average}/{RUBRIC_MAX_SCORE}
+                    </span>
+                  </div>
+                  <div className="w-full h-2 bg-gray-200 rounded-full">
+                    <div
+                      className="h-full bg-blue-600 rounded-full"
+                      style={{ width: `${(summary.average / RUBRIC_MAX_SCORE) * 100}%` }}
+                    />
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+      
+      {/* Delivery trends */}
+      {deliverySummary.length > 0 && (
+        <div className="bg-white rounded-xl border border-gray-200 overflow-hidden mb-8">
+          <div className="px-6 py-4 border-b border-gray-200 bg-gray-50">
+            <h2 className="text-lg font-semibold">Delivery by Round</h2>
+            <p className="text-sm text-gray-600">Pace and timing come from spoken answers only</p>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500 border-b border-gray-200">
+                  <th className="px-6 py-2 font-medium">Round</th>
+                  <th className="px-3 py-2 font-medium">Answers</th>
+                  <th className="px-3 py-2 font-medium">Words/min</th>
+                  <th className="px-3 py-2 font-medium">Fillers /100 words</th>
+                  <th className="px-3 py-2 font-medium">Hedges /100 words</th>
+                  <th className="px-3 py-2 font-medium">First word</th>
+                  <th className="px-3 py-2 font-medium">Long pauses</th>
+                  <th className="px-3 py-2 font-medium">Length vs. expected</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {deliverySummary.map((summary) => (
+                  <tr key={summary.round}>
+                    <td className="px-6 py-2 font-medium text-gray-900">{summary.round}</td>
+                    <td className="px-3 py-2 text-gray-700">{summary.answers} ({summary.spokenAnswers} spoken)</td>
+                    <td className="px-3 py-2 text-gray-700">{summary.averageWordsPerMinute ?? '-'}</td>
+                    <td className="px-3 py-2 text-gray-700">{summary.fillersPer100Words}</td>
+                    <td className="px-3 py-2 text-gray-700">{summary.hedgesPer100Words}</td>
+                    <td className="px-3 py-2 text-gray-700">{summary.averageTimeToFirstWord !== null ? `${summary.averageTimeToFirstWord}s` : '-'}</td>
+                    <td className="px-3 py-2 text-gray-700">{summary.longPauses}</td>
+                    <td className="px-3 py-2 text-gray-700">{summary.averageLengthRatio}x</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+      
+      {/* Consistency report */}
+      {session && session.practiceHistory.length > 0 && (
+        <div className="bg-white rounded-xl border border-gray-200 overflow-hidden mb-8">
+          <div className="px-6 py-4 border-b border-gray-200 bg-gray-50 flex items-center justify-between">
+            <div>
+              <h2 className="text-lg font-semibold">Consistency Report</h2>
+              <p className="text-sm text-gray-600">
+                Contradictions between {session.witnessName}&apos;s answers, and with the documents
+              </p>
+            </div>
+            <button
+              onClick={checkConsistency}
+              disabled={isCheckingConsistency}
+              className="py-2 px-4 bg-blue-600 text-white rounded-lg text-sm font-medium hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed transition flex items-center gap-2"
+            >
+              {isCheckingConsistency ? (
+                <Loader2 className="w-4 h-4 animate-spin" />
+              ) : (
+                <FileSearch className="w-4 h-4" />
+              )}
+              {session.consistencyReport ? 'Check Again' : 'Check Consistency'}
+            </button>
+          </div>
+          {session.consistencyReport && (
+            <div className="p-6 space-y-4">
+              <p className="text-sm text-gray-600">
+                {session.consistencyReport.assertions.length} factual claim{session.consistencyReport.assertions.length === 1 ? '' : 's'} checked across {session.consistencyReport.answersChecked} answer{session.consistencyReport.answersChecked === 1 ? '' : 's'}.
+                {session.consistencyReport.answersOmitted > 0 && (
+                  <span> The {session.consistencyReport.answersOmitted} earliest answer{session.consistencyReport.answersOmitted === 1 ? ' was' : 's were'} left out; only the most recent answers are checked.</span>
+                )}
+                {session.practiceHistory.length !== session.consistencyReport.historyLength && (
+                  <span className="text-amber-700"> More answers were given since this check - run it again to include them.</span>
+                )}
+              </p>
+              {session.consistencyReport.issues.length > 0 ? (
+                session.consistencyReport.issues.map((issue) => (
+                  <div key={issue.id} className="border-l-4 border-red-400 pl-4 py-2">
+                    <div className="flex items-start justify-between gap-3">
+                      <p className="text-gray-900 font-medium">{issue.description}</p>
+                      <div className="flex gap-2 flex-shrink-0">
+                        <span className="px-2 py-0.5 rounded text-xs font-medium bg-gray-100 text-gray-700">
+                          {issue.type === 'answer_vs_answer' ? 'Between answers' : 'Against documents'}
+                        </span>
+                        <span className={`px-2 py-0.5 rounded text-xs font-medium ${getSeverityBadgeClass(issue.severity)}`}>
+                          {issue.severity}
+                        </span>
+                      </div>
+                    </div>
+                    <div className="mt-2 grid md:grid-cols-2 gap-3 text-sm">
+                      {[issue.statement, issue.conflictsWith].map((source, index) => (
+                        <div key={index} className="bg-gray-50 rounded p-3">
+                          <p className="text-xs font-medium text-gray-500 mb-1">
+                            {describeConsistencySource(source)}
+                            {!source.quoteVerified && <span className="font-normal"> (paraphrased)</span>}
+                          </p>
+                          {source.question && <p className="text-xs text-gray-500 mb-1">Q: {source.question}</p>}
+                          <p className="text-gray-800">&quot;{source.quote}&quot;</p>
+                        </div>
+                      ))}
+                    </div>
+                    {issue.suggestion && (
+                      <p className="mt-2 text-sm text-green-700">
+                        <strong>Fix:</strong> {issue.suggestion}
+                      </p>
+                    )}
+                  </div>
+                ))
+              ) : (
+                <p className="text-gray-500 text-sm">No contradictions found</p>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+      
       {/* Practice history */}
       <div className="bg-white rounded-xl border border-gray-200 overflow-hidden">
         <div className="px-6 py-4 border-b border-gray-200 bg-gray-50">
@@ -915,18 +2287,33 @@ export default function TestimonyPrepTool() {
         </div>
         <div className="divide-y divide-gray-200 max-h-96 overflow-y-auto">
           {session?.practiceHistory.map((exchange, index) => (
-            <div key={exchange.id} className="p-4">
+            <div key={exchange.id} className="p-4" style={{ paddingLeft: `${1 + (exchange.depth || 0) * 2}rem` }}>
               <div className="flex items-start gap-3">
                 <span className="flex-shrink-0 w-6 h-6 rounded-full bg-blue-100 flex items-center justify-center text-xs font-medium text-blue-600">
                   {index + 1}
                 </span>
                 <div className="flex-1">
+                  {(exchange.parentExchangeId || exchange.mode) && (
+                    <p className="text-xs font-medium text-blue-700 mb-1">
+                      {[exchange.mode && EXAMINATION_MODE_TITLES[exchange.mode], exchange.parentExchangeId && `Follow-up ${exchange.depth}`].filter(Boolean).join(' · ')}
+                    </p>
+                  )}
                   <p className="font-medium text-gray-900 mb-1">{exchange.question}</p>
                   <p className="text-sm text-gray-600 mb-2">
                     <strong>Response:</strong> {exchange.witnessResponse}
                   </p>
+                  {exchange.objections && exchange.objections.objections.length > 0 && (
+                    <p className="text-xs text-amber-700 mb-2">
+                      <strong>Objected:</strong> {exchange.objections.objections.map(objection => OBJECTION_LABELS[objection.type]).join('; ')}
+                    </p>
+                  )}
+                  {exchange.delivery && (
+                    <p className="text-xs text-gray-500 mb-2">
+                      <strong>Delivery:</strong> {describeDelivery(exchange.delivery).join(' · ')} · {describeAnswerLength(exchange.delivery).label}
+                    </p>
+                  )}
                   {exchange.feedback && (
-                    <p className="text-sm text-blue-600 bg-blue-50 rounded p-2">
+                    <p className={`text-sm rounded p-2 ${exchange.usedFallback ? 'text-gray-500 bg-gray-50 italic' : 'text-blue-600 bg-blue-50'}`}>
                       <strong>Feedback:</strong> {exchange.feedback}
                     </p>
                   )}
@@ -937,6 +2324,32 @@ export default function TestimonyPrepTool() {
         </div>
       </div>
       
+      {/* Report export */}
+      {session && (
+        <div className="mt-6 bg-white rounded-xl border border-gray-200 px-6 py-4 flex flex-wrap items-center gap-3">
+          <div className="flex-1 min-w-[200px]">
+            <p className="font-medium text-gray-900">Practice Report</p>
+            <p className="text-sm text-gray-600">Questions, every answer with feedback and scores, weak points and time spent</p>
+          </div>
+          <a
+            href={`/api/sessions/${session.id}/report?format=pdf`}
+            download
+            className="py-2 px-4 bg-gray-100 text-gray-700 rounded-lg font-medium hover:bg-gray-200 transition flex items-center gap-2"
+          >
+            <Download className="w-4 h-4" />
+            PDF
+          </a>
+          <a
+            href={`/api/sessions/${session.id}/report?format=docx`}
+            download
+            className="py-2 px-4 bg-gray-100 text-gray-700 rounded-lg font-medium hover:bg-gray-200 transition flex items-center gap-2"
+          >
+            <Download className="w-4 h-4" />
+            Word
+          </a>
+        </div>
+      )}
+      
       {/* Actions */}
       <div className="mt-6 flex gap-4">
         <button
@@ -945,26 +2358,24 @@ export default function TestimonyPrepTool() {
             setCurrentStep('setup');
             setWitnessName('');
             setCaseName('');
-            setCurrentQuestionIndex(0);
+            setSchedule(null);
             setWitnessResponse('');
             setLastAIResponse(null);
             setShowFeedback(false);
+            setActiveFollowUp(null);
+            setRubricSummary(null);
+            setDeliverySummary([]);
+            setObjectionRuling(null);
           }}
           className="flex-1 py-3 px-4 bg-gray-100 text-gray-700 rounded-lg font-medium hover:bg-gray-200 transition"
         >
           Start New Session
         </button>
         <button
-          onClick={() => {
-            setCurrentStep('practice');
-            setCurrentQuestionIndex(0);
-            setWitnessResponse('');
-            setLastAIResponse(null);
-            setShowFeedback(false);
-          }}
+          onClick={startNextRound}
           className="flex-1 py-3 px-4 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition"
         >
-          Practice Again
+          Start Round {(schedule?.round || 1) + 1}
         </button>
       </div>
     </div>
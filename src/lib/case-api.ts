@@ -1,6 +1,7 @@
 // Case.dev API client for Testimony Prep Tool
 
-const CASE_API_BASE = 'https://api.case.dev';
+// Override with CASEDEV_API_URL to point at a local stand-in (see scripts/mock-case-api.mjs)
+const CASE_API_BASE = process.env.CASEDEV_API_URL || 'https://api.case.dev';
 
 // Get API key from environment
 function getApiKey(): string {
@@ -67,6 +68,36 @@ export async function uploadToS3(uploadUrl: string, file: ArrayBuffer | Blob, co
   return true;
 }
 
+export async function getVaultObject(vaultId: string, objectId: string) {
+  const response = await fetch(`${CASE_API_BASE}/vault/${vaultId}/objects/${objectId}`, {
+    method: 'GET',
+    headers: {
+      'Authorization': `Bearer ${getApiKey()}`,
+    },
+  });
+  
+  if (!response.ok) {
+    throw new Error(`Failed to get vault object: ${response.statusText}`);
+  }
+  
+  return response.json();
+}
+
+export async function getVaultObjectText(vaultId: string, objectId: string) {
+  const response = await fetch(`${CASE_API_BASE}/vault/${vaultId}/objects/${objectId}/text`, {
+    method: 'GET',
+    headers: {
+      'Authorization': `Bearer ${getApiKey()}`,
+    },
+  });
+  
+  if (!response.ok) {
+    throw new Error(`Failed to get vault object text: ${response.statusText}`);
+  }
+  
+  return response.json();
+}
+
 export async function searchVault(vaultId: string, query: string, limit = 10) {
   const response = await fetch(`${CASE_API_BASE}/vault/${vaultId}/search`, {
     method: 'POST',
@@ -110,14 +141,16 @@ export interface ChatCompletionResponse {
   };
 }
 
+// Model settings come from the per-task LLM configuration (see src/lib/llm.ts)
+export interface ChatCompletionOptions {
+  model: string;
+  temperature?: number;
+  max_tokens?: number;
+}
+
 export async function chatCompletion(
   messages: ChatMessage[],
-  options: {
-    model?: string;
-    temperature?: number;
-    max_tokens?: number;
-    stream?: boolean;
-  } = {}
+  options: ChatCompletionOptions
 ): Promise<ChatCompletionResponse> {
   const response = await fetch(`${CASE_API_BASE}/llm/v1/chat/completions`, {
     method: 'POST',
@@ -126,11 +159,11 @@ export async function chatCompletion(
       'Content-Type': 'application/json',
     },
     body: JSON.stringify({
-      model: options.model || 'anthropic/claude-sonnet-4-20250514',
+      model: options.model,
       messages,
       temperature: options.temperature ?? 0.7,
       max_tokens: options.max_tokens ?? 4096,
-      stream: options.stream ?? false,
+      stream: false,
     }),
   });
   
@@ -145,11 +178,7 @@ export async function chatCompletion(
 // Streaming chat completion
 export async function* streamChatCompletion(
   messages: ChatMessage[],
-  options: {
-    model?: string;
-    temperature?: number;
-    max_tokens?: number;
-  } = {}
+  options: ChatCompletionOptions
 ): AsyncGenerator<string> {
   const response = await fetch(`${CASE_API_BASE}/llm/v1/chat/completions`, {
     method: 'POST',
@@ -158,7 +187,7 @@ export async function* streamChatCompletion(
       'Content-Type': 'application/json',
     },
     body: JSON.stringify({
-      model: options.model || 'anthropic/claude-sonnet-4-20250514',
+      model: options.model,
       messages,
       temperature: options.temperature ?? 0.7,
       max_tokens: options.max_tokens ?? 4096,
@@ -167,23 +196,28 @@ export async function* streamChatCompletion(
   });
   
   if (!response.ok) {
-    throw new Error(`LLM API error: ${response.statusText}`);
+    const error = await response.text();
+    throw new Error(`LLM API error: ${error}`);
   }
   
   const reader = response.body?.getReader();
   if (!reader) throw new Error('No response body');
   
   const decoder = new TextDecoder();
+  let buffer = '';
   
   while (true) {
     const { done, value } = await reader.read();
     if (done) break;
     
-    const chunk = decoder.decode(value);
-    const lines = chunk.split('\n').filter(line => line.startsWith('data: '));
+    // SSE events can be split across reads, so hold back the trailing partial line
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
     
     for (const line of lines) {
-      const data = line.slice(6);
+      if (!line.startsWith('data: ')) continue;
+      const data = line.slice(6).trim();
       if (data === '[DONE]') return;
       
       try {
@@ -203,6 +237,7 @@ export async function createTranscription(
   options: {
     language_code?: string;
     speaker_labels?: boolean;
+    disfluencies?: boolean;
     webhook_url?: string;
     word_boost?: string[];
   } = {}
@@ -217,6 +252,7 @@ export async function createTranscription(
       audio_url: audioUrl,
       language_code: options.language_code || 'en',
       speaker_labels: options.speaker_labels ?? true,
+      disfluencies: options.disfluencies,
       webhook_url: options.webhook_url,
       word_boost: options.word_boost || ['objection', 'sustained', 'overruled', 'witness', 'testimony'],
     }),
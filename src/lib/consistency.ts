@@ -0,0 +1,147 @@
+// Consistency checking across a witness's practice answers
+// The model extracts the factual claims from every answer and flags claims that conflict with
+// another answer or with the session documents. Answers are numbered by their position in the
+// practice history (matching the review step), and every quote is checked against the text it
+// claims to come from so counsel can tell a verbatim quote from a paraphrase.
+
+import { v4 as uuidv4 } from 'uuid';
+import { ConsistencyIssue, ConsistencyReport, ConsistencySource, PracticeExchange, WitnessAssertion } from './types';
+import { ContextSelection, DocumentChunk, filterChunkIds } from './retrieval';
+import { GeneratedConsistencyCheck } from './llm-schemas';
+
+// Answers sent to the model, most recent kept when a session runs longer
+const MAX_CHECKED_ANSWERS = 80;
+const MAX_ANSWER_LENGTH = 1500;
+
+const SEVERITY_ORDER: Record<ConsistencyIssue['severity'], number> = { significant: 0, moderate: 1, minor: 2 };
+
+// Exchanges to check, with their 1-based answer numbers
+export function selectAnswers(history: PracticeExchange[]): Array<{ answerNumber: number; exchange: PracticeExchange }> {
+  return getAnsweredExchanges(history).slice(-MAX_CHECKED_ANSWERS);
+}
+
+function getAnsweredExchanges(history: PracticeExchange[]): Array<{ answerNumber: number; exchange: PracticeExchange }> {
+  return history
+    .map((exchange, index) => ({ answerNumber: index + 1, exchange }))
+    .filter(({ exchange }) => exchange.witnessResponse.trim());
+}
+
+// Numbered question/answer pairs for the prompt
+export function formatAnswersForPrompt(answers: Array<{ answerNumber: number; exchange: PracticeExchange }>): string {
+  return answers
+    .map(({ answerNumber, exchange }) => {
+      const parentNumber = exchange.parentExchangeId ? findAnswerNumber(answers, exchange.parentExchangeId) : undefined;
+      const label = exchange.parentExchangeId ? `follow-up to answer ${parentNumber ?? 'an earlier question'}` : 'question';
+      return `[Answer ${answerNumber}] (${label})\nQ: "${exchange.question}"\nA: "${exchange.witnessResponse.slice(0, MAX_ANSWER_LENGTH)}"`;
+    })
+    .join('\n\n');
+}
+
+function findAnswerNumber(answers: Array<{ answerNumber: number; exchange: PracticeExchange }>, exchangeId: string): number | undefined {
+  return answers.find(({ exchange }) => exchange.id === exchangeId)?.answerNumber;
+}
+
+function normalizeQuote(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[‘’]/g, '\'')
+    .replace(/[“”]/g, '"')
+    .replace(/\s+/g, ' ')
+    .replace(/^[\s"'.…]+|[\s"'.…]+$/g, '')
+    .trim();
+}
+
+function quoteAppearsIn(quote: string, text: string): boolean {
+  const needle = normalizeQuote(quote);
+  return needle.length > 0 && normalizeQuote(text).includes(needle);
+}
+
+// The chunk a document quote came from: the cited chunk if the quote is in it, otherwise the
+// first chunk of the named document (or of any document) that contains the quote
+function findQuotedChunk(quote: string, chunkId: string | undefined, documentName: string | undefined, selection: ContextSelection): { chunk?: DocumentChunk; verified: boolean } {
+  const cited = chunkId ? selection.chunks.find(chunk => chunk.id === chunkId) : undefined;
+  if (cited && quoteAppearsIn(quote, cited.text)) return { chunk: cited, verified: true };
+
+  const named = documentName ? selection.chunks.filter(chunk => chunk.documentName === documentName) : [];
+  const match = [...named, ...selection.chunks].find(chunk => quoteAppearsIn(quote, chunk.text));
+  if (match) return { chunk: match, verified: true };
+
+  return { chunk: cited || named[0], verified: false };
+}
+
+function answerSource(answerNumber: number, quote: string, history: PracticeExchange[]): ConsistencySource | undefined {
+  const exchange = history[answerNumber - 1];
+  if (!exchange) return undefined;
+  return {
+    exchangeId: exchange.id,
+    answerNumber,
+    question: exchange.question,
+    quote,
+    quoteVerified: quoteAppearsIn(quote, exchange.witnessResponse),
+  };
+}
+
+// Turn the model's output into a report, dropping assertions and issues that cite answers
+// outside the practice history and issues that compare an answer with itself. answers are the
+// ones selectAnswers sent to the model.
+export function buildConsistencyReport(
+  data: GeneratedConsistencyCheck,
+  history: PracticeExchange[],
+  answers: Array<{ answerNumber: number; exchange: PracticeExchange }>,
+  selection: ContextSelection
+): ConsistencyReport {
+  const assertions: WitnessAssertion[] = data.assertions
+    .filter(assertion => history[assertion.answer - 1] && assertion.claim.trim())
+    .map(assertion => ({
+      exchangeId: history[assertion.answer - 1].id,
+      answerNumber: assertion.answer,
+      claim: assertion.claim.trim(),
+    }));
+
+  const issues: ConsistencyIssue[] = [];
+  for (const contradiction of data.contradictions) {
+    const statement = answerSource(contradiction.statement.answer, contradiction.statement.quote, history);
+    if (!statement) continue;
+
+    let conflictsWith: ConsistencySource | undefined;
+    const other = contradiction.conflictsWith;
+    if (contradiction.type === 'answer_vs_answer') {
+      if (!other.answer || other.answer === contradiction.statement.answer) continue;
+      conflictsWith = answerSource(other.answer, other.quote, history);
+    } else {
+      const { chunk, verified } = findQuotedChunk(other.quote, other.chunkId, other.document, selection);
+      if (!chunk && !other.document) continue;
+      conflictsWith = {
+        documentId: chunk?.documentId,
+        documentName: chunk?.documentName || other.document,
+        page: chunk?.page,
+        chunkId: chunk?.id,
+        quote: other.quote,
+        quoteVerified: verified,
+      };
+    }
+    if (!conflictsWith) continue;
+
+    issues.push({
+      id: uuidv4(),
+      type: contradiction.type,
+      description: contradiction.description,
+      severity: contradiction.severity,
+      statement,
+      conflictsWith,
+      suggestion: contradiction.suggestion,
+    });
+  }
+
+  issues.sort((a, b) => SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity]);
+
+  return {
+    generatedAt: new Date(),
+    answersChecked: answers.length,
+    answersOmitted: getAnsweredExchanges(history).length - answers.length,
+    historyLength: history.length,
+    assertions,
+    issues,
+    sourceChunkIds: filterChunkIds([...new Set(issues.map(issue => issue.conflictsWith.chunkId).filter(Boolean))], selection),
+  };
+}
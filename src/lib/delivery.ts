@@ -0,0 +1,178 @@
+// Delivery analytics for practice answers
+// Measures how an answer was given rather than what it said: pace, filler words, hedges, time to
+// the first word, long pauses and whether the length suits the question. Spoken answers are
+// timed from the transcription's word timings; typed answers only get the text-based metrics.
+// Metrics are saved on the exchange and trended per practice round for the review step.
+
+import { DeliveryMetrics, PracticeExchange, SessionRecording } from './types';
+import { getExchangeRound } from './practice-scheduler';
+
+// A gap between two words at least this long counts as a long pause
+export const LONG_PAUSE_MS = 2000;
+
+const FILLER_PATTERNS: Array<[string, RegExp]> = [
+  ['um', /\bu+m+\b/gi],
+  ['uh', /\bu+h+\b/gi],
+  ['er', /\b(er|erm)\b/gi],
+  ['ah', /\ba+h+\b/gi],
+  // "like" only as a filler: set off by commas or starting a clause
+  ['like', /(?:^|[,.;!?]\s*)like\b|\blike,/gi],
+  ['you know', /\byou know\b(?!\s+(?:what|who|where|when|why|how|that|if|whether)\b)/gi],
+  ['I mean', /\bI mean\b/gi],
+  ['basically', /\bbasically\b/gi],
+];
+
+const HEDGE_PATTERNS: Array<[string, RegExp]> = [
+  ['I think', /\bI think\b/gi],
+  ['I guess', /\bI guess\b/gi],
+  ['I believe', /\bI believe\b/gi],
+  ['I suppose', /\bI suppose\b/gi],
+  ['I\'m not sure', /\bI'?m not (?:sure|certain)\b/gi],
+  ['maybe', /\bmaybe\b/gi],
+  ['probably', /\bprobably\b/gi],
+  ['possibly', /\bpossibly\b/gi],
+  ['kind of', /\b(?:kind|sort) of\b/gi],
+  ['I would say', /\bI'?d say\b|\bI would say\b/gi],
+];
+
+// Leading and yes/no questions call for a word or two; open questions for an explanation
+const LEADING_QUESTION = /\b(?:correct|right|true|isn't it|didn't you|wasn't it|weren't you|isn't that so)\s*\?\s*$/i;
+const YES_NO_QUESTION = /^(?:did|do|does|were|was|is|are|have|has|had|can|could|would|will|isn't|didn't|wasn't|weren't|haven't)\b/i;
+const OPEN_QUESTION = /^(?:describe|explain|tell|walk|why|how)\b/i;
+const EXPECTED_WORDS = { closed: 10, specific: 25, open: 60 };
+
+function countWords(text: string): number {
+  return text.split(/\s+/).filter(word => /\w/.test(word)).length;
+}
+
+function countPatterns(text: string, patterns: Array<[string, RegExp]>): { counts: Record<string, number>; total: number } {
+  const counts: Record<string, number> = {};
+  let total = 0;
+  for (const [label, pattern] of patterns) {
+    const matches = text.match(pattern)?.length || 0;
+    if (matches === 0) continue;
+    counts[label] = matches;
+    total += matches;
+  }
+  return { counts, total };
+}
+
+function roundTo(value: number, places: number): number {
+  const factor = 10 ** places;
+  return Math.round(value * factor) / factor;
+}
+
+// How demanding the question is, and how long a good answer to it would be
+function assessQuestion(question: string): Pick<DeliveryMetrics, 'questionComplexity' | 'expectedWords'> {
+  const text = question.trim().replace(/[‘’]/g, '\'');
+  const words = countWords(text);
+  // Each "and", "or", semicolon or extra question mark adds a part the witness has to answer
+  const parts = 1 + (text.match(/\s(?:and|or)\s|;|\?(?=.)/gi)?.length || 0);
+
+  let base = EXPECTED_WORDS.specific;
+  if (LEADING_QUESTION.test(text) || YES_NO_QUESTION.test(text)) base = EXPECTED_WORDS.closed;
+  else if (OPEN_QUESTION.test(text)) base = EXPECTED_WORDS.open;
+
+  const questionComplexity = words > 30 || parts >= 3 ? 'complex' : words > 15 || parts === 2 ? 'moderate' : 'simple';
+  return { questionComplexity, expectedWords: base * Math.min(parts, 3) };
+}
+
+// Pace, pauses and time to the first word from a recording's word timings. Time to the first word
+// adds the gap between the question appearing and the recording starting; both times come from the
+// browser's clock, so without the question time only the delay within the recording is counted.
+function analyzeTiming(recording: SessionRecording, questionShownAt?: Date): Pick<DeliveryMetrics, 'wordsPerMinute' | 'timeToFirstWord' | 'longPauses' | 'longestPause'> {
+  const words = recording.words || [];
+  if (words.length === 0) return {};
+
+  const first = words[0];
+  const last = words[words.length - 1];
+  const speakingMs = Math.max(last.end - first.start, 1);
+
+  let longPauses = 0;
+  let longestPause = 0;
+  for (let i = 1; i < words.length; i++) {
+    const gap = words[i].start - words[i - 1].end;
+    if (gap >= LONG_PAUSE_MS) longPauses++;
+    longestPause = Math.max(longestPause, gap);
+  }
+
+  const recordingOffset = questionShownAt ? Math.max(recording.startedAt.getTime() - questionShownAt.getTime(), 0) : 0;
+  const timeToFirstWord = recordingOffset + first.start;
+
+  return {
+    wordsPerMinute: Math.round(words.length / (speakingMs / 60000)),
+    timeToFirstWord: roundTo(timeToFirstWord / 1000, 1),
+    longPauses,
+    longestPause: roundTo(longestPause / 1000, 1),
+  };
+}
+
+// Delivery metrics for one answer. Spoken answers are measured on what was said (the transcript),
+// typed answers on the submitted text. questionShownAt is the browser's time the question appeared.
+export function analyzeDelivery(exchange: PracticeExchange, recording?: SessionRecording, questionShownAt?: Date): DeliveryMetrics {
+  const spoken = Boolean(recording?.transcription);
+  const text = (spoken ? recording?.transcription : exchange.witnessResponse) || '';
+  const normalized = text.replace(/[‘’]/g, '\'');
+
+  const wordCount = countWords(normalized);
+  const fillers = countPatterns(normalized, FILLER_PATTERNS);
+  const hedges = countPatterns(normalized, HEDGE_PATTERNS);
+  const question = assessQuestion(exchange.question);
+
+  return {
+    source: spoken ? 'spoken' : 'typed',
+    wordCount,
+    ...(spoken && recording ? analyzeTiming(recording, questionShownAt) : {}),
+    fillerCount: fillers.total,
+    fillers: fillers.counts,
+    hedgeCount: hedges.total,
+    hedges: hedges.counts,
+    ...question,
+    lengthRatio: roundTo(wordCount / question.expectedWords, 2),
+  };
+}
+
+export interface DeliveryRoundSummary {
+  round: number;
+  answers: number;
+  spokenAnswers: number;
+  averageWordsPerMinute: number | null; // Spoken answers with word timings only
+  fillersPer100Words: number;
+  hedgesPer100Words: number;
+  averageTimeToFirstWord: number | null; // Seconds
+  longPauses: number;
+  averageLengthRatio: number;
+}
+
+function average(values: number[]): number | null {
+  if (values.length === 0) return null;
+  return roundTo(values.reduce((sum, value) => sum + value, 0) / values.length, 1);
+}
+
+// Delivery trends by practice round, oldest round first
+export function summarizeDelivery(history: PracticeExchange[]): DeliveryRoundSummary[] {
+  const byRound = new Map<number, DeliveryMetrics[]>();
+  for (const exchange of history) {
+    if (!exchange.delivery) continue;
+    const round = getExchangeRound(exchange);
+    byRound.set(round, [...(byRound.get(round) || []), exchange.delivery]);
+  }
+
+  return [...byRound.keys()].sort((a, b) => a - b).map(round => {
+    const metrics = byRound.get(round) || [];
+    const words = metrics.reduce((sum, entry) => sum + entry.wordCount, 0);
+    const per100Words = (count: number) => (words > 0 ? roundTo((count / words) * 100, 1) : 0);
+
+    return {
+      round,
+      answers: metrics.length,
+      spokenAnswers: metrics.filter(entry => entry.source === 'spoken').length,
+      averageWordsPerMinute: average(metrics.map(entry => entry.wordsPerMinute).filter((value): value is number => typeof value === 'number')),
+      fillersPer100Words: per100Words(metrics.reduce((sum, entry) => sum + entry.fillerCount, 0)),
+      hedgesPer100Words: per100Words(metrics.reduce((sum, entry) => sum + entry.hedgeCount, 0)),
+      averageTimeToFirstWord: average(metrics.map(entry => entry.timeToFirstWord).filter((value): value is number => typeof value === 'number')),
+      longPauses: metrics.reduce((sum, entry) => sum + (entry.longPauses || 0), 0),
+      averageLengthRatio: average(metrics.map(entry => entry.lengthRatio)) ?? 0,
+    };
+  });
+}
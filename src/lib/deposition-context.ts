@@ -0,0 +1,78 @@
+// Document context and transcript citations for deposition prompts
+// Transcripts are rendered with [page:line] prefixes so the model can cite real lines, and
+// page references in the model's output are checked against the parsed transcripts.
+
+import { Contradiction, DepositionDocument, DepositionQuestion } from './deposition-types';
+import { parseTranscript, formatTranscriptForPrompt, findCitation, isValidCitation, ParsedTranscript } from './transcript-parser';
+import { selectContext, formatContext, ContextSelection, DEFAULT_CONTEXT_BUDGET } from './retrieval';
+
+// Select the chunks most relevant to the query and label each document with its type
+export function buildDepositionContext(
+  documents: DepositionDocument[],
+  query: string,
+  budget: number = DEFAULT_CONTEXT_BUDGET
+): { contextSelection: ContextSelection; documentContext: string } {
+  const retrievableDocuments = documents.map(doc => (
+    doc.type === 'transcript' && doc.content
+      ? { ...doc, content: formatTranscriptForPrompt(parseTranscript(doc.content)), pages: undefined }
+      : doc
+  ));
+  const contextSelection = selectContext(retrievableDocuments, query, budget);
+  const documentTypes = new Map(documents.map(doc => [doc.id, doc.type]));
+  const documentContext = formatContext(contextSelection, (documentId, documentName) => {
+    const typeLabel = (documentTypes.get(documentId) || 'other').replace('_', ' ').toUpperCase();
+    return `${typeLabel}: ${documentName}`;
+  });
+  return { contextSelection, documentContext };
+}
+
+// Replace guessed page references with real page:line citations for transcript documents.
+// An excerpt or quote found in the transcript wins; otherwise the model's citation is kept
+// only if it points at lines that exist.
+export function applyTranscriptCitations(
+  contradictions: Contradiction[],
+  questions: DepositionQuestion[],
+  documents: DepositionDocument[]
+): void {
+  const transcripts = new Map<string, ParsedTranscript>();
+  for (const doc of documents) {
+    if (doc.type === 'transcript' && doc.content) {
+      transcripts.set(doc.name, parseTranscript(doc.content));
+    }
+  }
+  if (transcripts.size === 0) return;
+  
+  const findTranscript = (documentName?: string): ParsedTranscript | undefined => {
+    if (!documentName) return undefined;
+    const exact = transcripts.get(documentName);
+    if (exact) return exact;
+    for (const [name, transcript] of transcripts) {
+      if (documentName.includes(name) || name.includes(documentName)) return transcript;
+    }
+    return undefined;
+  };
+  
+  const cite = (transcript: ParsedTranscript, claimed?: string, excerpt?: string): string | undefined => {
+    const found = excerpt ? findCitation(transcript, excerpt) : undefined;
+    if (found) return found;
+    const citation = claimed?.trim();
+    return citation && isValidCitation(transcript, citation) ? citation : undefined;
+  };
+  
+  for (const contradiction of contradictions) {
+    for (const source of [contradiction.source1, contradiction.source2]) {
+      const transcript = findTranscript(source.document);
+      if (transcript) {
+        source.page = cite(transcript, source.page, source.excerpt);
+      }
+    }
+  }
+  
+  for (const question of questions) {
+    const transcript = findTranscript(question.documentReference);
+    if (transcript) {
+      const quote = question.question.match(/["\u201C]([^"\u201D]{15,})["\u201D]/)?.[1];
+      question.pageReference = cite(transcript, question.pageReference, quote);
+    }
+  }
+}
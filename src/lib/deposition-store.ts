@@ -1,7 +1,7 @@
-// In-memory session store for Deposition Prep Tool
-// WARNING: In-memory storage is NOT suitable for production on Vercel
-// Sessions will be lost on serverless function cold starts
-// For production, use a database (PostgreSQL, Redis, etc.)
+// Session store for Deposition Prep Tool
+// Backed by the storage driver selected with STORAGE_DRIVER (see storage.ts).
+// The default in-memory driver loses sessions on serverless cold starts;
+// use STORAGE_DRIVER=file to keep prep work across restarts.
 
 import { v4 as uuidv4 } from 'uuid';
 import { 
@@ -13,18 +13,53 @@ import {
   DepositionOutline,
   OutlineSection
 } from './deposition-types';
+import { createStorage, getSessionTtlMs } from './storage';
 
-// In-memory storage - sessions will be lost on serverless cold starts
-// TODO: Replace with database storage for production
-const depositionSessions: Map<string, DepositionSession> = new Map();
+// Rebuild Date fields when sessions are loaded from persistent storage
+function hydrateDepositionSession(raw: Record<string, unknown>): DepositionSession {
+  const session = raw as unknown as DepositionSession;
+  return {
+    ...session,
+    createdAt: new Date(session.createdAt),
+    depositionDate: session.depositionDate ? new Date(session.depositionDate) : undefined,
+    documents: session.documents.map(doc => ({
+      ...doc,
+      uploadedAt: new Date(doc.uploadedAt),
+    })),
+    outline: session.outline ? {
+      ...session.outline,
+      createdAt: new Date(session.outline.createdAt),
+      updatedAt: new Date(session.outline.updatedAt),
+    } : null,
+    live: session.live ? {
+      ...session.live,
+      startedAt: new Date(session.live.startedAt),
+      endedAt: session.live.endedAt ? new Date(session.live.endedAt) : undefined,
+      onRecordSince: session.live.onRecordSince ? new Date(session.live.onRecordSince) : undefined,
+      questions: Object.fromEntries(Object.entries(session.live.questions).map(([questionId, state]) => [
+        questionId,
+        { ...state, updatedAt: new Date(state.updatedAt) },
+      ])),
+    } : undefined,
+    roughTranscript: session.roughTranscript ? {
+      ...session.roughTranscript,
+      updatedAt: new Date(session.roughTranscript.updatedAt),
+    } : undefined,
+    exhibits: session.exhibits?.map(exhibit => ({
+      ...exhibit,
+      markedAt: new Date(exhibit.markedAt),
+    })),
+  };
+}
 
-// Session cleanup - remove sessions older than 24 hours to prevent memory leaks
-const SESSION_TTL_MS = 24 * 60 * 60 * 1000; // 24 hours
+const depositionSessions = createStorage<DepositionSession>('depositions', { hydrate: hydrateDepositionSession });
 
+// Session cleanup - remove sessions older than SESSION_TTL_HOURS (default 24) to prevent buildup
 function cleanupOldSessions(): void {
   const now = new Date().getTime();
+  const ttlMs = getSessionTtlMs();
   for (const [id, session] of depositionSessions.entries()) {
-    if (now - new Date(session.createdAt).getTime() > SESSION_TTL_MS) {
+    if (now - new Date(session.createdAt).getTime() > ttlMs) {
       depositionSessions.delete(id);
     }
   }
@@ -57,7 +92,7 @@ export function getDepositionSession(sessionId: string): DepositionSession | und
 }
 
 export function getAllDepositionSessions(): DepositionSession[] {
-  return Array.from(depositionSessions.values()).sort(
+  return depositionSessions.entries().map(([, session]) => session).sort(
     (a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
   );
 }
@@ -102,6 +137,41 @@ export function setDepositionQuestions(sessionId: string, questions: DepositionQ
   return session;
 }
 
+// Add questions after the existing ones; outline sections that hold earlier questions are untouched
+export function appendDepositionQuestions(sessionId: string, questions: DepositionQuestion[]): DepositionSession | undefined {
+  const session = depositionSessions.get(sessionId);
+  if (!session) return undefined;
+  
+  session.questions = [...session.questions, ...questions];
+  session.status = 'ready';
+  depositionSessions.set(sessionId, session);
+  return session;
+}
+
+// Update one question in place, keeping its ID. Outline sections hold their own copies, so those are updated too.
+export function updateDepositionQuestion(sessionId: string, questionId: string, updates: Partial<DepositionQuestion>): DepositionSession | undefined {
+  const session = depositionSessions.get(sessionId);
+  if (!session) return undefined;
+  
+  const questionIndex = session.questions.findIndex(q => q.id === questionId);
+  if (questionIndex === -1) return undefined;
+  
+  session.questions[questionIndex] = { ...session.questions[questionIndex], ...updates, id: questionId };
+  if (session.outline) {
+    let inOutline = false;
+    for (const section of session.outline.sections) {
+      section.questions = section.questions.map(q => {
+        if (q.id !== questionId) return q;
+        inOutline = true;
+        return { ...q, ...updates, id: questionId };
+      });
+    }
+    if (inOutline) session.outline.updatedAt = new Date();
+  }
+  depositionSessions.set(sessionId, session);
+  return session;
+}
+
 export function setAnalysisResults(
   sessionId: string, 
   gaps: TestimonyGap[], 
@@ -227,5 +297,26 @@ export function serializeDepositionSession(session: DepositionSession): Record<s
       createdAt: session.outline.createdAt.toISOString(),
       updatedAt: session.outline.updatedAt.toISOString(),
     } : null,
+    live: session.live ? {
+      ...session.live,
+      startedAt: session.live.startedAt.toISOString(),
+      endedAt: session.live.endedAt?.toISOString(),
+      onRecordSince: session.live.onRecordSince?.toISOString(),
+      questions: Object.fromEntries(Object.entries(session.live.questions).map(([questionId, state]) => [
+        questionId,
+        { ...state, updatedAt: state.updatedAt.toISOString() },
+      ])),
+    } : undefined,
+    // The transcript text can run to megabytes, so responses carry its length instead
+    roughTranscript: session.roughTranscript ? {
+      ...session.roughTranscript,
+      text: undefined,
+      characters: session.roughTranscript.text.length,
+      updatedAt: session.roughTranscript.updatedAt.toISOString(),
+    } : undefined,
+    exhibits: session.exhibits?.map(exhibit => ({
+      ...exhibit,
+      markedAt: exhibit.markedAt.toISOString(),
+    })),
   };
 }
@@ -1,6 +1,9 @@
 // Core types for Deposition Prep Tool
 // For opposing counsel to prepare deposition questions
 
+import { DocumentPage } from './types';
+import { TestimonySegment } from './transcript-parser';
+
 export interface DepositionDocument {
   id: string;
   name: string;
@@ -9,8 +12,13 @@ export interface DepositionDocument {
   size: number;
   uploadedAt: Date;
   objectId?: string;
+  vaultId?: string; // Vault holding objectId; documents saved before this was recorded use the session's
+  vaultCheckFailures?: number; // Failed processing status checks in a row
   content?: string;
+  pages?: DocumentPage[];
+  segments?: TestimonySegment[]; // Parsed Q/A turns for transcripts
   status: 'uploading' | 'processing' | 'ready' | 'error';
+  error?: string;
   metadata?: {
     witness?: string;
     date?: string;
@@ -54,7 +62,10 @@ export interface DepositionQuestion {
   pageReference?: string;
   rationale?: string;
   followUpQuestions?: string[];
-  exhibitToShow?: string;
+  exhibitToShow?: string; // Free-text suggestion from generation
+  exhibitId?: string; // Registry exhibit to show the deponent
+  sourceChunkIds?: string[]; // Retrieval chunks the question was generated from
+  locked?: boolean; // Kept as-is when questions are regenerated
 }
 
 export interface OutlineSection {
@@ -74,6 +85,71 @@ export interface DepositionOutline {
   updatedAt: Date;
 }
 
+// Day-of status of an outline question; pending until the examiner marks it
+export type LiveQuestionStatus = 'pending' | 'asked' | 'skipped' | 'deferred';
+
+export interface LiveQuestionState {
+  status: LiveQuestionStatus;
+  answerSummary?: string; // The examiner's note of what the deponent said
+  transcriptCitation?: string; // Rough transcript page:line where the question was matched
+  updatedAt: Date;
+}
+
+// Live deposition state, kept on the session so it survives reloads during breaks
+export interface LiveDeposition {
+  startedAt: Date;
+  endedAt?: Date;
+  questions: Record<string, LiveQuestionState>; // By question ID; absent means pending
+  activeSectionId?: string; // Section record time is counted against
+  onRecordSince?: Date; // Set while the clock is running
+  sectionSeconds: Record<string, number>; // Record time per section, not counting the running stretch
+}
+
+// Live testimony that bears on a known contradiction
+export interface TranscriptFlag {
+  id: string;
+  contradictionId: string;
+  citation: string; // Rough transcript page:line of the exchange
+  question: string;
+  answer: string;
+  explanation: string;
+  severity: 'minor' | 'moderate' | 'significant';
+}
+
+export interface SuggestedFollowUp {
+  id: string;
+  question: string;
+  rationale: string;
+  citation: string; // Rough transcript page:line of the answer it follows up on
+}
+
+// Realtime rough transcript received from the court reporter during a live deposition
+export interface RoughTranscript {
+  text: string; // Everything received so far
+  segmentsProcessed: number; // Parsed segments already matched and reviewed
+  flags: TranscriptFlag[];
+  suggestedFollowUps: SuggestedFollowUp[];
+  updatedAt: Date;
+}
+
+// How exhibit numbers are written: 1, 2, 3 or A, B, ... Z, AA
+export type ExhibitNumbering = 'numeric' | 'alpha';
+
+export interface ExhibitSettings {
+  prefix: string; // e.g. "Exhibit", "Doe Ex." or "PX-"
+  numbering: ExhibitNumbering;
+  startAt: number; // First number, to continue a series from earlier depositions
+}
+
+// A document pre-marked as a deposition exhibit
+export interface Exhibit {
+  id: string;
+  sequence: number; // Written with the session's numbering scheme; kept when other exhibits are removed
+  documentId: string;
+  description?: string;
+  markedAt: Date;
+}
+
 export interface DepositionSession {
   id: string;
   deponentName: string;
@@ -81,11 +157,18 @@ export interface DepositionSession {
   caseNumber?: string;
   depositionDate?: Date;
   createdAt: Date;
+  vaultId?: string;
   documents: DepositionDocument[];
   gaps: TestimonyGap[];
   contradictions: Contradiction[];
   questions: DepositionQuestion[];
   outline: DepositionOutline | null;
+  timeLimitMinutes?: number; // Time on the record the outline must fit; the configured default when unset
+  live?: LiveDeposition; // Set once the deposition goes live
+  roughTranscript?: RoughTranscript;
+  exhibits?: Exhibit[];
+  exhibitSettings?: ExhibitSettings; // The defaults when unset
+  nextExhibitSequence?: number; // Never lowered by removals, so numbers used on the record aren't reused
   status: 'setup' | 'uploading' | 'analyzing' | 'ready' | 'completed';
   analysis?: {
     keyThemes: string[];
@@ -0,0 +1,132 @@
+// Examination modes: cross, direct and redirect
+// Cross-examination is the default and the only adversarial mode. Direct examination and redirect
+// are conducted by the witness's own counsel, with their own question categories and prompts;
+// redirect questions are built from the weaknesses that cross practice exposed. Each question
+// remembers the mode it was generated for, and practice only schedules questions in the
+// session's current mode.
+
+import { CategoryMix, CrossExamQuestion, ExaminationMode, PracticeExchange, PracticeSession } from './types';
+import { CROSS_EXAM_CATEGORIES, DIRECT_EXAM_CATEGORIES } from './llm-schemas';
+import { RUBRIC_DIMENSIONS, RUBRIC_GUIDANCE } from './rubric';
+
+export const EXAMINATION_MODES: ExaminationMode[] = ['cross', 'direct', 'redirect'];
+
+// Cross answers to draw redirect from, weakest first
+const MAX_REDIRECT_WEAKNESSES = 15;
+// Rubric scores at or below this count as a weakness worth repairing on redirect
+const WEAK_RUBRIC_SCORE = 2;
+
+export type DirectExamCategory = typeof DIRECT_EXAM_CATEGORIES[number];
+
+export interface ExaminationModeProfile {
+  label: string;
+  description: string;
+  categories: readonly CrossExamQuestion['category'][];
+  defaultCategoryMix?: CategoryMix; // Direct and redirect only; cross has its own general/document split
+}
+
+export const EXAMINATION_MODE_PROFILES: Record<ExaminationMode, ExaminationModeProfile> = {
+  cross: {
+    label: 'Cross-examination',
+    description: 'Opposing counsel tests the witness with leading, adversarial questions',
+    categories: CROSS_EXAM_CATEGORIES,
+  },
+  direct: {
+    label: 'Direct examination',
+    description: 'The witness\'s own counsel draws out their story with open, non-leading questions',
+    categories: DIRECT_EXAM_CATEGORIES,
+    defaultCategoryMix: { background: 2, narrative: 5, exhibits: 2, rehabilitation: 1 },
+  },
+  redirect: {
+    label: 'Redirect',
+    description: 'The witness\'s own counsel repairs the damage done on cross',
+    categories: DIRECT_EXAM_CATEGORIES,
+    defaultCategoryMix: { rehabilitation: 6, narrative: 2, exhibits: 2 },
+  },
+};
+
+export const DIRECT_CATEGORY_GUIDANCE: Record<DirectExamCategory, string> = {
+  background: 'Who the witness is - education, work, family and how they came to be involved - so the jury knows and trusts them',
+  narrative: 'Open questions that let the witness tell what happened in their own words, in order',
+  exhibits: 'Laying the foundation for a document or photo and having the witness explain what it shows',
+  rehabilitation: 'Repairing a point attacked on cross - letting the witness explain, give context or correct the record',
+};
+
+export function getExaminationMode(session: PracticeSession): ExaminationMode {
+  return session.examinationMode || 'cross';
+}
+
+export function getQuestionMode(question: CrossExamQuestion): ExaminationMode {
+  return question.mode || 'cross';
+}
+
+export function getExchangeMode(exchange: PracticeExchange): ExaminationMode {
+  return exchange.mode || 'cross';
+}
+
+// Questions in one mode, the session's current mode by default
+export function getModeQuestions(session: PracticeSession, mode: ExaminationMode = getExaminationMode(session)): CrossExamQuestion[] {
+  return session.questions.filter(question => getQuestionMode(question) === mode);
+}
+
+export function parseExaminationMode(value: unknown): { mode: ExaminationMode } | { error: string } {
+  if (!EXAMINATION_MODES.includes(value as ExaminationMode)) {
+    return { error: `examinationMode must be one of ${EXAMINATION_MODES.join(', ')}` };
+  }
+  return { mode: value as ExaminationMode };
+}
+
+export interface CrossWeakness {
+  exchangeId: string;
+  question: string;
+  answer: string;
+  weaknesses: string[];
+}
+
+function meanScore(exchange: PracticeExchange): number {
+  const scores = RUBRIC_DIMENSIONS.map(dimension => exchange.rubric?.[dimension]?.score).filter((score): score is number => typeof score === 'number');
+  // Unscored answers sort between weak and strong ones
+  return scores.length > 0 ? scores.reduce((sum, score) => sum + score, 0) / scores.length : 3;
+}
+
+// Weak points from cross practice for redirect to repair: the examiner's weakness notes, low rubric
+// scores and contradictions from the consistency report, weakest answers first
+export function collectCrossWeaknesses(session: PracticeSession): CrossWeakness[] {
+  const contradictions = new Map<string, string[]>();
+  for (const issue of session.consistencyReport?.issues || []) {
+    const exchangeId = issue.statement.exchangeId;
+    if (!exchangeId) continue;
+    contradictions.set(exchangeId, [...(contradictions.get(exchangeId) || []), `Contradiction: ${issue.description}`]);
+  }
+
+  return session.practiceHistory
+    .filter(exchange => getExchangeMode(exchange) === 'cross')
+    .map(exchange => {
+      const weaknesses = [
+        ...(exchange.weaknessIdentified ? [exchange.weaknessIdentified] : []),
+        ...RUBRIC_DIMENSIONS
+          .filter(dimension => (exchange.rubric?.[dimension]?.score ?? Infinity) <= WEAK_RUBRIC_SCORE)
+          .map(dimension => `${RUBRIC_GUIDANCE[dimension].label} scored ${exchange.rubric?.[dimension].score}: ${exchange.rubric?.[dimension].explanation}`),
+        ...(contradictions.get(exchange.id) || []),
+      ];
+      return { exchange, weaknesses };
+    })
+    .filter(({ weaknesses }) => weaknesses.length > 0)
+    .sort((a, b) => meanScore(a.exchange) - meanScore(b.exchange))
+    .slice(0, MAX_REDIRECT_WEAKNESSES)
+    .map(({ exchange, weaknesses }) => ({
+      exchangeId: exchange.id,
+      question: exchange.question,
+      answer: exchange.witnessResponse,
+      weaknesses,
+    }));
+}
+
+// Numbered cross weaknesses for the redirect prompt
+export function formatWeaknessesForPrompt(weaknesses: CrossWeakness[]): string {
+  return weaknesses
+    .map((weakness, index) => `${index + 1}. Cross question: "${weakness.question}"
+   Witness answered: "${weakness.answer}"
+   Exposed: ${weakness.weaknesses.join(' | ')}`)
+    .join('\n');
+}
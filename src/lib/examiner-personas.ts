@@ -0,0 +1,121 @@
+// Examiner personas for practice mode
+// A persona sets the examiner's tone, pacing, share of leading questions and willingness to cut
+// the witness off; the hostility level (1-5) sets how hard it pushes within that style. The
+// chosen settings are stored on the session and shape both the follow-up and the feedback.
+
+import { ExaminerPersonaId, ExaminerSettings } from './types';
+
+export const MIN_HOSTILITY = 1;
+export const MAX_HOSTILITY = 5;
+
+export const EXAMINER_PERSONAS: ExaminerPersonaId[] = ['professional', 'courteous', 'aggressive', 'methodical'];
+
+export interface ExaminerPersonaProfile {
+  label: string;
+  description: string;
+  tone: string;
+  pacing: string;
+  leadingQuestionShare: number; // Out of 10 follow-ups, roughly how many are leading
+  interruptions: string;
+  feedbackFraming: string;
+  defaultHostility: number;
+  fallbackFollowUp: string; // Used when the model's response can't be read
+}
+
+export const EXAMINER_PERSONA_PROFILES: Record<ExaminerPersonaId, ExaminerPersonaProfile> = {
+  professional: {
+    label: 'Professional',
+    description: 'Firm, even-handed cross-examination',
+    tone: 'Professional and businesslike; firm but never rude',
+    pacing: 'Moderate - one clear point per question',
+    leadingQuestionShare: 6,
+    interruptions: 'Rarely. Only redirect the witness when the answer wanders far from the question',
+    feedbackFraming: 'Frame feedback around accuracy, responsiveness and how the answer would read in the transcript.',
+    defaultHostility: 2,
+    fallbackFollowUp: 'Can you elaborate on that answer?',
+  },
+  courteous: {
+    label: 'Courteous',
+    description: 'Friendly and polite, inviting the witness to say more than they should',
+    tone: 'Warm, polite and reassuring, as if on the witness\'s side',
+    pacing: 'Unhurried, with open questions that leave room to keep talking',
+    leadingQuestionShare: 3,
+    interruptions: 'Never. Let the witness talk; volunteered information is the goal',
+    feedbackFraming: 'Frame feedback around the trap of friendliness: point out anything the witness volunteered or conceded because the examiner seemed sympathetic.',
+    defaultHostility: 1,
+    fallbackFollowUp: 'That\'s helpful, thank you. Could you tell us a little more about that?',
+  },
+  aggressive: {
+    label: 'Aggressive',
+    description: 'Rapid-fire, confrontational questioning that tests composure',
+    tone: 'Sharp, impatient and openly skeptical of the witness',
+    pacing: 'Rapid-fire - very short questions, one fact each, no pauses',
+    leadingQuestionShare: 8,
+    interruptions: 'Often. When the answer rambles, hedges or dodges, cut the witness off at the start of the follow-up (e.g. "Stop. My question was...")',
+    feedbackFraming: 'Frame feedback around composure under pressure: whether the witness stayed calm, avoided sparring and kept answers short despite the pace.',
+    defaultHostility: 5,
+    fallbackFollowUp: 'That\'s not what I asked. Answer the question.',
+  },
+  methodical: {
+    label: 'Methodical',
+    description: 'Slow "death by a thousand yeses" with a chain of small leading questions',
+    tone: 'Calm, patient and precise',
+    pacing: 'Slow and deliberate - build toward the damaging point one small, undeniable fact at a time',
+    leadingQuestionShare: 10,
+    interruptions: 'Only to hold the witness to yes or no when they try to explain',
+    feedbackFraming: 'Frame feedback around the chain being built: which small concessions lead where, and where the witness could have fairly qualified an answer instead of simply agreeing.',
+    defaultHostility: 3,
+    fallbackFollowUp: 'So your answer is yes?',
+  },
+};
+
+const HOSTILITY_LEVELS: Record<number, string> = {
+  1: 'Cordial - no pressure at all',
+  2: 'Firm - presses on evasive answers but stays polite',
+  3: 'Pointed - openly doubts weak answers and repeats questions that were not answered',
+  4: 'Hostile - confrontational, challenges the witness\'s credibility directly',
+  5: 'Very hostile - sarcastic and relentless, but within what a judge would allow',
+};
+
+export const DEFAULT_EXAMINER_SETTINGS: ExaminerSettings = {
+  persona: 'professional',
+  hostility: EXAMINER_PERSONA_PROFILES.professional.defaultHostility,
+};
+
+// Settings stored on the session, or the default professional examiner
+export function resolveExaminerSettings(settings: ExaminerSettings | undefined): ExaminerSettings {
+  return settings || DEFAULT_EXAMINER_SETTINGS;
+}
+
+// Parse examiner settings from a request body; hostility defaults to the persona's own level
+export function parseExaminerSettings(value: unknown): { settings: ExaminerSettings } | { error: string } {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return { error: 'examinerSettings must be an object' };
+  }
+  const input = value as Record<string, unknown>;
+
+  const persona = input.persona === undefined ? DEFAULT_EXAMINER_SETTINGS.persona : input.persona;
+  if (!EXAMINER_PERSONAS.includes(persona as ExaminerPersonaId)) {
+    return { error: `persona must be one of ${EXAMINER_PERSONAS.join(', ')}` };
+  }
+
+  const profile = EXAMINER_PERSONA_PROFILES[persona as ExaminerPersonaId];
+  const hostility = input.hostility === undefined ? profile.defaultHostility : Number(input.hostility);
+  if (!Number.isInteger(hostility) || hostility < MIN_HOSTILITY || hostility > MAX_HOSTILITY) {
+    return { error: `hostility must be a whole number from ${MIN_HOSTILITY} to ${MAX_HOSTILITY}` };
+  }
+
+  return { settings: { persona: persona as ExaminerPersonaId, hostility } };
+}
+
+// Style instructions for the examiner prompt
+export function describeExaminerPersona(settings: ExaminerSettings): string {
+  const profile = EXAMINER_PERSONA_PROFILES[settings.persona];
+  return `EXAMINER STYLE - ${profile.label} (hostility ${settings.hostility} of ${MAX_HOSTILITY}):
+- Tone: ${profile.tone}
+- Hostility: ${HOSTILITY_LEVELS[settings.hostility]}
+- Pacing: ${profile.pacing}
+- Leading questions: about ${profile.leadingQuestionShare} in 10 of your follow-ups should be leading - a statement the witness can only confirm or deny
+- Interruptions: ${profile.interruptions}
+Write the follow-up question in this style. ${profile.feedbackFraming}`;
+}
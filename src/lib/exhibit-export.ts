@@ -0,0 +1,180 @@
+// Exhibit list and stamped exhibit copies
+// The exhibit list is a table of every pre-marked exhibit with its document, description and the
+// outline questions that use it, numbered as in the outline export. Exhibit copies are the original
+// PDF from the session's vault with the exhibit label stamped on every page. Documents that never
+// reached the vault, or whose original isn't a PDF, get a text rendition of the extracted text
+// instead, marked as such.
+
+import { PDFDocument, rgb, StandardFonts } from 'pdf-lib';
+import { getVaultObject } from './case-api';
+import { DepositionDocument, DepositionSession } from './deposition-types';
+import { describeExhibits, formatExhibitLabel, getExhibits, getExhibitSettings } from './exhibits';
+import { getOutlineSections } from './outline-export';
+import { renderPdf, ReportBlock, ReportDocument, toPdfText } from './report-document';
+
+export type ExhibitCopySource = 'original' | 'text-rendition';
+
+export interface ExhibitCopy {
+  file: Uint8Array;
+  label: string;
+  source: ExhibitCopySource;
+  notice?: string; // Why a text rendition was sent instead of the original
+}
+
+function describeSession(session: DepositionSession, generatedAt: Date): string[] {
+  return [
+    `Case: ${session.caseName}${session.caseNumber ? ` (No. ${session.caseNumber})` : ''}`,
+    `Deponent: ${session.deponentName}`,
+    [
+      session.depositionDate ? `Deposition ${session.depositionDate.toLocaleDateString('en-US')}` : '',
+      `Generated ${generatedAt.toLocaleDateString('en-US')}`,
+    ].filter(Boolean).join(' · '),
+  ];
+}
+
+// Question numbers as they appear in the outline export
+function getQuestionNumbers(session: DepositionSession): Map<string, number> {
+  const numbers = new Map<string, number>();
+  let number = 0;
+  for (const section of getOutlineSections(session)) {
+    for (const question of section.questions) numbers.set(question.id, ++number);
+  }
+  return numbers;
+}
+
+export function buildExhibitList(session: DepositionSession, generatedAt = new Date()): ReportDocument {
+  const exhibits = describeExhibits(session);
+  const questionNumbers = getQuestionNumbers(session);
+
+  const blocks: ReportBlock[] = [
+    { type: 'paragraph', text: `${exhibits.length} exhibit${exhibits.length === 1 ? '' : 's'} pre-marked`, muted: true },
+    {
+      type: 'table',
+      header: ['Exhibit', 'Document', 'Description', 'Outline questions'],
+      widths: [2, 4, 5, 2],
+      rows: exhibits.map(exhibit => [
+        exhibit.label,
+        exhibit.documentName,
+        exhibit.description || '',
+        exhibit.questionIds
+          .map(questionId => questionNumbers.get(questionId))
+          .filter((number): number is number => number !== undefined)
+          .sort((a, b) => a - b)
+          .join(', '),
+      ]),
+    },
+  ];
+
+  return {
+    title: `Exhibit List - ${session.deponentName}`,
+    subtitle: describeSession(session, generatedAt),
+    blocks,
+  };
+}
+
+// undefined when the exhibit doesn't exist
+function buildExhibitTextRendition(session: DepositionSession, exhibitId: string, notice: string, generatedAt = new Date()): ReportDocument | undefined {
+  const exhibit = getExhibits(session).find(item => item.id === exhibitId);
+  if (!exhibit) return undefined;
+  const document = session.documents.find(doc => doc.id === exhibit.documentId);
+  const label = formatExhibitLabel(getExhibitSettings(session), exhibit.sequence);
+
+  const blocks: ReportBlock[] = [
+    { type: 'paragraph', label: 'Text rendition', text: `${notice} This copy shows the text extracted from the upload, not the original pages.`, muted: true },
+  ];
+  if (exhibit.description) blocks.unshift({ type: 'paragraph', label: 'Description', text: exhibit.description });
+
+  if (document?.pages && document.pages.length > 1) {
+    for (const page of document.pages) {
+      blocks.push(
+        { type: 'heading', text: `Page ${page.pageNumber}`, level: 2 },
+        { type: 'paragraph', text: page.text.trim() || '(no text on this page)' }
+      );
+    }
+  } else if (document?.content?.trim()) {
+    blocks.push({ type: 'paragraph', text: document.content.trim() });
+  } else {
+    blocks.push({ type: 'paragraph', text: 'No text was extracted from this document.', muted: true });
+  }
+
+  return {
+    title: document?.name || label,
+    subtitle: [`${label} (text rendition)`, ...describeSession(session, generatedAt)],
+    blocks,
+    stamp: label,
+  };
+}
+
+const MM = 72 / 25.4; // PDF points per mm
+
+// Same sticker as the text rendition: top right, 20 mm from the edge, in the top margin
+async function stampPdf(original: Uint8Array, label: string): Promise<Uint8Array> {
+  const pdf = await PDFDocument.load(original);
+  const font = await pdf.embedFont(StandardFonts.HelveticaBold);
+  const text = toPdfText(label.toUpperCase());
+  const fontSize = 10;
+  const width = font.widthOfTextAtSize(text, fontSize) + 8 * MM;
+  const height = 9 * MM;
+
+  for (const page of pdf.getPages()) {
+    const box = page.getCropBox();
+    const x = box.x + box.width - 20 * MM - width;
+    const y = box.y + box.height - 5 * MM - height;
+    page.drawRectangle({
+      x,
+      y,
+      width,
+      height,
+      color: rgb(1, 250 / 255, 205 / 255),
+      borderColor: rgb(0, 0, 0),
+      borderWidth: 0.4 * MM,
+    });
+    page.drawText(text, {
+      x: x + (width - font.widthOfTextAtSize(text, fontSize)) / 2,
+      y: y + (height - fontSize * 0.7) / 2,
+      size: fontSize,
+      font,
+      color: rgb(0, 0, 0),
+    });
+  }
+
+  return pdf.save();
+}
+
+function isPdf(document: DepositionDocument): boolean {
+  return document.fileType === 'application/pdf' || /\.pdf$/i.test(document.name);
+}
+
+async function downloadOriginal(vaultId: string, objectId: string): Promise<Uint8Array> {
+  const object = await getVaultObject(vaultId, objectId);
+  const url = object?.downloadUrl;
+  if (!url) {
+    throw new Error('Vault API did not return a download URL for the exhibit');
+  }
+  const response = await fetch(String(url));
+  if (!response.ok) {
+    throw new Error(`Failed to download exhibit original: ${response.statusText}`);
+  }
+  return new Uint8Array(await response.arrayBuffer());
+}
+
+// The original PDF stamped with its label, or a marked text rendition when there is no PDF
+// original to stamp. undefined when the exhibit doesn't exist; vault errors are thrown.
+export async function buildExhibitCopy(session: DepositionSession, exhibitId: string, generatedAt = new Date()): Promise<ExhibitCopy | undefined> {
+  const exhibit = getExhibits(session).find(item => item.id === exhibitId);
+  if (!exhibit) return undefined;
+  const document = session.documents.find(doc => doc.id === exhibit.documentId);
+  const label = formatExhibitLabel(getExhibitSettings(session), exhibit.sequence);
+
+  const vaultId = document?.vaultId || session.vaultId;
+  if (document?.objectId && vaultId && isPdf(document)) {
+    const original = await downloadOriginal(vaultId, document.objectId);
+    return { file: await stampPdf(original, label), label, source: 'original' };
+  }
+
+  const notice = !document?.objectId || !vaultId
+    ? 'The original file was not stored in the vault, so it cannot be stamped.'
+    : 'The original is not a PDF, so its pages cannot be stamped.';
+  const rendition = buildExhibitTextRendition(session, exhibitId, notice, generatedAt)!;
+  return { file: renderPdf(rendition), label, source: 'text-rendition', notice };
+}
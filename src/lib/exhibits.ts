@@ -0,0 +1,365 @@
+// Deposition exhibit registry
+// Documents are pre-marked as exhibits before the deposition. Each exhibit keeps a sequence number
+// that is written with the session's prefix and numbering scheme ("Exhibit 3", "Doe Ex. C", "PX-12"),
+// and questions link to exhibits by ID. Numbers are not reused when an exhibit is removed, as on
+// the record; renumbering closes the gaps. Renumbering and setting changes are only allowed before
+// the deposition goes live.
+
+import { v4 as uuidv4 } from 'uuid';
+import {
+  DepositionOutline,
+  DepositionQuestion,
+  DepositionSession,
+  Exhibit,
+  ExhibitNumbering,
+  ExhibitSettings,
+} from './deposition-types';
+
+export const EXHIBIT_NUMBERINGS: ExhibitNumbering[] = ['numeric', 'alpha'];
+
+export const DEFAULT_EXHIBIT_SETTINGS: ExhibitSettings = {
+  prefix: 'Exhibit',
+  numbering: 'numeric',
+  startAt: 1,
+};
+
+const MAX_PREFIX_LENGTH = 20;
+const MAX_START_AT = 9999;
+const MAX_DESCRIPTION_LENGTH = 500;
+// Shorter document names match too much free text
+const MIN_MATCH_LENGTH = 4;
+
+export interface ExhibitView {
+  id: string;
+  label: string;
+  sequence: number;
+  documentId: string;
+  documentName: string;
+  description?: string;
+  questionIds: string[];
+  markedAt: string;
+}
+
+export function getExhibitSettings(session: DepositionSession): ExhibitSettings {
+  return session.exhibitSettings || DEFAULT_EXHIBIT_SETTINGS;
+}
+
+// Partial settings; fields left out keep their current values
+export function parseExhibitSettings(
+  body: Record<string, unknown>,
+  current: ExhibitSettings
+): { settings: ExhibitSettings } | { error: string } {
+  const settings = { ...current };
+
+  if (body.prefix !== undefined) {
+    if (typeof body.prefix !== 'string' || body.prefix.length > MAX_PREFIX_LENGTH) {
+      return { error: `prefix must be a string of at most ${MAX_PREFIX_LENGTH} characters` };
+    }
+    settings.prefix = body.prefix.trim();
+  }
+  if (body.numbering !== undefined) {
+    if (!EXHIBIT_NUMBERINGS.includes(body.numbering as ExhibitNumbering)) {
+      return { error: `numbering must be one of ${EXHIBIT_NUMBERINGS.join(', ')}` };
+    }
+    settings.numbering = body.numbering as ExhibitNumbering;
+  }
+  if (body.startAt !== undefined) {
+    if (typeof body.startAt !== 'number' || !Number.isInteger(body.startAt) || body.startAt < 1 || body.startAt > MAX_START_AT) {
+      return { error: `startAt must be a whole number from 1 to ${MAX_START_AT}` };
+    }
+    settings.startAt = body.startAt;
+  }
+
+  return { settings };
+}
+
+// 1 -> "1" or "A"; alpha continues Z, AA, AB like spreadsheet columns
+export function formatExhibitNumber(sequence: number, numbering: ExhibitNumbering): string {
+  if (numbering === 'numeric') return String(sequence);
+  let letters = '';
+  for (let n = sequence; n > 0; n = Math.floor((n - 1) / 26)) {
+    letters = String.fromCharCode(65 + ((n - 1) % 26)) + letters;
+  }
+  return letters;
+}
+
+// A prefix ending in a separator ("PX-", "Ex. #") is written without a space
+export function formatExhibitLabel(settings: ExhibitSettings, sequence: number): string {
+  const number = formatExhibitNumber(sequence, settings.numbering);
+  if (!settings.prefix) return number;
+  return /[-_#/]$/.test(settings.prefix) ? `${settings.prefix}${number}` : `${settings.prefix} ${number}`;
+}
+
+export function getExhibits(session: DepositionSession): Exhibit[] {
+  return [...(session.exhibits || [])].sort((a, b) => a.sequence - b.sequence);
+}
+
+export function getExhibitLabel(session: DepositionSession, exhibitId: string): string | undefined {
+  const exhibit = session.exhibits?.find(item => item.id === exhibitId);
+  return exhibit ? formatExhibitLabel(getExhibitSettings(session), exhibit.sequence) : undefined;
+}
+
+// Questions in the question list and in the outline; outline-only questions (added live) included
+function getAllQuestions(session: DepositionSession): DepositionQuestion[] {
+  const byId = new Map(session.questions.map(question => [question.id, question]));
+  for (const section of session.outline?.sections || []) {
+    for (const question of section.questions) {
+      if (!byId.has(question.id)) byId.set(question.id, question);
+    }
+  }
+  return [...byId.values()];
+}
+
+export function describeExhibits(session: DepositionSession): ExhibitView[] {
+  const settings = getExhibitSettings(session);
+  const questions = getAllQuestions(session);
+  return getExhibits(session).map(exhibit => ({
+    id: exhibit.id,
+    label: formatExhibitLabel(settings, exhibit.sequence),
+    sequence: exhibit.sequence,
+    documentId: exhibit.documentId,
+    documentName: session.documents.find(doc => doc.id === exhibit.documentId)?.name || 'Removed document',
+    description: exhibit.description,
+    questionIds: questions.filter(question => question.exhibitId === exhibit.id).map(question => question.id),
+    markedAt: exhibit.markedAt.toISOString(),
+  }));
+}
+
+function parseDescription(value: unknown): { description?: string } | { error: string } {
+  if (value === undefined || value === null) return { description: undefined };
+  if (typeof value !== 'string') return { error: 'description must be a string' };
+  return { description: value.trim().slice(0, MAX_DESCRIPTION_LENGTH) || undefined };
+}
+
+// The number the next marked exhibit gets. Sessions marked before the high-water mark was kept
+// continue from their highest exhibit.
+function getNextSequence(session: DepositionSession): number {
+  if (session.nextExhibitSequence !== undefined) return session.nextExhibitSequence;
+  const exhibits = session.exhibits || [];
+  return exhibits.length > 0
+    ? Math.max(...exhibits.map(exhibit => exhibit.sequence)) + 1
+    : getExhibitSettings(session).startAt;
+}
+
+// Mark the next exhibit number on a document; each document is marked once
+export function markExhibit(
+  session: DepositionSession,
+  documentId: unknown,
+  description: unknown,
+  now = new Date()
+): { exhibits: Exhibit[]; exhibit: Exhibit; nextExhibitSequence: number } | { error: string } {
+  if (typeof documentId !== 'string' || !session.documents.some(doc => doc.id === documentId)) {
+    return { error: 'documentId must be a document in this session' };
+  }
+  const existing = session.exhibits?.find(exhibit => exhibit.documentId === documentId);
+  if (existing) {
+    return { error: `The document is already marked as ${getExhibitLabel(session, existing.id)}` };
+  }
+  const parsed = parseDescription(description);
+  if ('error' in parsed) return parsed;
+
+  const sequence = getNextSequence(session);
+  const exhibit: Exhibit = { id: uuidv4(), sequence, documentId, description: parsed.description, markedAt: now };
+  return { exhibits: [...(session.exhibits || []), exhibit], exhibit, nextExhibitSequence: sequence + 1 };
+}
+
+export function updateExhibitDescription(
+  session: DepositionSession,
+  exhibitId: unknown,
+  description: unknown
+): { exhibits: Exhibit[] } | { error: string } {
+  if (!session.exhibits?.some(exhibit => exhibit.id === exhibitId)) {
+    return { error: 'exhibitId must be an exhibit in this session' };
+  }
+  const parsed = parseDescription(description);
+  if ('error' in parsed) return parsed;
+  return {
+    exhibits: session.exhibits.map(exhibit => exhibit.id === exhibitId ? { ...exhibit, description: parsed.description } : exhibit),
+  };
+}
+
+// Close the gaps left by removed exhibits, keeping their order. The only way numbers go back down.
+export function renumberExhibits(session: DepositionSession): { exhibits: Exhibit[]; nextExhibitSequence: number } | { error: string } {
+  if (session.live) {
+    return { error: 'Exhibits can only be renumbered before the deposition goes live; their labels are on the record' };
+  }
+  const { startAt } = getExhibitSettings(session);
+  const exhibits = getExhibits(session).map((exhibit, index) => ({ ...exhibit, sequence: startAt + index }));
+  return { exhibits, nextExhibitSequence: startAt + exhibits.length };
+}
+
+// Apply a change to every copy of each question: the question list and the outline sections
+function mapQuestions(
+  session: DepositionSession,
+  update: (question: DepositionQuestion) => DepositionQuestion,
+  now: Date
+): { questions: DepositionQuestion[]; outline: DepositionOutline | null } {
+  return {
+    questions: session.questions.map(update),
+    outline: session.outline ? {
+      ...session.outline,
+      sections: session.outline.sections.map(section => ({ ...section, questions: section.questions.map(update) })),
+      updatedAt: now,
+    } : null,
+  };
+}
+
+// Removing an exhibit unlinks its questions
+export function removeExhibit(
+  session: DepositionSession,
+  exhibitId: unknown,
+  now = new Date()
+): { exhibits: Exhibit[]; questions: DepositionQuestion[]; outline: DepositionOutline | null } | { error: string } {
+  if (!session.exhibits?.some(exhibit => exhibit.id === exhibitId)) {
+    return { error: 'exhibitId must be an exhibit in this session' };
+  }
+  return {
+    exhibits: session.exhibits.filter(exhibit => exhibit.id !== exhibitId),
+    ...mapQuestions(session, question => question.exhibitId === exhibitId ? { ...question, exhibitId: undefined } : question, now),
+  };
+}
+
+// Link a question to an exhibit, or unlink it with a null exhibitId
+export function linkQuestionToExhibit(
+  session: DepositionSession,
+  questionId: unknown,
+  exhibitId: unknown,
+  now = new Date()
+): { questions: DepositionQuestion[]; outline: DepositionOutline | null } | { error: string } {
+  if (typeof questionId !== 'string' || !getAllQuestions(session).some(question => question.id === questionId)) {
+    return { error: 'questionId must be a question in this session' };
+  }
+  if (exhibitId !== null && !session.exhibits?.some(exhibit => exhibit.id === exhibitId)) {
+    return { error: 'exhibitId must be an exhibit in this session, or null to unlink' };
+  }
+  return mapQuestions(
+    session,
+    question => question.id === questionId ? { ...question, exhibitId: (exhibitId as string | null) || undefined } : question,
+    now
+  );
+}
+
+function normalizeName(text: string): string {
+  return text.toLowerCase().replace(/\.[a-z0-9]{2,4}$/, '').replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+// Link unlinked questions whose exhibitToShow or documentReference names an exhibit's document.
+// Exhibit numbers in generated text predate the registry, so labels are not matched.
+export function autoLinkQuestions(
+  session: DepositionSession,
+  now = new Date()
+): { questions: DepositionQuestion[]; outline: DepositionOutline | null; linked: number } {
+  const names = getExhibits(session)
+    .map(exhibit => ({
+      exhibitId: exhibit.id,
+      name: normalizeName(session.documents.find(doc => doc.id === exhibit.documentId)?.name || ''),
+    }))
+    .filter(entry => entry.name.length >= MIN_MATCH_LENGTH);
+
+  // Whole words only, so "log" doesn't match "catalog"
+  const findExhibit = (question: DepositionQuestion): string | undefined => {
+    const texts = [question.exhibitToShow, question.documentReference]
+      .filter((text): text is string => Boolean(text))
+      .map(text => ` ${normalizeName(text)} `);
+    return names.find(entry => texts.some(text => text.includes(` ${entry.name} `)))?.exhibitId;
+  };
+
+  const linkedIds = new Set<string>();
+  const result = mapQuestions(session, question => {
+    if (question.exhibitId) return question;
+    const exhibitId = findExhibit(question);
+    if (!exhibitId) return question;
+    linkedIds.add(question.id);
+    return { ...question, exhibitId };
+  }, now);
+  return { ...result, linked: linkedIds.size };
+}
+
+export const EXHIBIT_ACTIONS = ['configure', 'mark', 'mark_all', 'update', 'remove', 'renumber', 'link_question', 'auto_link'] as const;
+
+// Applies one registry action from a request body; the caller saves the updates on the session
+export function applyExhibitAction(
+  session: DepositionSession,
+  body: Record<string, unknown>,
+  now = new Date()
+): { updates: Partial<DepositionSession>; linked?: number } | { error: string } {
+  const action = body.action as typeof EXHIBIT_ACTIONS[number];
+  if (!EXHIBIT_ACTIONS.includes(action)) {
+    return { error: `action must be one of ${EXHIBIT_ACTIONS.join(', ')}` };
+  }
+
+  switch (action) {
+    case 'configure': {
+      if (session.live) {
+        return { error: 'Exhibit settings can only be changed before the deposition goes live; the labels are on the record' };
+      }
+      const current = getExhibitSettings(session);
+      const parsed = parseExhibitSettings(body, current);
+      if ('error' in parsed) return parsed;
+      if (parsed.settings.startAt === current.startAt || !session.exhibits?.length) {
+        return { updates: { exhibitSettings: parsed.settings } };
+      }
+      // With exhibits marked, a new start only moves the next number forward; lower ones are taken
+      const next = getNextSequence(session);
+      if (parsed.settings.startAt < next) {
+        return { error: `startAt must be at least ${next}, the next exhibit number, while exhibits are marked; renumber to start lower` };
+      }
+      return { updates: { exhibitSettings: parsed.settings, nextExhibitSequence: parsed.settings.startAt } };
+    }
+
+    case 'mark': {
+      const marked = markExhibit(session, body.documentId, body.description, now);
+      if ('error' in marked) return marked;
+      return { updates: { exhibits: marked.exhibits, nextExhibitSequence: marked.nextExhibitSequence } };
+    }
+
+    // Pre-mark every document uploaded as an exhibit, in upload order
+    case 'mark_all': {
+      const unmarked = session.documents.filter(doc =>
+        doc.type === 'exhibit' && !session.exhibits?.some(exhibit => exhibit.documentId === doc.id)
+      );
+      if (unmarked.length === 0) {
+        return { error: 'Every document uploaded as an exhibit is already marked' };
+      }
+      let current = session;
+      for (const doc of unmarked) {
+        const marked = markExhibit(current, doc.id, undefined, now);
+        if ('error' in marked) return marked;
+        current = { ...current, exhibits: marked.exhibits, nextExhibitSequence: marked.nextExhibitSequence };
+      }
+      return { updates: { exhibits: current.exhibits, nextExhibitSequence: current.nextExhibitSequence } };
+    }
+
+    case 'update': {
+      const updated = updateExhibitDescription(session, body.exhibitId, body.description);
+      if ('error' in updated) return updated;
+      return { updates: updated };
+    }
+
+    case 'remove': {
+      const removed = removeExhibit(session, body.exhibitId, now);
+      if ('error' in removed) return removed;
+      return { updates: removed };
+    }
+
+    // An optional startAt is applied with the renumbering, the only way to start below marked numbers
+    case 'renumber': {
+      const parsed = parseExhibitSettings({ startAt: body.startAt }, getExhibitSettings(session));
+      if ('error' in parsed) return parsed;
+      const renumbered = renumberExhibits({ ...session, exhibitSettings: parsed.settings });
+      if ('error' in renumbered) return renumbered;
+      return { updates: { ...renumbered, exhibitSettings: parsed.settings } };
+    }
+
+    case 'link_question': {
+      const linked = linkQuestionToExhibit(session, body.questionId, body.exhibitId ?? null, now);
+      if ('error' in linked) return linked;
+      return { updates: linked };
+    }
+
+    case 'auto_link': {
+      const { linked, ...updates } = autoLinkQuestions(session, now);
+      return { updates, linked };
+    }
+  }
+}
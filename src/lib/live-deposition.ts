@@ -0,0 +1,222 @@
+// Live deposition mode
+// On the day, the examiner works down the outline marking each question asked, skipped or deferred,
+// with a note of the deponent's answer. A record clock runs only while on the record and counts
+// time against the active section; marking a question asked moves the clock to that question's
+// section. Summaries report progress per section and the high-priority questions still to ask.
+
+import { DepositionSession, LiveDeposition, LiveQuestionStatus, OutlineSection } from './deposition-types';
+import { estimateSectionMinutes, getTimeLimitMinutes } from './time-budget';
+
+export const LIVE_QUESTION_STATUSES: LiveQuestionStatus[] = ['pending', 'asked', 'skipped', 'deferred'];
+
+export const LIVE_ACTIONS = ['start', 'go_on_record', 'go_off_record', 'set_section', 'update_question', 'end'] as const;
+
+const MAX_ANSWER_SUMMARY_LENGTH = 2000;
+
+export interface LiveSectionProgress {
+  sectionId: string;
+  title: string;
+  questionCount: number;
+  counts: Record<LiveQuestionStatus, number>;
+  recordSeconds: number;
+  estimatedMinutes: number;
+}
+
+export interface UnaskedQuestion {
+  questionId: string;
+  question: string;
+  sectionId: string;
+  sectionTitle: string;
+  status: 'pending' | 'deferred';
+}
+
+export interface LiveProgress {
+  onRecord: boolean;
+  ended: boolean;
+  activeSectionId?: string;
+  recordSeconds: number;
+  limitMinutes: number;
+  remainingSeconds: number; // Negative once the limit is passed
+  counts: Record<LiveQuestionStatus, number>;
+  sections: LiveSectionProgress[];
+  unaskedHighPriority: UnaskedQuestion[]; // Pending or deferred; skipped questions were dropped on purpose
+}
+
+function getSections(session: DepositionSession): OutlineSection[] {
+  return [...(session.outline?.sections || [])].sort((a, b) => a.order - b.order);
+}
+
+function findQuestionSection(session: DepositionSession, questionId: string): OutlineSection | undefined {
+  return getSections(session).find(section => section.questions.some(question => question.id === questionId));
+}
+
+export function getLiveQuestionStatus(live: LiveDeposition, questionId: string): LiveQuestionStatus {
+  return live.questions[questionId]?.status || 'pending';
+}
+
+// Add the running stretch of record time to the active section and restart the stretch at now
+function accrueRecordTime(live: LiveDeposition, now: Date): LiveDeposition {
+  if (!live.onRecordSince) return live;
+  const sectionSeconds = { ...live.sectionSeconds };
+  if (live.activeSectionId) {
+    const elapsed = Math.max(0, Math.round((now.getTime() - live.onRecordSince.getTime()) / 1000));
+    sectionSeconds[live.activeSectionId] = (sectionSeconds[live.activeSectionId] || 0) + elapsed;
+  }
+  return { ...live, sectionSeconds, onRecordSince: now };
+}
+
+function getSectionSeconds(live: LiveDeposition, sectionId: string, now: Date): number {
+  return accrueRecordTime(live, now).sectionSeconds[sectionId] || 0;
+}
+
+function parseSectionId(session: DepositionSession, value: unknown): { sectionId: string } | { error: string } {
+  if (typeof value !== 'string' || !getSections(session).some(section => section.id === value)) {
+    return { error: 'sectionId must be a section of the outline' };
+  }
+  return { sectionId: value };
+}
+
+// Applies one live action from a request body; the caller saves the result on the session
+export function applyLiveAction(
+  session: DepositionSession,
+  body: Record<string, unknown>,
+  now = new Date()
+): { live: LiveDeposition } | { error: string } {
+  const action = body.action as typeof LIVE_ACTIONS[number];
+  if (!LIVE_ACTIONS.includes(action)) {
+    return { error: `action must be one of ${LIVE_ACTIONS.join(', ')}` };
+  }
+
+  const sections = getSections(session);
+  if (action === 'start') {
+    if (sections.length === 0) {
+      return { error: 'Organize the outline before going live' };
+    }
+    // Starting again after the end resumes the same deposition
+    if (session.live) {
+      return { live: { ...session.live, endedAt: undefined } };
+    }
+    return {
+      live: {
+        startedAt: now,
+        questions: {},
+        activeSectionId: sections[0].id,
+        sectionSeconds: {},
+      },
+    };
+  }
+
+  const live = session.live;
+  if (!live) return { error: 'Start the live deposition first' };
+  if (live.endedAt) return { error: 'The deposition has ended; start it again to resume' };
+
+  switch (action) {
+    case 'go_on_record': {
+      let activeSectionId = live.activeSectionId;
+      if (body.sectionId !== undefined) {
+        const parsed = parseSectionId(session, body.sectionId);
+        if ('error' in parsed) return parsed;
+        activeSectionId = parsed.sectionId;
+      }
+      return { live: { ...accrueRecordTime(live, now), activeSectionId, onRecordSince: now } };
+    }
+
+    case 'go_off_record':
+      return { live: { ...accrueRecordTime(live, now), onRecordSince: undefined } };
+
+    case 'set_section': {
+      const parsed = parseSectionId(session, body.sectionId);
+      if ('error' in parsed) return parsed;
+      return { live: { ...accrueRecordTime(live, now), activeSectionId: parsed.sectionId } };
+    }
+
+    case 'update_question': {
+      const questionId = body.questionId;
+      const section = typeof questionId === 'string' ? findQuestionSection(session, questionId) : undefined;
+      if (typeof questionId !== 'string' || !section) {
+        return { error: 'questionId must be a question in the outline' };
+      }
+      if (body.status === undefined && body.answerSummary === undefined) {
+        return { error: 'Provide a status, an answerSummary or both' };
+      }
+      if (body.status !== undefined && !LIVE_QUESTION_STATUSES.includes(body.status as LiveQuestionStatus)) {
+        return { error: `status must be one of ${LIVE_QUESTION_STATUSES.join(', ')}` };
+      }
+      if (body.answerSummary !== undefined && body.answerSummary !== null && typeof body.answerSummary !== 'string') {
+        return { error: 'answerSummary must be a string' };
+      }
+
+      const current = live.questions[questionId];
+      const status = (body.status as LiveQuestionStatus | undefined) ?? current?.status ?? 'pending';
+      const answerSummary = body.answerSummary === undefined
+        ? current?.answerSummary
+        : ((body.answerSummary as string | null) || '').trim().slice(0, MAX_ANSWER_SUMMARY_LENGTH) || undefined;
+
+      // Asking a question means examination has moved to its section
+      const moved = status === 'asked' && section.id !== live.activeSectionId
+        ? { ...accrueRecordTime(live, now), activeSectionId: section.id }
+        : live;
+      return {
+        live: {
+          ...moved,
+          questions: { ...live.questions, [questionId]: { status, answerSummary, updatedAt: now } },
+        },
+      };
+    }
+
+    case 'end':
+      return { live: { ...accrueRecordTime(live, now), onRecordSince: undefined, endedAt: now } };
+  }
+}
+
+function emptyCounts(): Record<LiveQuestionStatus, number> {
+  return { pending: 0, asked: 0, skipped: 0, deferred: 0 };
+}
+
+export function summarizeLiveDeposition(session: DepositionSession, now = new Date()): LiveProgress | null {
+  const live = session.live;
+  if (!live) return null;
+
+  const counts = emptyCounts();
+  const unaskedHighPriority: UnaskedQuestion[] = [];
+  const sections = getSections(session).map(section => {
+    const sectionCounts = emptyCounts();
+    for (const question of section.questions) {
+      const status = getLiveQuestionStatus(live, question.id);
+      sectionCounts[status]++;
+      counts[status]++;
+      if (question.priority === 'high' && (status === 'pending' || status === 'deferred')) {
+        unaskedHighPriority.push({
+          questionId: question.id,
+          question: question.question,
+          sectionId: section.id,
+          sectionTitle: section.title,
+          status,
+        });
+      }
+    }
+    return {
+      sectionId: section.id,
+      title: section.title,
+      questionCount: section.questions.length,
+      counts: sectionCounts,
+      recordSeconds: getSectionSeconds(live, section.id, now),
+      estimatedMinutes: estimateSectionMinutes(section.questions),
+    };
+  });
+
+  const recordSeconds = Object.values(accrueRecordTime(live, now).sectionSeconds).reduce((sum, seconds) => sum + seconds, 0);
+  const limitMinutes = getTimeLimitMinutes(session);
+
+  return {
+    onRecord: Boolean(live.onRecordSince),
+    ended: Boolean(live.endedAt),
+    activeSectionId: live.activeSectionId,
+    recordSeconds,
+    limitMinutes,
+    remainingSeconds: limitMinutes * 60 - recordSeconds,
+    counts,
+    sections,
+    unaskedHighPriority,
+  };
+}
@@ -0,0 +1,178 @@
+// Declared shapes of the JSON each LLM task must return
+// Routes validate every response against these before using it (see completeStructured in llm.ts).
+
+import { array, number, object, oneOf, optional, string, stringOrNumber, Infer } from './schema';
+import { RUBRIC_MIN_SCORE, RUBRIC_MAX_SCORE } from './rubric';
+
+export const CROSS_EXAM_CATEGORIES = ['timeline', 'credibility', 'inconsistency', 'foundation', 'impeachment', 'general'] as const;
+export const DIRECT_EXAM_CATEGORIES = ['background', 'narrative', 'exhibits', 'rehabilitation'] as const;
+export const DIFFICULTIES = ['easy', 'medium', 'hard'] as const;
+export const DEPOSITION_CATEGORIES = ['gap', 'contradiction', 'timeline', 'foundation', 'impeachment', 'follow_up', 'general'] as const;
+export const PRIORITIES = ['high', 'medium', 'low'] as const;
+export const SEVERITIES = ['minor', 'moderate', 'significant'] as const;
+export const OBJECTION_TYPES = ['compound', 'assumes_facts', 'argumentative', 'asked_and_answered', 'speculation', 'form'] as const;
+
+const stringList = array(string());
+
+// CrossExamQuestion without the server-assigned id
+export const crossExamQuestionSchema = object({
+  question: string(),
+  category: oneOf(CROSS_EXAM_CATEGORIES),
+  difficulty: oneOf(DIFFICULTIES),
+  suggestedApproach: optional(string()),
+  weakPoint: optional(string()),
+  followUpQuestions: optional(stringList),
+  documentReference: optional(string()),
+  sourceChunkIds: optional(stringList),
+});
+
+export const crossExamQuestionsSchema = array(crossExamQuestionSchema, { min: 1 });
+
+export type GeneratedCrossExamQuestion = Infer<typeof crossExamQuestionSchema>;
+
+// Direct and redirect questions share the cross-examination shape with their own categories
+export const directExamQuestionSchema = object({
+  question: string(),
+  category: oneOf(DIRECT_EXAM_CATEGORIES),
+  difficulty: oneOf(DIFFICULTIES),
+  suggestedApproach: optional(string()),
+  weakPoint: optional(string()),
+  followUpQuestions: optional(stringList),
+  documentReference: optional(string()),
+  sourceChunkIds: optional(stringList),
+});
+
+export const directExamQuestionsSchema = array(directExamQuestionSchema, { min: 1 });
+
+// DepositionQuestion without the server-assigned id
+export const depositionQuestionSchema = object({
+  question: string(),
+  topic: string(),
+  category: oneOf(DEPOSITION_CATEGORIES),
+  priority: oneOf(PRIORITIES),
+  documentReference: optional(string()),
+  pageReference: optional(stringOrNumber()),
+  rationale: optional(string()),
+  followUpQuestions: optional(stringList),
+  exhibitToShow: optional(string()),
+  sourceChunkIds: optional(stringList),
+});
+
+const contradictionSourceSchema = object({
+  document: string(),
+  excerpt: string(),
+  page: optional(stringOrNumber()),
+});
+
+// Deposition analysis: gaps, contradictions, case analysis and questions
+export const analysisResultSchema = object({
+  gaps: array(object({
+    description: string(),
+    documentReferences: stringList,
+    severity: oneOf(SEVERITIES),
+    suggestedQuestions: stringList,
+  })),
+  contradictions: array(object({
+    description: string(),
+    source1: contradictionSourceSchema,
+    source2: contradictionSourceSchema,
+    severity: oneOf(SEVERITIES),
+    suggestedQuestions: stringList,
+  })),
+  analysis: object({
+    keyThemes: stringList,
+    timelineEvents: array(object({
+      date: string(),
+      event: string(),
+      source: string(),
+    })),
+    witnesses: stringList,
+    keyExhibits: stringList,
+  }),
+  questions: array(depositionQuestionSchema, { min: 1 }),
+});
+
+export type GeneratedAnalysis = Infer<typeof analysisResultSchema>;
+
+const rubricScoreSchema = object({
+  score: number({ min: RUBRIC_MIN_SCORE, max: RUBRIC_MAX_SCORE, integer: true }),
+  explanation: string(),
+});
+
+// AnswerRubric - one score per RUBRIC_DIMENSIONS entry
+export const answerRubricSchema = object({
+  responsiveness: rubricScoreSchema,
+  volunteering: rubricScoreSchema,
+  documentConsistency: rubricScoreSchema,
+  certainty: rubricScoreSchema,
+  composure: rubricScoreSchema,
+  length: rubricScoreSchema,
+});
+
+export const aiExaminerResponseSchema = object({
+  followUp: string(),
+  feedback: string(),
+  weaknessIdentified: optional(string()),
+  suggestedImprovement: optional(string()),
+  rubric: answerRubricSchema,
+  sourceChunkIds: optional(stringList),
+});
+
+// Consistency check: answers are cited by their number in the prompt, documents by chunk ID
+const answerNumberSchema = number({ min: 1, integer: true });
+
+export const consistencyCheckSchema = object({
+  assertions: array(object({
+    answer: answerNumberSchema,
+    claim: string(),
+  })),
+  contradictions: array(object({
+    type: oneOf(['answer_vs_answer', 'answer_vs_document'] as const),
+    description: string(),
+    severity: oneOf(SEVERITIES),
+    statement: object({
+      answer: answerNumberSchema,
+      quote: string(),
+    }),
+    conflictsWith: object({
+      answer: optional(answerNumberSchema),
+      document: optional(string()),
+      chunkId: optional(string()),
+      quote: string(),
+    }),
+    suggestion: optional(string()),
+  })),
+});
+
+export type GeneratedConsistencyCheck = Infer<typeof consistencyCheckSchema>;
+
+// Defending counsel's objections to one examiner question
+export const objectionReviewSchema = object({
+  objections: array(object({
+    type: oneOf(OBJECTION_TYPES),
+    grounds: string(),
+  })),
+  pauseGuidance: string(),
+});
+
+export type GeneratedObjectionReview = Infer<typeof objectionReviewSchema>;
+
+// Review of new rough transcript testimony: exchanges and known contradictions are cited by their
+// number in the prompt
+const exchangeNumberSchema = number({ min: 1, integer: true });
+
+export const roughTranscriptReviewSchema = object({
+  conflicts: array(object({
+    exchange: exchangeNumberSchema,
+    contradiction: number({ min: 1, integer: true }),
+    explanation: string(),
+    severity: oneOf(SEVERITIES),
+  })),
+  followUps: array(object({
+    exchange: exchangeNumberSchema,
+    question: string(),
+    rationale: string(),
+  })),
+});
+
+export type GeneratedRoughTranscriptReview = Infer<typeof roughTranscriptReviewSchema>;
@@ -0,0 +1,252 @@
+// LLM client used by every route that talks to a model
+// Routes name a task; the model, temperature and max_tokens for that task come from LLM_TASKS
+// (overridable per task with LLM_<TASK>_MODEL, LLM_<TASK>_TEMPERATURE and LLM_<TASK>_MAX_TOKENS).
+// The provider is selected with the LLM_PROVIDER environment variable:
+//   casedev (default) - Case.dev LLM API via src/lib/case-api.ts
+//   mock              - replays canned JSON from fixtures/llm (or LLM_MOCK_DIR), no network
+
+import fs from 'fs';
+import path from 'path';
+import { chatCompletion, streamChatCompletion, ChatMessage } from './case-api';
+import { Schema, ValidationResult, extractJSON, validate } from './schema';
+
+export type { ChatMessage } from './case-api';
+
+export type LLMTask =
+  | 'questionGeneration'
+  | 'directExamGeneration'
+  | 'depositionAnalysis'
+  | 'practiceFeedback'
+  | 'questionRevision'
+  | 'directExamRevision'
+  | 'depositionQuestionRevision'
+  | 'consistencyCheck'
+  | 'objectionReview'
+  | 'roughTranscriptReview';
+
+export interface LLMTaskConfig {
+  model: string;
+  temperature: number;
+  maxTokens: number;
+}
+
+export const LLM_TASKS: Record<LLMTask, LLMTaskConfig> = {
+  questionGeneration: { model: 'casemark/casemark-core-1', temperature: 0.7, maxTokens: 8000 },
+  directExamGeneration: { model: 'casemark/casemark-core-1', temperature: 0.7, maxTokens: 8000 },
+  depositionAnalysis: { model: 'casemark/casemark-core-1', temperature: 0.7, maxTokens: 8000 },
+  practiceFeedback: { model: 'anthropic/claude-3-haiku-20240307', temperature: 0.7, maxTokens: 1000 },
+  questionRevision: { model: 'casemark/casemark-core-1', temperature: 0.7, maxTokens: 1500 },
+  directExamRevision: { model: 'casemark/casemark-core-1', temperature: 0.7, maxTokens: 1500 },
+  depositionQuestionRevision: { model: 'casemark/casemark-core-1', temperature: 0.7, maxTokens: 1500 },
+  consistencyCheck: { model: 'casemark/casemark-core-1', temperature: 0.2, maxTokens: 4000 },
+  objectionReview: { model: 'anthropic/claude-3-haiku-20240307', temperature: 0.2, maxTokens: 800 },
+  roughTranscriptReview: { model: 'anthropic/claude-3-haiku-20240307', temperature: 0.3, maxTokens: 1500 },
+};
+
+export type LLMProviderName = 'casedev' | 'mock';
+
+export interface LLMProvider {
+  name: LLMProviderName;
+  complete(messages: ChatMessage[], task: LLMTask, config: LLMTaskConfig): Promise<string>;
+  stream(messages: ChatMessage[], task: LLMTask, config: LLMTaskConfig): AsyncGenerator<string>;
+}
+
+const DEFAULT_MOCK_DIR = path.join('fixtures', 'llm');
+const MOCK_STREAM_CHUNK_SIZE = 200;
+const DEFAULT_MAX_REPAIR_ATTEMPTS = 2;
+const MAX_REPAIR_ISSUES = 20;
+
+export interface StructuredResult<T> {
+  data: T;
+  attempts: number; // 1 when the first response was valid
+}
+
+// Thrown when a response still fails its schema after every repair attempt
+export class StructuredOutputError extends Error {
+  constructor(
+    message: string,
+    public readonly issues: string[],
+    public readonly content: string
+  ) {
+    super(message);
+    this.name = 'StructuredOutputError';
+  }
+}
+
+export function getLLMProviderName(): LLMProviderName {
+  const provider = (process.env.LLM_PROVIDER || 'casedev').toLowerCase();
+  if (provider !== 'casedev' && provider !== 'mock') {
+    throw new Error(`Unknown LLM_PROVIDER "${provider}". Use "casedev" or "mock".`);
+  }
+  return provider;
+}
+
+// The mock provider needs no credentials; Case.dev needs CASEDEV_API_KEY
+export function isLLMConfigured(): boolean {
+  return getLLMProviderName() === 'mock' || Boolean(process.env.CASEDEV_API_KEY);
+}
+
+// questionGeneration -> QUESTION_GENERATION
+function envPrefix(task: LLMTask): string {
+  return `LLM_${task.replace(/([A-Z])/g, '_$1').toUpperCase()}`;
+}
+
+function readNumber(name: string): number | undefined {
+  const value = process.env[name];
+  if (value === undefined || value === '') return undefined;
+  const number = Number(value);
+  return Number.isFinite(number) ? number : undefined;
+}
+
+export function getTaskConfig(task: LLMTask): LLMTaskConfig {
+  const defaults = LLM_TASKS[task];
+  const prefix = envPrefix(task);
+  return {
+    model: process.env[`${prefix}_MODEL`] || defaults.model,
+    temperature: readNumber(`${prefix}_TEMPERATURE`) ?? defaults.temperature,
+    maxTokens: readNumber(`${prefix}_MAX_TOKENS`) ?? defaults.maxTokens,
+  };
+}
+
+function createCaseDevProvider(): LLMProvider {
+  return {
+    name: 'casedev',
+    async complete(messages, _task, config) {
+      const data = await chatCompletion(messages, {
+        model: config.model,
+        temperature: config.temperature,
+        max_tokens: config.maxTokens,
+      });
+      return data.choices?.[0]?.message?.content || '';
+    },
+    stream(messages, _task, config) {
+      return streamChatCompletion(messages, {
+        model: config.model,
+        temperature: config.temperature,
+        max_tokens: config.maxTokens,
+      });
+    },
+  };
+}
+
+// Canned responses are stored per task as fixtures/llm/<task-name>.json, e.g. question-generation.json
+function readFixture(task: LLMTask): string {
+  const directory = process.env.LLM_MOCK_DIR || DEFAULT_MOCK_DIR;
+  const filename = `${task.replace(/([A-Z])/g, '-$1').toLowerCase()}.json`;
+  const filePath = path.resolve(process.cwd(), directory, filename);
+
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`No mock LLM fixture for task "${task}" at ${filePath}`);
+  }
+  // Round-trip through JSON.parse so a broken fixture fails here rather than in the route
+  return JSON.stringify(JSON.parse(fs.readFileSync(filePath, 'utf8')), null, 2);
+}
+
+function createMockProvider(): LLMProvider {
+  return {
+    name: 'mock',
+    async complete(_messages, task) {
+      return readFixture(task);
+    },
+    async *stream(_messages, task) {
+      const content = readFixture(task);
+      for (let i = 0; i < content.length; i += MOCK_STREAM_CHUNK_SIZE) {
+        yield content.slice(i, i + MOCK_STREAM_CHUNK_SIZE);
+      }
+    },
+  };
+}
+
+export function getLLMProvider(): LLMProvider {
+  return getLLMProviderName() === 'mock' ? createMockProvider() : createCaseDevProvider();
+}
+
+// Run a task and return the model's text. Throws when the provider fails.
+export async function completeChat(task: LLMTask, messages: ChatMessage[]): Promise<string> {
+  return getLLMProvider().complete(messages, task, getTaskConfig(task));
+}
+
+// Run a task and yield the model's text as it arrives
+export function streamChat(task: LLMTask, messages: ChatMessage[]): AsyncGenerator<string> {
+  return getLLMProvider().stream(messages, task, getTaskConfig(task));
+}
+
+// Repair requests sent after an invalid response, LLM_MAX_REPAIR_ATTEMPTS (default 2)
+export function getMaxRepairAttempts(): number {
+  const attempts = readNumber('LLM_MAX_REPAIR_ATTEMPTS');
+  return attempts !== undefined && attempts >= 0 ? Math.floor(attempts) : DEFAULT_MAX_REPAIR_ATTEMPTS;
+}
+
+function checkResponse<T>(content: string, schema: Schema<T>): ValidationResult<T> {
+  let parsed: unknown;
+  try {
+    parsed = extractJSON(content);
+  } catch (error) {
+    return { ok: false, issues: [error instanceof Error ? error.message : String(error)] };
+  }
+  return validate(schema, parsed);
+}
+
+function buildRepairPrompt(issues: string[], schema: Schema<unknown>): string {
+  const listed = issues.slice(0, MAX_REPAIR_ISSUES).map(issue => `- ${issue}`).join('\n');
+  const more = issues.length > MAX_REPAIR_ISSUES ? `\n- ...and ${issues.length - MAX_REPAIR_ISSUES} more` : '';
+  return `Your previous response could not be used because it does not match the required format:
+${listed}${more}
+
+Required shape: ${schema.description}
+
+Return the complete corrected JSON only. No markdown, no code blocks, no text before or after the JSON.`;
+}
+
+// Validate a response against its schema, asking the model to repair it up to the retry limit.
+// Takes the first response as content so streamed output can be validated the same way.
+export async function repairStructured<T>(
+  task: LLMTask,
+  messages: ChatMessage[],
+  content: string,
+  schema: Schema<T>
+): Promise<StructuredResult<T>> {
+  const maxRepairs = getMaxRepairAttempts();
+  const conversation = [...messages];
+  let current = content;
+
+  for (let attempt = 1; ; attempt++) {
+    const result = checkResponse(current, schema);
+    if (result.ok) {
+      return { data: result.value, attempts: attempt };
+    }
+
+    if (attempt > maxRepairs) {
+      throw new StructuredOutputError(
+        `${task} response failed validation after ${attempt} attempt(s): ${result.issues.slice(0, 3).join('; ')}`,
+        result.issues,
+        current
+      );
+    }
+
+    console.warn(`${task} response failed validation (attempt ${attempt}), requesting repair:`, result.issues.slice(0, 5));
+    conversation.push(
+      { role: 'assistant', content: current },
+      { role: 'user', content: buildRepairPrompt(result.issues, schema) }
+    );
+    current = await completeChat(task, conversation);
+  }
+}
+
+// Run a task whose response must be JSON matching the schema
+export async function completeStructured<T>(
+  task: LLMTask,
+  messages: ChatMessage[],
+  schema: Schema<T>
+): Promise<StructuredResult<T>> {
+  const content = await completeChat(task, messages);
+  return repairStructured(task, messages, content, schema);
+}
+
+// Short, user-facing explanation of why a task fell back to canned content
+export function describeLLMFailure(error: unknown): string {
+  if (error instanceof StructuredOutputError) {
+    return 'The AI response did not match the expected format, even after repair attempts.';
+  }
+  return 'The AI service could not be reached.';
+}
@@ -0,0 +1,93 @@
+// Simulated defending counsel for practice mode
+// Before the witness answers, every examiner question and follow-up is reviewed for the common
+// objections to form. The ruling tells the witness when to pause and how to proceed, and it is
+// logged on the exchange with the answer that follows.
+
+import { Objection, ObjectionRuling, ObjectionType, PracticeExchange } from './types';
+import { GeneratedObjectionReview, OBJECTION_TYPES } from './llm-schemas';
+
+// Earlier questions sent for "asked and answered", most recent kept
+const MAX_PRIOR_QUESTIONS = 30;
+
+export const OBJECTION_GUIDANCE: Record<ObjectionType, { label: string; description: string }> = {
+  compound: {
+    label: 'Compound',
+    description: 'Asks two or more questions at once, so a single answer is ambiguous',
+  },
+  assumes_facts: {
+    label: 'Assumes facts not in evidence',
+    description: 'Treats as established a fact the witness has not testified to and the documents do not show',
+  },
+  argumentative: {
+    label: 'Argumentative',
+    description: 'Argues with the witness or asks them to accept counsel\'s characterization rather than seeking facts',
+  },
+  asked_and_answered: {
+    label: 'Asked and answered',
+    description: 'Repeats a question the witness has already answered in this examination',
+  },
+  speculation: {
+    label: 'Calls for speculation',
+    description: 'Asks the witness to guess about something outside their personal knowledge, such as what someone else thought',
+  },
+  form: {
+    label: 'Form',
+    description: 'Otherwise improperly phrased: vague, ambiguous, misstates prior testimony or is unintelligible',
+  },
+};
+
+// Shown when defending counsel has no objection
+export const NO_OBJECTION_GUIDANCE = 'Still pause for a beat before answering so counsel has time to object.';
+
+// Objection instructions for the defending counsel prompt
+export function describeObjectionsForPrompt(): string {
+  return OBJECTION_TYPES
+    .map(type => `- ${type} (${OBJECTION_GUIDANCE[type].label}): ${OBJECTION_GUIDANCE[type].description}`)
+    .join('\n');
+}
+
+// Questions already put to the witness, for judging "asked and answered"
+export function formatPriorQuestions(exchanges: PracticeExchange[]): string {
+  return exchanges
+    .slice(-MAX_PRIOR_QUESTIONS)
+    .map((exchange, index) => `${index + 1}. Q: "${exchange.question}"\n   A: "${exchange.witnessResponse}"`)
+    .join('\n');
+}
+
+// One objection per type, with the model's guidance or the default when it objected to nothing
+export function buildObjectionRuling(question: string, data: GeneratedObjectionReview): ObjectionRuling {
+  const objections: Objection[] = [];
+  for (const objection of data.objections) {
+    if (objections.some(existing => existing.type === objection.type)) continue;
+    objections.push({ type: objection.type, grounds: objection.grounds.trim() });
+  }
+
+  return {
+    question,
+    objections,
+    pauseGuidance: objections.length > 0 && data.pauseGuidance.trim() ? data.pauseGuidance.trim() : NO_OBJECTION_GUIDANCE,
+  };
+}
+
+// Validate a ruling sent back with a practice answer
+export function parseObjectionRuling(value: unknown): { ruling: ObjectionRuling } | { error: string } {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return { error: 'objections must be an object' };
+  }
+  const input = value as Record<string, unknown>;
+
+  if (typeof input.question !== 'string' || typeof input.pauseGuidance !== 'string' || !Array.isArray(input.objections)) {
+    return { error: 'objections must have question, objections and pauseGuidance' };
+  }
+
+  const objections: Objection[] = [];
+  for (const item of input.objections) {
+    const objection = (item || {}) as Record<string, unknown>;
+    if (!OBJECTION_TYPES.includes(objection.type as ObjectionType)) {
+      return { error: `objection type must be one of ${OBJECTION_TYPES.join(', ')}` };
+    }
+    objections.push({ type: objection.type as ObjectionType, grounds: String(objection.grounds ?? '') });
+  }
+
+  return { ruling: { question: input.question, objections, pauseGuidance: input.pauseGuidance } };
+}
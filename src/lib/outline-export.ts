@@ -0,0 +1,157 @@
+// Deposition outline export
+// Turns a deposition session's outline (or its question list, before the outline is organized)
+// into a ReportDocument, honoring the ExportOptions: citations, rationale and follow-ups can each
+// be left out, and questions are either grouped under their sections or listed in one sequence.
+
+import { DepositionQuestion, DepositionSession, ExportOptions } from './deposition-types';
+import { getExhibitLabel } from './exhibits';
+import { parseReportFormat, ReportBlock, ReportDocument } from './report-document';
+
+export const DEFAULT_EXPORT_OPTIONS: ExportOptions = {
+  format: 'docx',
+  includeCitations: true,
+  includeRationale: true,
+  includeFollowUps: true,
+  groupByTopic: true,
+};
+
+const EXPORT_FLAGS = ['includeCitations', 'includeRationale', 'includeFollowUps', 'groupByTopic'] as const;
+
+const PRIORITY_LABELS: Record<DepositionQuestion['priority'], string> = {
+  high: 'HIGH',
+  medium: 'MED',
+  low: 'LOW',
+};
+
+// Export options from query parameters; anything left out takes its default
+export function parseExportOptions(params: URLSearchParams): { options: ExportOptions } | { error: string } {
+  const options: ExportOptions = { ...DEFAULT_EXPORT_OPTIONS };
+
+  if (params.has('format')) {
+    const parsed = parseReportFormat(params.get('format'));
+    if ('error' in parsed) return parsed;
+    options.format = parsed.format;
+  }
+
+  for (const flag of EXPORT_FLAGS) {
+    const value = params.get(flag);
+    if (value === null) continue;
+    if (value !== 'true' && value !== 'false') {
+      return { error: `${flag} must be true or false` };
+    }
+    options[flag] = value === 'true';
+  }
+
+  return { options };
+}
+
+export interface OutlineSectionView {
+  id?: string; // Absent for topic groups
+  title: string;
+  notes?: string;
+  estimatedTime?: number;
+  questions: DepositionQuestion[];
+}
+
+// Outline sections in order, or the question list grouped by topic when there is no outline yet
+export function getOutlineSections(session: DepositionSession): OutlineSectionView[] {
+  if (session.outline && session.outline.sections.length > 0) {
+    return [...session.outline.sections].sort((a, b) => a.order - b.order);
+  }
+
+  const byTopic = new Map<string, DepositionQuestion[]>();
+  for (const question of session.questions) {
+    const topic = question.topic || 'General';
+    byTopic.set(topic, [...(byTopic.get(topic) || []), question]);
+  }
+  return [...byTopic].map(([title, questions]) => ({ title, questions }));
+}
+
+function describeCitation(question: DepositionQuestion): string | undefined {
+  if (!question.documentReference && !question.pageReference) return undefined;
+  return [question.documentReference, question.pageReference ? `p. ${question.pageReference}` : ''].filter(Boolean).join(', ');
+}
+
+// A linked registry exhibit wins over the free-text suggestion
+function describeExhibit(session: DepositionSession, question: DepositionQuestion): string | undefined {
+  const label = question.exhibitId ? getExhibitLabel(session, question.exhibitId) : undefined;
+  if (!label) return question.exhibitToShow;
+  const exhibit = session.exhibits?.find(item => item.id === question.exhibitId);
+  const document = session.documents.find(doc => doc.id === exhibit?.documentId);
+  return document ? `${label} (${document.name})` : label;
+}
+
+function questionBlocks(session: DepositionSession, question: DepositionQuestion, number: number, options: ExportOptions): ReportBlock[] {
+  const exhibit = describeExhibit(session, question);
+  const meta = [
+    `${PRIORITY_LABELS[question.priority]} priority`,
+    question.category.replace('_', ' '),
+    // The section heading already names the topic when questions are grouped
+    options.groupByTopic ? '' : question.topic,
+    exhibit ? `Show exhibit: ${exhibit}` : '',
+  ].filter(Boolean).join(' · ');
+
+  const blocks: ReportBlock[] = [
+    { type: 'heading', text: `${number}. ${question.question}`, level: 3 },
+    { type: 'paragraph', text: meta, muted: true },
+  ];
+
+  const citation = options.includeCitations ? describeCitation(question) : undefined;
+  if (citation) blocks.push({ type: 'paragraph', label: 'Source', text: citation });
+  if (options.includeRationale && question.rationale) {
+    blocks.push({ type: 'paragraph', label: 'Rationale', text: question.rationale });
+  }
+  if (options.includeFollowUps && question.followUpQuestions && question.followUpQuestions.length > 0) {
+    blocks.push(
+      { type: 'paragraph', text: 'Follow-ups:', muted: true },
+      { type: 'bullets', items: question.followUpQuestions }
+    );
+  }
+  return blocks;
+}
+
+export function buildOutlineExport(session: DepositionSession, options: ExportOptions, generatedAt = new Date()): ReportDocument {
+  const sections = getOutlineSections(session);
+  const questionCount = sections.reduce((sum, section) => sum + section.questions.length, 0);
+  const estimatedTime = sections.reduce((sum, section) => sum + (section.estimatedTime || 0), 0);
+
+  const blocks: ReportBlock[] = [
+    {
+      type: 'paragraph',
+      text: [
+        `${questionCount} question${questionCount === 1 ? '' : 's'} in ${sections.length} section${sections.length === 1 ? '' : 's'}`,
+        estimatedTime > 0 ? `about ${estimatedTime} min` : '',
+      ].filter(Boolean).join(' · '),
+      muted: true,
+    },
+  ];
+
+  // Numbering runs through the whole outline so a question keeps its number in either layout
+  let number = 0;
+  for (const section of sections) {
+    if (options.groupByTopic) {
+      blocks.push({
+        type: 'heading',
+        text: section.estimatedTime ? `${section.title} (~${section.estimatedTime} min)` : section.title,
+        level: 1,
+      });
+      if (section.notes) blocks.push({ type: 'paragraph', label: 'Notes', text: section.notes });
+    }
+    for (const question of section.questions) {
+      blocks.push(...questionBlocks(session, question, ++number, options));
+    }
+  }
+
+  return {
+    title: session.outline?.title || `Deposition Outline - ${session.deponentName}`,
+    subtitle: [
+      `Case: ${session.caseName}${session.caseNumber ? ` (No. ${session.caseNumber})` : ''}`,
+      `Deponent: ${session.deponentName}`,
+      [
+        session.depositionDate ? `Deposition ${session.depositionDate.toLocaleDateString('en-US')}` : '',
+        `Generated ${generatedAt.toLocaleDateString('en-US')}`,
+      ].filter(Boolean).join(' · '),
+    ],
+    blocks,
+  };
+}
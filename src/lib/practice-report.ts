@@ -0,0 +1,228 @@
+// Review report for a testimony practice session
+// Covers the case header, a summary of scores, time and delivery, the weak points practice
+// exposed, the question list, and every exchange with its answer, follow-up, feedback and scores.
+// Built as a ReportDocument so the same content renders to PDF and DOCX.
+
+import { CrossExamQuestion, PracticeExchange, PracticeSession } from './types';
+import { ReportBlock, ReportDocument } from './report-document';
+import { RUBRIC_DIMENSIONS, RUBRIC_GUIDANCE, RUBRIC_MAX_SCORE, summarizeRubrics } from './rubric';
+import { summarizeDelivery } from './delivery';
+import { EXAMINATION_MODE_PROFILES, getQuestionMode } from './examination-modes';
+import { OBJECTION_GUIDANCE } from './objections';
+import { getCurrentRound, getExchangeRound } from './practice-scheduler';
+
+// m:ss, or h:mm:ss for an hour or more
+function formatDuration(seconds: number): string {
+  const total = Math.max(0, Math.round(seconds));
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const secs = String(total % 60).padStart(2, '0');
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${secs}` : `${minutes}:${secs}`;
+}
+
+function formatScores(exchange: PracticeExchange): string | undefined {
+  if (!exchange.rubric) return undefined;
+  return RUBRIC_DIMENSIONS
+    .filter(dimension => exchange.rubric?.[dimension])
+    .map(dimension => `${RUBRIC_GUIDANCE[dimension].label} ${exchange.rubric?.[dimension].score}/${RUBRIC_MAX_SCORE}`)
+    .join(' · ');
+}
+
+function describeQuestion(question: CrossExamQuestion): string {
+  const mode = getQuestionMode(question);
+  return [mode === 'cross' ? '' : EXAMINATION_MODE_PROFILES[mode].label, question.category, question.difficulty].filter(Boolean).join(' · ');
+}
+
+function summaryBlocks(session: PracticeSession, answeredQuestions: number): ReportBlock[] {
+  const history = session.practiceHistory;
+  const followUps = history.filter(exchange => exchange.parentExchangeId).length;
+  const practiceTime = history.reduce((sum, exchange) => sum + exchange.duration, 0);
+  const rubric = summarizeRubrics(history);
+
+  const blocks: ReportBlock[] = [
+    { type: 'heading', text: 'Summary', level: 1 },
+    {
+      type: 'bullets',
+      items: [
+        `${answeredQuestions} of ${session.questions.length} questions practiced, plus ${followUps} follow-up${followUps === 1 ? '' : 's'}`,
+        `Practice time: ${formatDuration(practiceTime)} across ${history.length} answer${history.length === 1 ? '' : 's'}${history.length > 0 ? ` (average ${formatDuration(practiceTime / history.length)} per answer)` : ''}`,
+        `Rounds: ${getCurrentRound(session)}`,
+        rubric.overallAverage === null
+          ? 'No answers scored yet'
+          : `Average score: ${rubric.overallAverage}/${RUBRIC_MAX_SCORE} across ${rubric.scoredAnswers} scored answer${rubric.scoredAnswers === 1 ? '' : 's'}${rubric.weakestDimension ? `; weakest: ${RUBRIC_GUIDANCE[rubric.weakestDimension].label}` : ''}`,
+      ],
+    },
+  ];
+
+  const dimensions = RUBRIC_DIMENSIONS.filter(dimension => rubric.dimensions[dimension]);
+  if (dimensions.length > 0) {
+    blocks.push({
+      type: 'table',
+      header: ['Dimension', 'Average', 'Lowest', 'Highest'],
+      rows: dimensions.map(dimension => {
+        const summary = rubric.dimensions[dimension]!;
+        return [summary.label, `${summary.average}/${RUBRIC_MAX_SCORE}`, String(summary.lowest), String(summary.highest)];
+      }),
+      widths: [3, 1, 1, 1],
+    });
+  }
+
+  const delivery = summarizeDelivery(history);
+  if (delivery.length > 0) {
+    blocks.push(
+      { type: 'heading', text: 'Delivery by Round', level: 2 },
+      {
+        type: 'table',
+        header: ['Round', 'Answers', 'Words/min', 'Fillers/100 words', 'Hedges/100 words', 'Time to first word', 'Length vs. expected'],
+        rows: delivery.map(round => [
+          String(round.round),
+          `${round.answers}${round.spokenAnswers > 0 ? ` (${round.spokenAnswers} spoken)` : ''}`,
+          round.averageWordsPerMinute === null ? '-' : String(round.averageWordsPerMinute),
+          String(round.fillersPer100Words),
+          String(round.hedgesPer100Words),
+          round.averageTimeToFirstWord === null ? '-' : `${round.averageTimeToFirstWord}s`,
+          `${round.averageLengthRatio}x`,
+        ]),
+      }
+    );
+  }
+
+  return blocks;
+}
+
+function weakPointBlocks(session: PracticeSession): ReportBlock[] {
+  const weaknesses = session.practiceHistory
+    .filter(exchange => exchange.weaknessIdentified)
+    .map(exchange => `${exchange.weaknessIdentified} (Q: "${exchange.question}")`);
+  const contradictions = (session.consistencyReport?.issues || []).map(issue => `[${issue.severity}] ${issue.description}`);
+  if (weaknesses.length === 0 && contradictions.length === 0) return [];
+
+  const blocks: ReportBlock[] = [{ type: 'heading', text: 'Weak Points', level: 1 }];
+  if (weaknesses.length > 0) {
+    blocks.push({ type: 'bullets', items: weaknesses });
+  }
+  if (contradictions.length > 0) {
+    blocks.push(
+      { type: 'heading', text: 'Contradictions Found by the Consistency Check', level: 2 },
+      { type: 'bullets', items: contradictions }
+    );
+  }
+  return blocks;
+}
+
+function exchangeBlocks(exchange: PracticeExchange): ReportBlock[] {
+  const label = exchange.parentExchangeId ? `Follow-up ${exchange.depth}` : 'Answer';
+  const blocks: ReportBlock[] = [
+    { type: 'heading', text: `Round ${getExchangeRound(exchange)} · ${label} (${formatDuration(exchange.duration)})`, level: 3 },
+  ];
+  if (exchange.parentExchangeId) {
+    blocks.push({ type: 'paragraph', label: 'Question', text: exchange.question });
+  }
+
+  const objections = exchange.objections?.objections || [];
+  if (objections.length > 0) {
+    blocks.push({
+      type: 'paragraph',
+      label: 'Objected',
+      text: objections.map(objection => `${OBJECTION_GUIDANCE[objection.type].label} - ${objection.grounds}`).join('; '),
+      muted: true,
+    });
+  }
+
+  blocks.push({ type: 'paragraph', label: 'Answer', text: exchange.witnessResponse });
+  if (exchange.aiFollowUp) blocks.push({ type: 'paragraph', label: 'Examiner follow-up', text: exchange.aiFollowUp });
+  if (exchange.feedback) blocks.push({ type: 'paragraph', label: 'Feedback', text: exchange.feedback, muted: exchange.usedFallback });
+  if (exchange.weaknessIdentified) blocks.push({ type: 'paragraph', label: 'Weakness', text: exchange.weaknessIdentified });
+  if (exchange.suggestedImprovement) blocks.push({ type: 'paragraph', label: 'Better answer', text: exchange.suggestedImprovement });
+
+  const scores = formatScores(exchange);
+  if (scores) blocks.push({ type: 'paragraph', label: 'Scores', text: scores, muted: true });
+  if (exchange.delivery) {
+    const delivery = exchange.delivery;
+    blocks.push({
+      type: 'paragraph',
+      label: 'Delivery',
+      text: [
+        `${delivery.wordCount} words (${delivery.source})`,
+        delivery.wordsPerMinute !== undefined ? `${delivery.wordsPerMinute} words/min` : '',
+        `${delivery.fillerCount} filler${delivery.fillerCount === 1 ? '' : 's'}`,
+        `${delivery.hedgeCount} hedge${delivery.hedgeCount === 1 ? '' : 's'}`,
+        delivery.timeToFirstWord !== undefined ? `${delivery.timeToFirstWord}s to first word` : '',
+      ].filter(Boolean).join(' · '),
+      muted: true,
+    });
+  }
+  return blocks;
+}
+
+export function buildPracticeReport(session: PracticeSession, generatedAt = new Date()): ReportDocument {
+  const history = session.practiceHistory;
+  const byQuestion = new Map<string, PracticeExchange[]>();
+  for (const exchange of history) {
+    byQuestion.set(exchange.questionId, [...(byQuestion.get(exchange.questionId) || []), exchange]);
+  }
+  const timeSpent = (questionId: string) => (byQuestion.get(questionId) || []).reduce((sum, exchange) => sum + exchange.duration, 0);
+
+  const blocks: ReportBlock[] = [
+    ...summaryBlocks(session, session.questions.filter(question => byQuestion.has(question.id)).length),
+    ...weakPointBlocks(session),
+    { type: 'heading', text: 'Questions', level: 1 },
+  ];
+
+  if (session.questions.length === 0) {
+    blocks.push({ type: 'paragraph', text: 'No questions have been generated for this session.', muted: true });
+  } else {
+    blocks.push({
+      type: 'table',
+      header: ['#', 'Question', 'Type', 'Answers', 'Time spent'],
+      rows: session.questions.map((question, index) => [
+        String(index + 1),
+        question.question,
+        describeQuestion(question),
+        String(byQuestion.get(question.id)?.length || 0),
+        formatDuration(timeSpent(question.id)),
+      ]),
+      widths: [0.5, 6, 2, 1, 1.2],
+    });
+  }
+
+  blocks.push({ type: 'heading', text: 'Practice Exchanges', level: 1 });
+  if (history.length === 0) {
+    blocks.push({ type: 'paragraph', text: 'No practice answers yet.', muted: true });
+  }
+
+  // Questions in list order, then answers to questions that have since been removed
+  const practiced = session.questions.filter(question => byQuestion.has(question.id));
+  const removedIds = [...byQuestion.keys()].filter(questionId => !session.questions.some(question => question.id === questionId));
+  for (const question of practiced) {
+    const exchanges = byQuestion.get(question.id) || [];
+    blocks.push(
+      { type: 'heading', text: `Q${session.questions.indexOf(question) + 1}. ${question.question}`, level: 2 },
+      {
+        type: 'paragraph',
+        text: `${describeQuestion(question)} · ${exchanges.length} answer${exchanges.length === 1 ? '' : 's'} · ${formatDuration(timeSpent(question.id))} spent`,
+        muted: true,
+      }
+    );
+    if (question.weakPoint) blocks.push({ type: 'paragraph', label: 'Known weak point', text: question.weakPoint });
+    if (question.suggestedApproach) blocks.push({ type: 'paragraph', label: 'Suggested approach', text: question.suggestedApproach });
+    blocks.push(...exchanges.flatMap(exchangeBlocks));
+  }
+  for (const questionId of removedIds) {
+    const exchanges = byQuestion.get(questionId) || [];
+    blocks.push(
+      { type: 'heading', text: `${exchanges[0].question} (question since removed)`, level: 2 },
+      ...exchanges.flatMap(exchangeBlocks)
+    );
+  }
+
+  return {
+    title: 'Witness Practice Report',
+    subtitle: [
+      `Case: ${session.caseName}`,
+      `Witness: ${session.witnessName}`,
+      `Session started ${session.createdAt.toLocaleDateString('en-US')} · Report generated ${generatedAt.toLocaleDateString('en-US')}`,
+    ],
+    blocks,
+  };
+}
@@ -0,0 +1,188 @@
+// Adaptive practice ordering with spaced repetition
+// Practice runs in rounds. Each question sits in a Leitner-style box: a strong answer moves it up
+// a box, a weak answer sends it back to box 0, and the box sets how many rounds pass before it
+// comes back. Within a round, poorly answered questions come first, then new ones, nudged up by
+// category weakness and difficulty. Everything is derived from the practice history, so every
+// client asking for the next question gets the same answer.
+
+import { CrossExamQuestion, PracticeExchange, PracticeSession } from './types';
+import { RUBRIC_DIMENSIONS, RUBRIC_MIN_SCORE, RUBRIC_MAX_SCORE } from './rubric';
+import { getModeQuestions } from './examination-modes';
+
+export const MAX_MASTERY_BOX = 4;
+// Rounds until a question is due again, by box
+const REVIEW_INTERVALS = [1, 2, 3, 5, 8];
+// Mean rubric score at or above which an answer counts as strong, and below which it counts as weak
+const STRONG_SCORE = 4;
+const WEAK_SCORE = 3;
+// A category whose answers average this far below full marks gets called out as weak
+const WEAK_CATEGORY_THRESHOLD = 0.4;
+
+const DIFFICULTY_PRIORITY: Record<CrossExamQuestion['difficulty'], number> = { easy: 0, medium: 0.15, hard: 0.3 };
+
+export interface QuestionMastery {
+  questionId: string;
+  attempts: number; // Rounds in which the question was answered
+  lastScore: number | null; // Mean rubric score of the latest attempt, including its follow-ups
+  lastRound?: number;
+  box: number; // 0 to MAX_MASTERY_BOX
+  mastery: number; // box / MAX_MASTERY_BOX
+  dueRound: number; // First round the question is scheduled again
+}
+
+export interface NextQuestionResult {
+  round: number;
+  roundComplete: boolean;
+  question: CrossExamQuestion | null;
+  reason?: string;
+  answeredInRound: number;
+  remainingInRound: number; // Including the returned question
+  dueNextRound: number;
+  masteredCount: number;
+  mastery: QuestionMastery[];
+}
+
+export function getCurrentRound(session: PracticeSession): number {
+  return session.practiceRound || 1;
+}
+
+// Exchanges from before rounds existed count as round 1
+export function getExchangeRound(exchange: PracticeExchange): number {
+  return exchange.round || 1;
+}
+
+function roundScore(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+// Mean of every rubric score across the exchanges; null when none were scored
+function meanRubricScore(exchanges: PracticeExchange[]): number | null {
+  const scores = exchanges.flatMap(exchange =>
+    exchange.rubric ? RUBRIC_DIMENSIONS.map(dimension => exchange.rubric?.[dimension]?.score).filter((score): score is number => typeof score === 'number') : []
+  );
+  if (scores.length === 0) return null;
+  return roundScore(scores.reduce((sum, score) => sum + score, 0) / scores.length);
+}
+
+// 0 for a perfect score, 1 for the lowest
+function weakness(score: number): number {
+  return (RUBRIC_MAX_SCORE - score) / (RUBRIC_MAX_SCORE - RUBRIC_MIN_SCORE);
+}
+
+// Replay each question's attempts, one per round, through the Leitner boxes
+export function computeMastery(questions: CrossExamQuestion[], history: PracticeExchange[]): QuestionMastery[] {
+  return questions.map(question => {
+    const byRound = new Map<number, PracticeExchange[]>();
+    for (const exchange of history) {
+      if (exchange.questionId !== question.id) continue;
+      const round = getExchangeRound(exchange);
+      byRound.set(round, [...(byRound.get(round) || []), exchange]);
+    }
+
+    let box = 0;
+    let lastScore: number | null = null;
+    let lastRound: number | undefined;
+    for (const round of [...byRound.keys()].sort((a, b) => a - b)) {
+      const score = meanRubricScore(byRound.get(round) || []);
+      if (score !== null) {
+        if (score >= STRONG_SCORE) box = Math.min(box + 1, MAX_MASTERY_BOX);
+        else if (score < WEAK_SCORE) box = 0;
+      }
+      lastScore = score;
+      lastRound = round;
+    }
+
+    return {
+      questionId: question.id,
+      attempts: byRound.size,
+      lastScore,
+      lastRound,
+      box,
+      mastery: box / MAX_MASTERY_BOX,
+      dueRound: lastRound === undefined ? 1 : lastRound + REVIEW_INTERVALS[box],
+    };
+  });
+}
+
+// Per-category weakness (0-1) from the latest score of every attempted question in the category
+function getCategoryWeakness(questions: CrossExamQuestion[], mastery: QuestionMastery[]): Partial<Record<CrossExamQuestion['category'], number>> {
+  const totals: Partial<Record<CrossExamQuestion['category'], { sum: number; count: number }>> = {};
+  questions.forEach((question, index) => {
+    const score = mastery[index].lastScore;
+    if (score === null) return;
+    const total = totals[question.category] || { sum: 0, count: 0 };
+    total.sum += weakness(score);
+    total.count += 1;
+    totals[question.category] = total;
+  });
+
+  const result: Partial<Record<CrossExamQuestion['category'], number>> = {};
+  for (const [category, total] of Object.entries(totals) as Array<[CrossExamQuestion['category'], { sum: number; count: number }]>) {
+    result[category] = total.sum / total.count;
+  }
+  return result;
+}
+
+function isDue(entry: QuestionMastery, round: number): boolean {
+  return entry.attempts === 0 || entry.dueRound <= round;
+}
+
+// The next question for the session's current round and examination mode, and where the round stands
+export function getNextQuestion(session: PracticeSession): NextQuestionResult {
+  const round = getCurrentRound(session);
+  const questions = getModeQuestions(session);
+  const mastery = computeMastery(questions, session.practiceHistory);
+  const categoryWeakness = getCategoryWeakness(questions, mastery);
+
+  const answeredInRound = new Set(
+    session.practiceHistory.filter(exchange => getExchangeRound(exchange) === round).map(exchange => exchange.questionId)
+  );
+  // Mastery already includes this round's answers, so judge eligibility by the state before them
+  const previousMastery = answeredInRound.size > 0
+    ? computeMastery(questions, session.practiceHistory.filter(exchange => getExchangeRound(exchange) < round))
+    : mastery;
+
+  const candidates = questions
+    .map((question, index) => ({ question, index, entry: mastery[index] }))
+    .filter(({ question, index }) => !answeredInRound.has(question.id) && isDue(previousMastery[index], round))
+    .map(({ question, index, entry }) => {
+      const categoryScore = categoryWeakness[question.category] || 0;
+      const base = entry.attempts === 0 || entry.lastScore === null ? 1 : 2 * weakness(entry.lastScore);
+      return {
+        question,
+        index,
+        entry,
+        categoryScore,
+        priority: base + categoryScore + DIFFICULTY_PRIORITY[question.difficulty],
+      };
+    })
+    .sort((a, b) => b.priority - a.priority || a.index - b.index);
+
+  const answeredCount = questions.filter(question => answeredInRound.has(question.id)).length;
+  const summary = {
+    round,
+    answeredInRound: answeredCount,
+    remainingInRound: candidates.length,
+    dueNextRound: mastery.filter(entry => isDue(entry, round + 1)).length,
+    masteredCount: mastery.filter(entry => entry.box === MAX_MASTERY_BOX).length,
+    mastery,
+  };
+
+  const next = candidates[0];
+  if (!next) {
+    return { ...summary, roundComplete: true, question: null };
+  }
+
+  let reason: string;
+  if (next.entry.attempts > 0 && next.entry.lastScore !== null && next.entry.lastScore < WEAK_SCORE) {
+    reason = `Scored ${next.entry.lastScore}/${RUBRIC_MAX_SCORE} in round ${next.entry.lastRound}`;
+  } else if (next.entry.attempts > 0) {
+    reason = next.entry.lastScore === null ? 'Due for review' : `Due for review (last scored ${next.entry.lastScore}/${RUBRIC_MAX_SCORE})`;
+  } else if (next.categoryScore >= WEAK_CATEGORY_THRESHOLD) {
+    reason = `New question in a weak category (${next.question.category})`;
+  } else {
+    reason = 'New question';
+  }
+
+  return { ...summary, roundComplete: false, question: next.question, reason };
+}
@@ -0,0 +1,43 @@
+// Threaded practice exchanges
+// Answering the examiner's follow-up creates a child exchange that points at its parent, so a
+// scripted question and its follow-ups form a thread. The whole thread is sent to the examiner
+// so it can keep pressing on earlier answers.
+
+import { PracticeExchange } from './types';
+
+const DEFAULT_MAX_FOLLOW_UP_DEPTH = 3;
+const MAX_FOLLOW_UP_DEPTH_LIMIT = 10;
+
+// How many follow-ups deep a thread may go, PRACTICE_MAX_FOLLOW_UP_DEPTH (default 3, 0 disables follow-ups)
+export function getMaxFollowUpDepth(): number {
+  const value = Number(process.env.PRACTICE_MAX_FOLLOW_UP_DEPTH);
+  if (!process.env.PRACTICE_MAX_FOLLOW_UP_DEPTH || !Number.isFinite(value) || value < 0) {
+    return DEFAULT_MAX_FOLLOW_UP_DEPTH;
+  }
+  return Math.min(Math.floor(value), MAX_FOLLOW_UP_DEPTH_LIMIT);
+}
+
+// The exchanges from the thread's scripted question down to exchangeId, oldest first
+export function getExchangeThread(history: PracticeExchange[], exchangeId: string): PracticeExchange[] {
+  const byId = new Map(history.map(exchange => [exchange.id, exchange]));
+  const thread: PracticeExchange[] = [];
+  const seen = new Set<string>();
+
+  let current = byId.get(exchangeId);
+  while (current && !seen.has(current.id)) {
+    seen.add(current.id);
+    thread.unshift(current);
+    current = current.parentExchangeId ? byId.get(current.parentExchangeId) : undefined;
+  }
+  return thread;
+}
+
+// Earlier questions and answers in the thread, phrased for the examiner prompt
+export function formatThreadForPrompt(thread: PracticeExchange[]): string {
+  return thread
+    .map((exchange, index) => {
+      const label = index === 0 ? 'Question' : `Follow-up ${index}`;
+      return `${label}: "${exchange.question}"\nWitness: "${exchange.witnessResponse}"`;
+    })
+    .join('\n\n');
+}
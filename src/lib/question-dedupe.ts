@@ -0,0 +1,115 @@
+// Near-duplicate detection for generated questions
+// "Generate more" appends to an existing question list, so new questions are compared
+// lexically against what is already there (and against each other) before they are merged.
+// Existing questions are never modified, so practice history and outline placements that
+// refer to their IDs stay valid.
+
+import { tokenize } from './retrieval';
+import { QuestionGenerationMode } from './types';
+
+// Existing questions listed in an append prompt, newest last
+const MAX_PROMPT_QUESTIONS = 100;
+const MAX_PROMPT_QUESTION_LENGTH = 200;
+
+// Jaccard similarity of normalized terms at or above which two questions count as duplicates
+export const DUPLICATE_THRESHOLD = 0.6;
+// Share of the shorter question's terms found in the longer one that also counts as a duplicate
+const CONTAINMENT_THRESHOLD = 0.85;
+const MIN_CONTAINMENT_TERMS = 4;
+
+// Leading phrases and tag questions that don't change what is being asked
+const FILLER_TERMS = new Set([
+  'isn', 'true', 'correct', 'right', 'didn', 'doesn', 'wasn', 'weren', 'aren', 'don', 'won',
+  'yes', 'please', 'tell', 'us', 'me', 'describe', 'explain', 'fair', 'say',
+]);
+
+// Crude suffix stripping so "signed"/"signing"/"signs" compare equal
+function stem(term: string): string {
+  if (term.length > 5 && term.endsWith('ing')) return term.slice(0, -3);
+  if (term.length > 4 && term.endsWith('ed')) return term.slice(0, -2);
+  if (term.length > 3 && term.endsWith('s') && !term.endsWith('ss')) return term.slice(0, -1);
+  return term;
+}
+
+function questionTerms(text: string): Set<string> {
+  return new Set(tokenize(text).filter(term => !FILLER_TERMS.has(term)).map(stem));
+}
+
+function similarity(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  for (const term of a) {
+    if (b.has(term)) shared++;
+  }
+  const jaccard = shared / (a.size + b.size - shared);
+  const smaller = Math.min(a.size, b.size);
+  const containment = smaller >= MIN_CONTAINMENT_TERMS ? shared / smaller : 0;
+  return containment >= CONTAINMENT_THRESHOLD ? Math.max(jaccard, containment) : jaccard;
+}
+
+// Similarity of two question texts, from 0 (nothing shared) to 1
+export function questionSimilarity(a: string, b: string): number {
+  return similarity(questionTerms(a), questionTerms(b));
+}
+
+export interface QuestionMergeResult<T> {
+  questions: T[]; // existing items followed by the new ones that were kept
+  added: T[];
+  duplicates: T[]; // new items dropped as near-duplicates
+}
+
+function mergeByText<T>(existing: T[], incoming: T[], getText: (item: T) => string, threshold: number): QuestionMergeResult<T> {
+  const seen = existing.map(item => questionTerms(getText(item)));
+  const added: T[] = [];
+  const duplicates: T[] = [];
+
+  for (const candidate of incoming) {
+    const terms = questionTerms(getText(candidate));
+    if (terms.size === 0 || seen.some(other => similarity(terms, other) >= threshold)) {
+      duplicates.push(candidate);
+    } else {
+      seen.push(terms);
+      added.push(candidate);
+    }
+  }
+
+  return { questions: [...existing, ...added], added, duplicates };
+}
+
+// Append new questions to an existing list, dropping any that repeat an existing question
+// or one added earlier in the same batch
+export function mergeQuestions<T extends { question: string }>(
+  existing: T[],
+  incoming: T[],
+  threshold: number = DUPLICATE_THRESHOLD
+): QuestionMergeResult<T> {
+  return mergeByText(existing, incoming, item => item.question, threshold);
+}
+
+// Same merge for deposition gaps and contradictions, compared by description
+export function mergeByDescription<T extends { description: string }>(existing: T[], incoming: T[]): T[] {
+  return mergeByText(existing, incoming, item => item.description, DUPLICATE_THRESHOLD).questions;
+}
+
+// Read the generation mode from a request body; replace is the default
+export function parseGenerationMode(body: unknown): { mode: QuestionGenerationMode } | { error: string } {
+  const mode = typeof body === 'object' && body !== null ? (body as Record<string, unknown>).mode : undefined;
+  if (mode === undefined || mode === null) return { mode: 'replace' };
+  if (mode !== 'replace' && mode !== 'append') {
+    return { error: 'mode must be "replace" or "append"' };
+  }
+  return { mode };
+}
+
+// Prompt section telling the model which questions it must not repeat
+export function describeExistingQuestions(questions: string[] | undefined): string {
+  if (!questions || questions.length === 0) return '';
+  const listed = questions
+    .slice(-MAX_PROMPT_QUESTIONS)
+    .map(question => `- ${question.slice(0, MAX_PROMPT_QUESTION_LENGTH)}`)
+    .join('\n');
+  return `
+ALREADY GENERATED - these questions are already in the outline. Do NOT repeat or rephrase any of them; cover new facts, documents and angles instead:
+${listed}
+`;
+}
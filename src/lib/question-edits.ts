@@ -0,0 +1,102 @@
+// Parsing for per-question edits and regeneration requests
+// Edits are partial: only the fields present in the body change. An empty string or null
+// clears an optional field; required fields (question, category, ...) can't be cleared.
+
+import { CrossExamQuestion, ExaminationMode } from './types';
+import { DepositionQuestion } from './deposition-types';
+import { CROSS_EXAM_CATEGORIES, DIFFICULTIES, DEPOSITION_CATEGORIES, PRIORITIES } from './llm-schemas';
+import { EXAMINATION_MODE_PROFILES } from './examination-modes';
+
+const MAX_TEXT_LENGTH = 2000;
+const MAX_LIST_ITEMS = 10;
+export const MAX_INSTRUCTION_LENGTH = 500;
+
+type FieldRule = 'text' | 'optionalText' | 'list' | 'boolean' | readonly string[];
+
+const CROSS_EXAM_FIELDS: Partial<Record<keyof CrossExamQuestion, FieldRule>> = {
+  question: 'text',
+  category: CROSS_EXAM_CATEGORIES,
+  difficulty: DIFFICULTIES,
+  suggestedApproach: 'optionalText',
+  weakPoint: 'optionalText',
+  followUpQuestions: 'list',
+  documentReference: 'optionalText',
+  locked: 'boolean',
+};
+
+const DEPOSITION_FIELDS: Partial<Record<keyof DepositionQuestion, FieldRule>> = {
+  question: 'text',
+  topic: 'text',
+  category: DEPOSITION_CATEGORIES,
+  priority: PRIORITIES,
+  documentReference: 'optionalText',
+  pageReference: 'optionalText',
+  rationale: 'optionalText',
+  followUpQuestions: 'list',
+  exhibitToShow: 'optionalText',
+  locked: 'boolean',
+};
+
+function parseEdit<T>(body: unknown, fields: Partial<Record<keyof T, FieldRule>>): { updates: Partial<T> } | { error: string } {
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    return { error: 'Request body must be an object of fields to update' };
+  }
+
+  const updates: Record<string, unknown> = {};
+  for (const [field, value] of Object.entries(body)) {
+    // Own keys only, so "constructor" or "toString" don't resolve to Object.prototype
+    const rule = Object.hasOwn(fields, field) ? fields[field as keyof T] : undefined;
+    if (!rule) return { error: `Field "${field}" cannot be edited` };
+
+    if (rule === 'boolean') {
+      if (typeof value !== 'boolean') return { error: `${field} must be true or false` };
+      updates[field] = value;
+    } else if (rule === 'list') {
+      if (value === null) {
+        updates[field] = undefined;
+        continue;
+      }
+      if (!Array.isArray(value) || value.some(item => typeof item !== 'string')) {
+        return { error: `${field} must be a list of strings` };
+      }
+      const items = value.map(item => item.trim().slice(0, MAX_TEXT_LENGTH)).filter(Boolean);
+      if (items.length > MAX_LIST_ITEMS) return { error: `${field} can have at most ${MAX_LIST_ITEMS} entries` };
+      updates[field] = items.length > 0 ? items : undefined;
+    } else if (rule === 'text' || rule === 'optionalText') {
+      if (rule === 'optionalText' && (value === null || value === '')) {
+        updates[field] = undefined;
+        continue;
+      }
+      if (typeof value !== 'string' || !value.trim()) return { error: `${field} must be a non-empty string` };
+      updates[field] = value.trim().slice(0, MAX_TEXT_LENGTH);
+    } else {
+      if (typeof value !== 'string' || !rule.includes(value)) {
+        return { error: `${field} must be one of ${rule.join(', ')}` };
+      }
+      updates[field] = value;
+    }
+  }
+
+  if (Object.keys(updates).length === 0) return { error: 'No fields to update' };
+  return { updates: updates as Partial<T> };
+}
+
+// Categories are checked against the question's examination mode
+export function parseCrossExamQuestionEdit(body: unknown, mode: ExaminationMode = 'cross'): { updates: Partial<CrossExamQuestion> } | { error: string } {
+  return parseEdit<CrossExamQuestion>(body, { ...CROSS_EXAM_FIELDS, category: EXAMINATION_MODE_PROFILES[mode].categories });
+}
+
+export function parseDepositionQuestionEdit(body: unknown): { updates: Partial<DepositionQuestion> } | { error: string } {
+  return parseEdit<DepositionQuestion>(body, DEPOSITION_FIELDS);
+}
+
+// Optional free-text instruction for regenerating a question, e.g. "make it more leading"
+export function parseRegenerateInstruction(body: unknown): { instruction?: string } | { error: string } {
+  const value = typeof body === 'object' && body !== null ? (body as Record<string, unknown>).instruction : undefined;
+  if (value === undefined || value === null || value === '') return {};
+  if (typeof value !== 'string') return { error: 'instruction must be a string' };
+  if (value.length > MAX_INSTRUCTION_LENGTH) {
+    return { error: `instruction must be at most ${MAX_INSTRUCTION_LENGTH} characters` };
+  }
+  return { instruction: value.trim() || undefined };
+}
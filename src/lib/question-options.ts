@@ -0,0 +1,202 @@
+// Options for cross-examination question generation
+// Parses the request body, turns category/difficulty weights into question counts,
+// and supplies the role-specific guidance used by the prompt and the fallback generator.
+
+import { CrossExamQuestion, QuestionGenerationOptions, WitnessRole, CategoryMix, DifficultyMix, ExaminationMode } from './types';
+import { DIFFICULTIES } from './llm-schemas';
+import { EXAMINATION_MODE_PROFILES } from './examination-modes';
+
+export const MIN_QUESTION_COUNT = 5;
+export const MAX_QUESTION_COUNT = 50;
+export const MAX_FOCUS_AREAS = 10;
+const MAX_FOCUS_AREA_LENGTH = 200;
+
+export const WITNESS_ROLES: WitnessRole[] = ['fact', 'expert', 'party', 'corporate_representative'];
+
+export const DEFAULT_QUESTION_OPTIONS: QuestionGenerationOptions = {
+  questionCount: 20,
+  witnessRole: 'fact',
+  focusAreas: [],
+};
+
+// Share of questions that are general cross-examination when no category mix is given
+const DEFAULT_GENERAL_SHARE = 0.25;
+
+export interface WitnessRoleGuidance {
+  label: string;
+  // What document-specific questions should probe for this kind of witness
+  documentFocus: string[];
+  // Standard general questions opposing counsel asks this kind of witness
+  generalTopics: string[];
+}
+
+export const WITNESS_ROLE_GUIDANCE: Record<WitnessRole, WitnessRoleGuidance> = {
+  fact: {
+    label: 'Fact witness',
+    documentFocus: [
+      'What the witness personally saw, heard or did, and their opportunity to observe it',
+      'Timeline details and the witness\'s certainty about them',
+    ],
+    generalTopics: [
+      'How the witness prepared for testimony and who they spoke with',
+      'Compensation or financial interest in the case outcome',
+      'Memory and certainty',
+      'Relationship to the parties',
+      'Whether the witness has ever given inaccurate testimony',
+    ],
+  },
+  expert: {
+    label: 'Expert witness',
+    documentFocus: [
+      'Methodology, assumptions and the data the opinions rely on',
+      'Materials the expert did not review or facts they assumed',
+      'Whether the opinions go beyond the expert\'s field',
+    ],
+    generalTopics: [
+      'Qualifications and whether they cover the specific opinions given',
+      'Hourly rate, total fees billed and who is paying',
+      'How often the expert testifies, and for which side',
+      'Whether the expert\'s opinions have ever been excluded or criticized by a court',
+      'What counsel provided the expert and what they asked the expert to assume',
+    ],
+  },
+  party: {
+    label: 'Party',
+    documentFocus: [
+      'Statements the party made in pleadings, correspondence and prior testimony',
+      'The party\'s own conduct and decisions described in the documents',
+    ],
+    generalTopics: [
+      'The party\'s stake in the outcome of the case',
+      'How the party prepared for testimony and who they spoke with',
+      'Prior statements under oath, including verified pleadings and discovery responses',
+      'History and relationship with the opposing party',
+      'Memory and certainty',
+    ],
+  },
+  corporate_representative: {
+    label: 'Corporate representative',
+    documentFocus: [
+      'What the organization knew, when, and who inside it knew',
+      'Company policies and whether they were followed',
+      'Documents the organization created or should have created',
+    ],
+    generalTopics: [
+      'Which topics the witness was designated to testify about',
+      'What the witness did to prepare on each topic, and who they spoke with',
+      'Which documents the witness reviewed in preparation',
+      'Which answers reflect personal knowledge versus what the witness learned in preparation',
+      'Whether the witness\'s testimony binds the organization',
+    ],
+  },
+};
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Read a { key: weight } object, ignoring zero weights. Returns an error string for bad input.
+function parseMix<K extends string>(value: unknown, keys: readonly K[], label: string): Partial<Record<K, number>> | string | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (!isRecord(value)) return `${label} must be an object of weights`;
+
+  const mix: Partial<Record<K, number>> = {};
+  for (const [key, weight] of Object.entries(value)) {
+    if (!keys.includes(key as K)) return `Unknown ${label} key "${key}"`;
+    if (typeof weight !== 'number' || !Number.isFinite(weight) || weight < 0) {
+      return `${label} weights must be non-negative numbers`;
+    }
+    if (weight > 0) mix[key as K] = weight;
+  }
+
+  return Object.keys(mix).length > 0 ? mix : `${label} needs at least one weight above zero`;
+}
+
+// Parse generation options from a request body, filling in defaults for anything omitted.
+// The category mix may only use the categories of the examination mode being generated.
+export function parseQuestionOptions(body: unknown, mode: ExaminationMode = 'cross'): { options: QuestionGenerationOptions } | { error: string } {
+  const input = isRecord(body) ? body : {};
+  const options: QuestionGenerationOptions = { ...DEFAULT_QUESTION_OPTIONS, focusAreas: [] };
+
+  if (input.questionCount !== undefined) {
+    const count = Number(input.questionCount);
+    if (!Number.isInteger(count) || count < MIN_QUESTION_COUNT || count > MAX_QUESTION_COUNT) {
+      return { error: `questionCount must be a whole number from ${MIN_QUESTION_COUNT} to ${MAX_QUESTION_COUNT}` };
+    }
+    options.questionCount = count;
+  }
+
+  if (input.witnessRole !== undefined) {
+    if (!WITNESS_ROLES.includes(input.witnessRole as WitnessRole)) {
+      return { error: `witnessRole must be one of ${WITNESS_ROLES.join(', ')}` };
+    }
+    options.witnessRole = input.witnessRole as WitnessRole;
+  }
+
+  if (input.focusAreas !== undefined) {
+    const raw = typeof input.focusAreas === 'string' ? input.focusAreas.split(',') : input.focusAreas;
+    if (!Array.isArray(raw) || raw.some(area => typeof area !== 'string')) {
+      return { error: 'focusAreas must be a list of strings' };
+    }
+    const areas = raw.map(area => area.trim()).filter(Boolean);
+    if (areas.length > MAX_FOCUS_AREAS) {
+      return { error: `At most ${MAX_FOCUS_AREAS} focus areas are allowed` };
+    }
+    options.focusAreas = areas.map(area => area.slice(0, MAX_FOCUS_AREA_LENGTH));
+  }
+
+  const categoryMix = parseMix(input.categoryMix, EXAMINATION_MODE_PROFILES[mode].categories, 'categoryMix');
+  if (typeof categoryMix === 'string') return { error: categoryMix };
+  if (categoryMix) options.categoryMix = categoryMix as CategoryMix;
+
+  const difficultyMix = parseMix(input.difficultyMix, DIFFICULTIES, 'difficultyMix');
+  if (typeof difficultyMix === 'string') return { error: difficultyMix };
+  if (difficultyMix) options.difficultyMix = difficultyMix as DifficultyMix;
+
+  return { options };
+}
+
+// Split a total across weighted keys using largest remainders, so the counts always add up
+export function allocateMix<K extends string>(mix: Partial<Record<K, number>>, total: number): Partial<Record<K, number>> {
+  const entries = (Object.entries(mix) as Array<[K, number]>).filter(([, weight]) => weight > 0);
+  const weightSum = entries.reduce((sum, [, weight]) => sum + weight, 0);
+  if (weightSum === 0) return {};
+
+  const shares = entries.map(([key, weight]) => {
+    const exact = (weight / weightSum) * total;
+    return { key, count: Math.floor(exact), remainder: exact - Math.floor(exact) };
+  });
+
+  let remaining = total - shares.reduce((sum, share) => sum + share.count, 0);
+  for (const share of [...shares].sort((a, b) => b.remainder - a.remainder)) {
+    if (remaining <= 0) break;
+    share.count += 1;
+    remaining -= 1;
+  }
+
+  const counts: Partial<Record<K, number>> = {};
+  for (const share of shares) {
+    if (share.count > 0) counts[share.key] = share.count;
+  }
+  return counts;
+}
+
+// Number of general questions, and per-category counts when a category mix was given
+export function getCategoryTargets(options: QuestionGenerationOptions): {
+  generalCount: number;
+  documentCount: number;
+  byCategory?: Partial<Record<CrossExamQuestion['category'], number>>;
+} {
+  if (options.categoryMix) {
+    const byCategory = allocateMix(options.categoryMix, options.questionCount);
+    const generalCount = byCategory.general || 0;
+    return { generalCount, documentCount: options.questionCount - generalCount, byCategory };
+  }
+
+  const generalCount = Math.round(options.questionCount * DEFAULT_GENERAL_SHARE);
+  return { generalCount, documentCount: options.questionCount - generalCount };
+}
+
+export function getDifficultyTargets(options: QuestionGenerationOptions): Partial<Record<CrossExamQuestion['difficulty'], number>> | undefined {
+  return options.difficultyMix ? allocateMix(options.difficultyMix, options.questionCount) : undefined;
+}
@@ -0,0 +1,152 @@
+// Prompts for cross-examination question generation
+// Shared by the generate-questions route and its streaming variant so both honor the same
+// question count, category and difficulty mix, witness role and focus areas.
+
+import { QuestionGenerationOptions } from './types';
+import { getCategoryTargets, getDifficultyTargets, WITNESS_ROLE_GUIDANCE } from './question-options';
+import { describeExistingQuestions } from './question-dedupe';
+
+// Question count, category split and difficulty split, phrased for the prompt
+function describeQuestionMix(options: QuestionGenerationOptions): string {
+  const { generalCount, documentCount, byCategory } = getCategoryTargets(options);
+  const lines = [
+    `- ${documentCount} questions: DOCUMENT-SPECIFIC - These MUST be specifically based on the content of the documents provided. Reference specific facts, names, dates, times, locations, and details from the documents.`,
+    `- ${generalCount} questions: GENERAL CROSS-EXAMINATION - These are standard cross-examination questions that opposing counsel commonly asks ANY witness in this role, regardless of the case specifics. These test general credibility, memory, bias, and preparation. Mark these with category "general".`,
+  ];
+
+  if (byCategory) {
+    const counts = Object.entries(byCategory).map(([category, count]) => `${count} "${category}"`).join(', ');
+    lines.push(`- Use exactly this category split: ${counts}`);
+  }
+
+  const difficulties = getDifficultyTargets(options);
+  if (difficulties) {
+    const counts = Object.entries(difficulties).map(([difficulty, count]) => `${count} "${difficulty}"`).join(', ');
+    lines.push(`- Use exactly this difficulty split: ${counts}`);
+  }
+
+  return lines.join('\n');
+}
+
+export function describeFocusAreas(options: QuestionGenerationOptions): string {
+  if (options.focusAreas.length === 0) return '';
+  return `\nFOCUS AREAS - the attorney wants document-specific questions concentrated on:
+${options.focusAreas.map(area => `- ${area}`).join('\n')}
+`;
+}
+
+// Dynamic system prompt that includes the actual witness name and generation options
+export function getQuestionGenerationPrompt(witnessName: string, options: QuestionGenerationOptions): string {
+  const role = WITNESS_ROLE_GUIDANCE[options.witnessRole];
+  const { generalCount, documentCount } = getCategoryTargets(options);
+  const topicsInstruction = generalCount >= role.generalTopics.length ? 'you MUST cover' : 'choose from';
+  const generalSection = generalCount > 0
+    ? `FOR GENERAL QUESTIONS (${generalCount} REQUIRED), ${topicsInstruction} these standard cross-examination topics for this witness role:
+${role.generalTopics.map((topic, index) => `${index + 1}. ${topic}`).join('\n')}
+
+`
+    : '';
+
+  return `You are an experienced trial attorney preparing cross-examination questions for ${witnessName}. Based on the provided case documents, generate exactly ${options.questionCount} likely cross-examination questions that opposing counsel might ask ${witnessName}.
+
+WITNESS ROLE: ${role.label}
+
+═══════════════════════════════════════════════════════════════════════════════
+WITNESS IDENTITY - READ THIS CAREFULLY:
+═══════════════════════════════════════════════════════════════════════════════
+THE WITNESS YOU ARE PREPARING QUESTIONS FOR IS: ${witnessName}
+THE WITNESS YOU ARE PREPARING QUESTIONS FOR IS: ${witnessName}
+THE WITNESS YOU ARE PREPARING QUESTIONS FOR IS: ${witnessName}
+
+⚠️ CRITICAL WARNING ABOUT DOCUMENTS:
+The documents you will analyze may contain depositions, testimony, or statements from OTHER people who are NOT ${witnessName}. These are EVIDENCE documents about the case.
+DO NOT get confused by names that appear in depositions or testimony within the documents.
+The ONLY witness you are preparing questions for is ${witnessName}.
+
+When you see testimony or depositions from other people in the documents:
+- These are EVIDENCE that ${witnessName} may be asked about
+- Prepare questions asking ${witnessName} what THEY know about what those other people said
+- Prepare questions asking ${witnessName} if THEY agree or disagree with what others testified
+- NEVER prepare questions directed at those other people - they are not the witness
+═══════════════════════════════════════════════════════════════════════════════
+
+CRITICAL REQUIREMENTS:
+1. ALL questions (main questions AND follow-up questions) MUST be directed TO ${witnessName} - ${witnessName} is the ONLY person being questioned
+2. Do NOT start every question with "${witnessName}" - this is repetitive. Use natural questioning style with "you" and "your"
+3. When documents mention other people (anyone who is NOT ${witnessName}), ask ${witnessName} about THEIR knowledge of those people - do NOT ask questions as if those other people are the witness
+4. If documents contain depositions or testimony from other witnesses, prepare questions asking ${witnessName} about what THEY know regarding that testimony - do NOT prepare questions for those other witnesses
+5. ALL follow-up questions must also be directed to ${witnessName} about ${witnessName}'s knowledge, actions, or observations - NEVER direct follow-up questions to other people mentioned in documents
+
+STRUCTURE YOUR ${options.questionCount} QUESTIONS AS FOLLOWS:
+${describeQuestionMix(options)}
+${describeFocusAreas(options)}
+For each question, provide:
+1. The question itself - directed to ${witnessName} using "you" and "your"
+2. Category: one of "timeline", "credibility", "inconsistency", "foundation", "impeachment", or "general"
+3. Difficulty: "easy", "medium", or "hard"
+4. A suggested approach for how ${witnessName} should handle this question
+5. Any weak points this question might expose
+6. 2-3 potential follow-up questions - these MUST also be directed to ${witnessName} (using "you/your")
+7. A reference to which document this relates to (use "General Cross-Examination" for the general questions)
+8. The IDs of the document chunks the question is based on - each excerpt is tagged like [Chunk 1a2b3c4d-3] (use an empty list for general questions)
+
+FOR DOCUMENT-SPECIFIC QUESTIONS (${documentCount}), focus on:
+${role.documentFocus.map(focus => `- ${focus}`).join('\n')}
+- Specific timeline details mentioned in the documents
+- Credibility challenges based on what ${witnessName} claims to have seen/heard/done
+- Potential inconsistencies in the narrative
+- Foundation questions about how ${witnessName} knows specific facts
+- Impeachment opportunities based on statements in the documents
+- Specific names, dates, times, and locations mentioned
+
+${generalSection}QUESTION EXAMPLES (good vs bad):
+BAD FOLLOW-UP (asking wrong person): "What did Mr. Smith know about this?"
+GOOD FOLLOW-UP (asking ${witnessName}): "What did Mr. Smith tell you about this?"
+
+Return your response as a JSON array with exactly ${options.questionCount} questions in this format:
+[
+  {
+    "question": "Question directed to ${witnessName}...",
+    "category": "timeline|credibility|inconsistency|foundation|impeachment|general",
+    "difficulty": "easy|medium|hard",
+    "suggestedApproach": "How ${witnessName} should approach answering",
+    "weakPoint": "What vulnerability this exposes based on the documents",
+    "followUpQuestions": ["Follow-up question addressed to ${witnessName}", "Another follow-up question addressed to ${witnessName}"],
+    "documentReference": "Which document/section this relates to OR 'General Cross-Examination'",
+    "sourceChunkIds": ["1a2b3c4d-3"]
+  }
+]
+
+IMPORTANT: 
+- Return ONLY the JSON array. No markdown, no code blocks, no explanatory text.
+- All questions and follow-ups must be directed TO ${witnessName} (the person testifying).
+- You MUST include exactly ${generalCount} questions with category "general".
+- Remember: ${witnessName} is the ONLY person being questioned. All questions and follow-ups must be directed to ${witnessName}.`;
+}
+
+// User prompt with the selected document context; kept questions are listed so they aren't repeated
+export function getCrossExamUserPrompt(
+  caseName: string,
+  witnessName: string,
+  documentContext: string,
+  options: QuestionGenerationOptions,
+  existingQuestions: string[]
+): string {
+  return `Case: ${caseName}
+Witness Name: ${witnessName}
+
+DOCUMENTS TO ANALYZE:
+${documentContext}
+
+Generate exactly ${options.questionCount} cross-examination questions for the witness ${witnessName} (witness role: ${WITNESS_ROLE_GUIDANCE[options.witnessRole].label}).
+
+CRITICAL REQUIREMENTS:
+1. ALL questions must be directed TO the witness (${witnessName}) - use "you" and "your" to address them
+2. Do NOT start every question with the witness's name - this is repetitive. Use natural questioning style.
+3. ALL follow-up questions must also be directed to the witness - ask about THEIR knowledge, actions, or observations
+4. When documents mention other people, ask the witness about their knowledge of those people
+5. Follow this structure:
+${describeQuestionMix(options)}
+${describeFocusAreas(options)}${describeExistingQuestions(existingQuestions)}
+CRITICAL: Return ONLY a valid JSON array. No markdown formatting, no code blocks, no text before or after the JSON.`;
+}
@@ -0,0 +1,373 @@
+// Format-neutral report documents rendered to PDF (jsPDF), DOCX (WordprocessingML in a zip) and plain text
+// Reports are built as a list of blocks - headings, paragraphs, bullet lists and tables - so
+// every export format renders the same content and new formats only need a renderer.
+
+import { jsPDF } from 'jspdf';
+import JSZip from 'jszip';
+
+export type ReportFormat = 'pdf' | 'docx' | 'txt';
+
+export const REPORT_FORMATS: ReportFormat[] = ['pdf', 'docx', 'txt'];
+
+export const REPORT_CONTENT_TYPES: Record<ReportFormat, string> = {
+  pdf: 'application/pdf',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  txt: 'text/plain; charset=utf-8',
+};
+
+export type ReportBlock =
+  | { type: 'heading'; text: string; level: 1 | 2 | 3 }
+  | { type: 'paragraph'; text: string; label?: string; muted?: boolean }
+  | { type: 'bullets'; items: string[] }
+  | { type: 'table'; header: string[]; rows: string[][]; widths?: number[] }; // widths are relative
+
+export interface ReportDocument {
+  title: string;
+  subtitle: string[]; // Centered lines under the title: case, witness, date
+  blocks: ReportBlock[];
+  stamp?: string; // Exhibit label stamped in the top corner of every PDF page
+}
+
+// Defaults to PDF; callers can narrow the formats they offer
+export function parseReportFormat(value: string | null, formats: ReportFormat[] = REPORT_FORMATS): { format: ReportFormat } | { error: string } {
+  const format = (value || 'pdf').toLowerCase();
+  if (!formats.includes(format as ReportFormat)) {
+    return { error: `format must be one of ${formats.join(', ')}` };
+  }
+  return { format: format as ReportFormat };
+}
+
+// Safe download name, e.g. "practice-report-jane-doe-2026-10-18.pdf"
+export function getReportFilename(prefix: string, name: string, format: ReportFormat, date = new Date()): string {
+  const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'session';
+  return `${prefix}-${slug}-${date.toISOString().slice(0, 10)}.${format}`;
+}
+
+export async function renderReport(report: ReportDocument, format: ReportFormat): Promise<Uint8Array> {
+  switch (format) {
+    case 'docx':
+      return renderDocx(report);
+    case 'txt':
+      return renderText(report);
+    default:
+      return renderPdf(report);
+  }
+}
+
+const PDF_MARGIN = 20;
+const PDF_LINE_HEIGHT = 0.42; // Line height per point of font size, in mm
+const PDF_FONT_SIZES = { title: 18, subtitle: 11, 1: 14, 2: 12, 3: 11, body: 10, table: 8.5, stamp: 10 };
+
+// The standard PDF fonts only cover Latin-1, so swap typographic characters for ASCII
+export function toPdfText(text: string): string {
+  return text
+    .replace(/[‘’]/g, '\'')
+    .replace(/[“”]/g, '"')
+    .replace(/[–—]/g, '-')
+    .replace(/[•·]/g, '-')
+    .replace(/…/g, '...')
+    .replace(/[^\x09\x0a\x0d\x20-\xff]/g, '?');
+}
+
+export function renderPdf(report: ReportDocument): Uint8Array {
+  const doc = new jsPDF();
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const contentWidth = pageWidth - PDF_MARGIN * 2;
+  let y = PDF_MARGIN;
+
+  const ensureSpace = (height: number) => {
+    if (y + height > pageHeight - PDF_MARGIN) {
+      doc.addPage();
+      y = PDF_MARGIN;
+    }
+  };
+
+  // Wrapped text, breaking across pages line by line
+  const writeText = (text: string, x: number, width: number, fontSize: number, style: 'normal' | 'bold' = 'normal') => {
+    doc.setFont('helvetica', style);
+    doc.setFontSize(fontSize);
+    const lineHeight = fontSize * PDF_LINE_HEIGHT;
+    for (const line of doc.splitTextToSize(toPdfText(text), width) as string[]) {
+      ensureSpace(lineHeight);
+      doc.text(line, x, y + lineHeight * 0.8);
+      y += lineHeight;
+    }
+  };
+
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(PDF_FONT_SIZES.title);
+  doc.text(toPdfText(report.title.toUpperCase()), pageWidth / 2, y + 6, { align: 'center' });
+  y += 12;
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(PDF_FONT_SIZES.subtitle);
+  for (const line of report.subtitle) {
+    doc.text(toPdfText(line), pageWidth / 2, y + 4, { align: 'center' });
+    y += 6;
+  }
+  y += 4;
+  doc.setLineWidth(0.5);
+  doc.line(PDF_MARGIN, y, pageWidth - PDF_MARGIN, y);
+  y += 6;
+
+  for (const block of report.blocks) {
+    switch (block.type) {
+      case 'heading': {
+        const size = PDF_FONT_SIZES[block.level];
+        y += block.level === 1 ? 6 : 3;
+        // Keep a heading with at least a few lines of what follows
+        ensureSpace(size * PDF_LINE_HEIGHT + 15);
+        if (block.level === 1) {
+          doc.setFillColor(240, 240, 240);
+          doc.rect(PDF_MARGIN, y, contentWidth, size * PDF_LINE_HEIGHT + 3, 'F');
+          y += 1.5;
+          writeText(block.text.toUpperCase(), PDF_MARGIN + 3, contentWidth - 6, size, 'bold');
+          y += 3.5;
+        } else {
+          writeText(block.text, PDF_MARGIN, contentWidth, size, 'bold');
+          y += 1.5;
+        }
+        break;
+      }
+      case 'paragraph': {
+        doc.setTextColor(block.muted ? 100 : 0, block.muted ? 100 : 0, block.muted ? 100 : 0);
+        if (block.label) {
+          writeText(`${block.label}:`, PDF_MARGIN, contentWidth, PDF_FONT_SIZES.body, 'bold');
+          writeText(block.text, PDF_MARGIN + 4, contentWidth - 4, PDF_FONT_SIZES.body);
+        } else {
+          writeText(block.text, PDF_MARGIN, contentWidth, PDF_FONT_SIZES.body);
+        }
+        doc.setTextColor(0, 0, 0);
+        y += 2;
+        break;
+      }
+      case 'bullets': {
+        const lineHeight = PDF_FONT_SIZES.body * PDF_LINE_HEIGHT;
+        for (const item of block.items) {
+          // Start the item on the page its bullet is on
+          ensureSpace(lineHeight);
+          doc.setFont('helvetica', 'normal');
+          doc.setFontSize(PDF_FONT_SIZES.body);
+          doc.text('-', PDF_MARGIN + 1, y + lineHeight * 0.8);
+          writeText(item, PDF_MARGIN + 5, contentWidth - 5, PDF_FONT_SIZES.body);
+          y += 1;
+        }
+        y += 2;
+        break;
+      }
+      case 'table': {
+        const weights = block.widths || block.header.map(() => 1);
+        const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+        const widths = weights.map(weight => (weight / totalWeight) * contentWidth);
+        const lineHeight = PDF_FONT_SIZES.table * PDF_LINE_HEIGHT;
+
+        const writeRow = (cells: string[], bold: boolean) => {
+          doc.setFont('helvetica', bold ? 'bold' : 'normal');
+          doc.setFontSize(PDF_FONT_SIZES.table);
+          const wrapped = cells.map((cell, index) => doc.splitTextToSize(toPdfText(cell), widths[index] - 2) as string[]);
+          const height = Math.max(...wrapped.map(lines => lines.length)) * lineHeight + 2;
+          ensureSpace(height);
+          let x = PDF_MARGIN;
+          wrapped.forEach((lines, index) => {
+            doc.text(lines, x + 1, y + 1 + lineHeight * 0.8);
+            x += widths[index];
+          });
+          y += height;
+          doc.setDrawColor(200, 200, 200);
+          doc.setLineWidth(0.2);
+          doc.line(PDF_MARGIN, y, PDF_MARGIN + contentWidth, y);
+          doc.setDrawColor(0, 0, 0);
+        };
+
+        writeRow(block.header, true);
+        for (const row of block.rows) writeRow(row, false);
+        y += 4;
+        break;
+      }
+    }
+  }
+
+  // Page numbers
+  const totalPages = doc.getNumberOfPages();
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(8);
+  doc.setTextColor(128, 128, 128);
+  for (let page = 1; page <= totalPages; page++) {
+    doc.setPage(page);
+    doc.text(`Page ${page} of ${totalPages}`, pageWidth / 2, pageHeight - 10, { align: 'center' });
+  }
+  doc.setTextColor(0, 0, 0);
+
+  // Exhibit sticker in the top margin, clear of the content
+  if (report.stamp) {
+    const label = toPdfText(report.stamp.toUpperCase());
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(PDF_FONT_SIZES.stamp);
+    const width = doc.getTextWidth(label) + 8;
+    const x = pageWidth - PDF_MARGIN - width;
+    doc.setDrawColor(0, 0, 0);
+    doc.setLineWidth(0.4);
+    for (let page = 1; page <= totalPages; page++) {
+      doc.setPage(page);
+      doc.setFillColor(255, 250, 205);
+      doc.roundedRect(x, 5, width, 9, 1.5, 1.5, 'FD');
+      doc.text(label, x + width / 2, 11, { align: 'center' });
+    }
+  }
+
+  return new Uint8Array(doc.output('arraybuffer'));
+}
+
+function escapeXml(text: string): string {
+  return text
+    // Control characters are not allowed in XML
+    .replace(/[\x00-\x08\x0b\x0c\x0e-\x1f]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function docxRun(text: string, options: { bold?: boolean; color?: string } = {}): string {
+  const properties = [options.bold ? '<w:b/>' : '', options.color ? `<w:color w:val="${options.color}"/>` : ''].join('');
+  // Line breaks inside a paragraph become <w:br/>
+  const content = text.split('\n').map(line => `<w:t xml:space="preserve">${escapeXml(line)}</w:t>`).join('<w:br/>');
+  return `<w:r>${properties ? `<w:rPr>${properties}</w:rPr>` : ''}${content}</w:r>`;
+}
+
+function docxParagraph(runs: string, style?: string, extraProperties = ''): string {
+  const properties = `${style ? `<w:pStyle w:val="${style}"/>` : ''}${extraProperties}`;
+  return `<w:p>${properties ? `<w:pPr>${properties}</w:pPr>` : ''}${runs}</w:p>`;
+}
+
+function docxTable(block: Extract<ReportBlock, { type: 'table' }>): string {
+  // Widths in fiftieths of a percent
+  const weights = block.widths || block.header.map(() => 1);
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+  const cell = (text: string, index: number, header: boolean) =>
+    `<w:tc><w:tcPr><w:tcW w:w="${Math.round((weights[index] / totalWeight) * 5000)}" w:type="pct"/>${header ? '<w:shd w:val="clear" w:color="auto" w:fill="F0F0F0"/>' : ''}</w:tcPr>${docxParagraph(docxRun(text, { bold: header }), 'TableText')}</w:tc>`;
+  const row = (cells: string[], header: boolean) =>
+    `<w:tr>${header ? '<w:trPr><w:tblHeader/></w:trPr>' : ''}${cells.map((text, index) => cell(text, index, header)).join('')}</w:tr>`;
+  const border = (side: string) => `<w:${side} w:val="single" w:sz="4" w:space="0" w:color="BFBFBF"/>`;
+
+  return `<w:tbl><w:tblPr><w:tblW w:w="5000" w:type="pct"/><w:tblBorders>${['top', 'left', 'bottom', 'right', 'insideH', 'insideV'].map(border).join('')}</w:tblBorders></w:tblPr>`
+    + `<w:tblGrid>${weights.map(() => '<w:gridCol/>').join('')}</w:tblGrid>`
+    + row(block.header, true)
+    + block.rows.map(cells => row(cells, false)).join('')
+    + '</w:tbl>'
+    // Word needs a paragraph between consecutive tables
+    + docxParagraph('');
+}
+
+function docxBody(report: ReportDocument): string {
+  const parts = [
+    docxParagraph(docxRun(report.title), 'Title'),
+    ...report.subtitle.map(line => docxParagraph(docxRun(line), 'Subtitle')),
+  ];
+
+  for (const block of report.blocks) {
+    switch (block.type) {
+      case 'heading':
+        parts.push(docxParagraph(docxRun(block.text), `Heading${block.level}`));
+        break;
+      case 'paragraph': {
+        const color = block.muted ? '666666' : undefined;
+        const runs = block.label
+          ? docxRun(`${block.label}: `, { bold: true, color }) + docxRun(block.text, { color })
+          : docxRun(block.text, { color });
+        parts.push(docxParagraph(runs));
+        break;
+      }
+      case 'bullets':
+        parts.push(...block.items.map(item => docxParagraph(docxRun(`•\t${item}`), 'ListBullet')));
+        break;
+      case 'table':
+        parts.push(docxTable(block));
+        break;
+    }
+  }
+
+  return parts.join('');
+}
+
+const DOCX_CONTENT_TYPES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+<Default Extension="xml" ContentType="application/xml"/>
+<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>
+<Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>
+</Types>`;
+
+const DOCX_PACKAGE_RELS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>
+</Relationships>`;
+
+const DOCX_DOCUMENT_RELS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>
+</Relationships>`;
+
+function docxStyle(id: string, name: string, paragraph: string, run: string): string {
+  return `<w:style w:type="paragraph" w:styleId="${id}"><w:name w:val="${name}"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/><w:pPr>${paragraph}</w:pPr><w:rPr>${run}</w:rPr></w:style>`;
+}
+
+// Named styles so the report is easy to restyle in Word
+const DOCX_STYLES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:styles xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">
+<w:docDefaults><w:rPrDefault><w:rPr><w:rFonts w:ascii="Calibri" w:hAnsi="Calibri" w:cs="Calibri"/><w:sz w:val="21"/></w:rPr></w:rPrDefault><w:pPrDefault><w:pPr><w:spacing w:after="120"/></w:pPr></w:pPrDefault></w:docDefaults>
+<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:qFormat/></w:style>
+${docxStyle('Title', 'Title', '<w:jc w:val="center"/><w:spacing w:after="120"/>', '<w:b/><w:sz w:val="36"/>')}
+${docxStyle('Subtitle', 'Subtitle', '<w:jc w:val="center"/><w:spacing w:after="0"/>', '<w:color w:val="555555"/>')}
+${docxStyle('Heading1', 'heading 1', '<w:keepNext/><w:spacing w:before="360" w:after="120"/><w:outlineLvl w:val="0"/>', '<w:b/><w:sz w:val="28"/>')}
+${docxStyle('Heading2', 'heading 2', '<w:keepNext/><w:spacing w:before="240" w:after="80"/><w:outlineLvl w:val="1"/>', '<w:b/><w:sz w:val="24"/>')}
+${docxStyle('Heading3', 'heading 3', '<w:keepNext/><w:spacing w:before="160" w:after="60"/><w:outlineLvl w:val="2"/>', '<w:b/><w:sz w:val="22"/>')}
+${docxStyle('ListBullet', 'List Bullet', '<w:tabs><w:tab w:val="left" w:pos="360"/></w:tabs><w:ind w:left="360" w:hanging="360"/><w:spacing w:after="60"/>', '')}
+${docxStyle('TableText', 'Table Text', '<w:spacing w:after="0"/>', '<w:sz w:val="18"/>')}
+</w:styles>`;
+
+export async function renderDocx(report: ReportDocument): Promise<Uint8Array> {
+  const document = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"><w:body>${docxBody(report)}<w:sectPr><w:pgSz w:w="12240" w:h="15840"/><w:pgMar w:top="1440" w:right="1440" w:bottom="1440" w:left="1440" w:header="720" w:footer="720" w:gutter="0"/></w:sectPr></w:body></w:document>`;
+
+  const zip = new JSZip();
+  zip.file('[Content_Types].xml', DOCX_CONTENT_TYPES);
+  zip.file('_rels/.rels', DOCX_PACKAGE_RELS);
+  zip.file('word/_rels/document.xml.rels', DOCX_DOCUMENT_RELS);
+  zip.file('word/styles.xml', DOCX_STYLES);
+  zip.file('word/document.xml', document);
+  return zip.generateAsync({ type: 'uint8array', compression: 'DEFLATE' });
+}
+
+const TEXT_RULE_WIDTH = 72;
+
+// Plain text for pasting into email or a notes app; lines are left unwrapped
+export function renderText(report: ReportDocument): Uint8Array {
+  const lines = [report.title.toUpperCase(), ...report.subtitle, '='.repeat(TEXT_RULE_WIDTH), ''];
+
+  for (const block of report.blocks) {
+    switch (block.type) {
+      case 'heading':
+        if (block.level === 1) {
+          lines.push('', '', block.text.toUpperCase(), '='.repeat(Math.min(block.text.length, TEXT_RULE_WIDTH)));
+        } else if (block.level === 2) {
+          lines.push('', block.text, '-'.repeat(Math.min(block.text.length, TEXT_RULE_WIDTH)));
+        } else {
+          lines.push('', block.text);
+        }
+        break;
+      case 'paragraph':
+        lines.push(block.label ? `${block.label}: ${block.text}` : block.text);
+        break;
+      case 'bullets':
+        lines.push(...block.items.map(item => `  - ${item}`));
+        break;
+      case 'table':
+        lines.push('', block.header.join(' | '), ...block.rows.map(row => row.join(' | ')), '');
+        break;
+    }
+  }
+
+  // Collapse the runs of blank lines left where blocks meet
+  return new TextEncoder().encode(lines.join('\n').replace(/\n{4,}/g, '\n\n\n').trim() + '\n');
+}
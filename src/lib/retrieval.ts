@@ -0,0 +1,213 @@
+// Chunking and retrieval for building LLM document context
+// Documents are split into page-bounded chunks with stable IDs, and a BM25 ranking picks
+// the chunks most relevant to the task when the full set doesn't fit the context budget.
+// Prompts cite chunk IDs so generated questions and feedback can be traced to their sources.
+
+import { DocumentPage } from './types';
+
+export interface RetrievableDocument {
+  id: string;
+  name: string;
+  content?: string;
+  pages?: DocumentPage[];
+  status?: string;
+}
+
+export interface DocumentChunk {
+  id: string;
+  documentId: string;
+  documentName: string;
+  index: number;
+  page?: number;
+  text: string;
+}
+
+export interface ContextSelection {
+  chunks: DocumentChunk[];
+  chunkIds: string[];
+  truncated: boolean;
+}
+
+const CHUNK_SIZE = 1500;
+export const DEFAULT_CONTEXT_BUDGET = 60000; // characters, roughly 15k tokens
+
+const STOPWORDS = new Set([
+  'the', 'and', 'for', 'are', 'but', 'not', 'you', 'your', 'all', 'any', 'can', 'had', 'her', 'was', 'one',
+  'our', 'out', 'has', 'him', 'his', 'how', 'its', 'who', 'did', 'get', 'she', 'they', 'them', 'their',
+  'this', 'that', 'with', 'have', 'from', 'what', 'when', 'were', 'will', 'would', 'there', 'about', 'which',
+  'been', 'into', 'than', 'then', 'some', 'could', 'should', 'does', 'just', 'also', 'these', 'those',
+]);
+
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[a-z0-9]+/g) || []).filter(token => token.length > 1 && !STOPWORDS.has(token));
+}
+
+// Split text into pieces of at most CHUNK_SIZE, breaking on paragraphs, then lines
+function splitText(text: string): string[] {
+  const pieces: string[] = [];
+  let current = '';
+
+  const push = () => {
+    if (current.trim()) pieces.push(current.trim());
+    current = '';
+  };
+
+  for (const paragraph of text.split(/\n\s*\n/)) {
+    const units = paragraph.length > CHUNK_SIZE ? paragraph.split('\n') : [paragraph];
+    for (const unit of units) {
+      if (current && current.length + unit.length + 1 > CHUNK_SIZE) push();
+      if (unit.length > CHUNK_SIZE) {
+        for (let i = 0; i < unit.length; i += CHUNK_SIZE) {
+          current = unit.slice(i, i + CHUNK_SIZE);
+          push();
+        }
+        continue;
+      }
+      current = current ? `${current}\n${unit}` : unit;
+    }
+    if (current) current += '\n';
+  }
+  push();
+
+  return pieces;
+}
+
+// Chunk a document without crossing page boundaries. Chunk IDs are the first 8 characters of the
+// document ID plus a 1-based index, which stays stable as long as the document content does.
+export function chunkDocument(document: RetrievableDocument): DocumentChunk[] {
+  if (!document.content) return [];
+
+  const prefix = document.id.slice(0, 8);
+  const pages = document.pages && document.pages.length > 1
+    ? document.pages
+    : [{ pageNumber: 0, text: document.content }];
+
+  const chunks: DocumentChunk[] = [];
+  for (const page of pages) {
+    for (const text of splitText(page.text)) {
+      chunks.push({
+        id: `${prefix}-${chunks.length + 1}`,
+        documentId: document.id,
+        documentName: document.name,
+        index: chunks.length,
+        page: page.pageNumber || undefined,
+        text,
+      });
+    }
+  }
+  return chunks;
+}
+
+// BM25 relevance of each chunk to the query
+function scoreChunks(chunks: DocumentChunk[], query: string): number[] {
+  const queryTerms = Array.from(new Set(tokenize(query)));
+  if (queryTerms.length === 0) return chunks.map(() => 0);
+
+  const k1 = 1.2;
+  const b = 0.75;
+  const chunkTerms = chunks.map(chunk => tokenize(chunk.text));
+  const averageLength = chunkTerms.reduce((sum, terms) => sum + terms.length, 0) / Math.max(1, chunks.length);
+
+  const documentFrequency = new Map<string, number>();
+  for (const terms of chunkTerms) {
+    for (const term of new Set(terms)) {
+      documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1);
+    }
+  }
+
+  return chunkTerms.map(terms => {
+    const termCounts = new Map<string, number>();
+    for (const term of terms) termCounts.set(term, (termCounts.get(term) || 0) + 1);
+
+    let score = 0;
+    for (const term of queryTerms) {
+      const frequency = termCounts.get(term) || 0;
+      if (frequency === 0) continue;
+      const df = documentFrequency.get(term) || 0;
+      const idf = Math.log(1 + (chunks.length - df + 0.5) / (df + 0.5));
+      score += idf * (frequency * (k1 + 1)) / (frequency + k1 * (1 - b + b * terms.length / Math.max(1, averageLength)));
+    }
+    return score;
+  });
+}
+
+// Pick the chunks to send for a task. Everything is sent when it fits the budget; otherwise each
+// document's best chunk goes in first, then the remaining chunks by relevance until the budget is spent.
+export function selectContext(
+  documents: RetrievableDocument[],
+  query: string,
+  budget: number = DEFAULT_CONTEXT_BUDGET
+): ContextSelection {
+  const readyDocuments = documents.filter(doc => doc.content && (!doc.status || doc.status === 'ready'));
+  const chunks = readyDocuments.flatMap(chunkDocument);
+  const totalLength = chunks.reduce((sum, chunk) => sum + chunk.text.length, 0);
+
+  if (totalLength <= budget) {
+    return { chunks, chunkIds: chunks.map(chunk => chunk.id), truncated: false };
+  }
+
+  const scores = scoreChunks(chunks, query);
+  const ranked = chunks
+    .map((chunk, position) => ({ chunk, score: scores[position], position }))
+    .sort((a, b) => b.score - a.score || a.position - b.position);
+
+  const selected = new Set<DocumentChunk>();
+  let used = 0;
+  const take = (chunk: DocumentChunk) => {
+    if (selected.has(chunk) || used + chunk.text.length > budget) return;
+    selected.add(chunk);
+    used += chunk.text.length;
+  };
+
+  for (const doc of readyDocuments) {
+    const best = ranked.find(entry => entry.chunk.documentId === doc.id);
+    if (best) take(best.chunk);
+  }
+  for (const entry of ranked) take(entry.chunk);
+
+  // Present selected chunks in document order so the model reads them in context
+  const ordered = chunks.filter(chunk => selected.has(chunk));
+  return { chunks: ordered, chunkIds: ordered.map(chunk => chunk.id), truncated: true };
+}
+
+// Render chunks grouped by document, each tagged with its chunk ID (and page when known)
+export function formatContext(
+  selection: ContextSelection,
+  labelFor: (documentId: string, documentName: string) => string = (_, name) => `DOCUMENT: ${name}`
+): string {
+  const sections: string[] = [];
+  let currentDocumentId: string | null = null;
+  let heading = '';
+  let body: string[] = [];
+
+  const flush = (chunk?: DocumentChunk) => {
+    if (currentDocumentId !== null) {
+      sections.push(`${heading}\n${body.join('\n\n')}\n=== END DOCUMENT ===`);
+    }
+    body = [];
+    if (chunk) {
+      currentDocumentId = chunk.documentId;
+      heading = `=== ${labelFor(chunk.documentId, chunk.documentName)} ===`;
+    }
+  };
+
+  for (const chunk of selection.chunks) {
+    if (chunk.documentId !== currentDocumentId) flush(chunk);
+    const header = chunk.page ? `[Chunk ${chunk.id} | Page ${chunk.page}]` : `[Chunk ${chunk.id}]`;
+    body.push(`${header}\n${chunk.text}`);
+  }
+  flush();
+
+  const note = selection.truncated
+    ? 'NOTE: The case file is too large to include in full. The excerpts below were selected as most relevant to this task.\n\n'
+    : '';
+  return note + sections.join('\n\n');
+}
+
+// Keep only chunk IDs that were actually sent to the model
+export function filterChunkIds(value: unknown, selection: ContextSelection): string[] | undefined {
+  if (!Array.isArray(value)) return undefined;
+  const known = new Set(selection.chunkIds);
+  const ids = value.map(String).filter(id => known.has(id));
+  return ids.length > 0 ? ids : undefined;
+}
@@ -0,0 +1,168 @@
+// Rough transcript ingestion for live depositions
+// The court reporter's realtime feed arrives in pieces. Each piece is appended to the session's
+// rough transcript, the whole text is re-parsed, and the Q/A exchanges completed since the last
+// piece are matched against the outline's unasked questions. A segment only counts as complete once
+// the next question starts, because later pieces can still add lines to it.
+
+import { v4 as uuidv4 } from 'uuid';
+import {
+  Contradiction,
+  DepositionQuestion,
+  DepositionSession,
+  LiveDeposition,
+  RoughTranscript,
+  SuggestedFollowUp,
+  TranscriptFlag,
+} from './deposition-types';
+import { formatCitation, parseTranscript, TestimonySegment } from './transcript-parser';
+import { getLiveQuestionStatus } from './live-deposition';
+import { mergeQuestions, questionSimilarity } from './question-dedupe';
+import { GeneratedRoughTranscriptReview } from './llm-schemas';
+
+export const MAX_TRANSCRIPT_CHUNK_LENGTH = 100_000;
+const MAX_TRANSCRIPT_LENGTH = 3_000_000; // Well past a seven-hour day
+// Rough transcript questions are phrased on the fly, so matching is looser than duplicate detection
+const MATCH_THRESHOLD = 0.45;
+const MAX_MATCHED_ANSWER_LENGTH = 300;
+
+export interface TranscriptExchange {
+  number: number; // 1-based within the batch, as cited in the review prompt
+  question: string;
+  answer: string;
+  citation: string;
+}
+
+export interface TranscriptMatch {
+  questionId: string;
+  question: string;
+  citation: string;
+}
+
+export function appendTranscriptText(
+  transcript: RoughTranscript | undefined,
+  text: string,
+  now = new Date()
+): { transcript: RoughTranscript } | { error: string } {
+  const current = transcript || { text: '', segmentsProcessed: 0, flags: [], suggestedFollowUps: [], updatedAt: now };
+  if (current.text.length + text.length > MAX_TRANSCRIPT_LENGTH) {
+    return { error: 'The rough transcript is too long to add to' };
+  }
+  return { transcript: { ...current, text: current.text + text, updatedAt: now } };
+}
+
+// Exchanges completed since the last call. Unless final, the exchange opened by the last question
+// waits for the next one, since its answer may still be coming in.
+export function takeNewExchanges(
+  transcript: RoughTranscript,
+  witnessName: string,
+  final: boolean
+): { exchanges: TranscriptExchange[]; segmentsProcessed: number; segmentCount: number } {
+  const { segments } = parseTranscript(transcript.text, { witnessName });
+  let end = segments.length;
+  if (!final) {
+    const lastQuestion = segments.map(segment => segment.type).lastIndexOf('question');
+    end = lastQuestion === -1 ? transcript.segmentsProcessed : lastQuestion;
+  }
+  end = Math.max(end, transcript.segmentsProcessed);
+
+  const exchanges: TranscriptExchange[] = [];
+  let question: TestimonySegment | null = null;
+  let answers: TestimonySegment[] = [];
+  const close = () => {
+    if (!question) return;
+    const last = answers[answers.length - 1] || question;
+    exchanges.push({
+      number: exchanges.length + 1,
+      question: question.text,
+      answer: answers.map(answer => answer.text).join(' '),
+      citation: formatCitation(question.start, last.end),
+    });
+  };
+
+  // Colloquy (objections, statements on the record) is skipped
+  for (const segment of segments.slice(transcript.segmentsProcessed, end)) {
+    if (segment.type === 'question') {
+      close();
+      question = segment;
+      answers = [];
+    } else if (segment.type === 'answer' && question) {
+      answers.push(segment);
+    }
+  }
+  close();
+
+  return { exchanges, segmentsProcessed: end, segmentCount: segments.length };
+}
+
+// Mark outline questions asked when an exchange asks the same thing; each question matches once
+export function matchOutlineQuestions(
+  session: DepositionSession,
+  live: LiveDeposition,
+  exchanges: TranscriptExchange[],
+  now = new Date()
+): { live: LiveDeposition; matches: TranscriptMatch[] } {
+  const candidates: DepositionQuestion[] = (session.outline?.sections || [])
+    .flatMap(section => section.questions)
+    .filter(question => ['pending', 'deferred'].includes(getLiveQuestionStatus(live, question.id)));
+  const questions = { ...live.questions };
+  const matches: TranscriptMatch[] = [];
+
+  for (const exchange of exchanges) {
+    let best: { question: DepositionQuestion; score: number } | null = null;
+    for (const candidate of candidates) {
+      const score = questionSimilarity(exchange.question, candidate.question);
+      if (score >= MATCH_THRESHOLD && (!best || score > best.score)) best = { question: candidate, score };
+    }
+    if (!best) continue;
+
+    candidates.splice(candidates.indexOf(best.question), 1);
+    const current = questions[best.question.id];
+    questions[best.question.id] = {
+      status: 'asked',
+      answerSummary: current?.answerSummary || exchange.answer.slice(0, MAX_MATCHED_ANSWER_LENGTH) || undefined,
+      transcriptCitation: exchange.citation,
+      updatedAt: now,
+    };
+    matches.push({ questionId: best.question.id, question: best.question.question, citation: exchange.citation });
+  }
+
+  return { live: { ...live, questions }, matches };
+}
+
+// Turn the model's review into flags and follow-ups, dropping references to exchanges or
+// contradictions that don't exist and follow-ups that repeat a question already planned
+export function buildTranscriptReview(
+  review: GeneratedRoughTranscriptReview,
+  exchanges: TranscriptExchange[],
+  contradictions: Contradiction[],
+  plannedQuestions: string[]
+): { flags: TranscriptFlag[]; followUps: SuggestedFollowUp[] } {
+  const exchangeAt = (number: number) => exchanges.find(exchange => exchange.number === number);
+
+  const flags: TranscriptFlag[] = [];
+  for (const conflict of review.conflicts) {
+    const exchange = exchangeAt(conflict.exchange);
+    const contradiction = contradictions[conflict.contradiction - 1];
+    if (!exchange || !contradiction) continue;
+    flags.push({
+      id: uuidv4(),
+      contradictionId: contradiction.id,
+      citation: exchange.citation,
+      question: exchange.question,
+      answer: exchange.answer,
+      explanation: conflict.explanation,
+      severity: conflict.severity,
+    });
+  }
+
+  const proposed: SuggestedFollowUp[] = [];
+  for (const followUp of review.followUps) {
+    const exchange = exchangeAt(followUp.exchange);
+    if (!exchange || !followUp.question.trim()) continue;
+    proposed.push({ id: uuidv4(), question: followUp.question.trim(), rationale: followUp.rationale, citation: exchange.citation });
+  }
+  const planned = plannedQuestions.map(question => ({ question }));
+  const { added } = mergeQuestions<{ question: string }>(planned, proposed);
+
+  return { flags, followUps: added as SuggestedFollowUp[] };
+}
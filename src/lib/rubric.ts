@@ -0,0 +1,100 @@
+// Scoring rubric for witness answers
+// The examiner scores every practice answer on each dimension from 1 (poor) to 5 (strong);
+// higher is always better, so a 5 on "volunteering" means the witness volunteered nothing extra.
+// Scores are saved on the exchange and averaged per session for the review step.
+
+import { AnswerRubric, PracticeExchange, RubricDimension } from './types';
+
+export const RUBRIC_MIN_SCORE = 1;
+export const RUBRIC_MAX_SCORE = 5;
+
+export const RUBRIC_DIMENSIONS: RubricDimension[] = [
+  'responsiveness',
+  'volunteering',
+  'documentConsistency',
+  'certainty',
+  'composure',
+  'length',
+];
+
+export const RUBRIC_GUIDANCE: Record<RubricDimension, { label: string; description: string }> = {
+  responsiveness: {
+    label: 'Responsiveness',
+    description: 'Answers the question actually asked, without dodging or answering a different question',
+  },
+  volunteering: {
+    label: 'No volunteering',
+    description: 'Gives no information beyond what the question calls for (5 = nothing extra volunteered)',
+  },
+  documentConsistency: {
+    label: 'Consistency with documents',
+    description: 'Agrees with the case documents and the witness\'s prior statements, or addresses a conflict honestly',
+  },
+  certainty: {
+    label: 'Certainty language',
+    description: 'Claims exactly as much certainty as the witness has - no guessing, needless hedging or overstatement',
+  },
+  composure: {
+    label: 'Composure',
+    description: 'Calm, professional tone; not argumentative, defensive or emotional',
+  },
+  length: {
+    label: 'Length',
+    description: 'As short as a complete, accurate answer allows',
+  },
+};
+
+// Rubric instructions for the examiner prompt
+export function describeRubricForPrompt(): string {
+  return RUBRIC_DIMENSIONS
+    .map(dimension => `- ${dimension}: ${RUBRIC_GUIDANCE[dimension].description}`)
+    .join('\n');
+}
+
+export interface RubricDimensionSummary {
+  label: string;
+  average: number; // Rounded to one decimal place
+  lowest: number;
+  highest: number;
+}
+
+export interface RubricSummary {
+  scoredAnswers: number;
+  overallAverage: number | null; // Mean of the dimension averages; null until an answer is scored
+  dimensions: Partial<Record<RubricDimension, RubricDimensionSummary>>;
+  weakestDimension?: RubricDimension;
+}
+
+function roundScore(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+// Per-dimension averages across every scored answer in the session, including follow-ups
+export function summarizeRubrics(history: PracticeExchange[]): RubricSummary {
+  const rubrics = history.map(exchange => exchange.rubric).filter((rubric): rubric is AnswerRubric => Boolean(rubric));
+  const dimensions: RubricSummary['dimensions'] = {};
+
+  for (const dimension of RUBRIC_DIMENSIONS) {
+    const scores = rubrics.map(rubric => rubric[dimension]?.score).filter((score): score is number => typeof score === 'number');
+    if (scores.length === 0) continue;
+    dimensions[dimension] = {
+      label: RUBRIC_GUIDANCE[dimension].label,
+      average: roundScore(scores.reduce((sum, score) => sum + score, 0) / scores.length),
+      lowest: Math.min(...scores),
+      highest: Math.max(...scores),
+    };
+  }
+
+  const scored = (Object.entries(dimensions) as Array<[RubricDimension, RubricDimensionSummary]>);
+  if (scored.length === 0) {
+    return { scoredAnswers: 0, overallAverage: null, dimensions };
+  }
+
+  const weakest = scored.reduce((lowest, entry) => (entry[1].average < lowest[1].average ? entry : lowest));
+  return {
+    scoredAnswers: rubrics.length,
+    overallAverage: roundScore(scored.reduce((sum, [, summary]) => sum + summary.average, 0) / scored.length),
+    dimensions,
+    weakestDimension: weakest[0],
+  };
+}
@@ -0,0 +1,175 @@
+// Minimal schema declarations for validating structured LLM output
+// A schema checks an unknown value, records every problem it finds with its JSON path,
+// and returns the typed value. Unknown object keys are dropped.
+
+export interface Schema<T> {
+  // Human-readable shape, included in repair prompts so the model can see what was expected
+  description: string;
+  parse(value: unknown, path: string, issues: string[]): T;
+}
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+export type ValidationResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; issues: string[] };
+
+function describeValue(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+export function string(options: { minLength?: number } = {}): Schema<string> {
+  const minLength = options.minLength ?? 1;
+  return {
+    description: 'string',
+    parse(value, path, issues) {
+      if (typeof value !== 'string') {
+        issues.push(`${path}: expected string, got ${describeValue(value)}`);
+        return '';
+      }
+      if (value.trim().length < minLength) {
+        issues.push(`${path}: must not be empty`);
+      }
+      return value;
+    },
+  };
+}
+
+// Page and section references come back as numbers as often as strings
+export function stringOrNumber(): Schema<string> {
+  return {
+    description: 'string',
+    parse(value, path, issues) {
+      if (typeof value === 'number') return String(value);
+      if (typeof value !== 'string') {
+        issues.push(`${path}: expected string, got ${describeValue(value)}`);
+        return '';
+      }
+      return value;
+    },
+  };
+}
+
+// Numeric strings such as "4" are accepted, since models sometimes quote numbers
+export function number(options: { min?: number; max?: number; integer?: boolean } = {}): Schema<number> {
+  const range = options.min !== undefined && options.max !== undefined ? ` ${options.min}-${options.max}` : '';
+  return {
+    description: `${options.integer ? 'integer' : 'number'}${range}`,
+    parse(value, path, issues) {
+      const parsed = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+      if (typeof parsed !== 'number' || !Number.isFinite(parsed)) {
+        issues.push(`${path}: expected number, got ${describeValue(value)}`);
+        return options.min ?? 0;
+      }
+      if (options.integer && !Number.isInteger(parsed)) {
+        issues.push(`${path}: expected a whole number, got ${parsed}`);
+      }
+      if ((options.min !== undefined && parsed < options.min) || (options.max !== undefined && parsed > options.max)) {
+        issues.push(`${path}: expected a value from ${options.min ?? '-∞'} to ${options.max ?? '∞'}, got ${parsed}`);
+      }
+      return parsed;
+    },
+  };
+}
+
+export function oneOf<T extends string>(values: readonly T[]): Schema<T> {
+  return {
+    description: values.map(value => `"${value}"`).join(' | '),
+    parse(value, path, issues) {
+      if (typeof value !== 'string' || !values.includes(value as T)) {
+        issues.push(`${path}: expected one of ${values.join(', ')}, got ${JSON.stringify(value)}`);
+        return values[0];
+      }
+      return value as T;
+    },
+  };
+}
+
+// Missing, null and empty-string values are all treated as absent
+export function optional<T>(schema: Schema<T>): Schema<T | undefined> {
+  return {
+    description: `${schema.description} (optional)`,
+    parse(value, path, issues) {
+      if (value === undefined || value === null || value === '') return undefined;
+      return schema.parse(value, path, issues);
+    },
+  };
+}
+
+export function array<T>(item: Schema<T>, options: { min?: number } = {}): Schema<T[]> {
+  return {
+    description: `Array<${item.description}>`,
+    parse(value, path, issues) {
+      if (!Array.isArray(value)) {
+        issues.push(`${path}: expected array, got ${describeValue(value)}`);
+        return [];
+      }
+      if (options.min !== undefined && value.length < options.min) {
+        issues.push(`${path}: expected at least ${options.min} item(s), got ${value.length}`);
+      }
+      return value.map((entry, index) => item.parse(entry, `${path}[${index}]`, issues));
+    },
+  };
+}
+
+export function object<Shape extends Record<string, Schema<unknown>>>(
+  shape: Shape
+): Schema<{ [K in keyof Shape]: Infer<Shape[K]> }> {
+  const fields = Object.entries(shape)
+    .map(([key, schema]) => `${key}: ${schema.description}`)
+    .join('; ');
+
+  return {
+    description: `{ ${fields} }`,
+    parse(value, path, issues) {
+      const result = {} as { [K in keyof Shape]: Infer<Shape[K]> };
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        issues.push(`${path}: expected object, got ${describeValue(value)}`);
+        return result;
+      }
+
+      const record = value as Record<string, unknown>;
+      for (const key of Object.keys(shape) as Array<keyof Shape & string>) {
+        result[key] = shape[key].parse(record[key], `${path}.${key}`, issues) as Infer<Shape[typeof key]>;
+      }
+      return result;
+    },
+  };
+}
+
+export function validate<T>(schema: Schema<T>, value: unknown): ValidationResult<T> {
+  const issues: string[] = [];
+  const parsed = schema.parse(value, '$', issues);
+  return issues.length === 0 ? { ok: true, value: parsed } : { ok: false, issues };
+}
+
+// Parse the JSON in a model response. Tolerates a markdown code fence or text around a single
+// top-level JSON value, but not malformed JSON - that is left for a repair request.
+export function extractJSON(content: string): unknown {
+  const cleaned = content
+    .replace(/^\uFEFF/, '')
+    .trim()
+    .replace(/^```(?:json)?\s*/i, '')
+    .replace(/\s*```$/, '')
+    .trim();
+
+  try {
+    return JSON.parse(cleaned);
+  } catch {
+    // Fall through to trimming surrounding prose
+  }
+
+  const start = cleaned.search(/[[{]/);
+  const end = Math.max(cleaned.lastIndexOf(']'), cleaned.lastIndexOf('}'));
+  if (start === -1 || end <= start) {
+    throw new Error('Response does not contain JSON');
+  }
+
+  try {
+    return JSON.parse(cleaned.slice(start, end + 1));
+  } catch (error) {
+    throw new Error(`Response is not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
@@ -1,22 +1,46 @@
-// In-memory session store for Testimony Prep Tool
-// WARNING: In-memory storage is NOT suitable for production on Vercel
-// Sessions will be lost on serverless function cold starts
-// For production, use a database (PostgreSQL, Redis, etc.)
+// Session store for Testimony Prep Tool
+// Backed by the storage driver selected with STORAGE_DRIVER (see storage.ts).
+// The default in-memory driver loses sessions on serverless cold starts;
+// use STORAGE_DRIVER=file to keep prep work across restarts.
 
 import { v4 as uuidv4 } from 'uuid';
-import { PracticeSession, Document, CrossExamQuestion, PracticeExchange } from './types';
+import { PracticeSession, Document, CrossExamQuestion, PracticeExchange, ConsistencyReport, SessionRecording } from './types';
+import { createStorage, getSessionTtlMs } from './storage';
 
-// In-memory storage - sessions will be lost on serverless cold starts
-// TODO: Replace with database storage for production
-const sessions: Map<string, PracticeSession> = new Map();
+// Rebuild Date fields when sessions are loaded from persistent storage
+function hydrateSession(raw: Record<string, unknown>): PracticeSession {
+  const session = raw as unknown as PracticeSession;
+  return {
+    ...session,
+    createdAt: new Date(session.createdAt),
+    documents: session.documents.map(doc => ({
+      ...doc,
+      uploadedAt: new Date(doc.uploadedAt),
+    })),
+    practiceHistory: session.practiceHistory.map(exchange => ({
+      ...exchange,
+      timestamp: new Date(exchange.timestamp),
+    })),
+    consistencyReport: session.consistencyReport && {
+      ...session.consistencyReport,
+      generatedAt: new Date(session.consistencyReport.generatedAt),
+    },
+    recordings: session.recordings?.map(recording => ({
+      ...recording,
+      startedAt: new Date(recording.startedAt),
+      endedAt: recording.endedAt ? new Date(recording.endedAt) : undefined,
+    })),
+  };
+}
 
-// Session cleanup - remove sessions older than 24 hours to prevent memory leaks
-const SESSION_TTL_MS = 24 * 60 * 60 * 1000; // 24 hours
+const sessions = createStorage<PracticeSession>('sessions', { hydrate: hydrateSession });
 
+// Session cleanup - remove sessions older than SESSION_TTL_HOURS (default 24) to prevent buildup
 function cleanupOldSessions(): void {
   const now = new Date().getTime();
+  const ttlMs = getSessionTtlMs();
   for (const [id, session] of sessions.entries()) {
-    if (now - new Date(session.createdAt).getTime() > SESSION_TTL_MS) {
+    if (now - new Date(session.createdAt).getTime() > ttlMs) {
       sessions.delete(id);
     }
   }
@@ -47,7 +71,7 @@ export function getSession(sessionId: string): PracticeSession | undefined {
 }
 
 export function getAllSessions(): PracticeSession[] {
-  return Array.from(sessions.values()).sort(
+  return sessions.entries().map(([, session]) => session).sort(
     (a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
   );
 }
@@ -92,6 +116,30 @@ export function setQuestions(sessionId: string, questions: CrossExamQuestion[]):
   return session;
 }
 
+// Add questions after the existing ones; existing IDs (and practice history that uses them) are untouched
+export function appendQuestions(sessionId: string, questions: CrossExamQuestion[]): PracticeSession | undefined {
+  const session = sessions.get(sessionId);
+  if (!session) return undefined;
+  
+  session.questions = [...session.questions, ...questions];
+  session.status = 'ready';
+  sessions.set(sessionId, session);
+  return session;
+}
+
+// Update one question in place, keeping its ID
+export function updateQuestion(sessionId: string, questionId: string, updates: Partial<CrossExamQuestion>): PracticeSession | undefined {
+  const session = sessions.get(sessionId);
+  if (!session) return undefined;
+  
+  const questionIndex = session.questions.findIndex(q => q.id === questionId);
+  if (questionIndex === -1) return undefined;
+  
+  session.questions[questionIndex] = { ...session.questions[questionIndex], ...updates, id: questionId };
+  sessions.set(sessionId, session);
+  return session;
+}
+
 export function addPracticeExchange(sessionId: string, exchange: PracticeExchange): PracticeSession | undefined {
   const session = sessions.get(sessionId);
   if (!session) return undefined;
@@ -102,6 +150,37 @@ export function addPracticeExchange(sessionId: string, exchange: PracticeExchang
   return session;
 }
 
+export function addRecording(sessionId: string, recording: SessionRecording): PracticeSession | undefined {
+  const session = sessions.get(sessionId);
+  if (!session) return undefined;
+  
+  session.recordings = [...(session.recordings || []), recording];
+  sessions.set(sessionId, session);
+  return session;
+}
+
+export function updateRecording(sessionId: string, recordingId: string, updates: Partial<SessionRecording>): PracticeSession | undefined {
+  const session = sessions.get(sessionId);
+  if (!session?.recordings) return undefined;
+  
+  const recordingIndex = session.recordings.findIndex(r => r.id === recordingId);
+  if (recordingIndex === -1) return undefined;
+  
+  session.recordings[recordingIndex] = { ...session.recordings[recordingIndex], ...updates, id: recordingId };
+  sessions.set(sessionId, session);
+  return session;
+}
+
+// Replace the session's consistency report with the result of a new check
+export function setConsistencyReport(sessionId: string, report: ConsistencyReport): PracticeSession | undefined {
+  const session = sessions.get(sessionId);
+  if (!session) return undefined;
+  
+  session.consistencyReport = report;
+  sessions.set(sessionId, session);
+  return session;
+}
+
 export function deleteSession(sessionId: string): boolean {
   return sessions.delete(sessionId);
 }
@@ -119,5 +198,22 @@ export function serializeSession(session: PracticeSession): Record<string, unkno
       ...exchange,
       timestamp: exchange.timestamp.toISOString(),
     })),
+    consistencyReport: session.consistencyReport && serializeConsistencyReport(session.consistencyReport),
+    recordings: session.recordings?.map(serializeRecording),
+  };
+}
+
+export function serializeRecording(recording: SessionRecording): Record<string, unknown> {
+  return {
+    ...recording,
+    startedAt: recording.startedAt.toISOString(),
+    endedAt: recording.endedAt?.toISOString(),
+  };
+}
+
+export function serializeConsistencyReport(report: ConsistencyReport): Record<string, unknown> {
+  return {
+    ...report,
+    generatedAt: report.generatedAt.toISOString(),
   };
 }
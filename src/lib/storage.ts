@@ -0,0 +1,138 @@
+// Pluggable storage adapters for session persistence
+// The driver is selected with the STORAGE_DRIVER environment variable:
+//   memory (default) - module-level Map, lost on restart or serverless cold start
+//   file             - one JSON file per record under STORAGE_DIR, survives restarts and is
+//                      shared by every process pointed at the same directory
+
+import fs from 'fs';
+import path from 'path';
+
+export interface StorageAdapter<T> {
+  get(id: string): T | undefined;
+  set(id: string, value: T): void;
+  delete(id: string): boolean;
+  entries(): Array<[string, T]>;
+}
+
+export type StorageDriver = 'memory' | 'file';
+
+export interface StorageOptions<T> {
+  // Rebuilds runtime values (e.g. Date objects) from parsed JSON
+  hydrate?: (raw: Record<string, unknown>) => T;
+}
+
+const DEFAULT_STORAGE_DIR = '.data';
+const DEFAULT_TTL_HOURS = 24;
+
+export function getStorageDriver(): StorageDriver {
+  const driver = (process.env.STORAGE_DRIVER || 'memory').toLowerCase();
+  if (driver !== 'memory' && driver !== 'file') {
+    throw new Error(`Unknown STORAGE_DRIVER "${driver}". Use "memory" or "file".`);
+  }
+  return driver;
+}
+
+// Sessions older than this are removed on the next session creation
+export function getSessionTtlMs(): number {
+  const hours = Number(process.env.SESSION_TTL_HOURS);
+  const ttlHours = Number.isFinite(hours) && hours > 0 ? hours : DEFAULT_TTL_HOURS;
+  return ttlHours * 60 * 60 * 1000;
+}
+
+// In-memory driver - same behavior as the original module-level Map
+export function createMemoryStorage<T>(): StorageAdapter<T> {
+  const items: Map<string, T> = new Map();
+
+  return {
+    get: (id) => items.get(id),
+    set: (id, value) => {
+      items.set(id, value);
+    },
+    delete: (id) => items.delete(id),
+    entries: () => Array.from(items.entries()),
+  };
+}
+
+// File-backed driver - keeps one JSON file per record under <directory>/<namespace>/.
+// Each write replaces a single record atomically, and reads re-load a record whenever its file
+// changed since it was cached, so several processes (or server instances) sharing the directory
+// see each other's writes. Unchanged records are served from the cache, so callers can keep
+// mutating the returned objects and then call set() exactly as they would with a Map. There is
+// no locking: two processes writing the same record at once means the last write wins.
+export function createFileStorage<T>(
+  namespace: string,
+  options: StorageOptions<T> & { directory?: string } = {}
+): StorageAdapter<T> {
+  const directory = path.join(options.directory || process.env.STORAGE_DIR || DEFAULT_STORAGE_DIR, namespace);
+  const cache: Map<string, { mtimeNs: bigint; value: T }> = new Map();
+
+  const getRecordPath = (id: string) => path.join(directory, `${encodeURIComponent(id)}.json`);
+
+  function writeRecord(id: string, value: T): void {
+    fs.mkdirSync(directory, { recursive: true });
+    // Write to a temp file and rename so a crash mid-write can't corrupt the record and readers
+    // never see half a file
+    const recordPath = getRecordPath(id);
+    const tempPath = `${recordPath}.${process.pid}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(value));
+    fs.renameSync(tempPath, recordPath);
+    cache.set(id, { mtimeNs: fs.statSync(recordPath, { bigint: true }).mtimeNs, value });
+  }
+
+  function read(id: string): T | undefined {
+    const recordPath = getRecordPath(id);
+    let mtimeNs: bigint;
+    try {
+      mtimeNs = fs.statSync(recordPath, { bigint: true }).mtimeNs;
+    } catch {
+      cache.delete(id);
+      return undefined;
+    }
+
+    const cached = cache.get(id);
+    if (cached && cached.mtimeNs === mtimeNs) return cached.value;
+
+    let raw: Record<string, unknown>;
+    try {
+      raw = JSON.parse(fs.readFileSync(recordPath, 'utf8'));
+    } catch {
+      // Deleted by another process between the stat and the read
+      cache.delete(id);
+      return undefined;
+    }
+    const value = options.hydrate ? options.hydrate(raw) : raw as T;
+    cache.set(id, { mtimeNs, value });
+    return value;
+  }
+
+  return {
+    get: (id) => read(id),
+    set: (id, value) => {
+      writeRecord(id, value);
+    },
+    delete: (id) => {
+      cache.delete(id);
+      try {
+        fs.unlinkSync(getRecordPath(id));
+        return true;
+      } catch {
+        return false;
+      }
+    },
+    entries: () => {
+      if (!fs.existsSync(directory)) return [];
+      return fs.readdirSync(directory)
+        .filter(name => name.endsWith('.json'))
+        .map(name => decodeURIComponent(name.slice(0, -'.json'.length)))
+        .map(id => [id, read(id)] as [string, T | undefined])
+        .filter((entry): entry is [string, T] => entry[1] !== undefined);
+    },
+  };
+}
+
+// Create the adapter for a namespace using the configured driver
+export function createStorage<T>(namespace: string, options: StorageOptions<T> = {}): StorageAdapter<T> {
+  return getStorageDriver() === 'file'
+    ? createFileStorage<T>(namespace, options)
+    : createMemoryStorage<T>();
+}
@@ -0,0 +1,152 @@
+// Server-side text extraction for uploaded case documents
+// Supports plain text, PDF (via unpdf) and DOCX (via jszip). Legacy .doc files are rejected.
+
+import JSZip from 'jszip';
+import { extractText, getDocumentProxy } from 'unpdf';
+import { DocumentPage } from './types';
+
+export interface ExtractedText {
+  content: string;
+  pages: DocumentPage[];
+}
+
+type FileKind = 'text' | 'pdf' | 'docx' | 'doc' | 'unknown';
+
+function getFileKind(file: File): FileKind {
+  const name = file.name.toLowerCase();
+  if (file.type === 'text/plain' || name.endsWith('.txt')) return 'text';
+  if (file.type === 'application/pdf' || name.endsWith('.pdf')) return 'pdf';
+  if (file.type === 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' || name.endsWith('.docx')) {
+    return 'docx';
+  }
+  if (file.type === 'application/msword' || name.endsWith('.doc')) return 'doc';
+  return 'unknown';
+}
+
+// Join page text into a single content string with page markers the LLM can cite. Markers count
+// PDF pages, not the page numbers printed on them; the transcript parser prefers printed numbers.
+export function joinPages(pages: DocumentPage[]): string {
+  if (pages.length <= 1) return pages[0]?.text || '';
+  return pages.map(page => `[Page ${page.pageNumber}]\n${page.text}`).join('\n\n');
+}
+
+async function extractPdf(data: ArrayBuffer): Promise<DocumentPage[]> {
+  const pdf = await getDocumentProxy(new Uint8Array(data));
+  const { text } = await extractText(pdf, { mergePages: false });
+  return text.map((pageText, index) => ({
+    pageNumber: index + 1,
+    text: pageText.trim(),
+  }));
+}
+
+// Character references can be decimal or hex and can name characters outside the BMP;
+// an out-of-range reference is left as written
+function decodeCharacterReference(reference: string, code: number): string {
+  return code <= 0x10ffff ? String.fromCodePoint(code) : reference;
+}
+
+function decodeXmlEntities(text: string): string {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (reference, code) => decodeCharacterReference(reference, Number(code)))
+    .replace(/&#x([0-9a-f]+);/gi, (reference, hex) => decodeCharacterReference(reference, parseInt(hex, 16)))
+    .replace(/&amp;/g, '&');
+}
+
+const DOCX_TOKEN_PATTERN = /<w:p(?:\s[^>]*)?\/>|<w:p(?:\s[^>]*)?>|<\/w:p>|<w:t[\s>][^<]*<\/w:t>|<w:t\/>|<w:tab\/>|<w:br[^>]*\/>|<w:lastRenderedPageBreak\/>/g;
+
+// DOCX has no fixed pagination, so pages are split on explicit page breaks and the
+// page breaks Word recorded at last render. Documents without either are one page.
+async function extractDocx(data: ArrayBuffer): Promise<DocumentPage[]> {
+  const zip = await JSZip.loadAsync(data);
+  const documentXml = await zip.file('word/document.xml')?.async('string');
+  if (!documentXml) {
+    throw new Error('Missing word/document.xml - file is not a valid DOCX document');
+  }
+
+  // Paragraphs nest (text boxes hold their own paragraphs inside a run), so walk the tags and
+  // keep a line per open paragraph rather than matching each <w:p> to the next </w:p>
+  const pages: string[][] = [[]];
+  const openLines: string[] = [];
+
+  // Text boxes are saved twice, as DrawingML and as a legacy VML fallback; read only the first
+  const xml = documentXml.replace(/<mc:Fallback>[\s\S]*?<\/mc:Fallback>/g, '');
+  for (const [token] of xml.matchAll(DOCX_TOKEN_PATTERN)) {
+    if (token === '</w:p>') {
+      pages[pages.length - 1].push(openLines.pop() ?? '');
+      continue;
+    }
+    if (token.startsWith('<w:p')) {
+      if (token.endsWith('/>')) pages[pages.length - 1].push('');
+      else openLines.push('');
+      continue;
+    }
+    if (openLines.length === 0) continue;
+
+    const current = openLines.length - 1;
+    if (token.startsWith('<w:tab')) {
+      openLines[current] += '\t';
+    } else if (token.startsWith('<w:lastRenderedPageBreak') || token.includes('w:type="page"')) {
+      pages[pages.length - 1].push(openLines[current]);
+      pages.push([]);
+      openLines[current] = '';
+    } else if (token.startsWith('<w:br')) {
+      openLines[current] += '\n';
+    } else {
+      openLines[current] += decodeXmlEntities(token.replace(/<[^>]+>/g, ''));
+    }
+  }
+
+  return pages
+    .map(lines => lines.join('\n').trim())
+    .filter(text => text.length > 0)
+    .map((text, index) => ({ pageNumber: index + 1, text }));
+}
+
+// Extract text from an uploaded file. Throws with a user-facing reason when the file can't be parsed.
+export async function extractDocumentText(file: File): Promise<ExtractedText> {
+  const kind = getFileKind(file);
+  let pages: DocumentPage[];
+
+  switch (kind) {
+    case 'text':
+      pages = [{ pageNumber: 1, text: await file.text() }];
+      break;
+
+    case 'pdf':
+      try {
+        pages = await extractPdf(await file.arrayBuffer());
+      } catch (error) {
+        console.error('PDF extraction failed:', error);
+        throw new Error('Could not read PDF. The file may be corrupt or password-protected.');
+      }
+      break;
+
+    case 'docx':
+      try {
+        pages = await extractDocx(await file.arrayBuffer());
+      } catch (error) {
+        console.error('DOCX extraction failed:', error);
+        throw new Error('Could not read Word document. The file may be corrupt.');
+      }
+      break;
+
+    case 'doc':
+      throw new Error('Legacy .doc files are not supported. Save the file as .docx or PDF and upload again.');
+
+    default:
+      throw new Error('Unsupported file type');
+  }
+
+  const content = joinPages(pages);
+  if (!content.trim()) {
+    throw new Error(kind === 'pdf'
+      ? 'No text found in PDF. Scanned documents need OCR before upload.'
+      : 'No text found in document.');
+  }
+
+  return { content, pages };
+}
@@ -0,0 +1,163 @@
+// Deposition time budget
+// Estimates how long each outline question takes on the record from its category, priority and
+// follow-ups, totals sections and the outline, and checks the plan against a time limit - by default
+// the federal one day of seven hours (FRCP 30(d)(1)). When the plan runs over, low-priority questions
+// are suggested as cuts, longest first, until it fits.
+
+import { DepositionQuestion, DepositionSession } from './deposition-types';
+import { getOutlineSections } from './outline-export';
+
+export const FEDERAL_TIME_LIMIT_MINUTES = 7 * 60;
+const MIN_TIME_LIMIT_MINUTES = 30;
+const MAX_TIME_LIMIT_MINUTES = 40 * 60; // Multi-day depositions by stipulation or court order
+
+// Minutes on the record for the question itself and the witness's answer
+const CATEGORY_MINUTES: Record<DepositionQuestion['category'], number> = {
+  general: 2,
+  follow_up: 1.5,
+  foundation: 2.5,
+  timeline: 3,
+  gap: 3,
+  contradiction: 4, // Confronting the witness with the other source
+  impeachment: 5, // Committing the witness, then reading in the prior statement
+};
+
+// High-priority lines get pressed harder; low-priority ones are usually asked quickly
+const PRIORITY_FACTORS: Record<DepositionQuestion['priority'], number> = {
+  high: 1.25,
+  medium: 1,
+  low: 0.75,
+};
+
+const FOLLOW_UP_MINUTES = 1;
+
+export interface QuestionTimeEstimate {
+  questionId: string;
+  question: string;
+  priority: DepositionQuestion['priority'];
+  sectionId?: string;
+  sectionTitle: string;
+  minutes: number;
+}
+
+export interface SectionTimeBudget {
+  sectionId?: string; // Absent for topic groups before the outline is organized
+  title: string;
+  questionCount: number;
+  minutes: number;
+}
+
+export interface TimeBudget {
+  limitMinutes: number;
+  totalMinutes: number;
+  remainingMinutes: number; // Negative when the plan runs over
+  overLimit: boolean;
+  sections: SectionTimeBudget[];
+  warning?: string;
+  suggestedCuts: QuestionTimeEstimate[]; // Low-priority questions to drop, in the order to drop them
+  minutesAfterCuts: number;
+  fitsAfterCuts: boolean;
+}
+
+// Rounded to the half minute
+export function estimateQuestionMinutes(question: DepositionQuestion): number {
+  const minutes = CATEGORY_MINUTES[question.category] * PRIORITY_FACTORS[question.priority]
+    + (question.followUpQuestions?.length || 0) * FOLLOW_UP_MINUTES;
+  return Math.round(minutes * 2) / 2;
+}
+
+// Whole minutes, rounded up
+export function estimateSectionMinutes(questions: DepositionQuestion[]): number {
+  return Math.ceil(questions.reduce((sum, question) => sum + estimateQuestionMinutes(question), 0));
+}
+
+// e.g. "7h", "6h 45m", "40m"
+export function formatMinutes(minutes: number): string {
+  const total = Math.round(Math.abs(minutes));
+  const hours = Math.floor(total / 60);
+  const rest = total % 60;
+  if (hours === 0) return `${rest}m`;
+  return rest === 0 ? `${hours}h` : `${hours}h ${rest}m`;
+}
+
+// DEPOSITION_TIME_LIMIT_MINUTES overrides the federal default for sessions without their own limit
+export function getDefaultTimeLimitMinutes(): number {
+  const configured = Number(process.env.DEPOSITION_TIME_LIMIT_MINUTES);
+  return Number.isInteger(configured) && configured >= MIN_TIME_LIMIT_MINUTES && configured <= MAX_TIME_LIMIT_MINUTES
+    ? configured
+    : FEDERAL_TIME_LIMIT_MINUTES;
+}
+
+export function getTimeLimitMinutes(session: DepositionSession): number {
+  return session.timeLimitMinutes ?? getDefaultTimeLimitMinutes();
+}
+
+export function parseTimeLimit(value: unknown): { minutes: number } | { error: string } {
+  const minutes = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+  if (typeof minutes !== 'number' || !Number.isInteger(minutes) || minutes < MIN_TIME_LIMIT_MINUTES || minutes > MAX_TIME_LIMIT_MINUTES) {
+    return { error: `timeLimitMinutes must be a whole number of minutes from ${MIN_TIME_LIMIT_MINUTES} to ${MAX_TIME_LIMIT_MINUTES}` };
+  }
+  return { minutes };
+}
+
+export function buildTimeBudget(session: DepositionSession, limitMinutes = getTimeLimitMinutes(session)): TimeBudget {
+  const outlineSections = getOutlineSections(session);
+  const estimates: QuestionTimeEstimate[] = outlineSections.flatMap(section =>
+    section.questions.map(question => ({
+      questionId: question.id,
+      question: question.question,
+      priority: question.priority,
+      sectionId: section.id,
+      sectionTitle: section.title,
+      minutes: estimateQuestionMinutes(question),
+    }))
+  );
+
+  const sections = outlineSections.map(section => ({
+    sectionId: section.id,
+    title: section.title,
+    questionCount: section.questions.length,
+    minutes: estimateSectionMinutes(section.questions),
+  }));
+  const totalMinutes = sections.reduce((sum, section) => sum + section.minutes, 0);
+  const overLimit = totalMinutes > limitMinutes;
+
+  // Longest low-priority questions first, so the fewest questions are cut; locked questions are kept
+  const lockedIds = new Set(session.questions.filter(question => question.locked).map(question => question.id));
+  const candidates = estimates
+    .filter(estimate => estimate.priority === 'low' && !lockedIds.has(estimate.questionId))
+    .sort((a, b) => b.minutes - a.minutes);
+  const suggestedCuts: QuestionTimeEstimate[] = [];
+  let minutesAfterCuts = totalMinutes;
+  for (const candidate of candidates) {
+    if (minutesAfterCuts <= limitMinutes) break;
+    suggestedCuts.push(candidate);
+    minutesAfterCuts -= candidate.minutes;
+  }
+  minutesAfterCuts = Math.ceil(minutesAfterCuts);
+  const fitsAfterCuts = minutesAfterCuts <= limitMinutes;
+
+  let warning: string | undefined;
+  if (overLimit) {
+    warning = `The outline runs about ${formatMinutes(totalMinutes)}, ${formatMinutes(totalMinutes - limitMinutes)} over the ${formatMinutes(limitMinutes)} limit.`;
+    if (suggestedCuts.length > 0) {
+      warning += fitsAfterCuts
+        ? ` Cutting ${suggestedCuts.length} low-priority question${suggestedCuts.length === 1 ? '' : 's'} brings it to ${formatMinutes(minutesAfterCuts)}.`
+        : ` Cutting every unlocked low-priority question still leaves ${formatMinutes(minutesAfterCuts)}; medium-priority lines will need trimming too.`;
+    } else {
+      warning += ' There are no unlocked low-priority questions to cut; trim medium-priority lines instead.';
+    }
+  }
+
+  return {
+    limitMinutes,
+    totalMinutes,
+    remainingMinutes: limitMinutes - totalMinutes,
+    overLimit,
+    sections,
+    warning,
+    suggestedCuts,
+    minutesAfterCuts,
+    fitsAfterCuts,
+  };
+}
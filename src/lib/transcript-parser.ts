@@ -0,0 +1,339 @@
+// Deposition transcript parser
+// Turns page/line-numbered transcript text into testimony segments with page:line citations.
+//
+// Handles the common layouts:
+//   - numbered lines (1-25 per page) with or without page headers
+//   - page headers: "Page 42", form feeds, or a page number on its own line at the top or
+//     bottom of the page (right-aligned anywhere)
+//   - "[Page 3]" markers added by text extraction, which count PDF pages rather than
+//     transcript pages; used only when the page has no printed number, and cited as "PDF p. 3:7"
+//   - Q./A. turns (also "Q:" / "A:")
+//   - speaker labels such as "MR. SMITH:", "THE WITNESS:", and "BY MS. JONES:" examination headers
+
+export interface TranscriptLocation {
+  page: number;
+  line: number;
+  physicalPage?: boolean; // page is the PDF page, as no printed page number was found
+}
+
+export interface TranscriptLine extends TranscriptLocation {
+  text: string;
+}
+
+export interface TestimonySegment {
+  type: 'question' | 'answer' | 'colloquy';
+  speaker: string;
+  text: string;
+  start: TranscriptLocation;
+  end: TranscriptLocation;
+  citation: string;
+}
+
+export interface ParsedTranscript {
+  lines: TranscriptLine[];
+  segments: TestimonySegment[];
+  pageCount: number;
+}
+
+export interface TranscriptParseOptions {
+  // Name used as the speaker for "A." turns; defaults to "THE WITNESS"
+  witnessName?: string;
+}
+
+const MAX_LINES_PER_PAGE = 25;
+const PHYSICAL_PAGE_PREFIX = 'PDF p. ';
+const PAGE_HEADER_PATTERN = /^page\s+(\d{1,5})$/i;
+const EXTRACTED_PAGE_PATTERN = /^\[page\s+(\d{1,5})\]$/i;
+const RIGHT_ALIGNED_PAGE_PATTERN = /^\s{10,}(\d{1,5})\s*$/;
+const BARE_NUMBER_PATTERN = /^\s*(\d{1,5})\s*$/;
+const NUMBERED_LINE_PATTERN = /^\s*(\d{1,2})(?:\s+(.*))?$/;
+const TURN_PATTERN = /^([QA])[.:]\s*(.*)$/;
+const SPEAKER_PATTERN = /^(BY\s+)?((?:MR|MS|MRS|MISS|DR)\.\s+[A-Z][A-Z'\-]+(?:\s+[A-Z][A-Z'\-]+)?|THE\s+(?:WITNESS|COURT\s+REPORTER|REPORTER|COURT|VIDEOGRAPHER)):\s*(.*)$/;
+
+// Format a page:line range as "42:7-15", "42:7" or "42:24-43:3"; PDF pages read "PDF p. 3:7-15"
+export function formatCitation(start: TranscriptLocation, end: TranscriptLocation = start): string {
+  const prefix = start.physicalPage || end.physicalPage ? PHYSICAL_PAGE_PREFIX : '';
+  if (start.page === end.page) {
+    return start.line === end.line
+      ? `${prefix}${start.page}:${start.line}`
+      : `${prefix}${start.page}:${start.line}-${end.line}`;
+  }
+  return `${prefix}${start.page}:${start.line}-${end.page}:${end.line}`;
+}
+
+// Parse any formatCitation output back into a range; returns null for anything else
+export function parseCitation(citation: string): { start: TranscriptLocation; end: TranscriptLocation } | null {
+  const match = citation.trim().match(/^(PDF p\.\s*)?(\d+):(\d+)(?:-(?:(\d+):)?(\d+))?$/i);
+  if (!match) return null;
+
+  const physical = match[1] ? { physicalPage: true } : {};
+  const start = { page: Number(match[2]), line: Number(match[3]), ...physical };
+  const end = match[5]
+    ? { page: match[4] ? Number(match[4]) : start.page, line: Number(match[5]), ...physical }
+    : start;
+  return { start, end };
+}
+
+interface RawPage {
+  printedPage?: number; // From a "Page 42" header or a page number line on the page
+  pdfPage?: number; // From the "[Page 3]" marker text extraction adds for each PDF page
+  lines: string[];
+}
+
+interface ReadPage {
+  printedPage?: number;
+  lines: Array<{ line: number; text: string }>;
+}
+
+// Split raw text on form feeds, page headers and extraction markers; blank lines are dropped
+function splitPages(content: string): RawPage[] {
+  const pages: RawPage[] = [{ lines: [] }];
+
+  content.split('\f').forEach((rawPage, pageIndex) => {
+    if (pageIndex > 0) pages.push({ lines: [] });
+
+    for (const rawLine of rawPage.split(/\r?\n/)) {
+      if (!rawLine.trim()) continue;
+
+      const marker = rawLine.trim().match(EXTRACTED_PAGE_PATTERN);
+      const header = rawLine.trim().match(PAGE_HEADER_PATTERN) || rawLine.match(RIGHT_ALIGNED_PAGE_PATTERN);
+      if (!marker && !header) {
+        pages[pages.length - 1].lines.push(rawLine);
+        continue;
+      }
+
+      // A header right after a marker names the same page
+      let page = pages[pages.length - 1];
+      if (page.lines.length > 0) {
+        page = { lines: [] };
+        pages.push(page);
+      }
+      if (marker) page.pdfPage = Number(marker[1]);
+      else page.printedPage = Number(header![1]);
+    }
+  });
+
+  return pages;
+}
+
+function getLineNumber(rawLine: string): number | undefined {
+  const match = rawLine.match(NUMBERED_LINE_PATTERN);
+  const lineNumber = Number(match?.[1]);
+  return match && lineNumber >= 1 && lineNumber <= MAX_LINES_PER_PAGE ? lineNumber : undefined;
+}
+
+// Only pages where most lines carry a line number are read as numbered, so testimony that
+// happens to start with a number isn't mistaken for one
+function isLineNumbered(rawLines: string[]): boolean {
+  return rawLines.filter(rawLine => getLineNumber(rawLine) !== undefined).length * 2 > rawLines.length;
+}
+
+// Unnumbered pages: a bare number on the first or last line is the printed page number, and
+// lines are counted sequentially
+function readUnnumberedPage(rawLines: string[]): ReadPage {
+  const texts = rawLines.map(rawLine => rawLine.trim());
+  let printedPage: number | undefined;
+  if (BARE_NUMBER_PATTERN.test(texts[0] || '')) {
+    printedPage = Number(texts.shift());
+  } else if (texts.length > 1 && BARE_NUMBER_PATTERN.test(texts[texts.length - 1])) {
+    printedPage = Number(texts.pop());
+  }
+  return { printedPage, lines: texts.map((text, index) => ({ line: index + 1, text })) };
+}
+
+// Numbered pages: line numbers restarting without a page header means a new page. A bare
+// number that can't be the next line number (too large, or followed by a lower line number)
+// is a printed page number.
+function readNumberedPage(rawLines: string[]): ReadPage[] {
+  const pages: ReadPage[] = [{ lines: [] }];
+  let lastLine = 0;
+
+  rawLines.forEach((rawLine, index) => {
+    let page = pages[pages.length - 1];
+    const lineNumber = getLineNumber(rawLine);
+    const bare = rawLine.match(BARE_NUMBER_PATTERN);
+
+    if (bare) {
+      const number = Number(bare[1]);
+      const isLast = index === rawLines.length - 1;
+      const nextLine = isLast ? undefined : getLineNumber(rawLines[index + 1]);
+      const isPageNumber = lineNumber === undefined
+        || (nextLine !== undefined && nextLine <= number)
+        || (isLast && number <= lastLine);
+      if (isPageNumber) {
+        // At the bottom of the page, or mid-page with numbering carrying on, it labels this page
+        const labelsThisPage = lastLine === 0 || isLast || (nextLine !== undefined && nextLine > lastLine);
+        if (!labelsThisPage) {
+          page = { lines: [] };
+          pages.push(page);
+          lastLine = 0;
+        }
+        page.printedPage ??= number;
+        return;
+      }
+    }
+
+    if (lineNumber !== undefined) {
+      if (lineNumber <= lastLine) {
+        page = { lines: [] };
+        pages.push(page);
+      }
+      lastLine = lineNumber;
+      const text = rawLine.match(NUMBERED_LINE_PATTERN)?.[2]?.trim();
+      if (text) page.lines.push({ line: lineNumber, text });
+      return;
+    }
+
+    // Stray unnumbered text on a numbered page takes the next line number
+    lastLine += 1;
+    page.lines.push({ line: lastLine, text: rawLine.trim() });
+  });
+
+  return pages;
+}
+
+// Split raw text into page/line-addressed transcript lines. Printed page numbers win; pages
+// without one fall back to the PDF page order and are marked physicalPage.
+function readLines(content: string): TranscriptLine[] {
+  const lines: TranscriptLine[] = [];
+  let page = 0;
+  let physicalPage = false;
+
+  for (const rawPage of splitPages(content)) {
+    const pages = isLineNumbered(rawPage.lines) ? readNumberedPage(rawPage.lines) : [readUnnumberedPage(rawPage.lines)];
+
+    pages.forEach((readPage, index) => {
+      const printedPage = index === 0 ? rawPage.printedPage ?? readPage.printedPage : readPage.printedPage;
+      if (printedPage !== undefined) {
+        page = printedPage;
+        physicalPage = false;
+      } else if (index === 0 && rawPage.pdfPage !== undefined) {
+        page = rawPage.pdfPage;
+        physicalPage = true;
+      } else {
+        page += 1;
+      }
+
+      for (const line of readPage.lines) {
+        lines.push({ page, line: line.line, text: line.text, ...(physicalPage ? { physicalPage } : {}) });
+      }
+    });
+  }
+
+  return lines;
+}
+
+export function parseTranscript(content: string, options: TranscriptParseOptions = {}): ParsedTranscript {
+  const witness = options.witnessName || 'THE WITNESS';
+  const lines = readLines(content);
+  const segments: TestimonySegment[] = [];
+  let examiner = 'Q';
+  let current: TestimonySegment | null = null;
+
+  const locate = (line: TranscriptLine): TranscriptLocation =>
+    line.physicalPage ? { page: line.page, line: line.line, physicalPage: true } : { page: line.page, line: line.line };
+
+  const open = (type: TestimonySegment['type'], speaker: string, text: string, at: TranscriptLine) => {
+    current = {
+      type,
+      speaker,
+      text,
+      start: locate(at),
+      end: locate(at),
+      citation: '',
+    };
+    segments.push(current);
+  };
+
+  for (const line of lines) {
+    const turn = line.text.match(TURN_PATTERN);
+    if (turn) {
+      const isQuestion = turn[1] === 'Q';
+      open(isQuestion ? 'question' : 'answer', isQuestion ? examiner : witness, turn[2], line);
+      continue;
+    }
+
+    const speaker = line.text.match(SPEAKER_PATTERN);
+    if (speaker) {
+      const name = speaker[2].replace(/\s+/g, ' ');
+      if (speaker[1]) {
+        // "BY MR. SMITH:" names the examining attorney for the Q. turns that follow
+        examiner = name;
+        current = null;
+        if (speaker[3]) open('colloquy', name, speaker[3], line);
+        continue;
+      }
+      open(name === 'THE WITNESS' ? 'answer' : 'colloquy', name === 'THE WITNESS' ? witness : name, speaker[3], line);
+      continue;
+    }
+
+    // Continuation of the current turn; text before the first turn is front matter and is skipped
+    const segment = current as TestimonySegment | null;
+    if (segment) {
+      segment.text = segment.text ? `${segment.text} ${line.text}` : line.text;
+      segment.end = locate(line);
+    }
+  }
+
+  for (const segment of segments) {
+    segment.citation = formatCitation(segment.start, segment.end);
+  }
+
+  const pageCount = lines.length > 0 ? new Set(lines.map(line => line.page)).size : 0;
+  return { lines, segments, pageCount };
+}
+
+// Render transcript lines with their page:line address so the LLM can cite them
+export function formatTranscriptForPrompt(transcript: ParsedTranscript): string {
+  return transcript.lines.map(line => `[${formatCitation(line)}] ${line.text}`).join('\n');
+}
+
+function normalize(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+// Find the page:line range where an excerpt appears, matching loosely on words.
+// Falls back to the excerpt's opening words so paraphrased endings still resolve.
+export function findCitation(transcript: ParsedTranscript, excerpt: string): string | undefined {
+  const target = normalize(excerpt);
+  if (!target || transcript.lines.length === 0) return undefined;
+
+  // Join all lines into one normalized string, remembering which line each offset came from
+  let joined = '';
+  const lineStarts: number[] = [];
+  for (const line of transcript.lines) {
+    const text = normalize(line.text.replace(TURN_PATTERN, '$2'));
+    lineStarts.push(joined.length);
+    joined += `${text} `;
+  }
+
+  const candidates = [target, target.split(' ').slice(0, 8).join(' ')];
+  for (const candidate of candidates) {
+    if (candidate.split(' ').length < 3) continue;
+    const index = joined.indexOf(candidate);
+    if (index === -1) continue;
+
+    const lineAt = (offset: number) => {
+      let lineIndex = 0;
+      while (lineIndex + 1 < lineStarts.length && lineStarts[lineIndex + 1] <= offset) lineIndex += 1;
+      return transcript.lines[lineIndex];
+    };
+    const first = lineAt(index);
+    const last = lineAt(index + candidate.length - 1);
+    return formatCitation(first, last);
+  }
+
+  return undefined;
+}
+
+// Check that a citation points at lines that exist in the transcript
+export function isValidCitation(transcript: ParsedTranscript, citation: string): boolean {
+  const range = parseCitation(citation);
+  if (!range) return false;
+
+  const exists = (location: TranscriptLocation) =>
+    transcript.lines.some(line => line.page === location.page
+      && line.line === location.line
+      && Boolean(line.physicalPage) === Boolean(location.physicalPage));
+  return exists(range.start) && exists(range.end);
+}
@@ -0,0 +1,120 @@
+// Transcription of spoken practice answers via the Case.dev Voice API
+// Recordings are stored in the session's vault and the transcription job is pointed at the
+// object's download URL. Jobs are polled from the recordings routes; when PUBLIC_APP_URL is set
+// the Voice API also calls the recording's webhook route as soon as the transcript is ready.
+
+import { createTranscription, getTranscriptionStatus, getVaultObject } from './case-api';
+import { getSession, updateRecording } from './session-store';
+import { SessionRecording, TranscriptUtterance, TranscriptWord } from './types';
+
+export interface TranscriptionResult {
+  status: 'processing' | 'completed' | 'error';
+  text?: string;
+  utterances?: TranscriptUtterance[];
+  words?: TranscriptWord[];
+  error?: string;
+}
+
+// Recordings need the Voice API and a vault to hold the audio
+export function isTranscriptionEnabled(): boolean {
+  return Boolean(process.env.CASEDEV_API_KEY);
+}
+
+// Webhook for a recording's transcription job; undefined unless PUBLIC_APP_URL is set
+export function getTranscriptionWebhookUrl(sessionId: string, recordingId: string): string | undefined {
+  const baseUrl = process.env.PUBLIC_APP_URL;
+  if (!baseUrl) return undefined;
+  return `${baseUrl.replace(/\/+$/, '')}/api/sessions/${sessionId}/recordings/${recordingId}/webhook`;
+}
+
+export async function getRecordingDownloadUrl(vaultId: string, objectId: string): Promise<string> {
+  const object = await getVaultObject(vaultId, objectId);
+  const url = object?.downloadUrl;
+  if (!url) {
+    throw new Error('Vault API did not return a download URL for the recording');
+  }
+  return String(url);
+}
+
+export async function startTranscription(audioUrl: string, webhookUrl?: string): Promise<string> {
+  // Keep the "um"s and "uh"s for delivery analytics
+  const job = await createTranscription(audioUrl, { speaker_labels: true, disfluencies: true, webhook_url: webhookUrl });
+  if (!job?.id) {
+    throw new Error('Voice API did not return a transcription ID');
+  }
+  return String(job.id);
+}
+
+function parseUtterances(value: unknown): TranscriptUtterance[] {
+  if (!Array.isArray(value)) return [];
+  return value
+    .map(item => {
+      const utterance = (item || {}) as Record<string, unknown>;
+      return {
+        speaker: String(utterance.speaker ?? 'A'),
+        text: String(utterance.text ?? '').trim(),
+        start: typeof utterance.start === 'number' ? utterance.start : undefined,
+        end: typeof utterance.end === 'number' ? utterance.end : undefined,
+      };
+    })
+    .filter(utterance => utterance.text);
+}
+
+function parseWords(value: unknown): TranscriptWord[] {
+  if (!Array.isArray(value)) return [];
+  return value
+    .map(item => {
+      const word = (item || {}) as Record<string, unknown>;
+      return {
+        text: String(word.text ?? '').trim(),
+        start: Number(word.start),
+        end: Number(word.end),
+        speaker: typeof word.speaker === 'string' ? word.speaker : undefined,
+      };
+    })
+    .filter(word => word.text && Number.isFinite(word.start) && Number.isFinite(word.end));
+}
+
+export async function checkTranscription(transcriptionId: string): Promise<TranscriptionResult> {
+  const job = await getTranscriptionStatus(transcriptionId);
+  const status = String(job?.status || 'processing');
+
+  if (status === 'error' || status === 'failed') {
+    return { status: 'error', error: String(job?.error || 'Transcription failed.') };
+  }
+
+  if (status !== 'completed') {
+    return { status: 'processing' };
+  }
+
+  const utterances = parseUtterances(job?.utterances);
+  const text = String(job?.text || utterances.map(utterance => utterance.text).join(' ')).trim();
+  if (!text) {
+    return { status: 'error', error: 'No speech was found in the recording.' };
+  }
+
+  return { status: 'completed', text, utterances, words: parseWords(job?.words) };
+}
+
+// Check a processing recording's job and store the transcript once it is done
+export async function refreshRecording(sessionId: string, recordingId: string): Promise<SessionRecording | undefined> {
+  const recording = getSession(sessionId)?.recordings?.find(r => r.id === recordingId);
+  if (!recording || recording.status !== 'processing' || !recording.transcriptionId) return recording;
+
+  try {
+    const result = await checkTranscription(recording.transcriptionId);
+    if (result.status === 'processing') return recording;
+
+    const updated = updateRecording(sessionId, recordingId, {
+      status: result.status,
+      transcription: result.text,
+      utterances: result.utterances,
+      words: result.words,
+      error: result.error,
+    });
+    return updated?.recordings?.find(r => r.id === recordingId);
+  } catch (voiceError) {
+    console.error('Failed to check transcription status:', voiceError);
+    return recording;
+  }
+}
@@ -1,5 +1,10 @@
 // Core types for Testimony Prep Tool
 
+export interface DocumentPage {
+  pageNumber: number;
+  text: string;
+}
+
 export interface Document {
   id: string;
   name: string;
@@ -7,19 +12,32 @@ export interface Document {
   size: number;
   uploadedAt: Date;
   objectId?: string;
+  vaultId?: string; // Vault holding objectId; documents saved before this was recorded use the session's
+  vaultCheckFailures?: number; // Failed processing status checks in a row
   content?: string;
+  pages?: DocumentPage[];
   status: 'uploading' | 'processing' | 'ready' | 'error';
+  error?: string;
 }
 
+// Cross is asked by opposing counsel; direct and redirect by the witness's own counsel
+export type ExaminationMode = 'cross' | 'direct' | 'redirect';
+
+// Practice questions for any examination mode; the name predates direct and redirect
 export interface CrossExamQuestion {
   id: string;
   question: string;
-  category: 'timeline' | 'credibility' | 'inconsistency' | 'foundation' | 'impeachment' | 'general';
+  // Cross-examination categories, then the direct/redirect categories
+  category: 'timeline' | 'credibility' | 'inconsistency' | 'foundation' | 'impeachment' | 'general'
+    | 'background' | 'narrative' | 'exhibits' | 'rehabilitation';
   difficulty: 'easy' | 'medium' | 'hard';
   suggestedApproach?: string;
   weakPoint?: string;
   followUpQuestions?: string[];
   documentReference?: string;
+  sourceChunkIds?: string[]; // Retrieval chunks the question was generated from
+  locked?: boolean; // Kept as-is when the question set is regenerated
+  mode?: ExaminationMode; // Absent means cross
 }
 
 export interface PracticeSession {
@@ -27,14 +45,31 @@ export interface PracticeSession {
   witnessName: string;
   caseName: string;
   createdAt: Date;
+  vaultId?: string;
   documents: Document[];
   questions: CrossExamQuestion[];
   status: 'setup' | 'generating' | 'ready' | 'practicing' | 'completed';
+  generationOptions?: QuestionGenerationOptions; // Settings used for the last generation
+  examinerSettings?: ExaminerSettings; // Practice examiner; the professional persona when unset
+  examinationMode?: ExaminationMode; // Mode being generated and practiced; cross when unset
   practiceHistory: PracticeExchange[];
+  practiceRound?: number; // Current practice round, starting at 1
   totalDuration: number;
   recordingUrl?: string;
+  recordings?: SessionRecording[]; // Spoken practice answers and their transcriptions
+  consistencyReport?: ConsistencyReport; // Last consistency check of the witness's answers
+}
+
+// Rubric dimensions for a witness answer, each scored from 1 (poor) to 5 (strong)
+export type RubricDimension = 'responsiveness' | 'volunteering' | 'documentConsistency' | 'certainty' | 'composure' | 'length';
+
+export interface RubricScore {
+  score: number;
+  explanation: string;
 }
 
+export type AnswerRubric = Record<RubricDimension, RubricScore>;
+
 export interface PracticeExchange {
   id: string;
   questionId: string;
@@ -42,31 +77,156 @@ export interface PracticeExchange {
   witnessResponse: string;
   aiFollowUp?: string;
   feedback?: string;
+  weaknessIdentified?: string;
+  suggestedImprovement?: string;
+  rubric?: AnswerRubric;
+  sourceChunkIds?: string[]; // Retrieval chunks the examiner cited
+  parentExchangeId?: string; // Set when this answers the examiner's follow-up from that exchange
+  depth?: number; // 0 (or absent) for a scripted question, 1+ for follow-ups
+  round?: number; // Practice round the answer was given in; absent means round 1
+  mode?: ExaminationMode; // Mode of the question answered; absent means cross
+  recordingId?: string; // Set when the answer was spoken and transcribed
+  delivery?: DeliveryMetrics;
+  objections?: ObjectionRuling; // Defending counsel's review of the question, made before the witness answered
+  usedFallback?: boolean; // The examiner's reply was unreadable, so the follow-up and feedback are stock text
   timestamp: Date;
   duration: number;
 }
 
+export type ObjectionType = 'compound' | 'assumes_facts' | 'argumentative' | 'asked_and_answered' | 'speculation' | 'form';
+
+export interface Objection {
+  type: ObjectionType;
+  grounds: string; // What makes the question objectionable
+}
+
+// Defending counsel's review of one examiner question
+export interface ObjectionRuling {
+  question: string;
+  objections: Objection[]; // Empty when the question is proper
+  pauseGuidance: string; // What the witness should do before answering
+}
+
+// How an answer was delivered; timing metrics are only set for spoken answers with word timings
+export interface DeliveryMetrics {
+  source: 'spoken' | 'typed';
+  wordCount: number;
+  wordsPerMinute?: number;
+  fillerCount: number;
+  fillers: Record<string, number>; // Filler word or phrase -> times used
+  hedgeCount: number;
+  hedges: Record<string, number>;
+  timeToFirstWord?: number; // Seconds from the question appearing to the first spoken word
+  longPauses?: number; // Gaps between words of at least LONG_PAUSE_MS
+  longestPause?: number; // Seconds
+  questionComplexity: 'simple' | 'moderate' | 'complex';
+  expectedWords: number; // Answer length the question calls for
+  lengthRatio: number; // wordCount / expectedWords
+}
+
+// One side of a consistency issue: a witness answer, or a passage from a session document
+export interface ConsistencySource {
+  exchangeId?: string; // Set for answers
+  answerNumber?: number; // 1-based position in the practice history
+  question?: string;
+  documentId?: string; // Set for documents
+  documentName?: string;
+  page?: number;
+  chunkId?: string;
+  quote: string;
+  quoteVerified: boolean; // The quote was found in the answer or document text
+}
+
+export interface ConsistencyIssue {
+  id: string;
+  type: 'answer_vs_answer' | 'answer_vs_document';
+  description: string;
+  severity: 'minor' | 'moderate' | 'significant';
+  statement: ConsistencySource; // Always a witness answer
+  conflictsWith: ConsistencySource; // Another answer or a document
+  suggestion?: string;
+}
+
+// A factual claim the witness made in one answer
+export interface WitnessAssertion {
+  exchangeId: string;
+  answerNumber: number;
+  claim: string;
+}
+
+export interface ConsistencyReport {
+  generatedAt: Date;
+  answersChecked: number; // Answers sent to the model
+  answersOmitted: number; // Earlier answers left out once a session runs past the per-check limit
+  historyLength: number; // Practice history length when the check ran
+  assertions: WitnessAssertion[];
+  issues: ConsistencyIssue[];
+  sourceChunkIds?: string[];
+}
+
+// One speaker turn in a transcription; speakers are labelled A, B, ... by the Voice API
+export interface TranscriptUtterance {
+  speaker: string;
+  text: string;
+  start?: number; // Milliseconds from the start of the recording
+  end?: number;
+}
+
+// One transcribed word with its timing
+export interface TranscriptWord {
+  text: string;
+  start: number; // Milliseconds from the start of the recording
+  end: number;
+  speaker?: string;
+}
+
 export interface SessionRecording {
   id: string;
   sessionId: string;
+  questionId?: string; // Question on screen when the answer was recorded
+  exchangeId?: string; // Practice exchange the transcript was submitted as
+  objectId?: string; // Vault object holding the audio
+  vaultId?: string; // Vault holding objectId
   audioUrl?: string;
+  transcriptionId?: string;
   transcription?: string;
+  utterances?: TranscriptUtterance[];
+  words?: TranscriptWord[];
   status: 'recording' | 'processing' | 'completed' | 'error';
+  error?: string;
   startedAt: Date;
   endedAt?: Date;
 }
 
-export interface QuestionGenerationRequest {
-  documents: { name: string; content: string }[];
-  witnessName: string;
-  caseName: string;
-  witnessRole?: string;
-  focusAreas?: string[];
+export type WitnessRole = 'fact' | 'expert' | 'party' | 'corporate_representative';
+
+// Relative weights per category or difficulty; the server turns them into question counts
+export type CategoryMix = Partial<Record<CrossExamQuestion['category'], number>>;
+export type DifficultyMix = Partial<Record<CrossExamQuestion['difficulty'], number>>;
+
+export interface QuestionGenerationOptions {
+  questionCount: number;
+  witnessRole: WitnessRole;
+  focusAreas: string[];
+  categoryMix?: CategoryMix; // Default: about a quarter general, the rest document-specific
+  difficultyMix?: DifficultyMix; // Default: no constraint
 }
 
+export type ExaminerPersonaId = 'professional' | 'courteous' | 'aggressive' | 'methodical';
+
+export interface ExaminerSettings {
+  persona: ExaminerPersonaId;
+  hostility: number; // 1 (cordial) to 5 (very hostile)
+}
+
+// replace: the new questions replace the list; append: they are added after it, minus near-duplicates
+export type QuestionGenerationMode = 'replace' | 'append';
+
 export interface AIExaminerResponse {
   followUp?: string;
   feedback?: string;
   weaknessIdentified?: string;
   suggestedImprovement?: string;
+  rubric?: AnswerRubric;
+  sourceChunkIds?: string[];
 }
@@ -0,0 +1,121 @@
+// Vault ingestion pipeline shared by the testimony and deposition document routes
+// Each session owns a vault. Uploaded files are sent to the vault with auto_index so
+// scanned documents get OCR'd; routes poll processing status until the text is ready.
+// Every object records the vault it went to, so polling never depends on the session's
+// current vaultId, and documents whose status checks keep failing are marked as errors.
+
+import { createVault, getUploadUrl, uploadToS3, getVaultObject, getVaultObjectText } from './case-api';
+import { joinPages } from './text-extraction';
+import { DocumentPage } from './types';
+
+export interface VaultProcessingResult {
+  status: 'processing' | 'ready' | 'error';
+  content?: string;
+  pages?: DocumentPage[];
+  error?: string;
+}
+
+// Vault ingestion runs whenever an API key is configured, unless VAULT_INGESTION=off
+export function isVaultIngestionEnabled(): boolean {
+  return Boolean(process.env.CASEDEV_API_KEY) && process.env.VAULT_INGESTION !== 'off';
+}
+
+// Consecutive failed status checks before a processing document is marked as an error
+export const MAX_VAULT_CHECK_FAILURES = 5;
+
+// Vault creations in flight, by session ID
+const pendingVaults: Map<string, Promise<string>> = new Map();
+
+export async function createSessionVault(name: string, description?: string): Promise<string> {
+  const vault = await createVault(name, description);
+  if (!vault?.id) {
+    throw new Error('Vault API did not return a vault ID');
+  }
+  return vault.id;
+}
+
+// The session's vault, created on first use. Uploads that arrive together share one creation
+// instead of each creating a vault and overwriting the session's vaultId.
+export async function ensureSessionVault(
+  sessionId: string,
+  vault: {
+    getVaultId: () => string | undefined;
+    saveVaultId: (vaultId: string) => void;
+    name: string;
+    description?: string;
+  }
+): Promise<string> {
+  const existing = vault.getVaultId();
+  if (existing) return existing;
+
+  let pending = pendingVaults.get(sessionId);
+  if (!pending) {
+    pending = createSessionVault(vault.name, vault.description)
+      .then(vaultId => {
+        vault.saveVaultId(vaultId);
+        return vaultId;
+      })
+      .finally(() => pendingVaults.delete(sessionId));
+    pendingVaults.set(sessionId, pending);
+  }
+  return pending;
+}
+
+// Updates after a status check threw: count it, and give up once checks keep failing
+export function getVaultCheckFailureUpdates(failures: number | undefined): {
+  vaultCheckFailures: number;
+  status?: 'error';
+  error?: string;
+} {
+  const vaultCheckFailures = (failures || 0) + 1;
+  return vaultCheckFailures < MAX_VAULT_CHECK_FAILURES
+    ? { vaultCheckFailures }
+    : { vaultCheckFailures, status: 'error', error: 'Could not get the document\'s processing status from the vault. Upload it again.' };
+}
+
+// Upload a file to the vault with auto-indexing and return its object ID
+export async function uploadToVault(vaultId: string, file: File, metadata?: Record<string, unknown>): Promise<string> {
+  const contentType = file.type || 'application/octet-stream';
+  const upload = await getUploadUrl(vaultId, file.name, contentType, metadata);
+  if (!upload?.objectId || !upload?.uploadUrl) {
+    throw new Error('Vault API did not return an upload URL');
+  }
+
+  await uploadToS3(upload.uploadUrl, await file.arrayBuffer(), contentType);
+  return upload.objectId;
+}
+
+// Split vault text into pages on form feeds, which the OCR output uses as page separators
+function splitPages(text: string): DocumentPage[] {
+  return text
+    .split('\f')
+    .map(pageText => pageText.trim())
+    .filter(pageText => pageText.length > 0)
+    .map((pageText, index) => ({ pageNumber: index + 1, text: pageText }));
+}
+
+// Check an object's ingestion status and fetch its OCR'd text once processing completes
+export async function checkVaultProcessing(vaultId: string, objectId: string): Promise<VaultProcessingResult> {
+  const object = await getVaultObject(vaultId, objectId);
+  const ingestionStatus = String(object?.ingestionStatus || 'processing');
+
+  if (ingestionStatus === 'failed') {
+    return { status: 'error', error: 'Vault processing failed. The file could not be OCR\'d.' };
+  }
+
+  if (ingestionStatus !== 'completed') {
+    return { status: 'processing' };
+  }
+
+  const { text } = await getVaultObjectText(vaultId, objectId);
+  const pages = splitPages(String(text || ''));
+  if (pages.length === 0) {
+    return { status: 'error', error: 'No text found in document after OCR.' };
+  }
+
+  return {
+    status: 'ready',
+    content: joinPages(pages),
+    pages,
+  };
+}